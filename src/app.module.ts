@@ -1,5 +1,6 @@
 import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
+import { ScheduleModule } from "@nestjs/schedule";
 import { ThrottlerModule } from "@nestjs/throttler";
 import { ConfigModule, ConfigService } from "@nestjs/config";
 
@@ -8,6 +9,8 @@ import { AppController } from "./app.controller";
 import { HealthModule } from "./health/health.module";
 import { AuthModule } from "./modules/auth/auth.module";
 import { BlogPostModule } from "./modules/blog/blog.module";
+import { MediaModule } from "./modules/media/media.module";
+import { SitemapModule } from "./modules/sitemap/sitemap.module";
 import { ContactModule } from "./modules/contact/contact.module";
 import { AdministratorModule } from "./modules/admin/admin.module";
 
@@ -54,11 +57,16 @@ import { AdministratorModule } from "./modules/admin/admin.module";
             },
         ]),
 
+        // In-process scheduler (scheduled publishing of blog posts)
+        ScheduleModule.forRoot(),
+
         HealthModule,
         ContactModule,
         AdministratorModule,
         AuthModule,
         BlogPostModule,
+        MediaModule,
+        SitemapModule,
     ],
     controllers: [AppController],
     providers: [AppService]
@@ -80,6 +88,8 @@ export class AppModule {
         console.log("   ✅ AdministratorModule");
         console.log("   ✅ AuthModule");
         console.log("   ✅ BlogPostModule (new)");
+        console.log(`   ✅ MediaModule (${this.configService.get("MEDIA_STORAGE_DRIVER") || "local"} storage)`);
+        console.log("   ✅ SitemapModule");
         console.log("🚀 ================================");
     }
 };
\ No newline at end of file
@@ -0,0 +1,13 @@
+import "dotenv/config";
+import { DataSource } from "typeorm";
+
+// Standalone data source used by the TypeORM CLI (see the migration:* scripts in package.json)
+export default new DataSource({
+    type: "postgres",
+    url: process.env.DATABASE_URL,
+    ssl: process.env.NODE_ENV === "production" ? { rejectUnauthorized: false } : false,
+    entities: [__dirname + "/**/*.entity{.ts,.js}"],
+    migrations: [__dirname + "/migrations/*{.ts,.js}"],
+    synchronize: false,
+    logging: process.env.NODE_ENV === "development",
+});
@@ -6,6 +6,7 @@ import { ConfigService } from "@nestjs/config";
 import { ValidationPipe } from "@nestjs/common";
 import { Request, Response, NextFunction } from "express";
 import { SwaggerModule, DocumentBuilder } from "@nestjs/swagger";
+import { NestExpressApplication } from "@nestjs/platform-express";
 
 // Extend Express Request interface to include ip property
 interface ExtendedRequest extends Request {
@@ -16,12 +17,19 @@ async function bootstrap() {
     try {
         console.log("🚀 Starting AITHENA Backend...");
 
-        const app = await NestFactory.create(AppModule, {
+        const app = await NestFactory.create<NestExpressApplication>(AppModule, {
             logger: ["error", "warn", "log", "debug", "verbose"],
         });
 
         const configService = app.get(ConfigService);
 
+        // Behind a load balancer or CDN, set TRUST_PROXY (e.g. "1" or "loopback") so req.ip is the
+        // visitor's address; view tracking uses it to tell visitors apart
+        const trustProxy = configService.get<string>("TRUST_PROXY");
+        if (trustProxy) {
+            app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === "true" || trustProxy);
+        }
+
         // Configure payload size limits for image uploads
         app.use(express.json({ 
             limit: "10mb",
@@ -100,8 +108,10 @@ async function bootstrap() {
             maxAge: 86400,
         });
 
-        // Set global prefix for API routes
-        app.setGlobalPrefix("api");
+        // Set global prefix for API routes; crawler files stay at the site root
+        app.setGlobalPrefix("api", {
+            exclude: ["sitemap.xml", "sitemap-:page.xml", "robots.txt"],
+        });
 
         // Configure global validation with transformation
         app.useGlobalPipes(
@@ -170,10 +180,10 @@ async function bootstrap() {
                     The AITHENA API documentation including Blog, Contact, and Admin modules.
                     
                     📸 Image Upload Support:
-                    - Maximum file size: 10MB (original)
+                    - Multipart uploads to /api/media, maximum file size: 10MB
                     - Supported formats: JPEG, PNG, GIF, WebP
-                    - Automatic compression applied on frontend
-                    - Images stored as base64 in database
+                    - Files kept on local disk or S3-compatible storage
+                    - Posts reference images by media ID
                     
                     📋 Blog Features:
                     - Rich text editor with image support
@@ -195,6 +205,7 @@ async function bootstrap() {
                     "JWT-auth",
                 )
                 .addTag("Blog", "Blog post management with image upload support")
+                .addTag("Media", "Media library uploads and file streaming")
                 .addTag("Admin", "Administrative functions")
                 .addTag("Health", "System health checks")
                 .build();
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogPostRevisions1792310400000 implements MigrationInterface {
+    name = "CreateBlogPostRevisions1792310400000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_revisions" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "post_id" uuid NOT NULL,
+                "revision_number" integer NOT NULL,
+                "title" character varying(200) NOT NULL,
+                "content" text NOT NULL,
+                "excerpt" character varying(500),
+                "categories" json NOT NULL DEFAULT '["newsroom"]',
+                "featured_image" character varying(2048),
+                "uploaded_image" text,
+                "uploaded_image_filename" character varying(255),
+                "uploaded_image_content_type" character varying(100),
+                "editor_id" uuid,
+                "restored_from_id" uuid,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_blog_post_revisions_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_blog_post_revisions_post_number" ON "blog_post_revisions" ("post_id", "revision_number")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" ADD CONSTRAINT "FK_blog_post_revisions_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" ADD CONSTRAINT "FK_blog_post_revisions_editor" FOREIGN KEY ("editor_id") REFERENCES "administrators"("id") ON DELETE SET NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" DROP CONSTRAINT "FK_blog_post_revisions_editor"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" DROP CONSTRAINT "FK_blog_post_revisions_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_revisions_post_number"`);
+        await queryRunner.query(`DROP TABLE "blog_post_revisions"`);
+    }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddBlogPostScheduling1792396800000 implements MigrationInterface {
+    name = "AddBlogPostScheduling1792396800000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "scheduled_publish_at" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "expires_at" TIMESTAMP`);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_scheduled_publish_at" ON "blog_posts" ("scheduled_publish_at") WHERE "scheduled_publish_at" IS NOT NULL`);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_expires_at" ON "blog_posts" ("expires_at") WHERE "expires_at" IS NOT NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_expires_at"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_scheduled_publish_at"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "expires_at"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "scheduled_publish_at"`);
+    }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddBlogPostFullTextSearch1792483200000 implements MigrationInterface {
+    name = "AddBlogPostFullTextSearch1792483200000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Title outranks excerpt, which outranks content; HTML tags are stripped from content before indexing
+        await queryRunner.query(`
+            ALTER TABLE "blog_posts" ADD "search_vector" tsvector GENERATED ALWAYS AS (
+                setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+                setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') ||
+                setweight(to_tsvector('english', regexp_replace(coalesce("content", ''), '<[^>]+>', ' ', 'g')), 'C')
+            ) STORED
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_search_vector" ON "blog_posts" USING GIN ("search_vector")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_search_vector"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "search_vector"`);
+    }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogTags1792569600000 implements MigrationInterface {
+    name = "CreateBlogTags1792569600000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_tags" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "name" character varying(50) NOT NULL,
+                "slug" character varying(60) NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_blog_tags_slug" UNIQUE ("slug"),
+                CONSTRAINT "PK_blog_tags_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_tags" (
+                "post_id" uuid NOT NULL,
+                "tag_id" uuid NOT NULL,
+                CONSTRAINT "PK_blog_post_tags" PRIMARY KEY ("post_id", "tag_id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_tags_tag_id" ON "blog_post_tags" ("tag_id")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_tags" ADD CONSTRAINT "FK_blog_post_tags_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_post_tags" ADD CONSTRAINT "FK_blog_post_tags_tag" FOREIGN KEY ("tag_id") REFERENCES "blog_tags"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_tags" DROP CONSTRAINT "FK_blog_post_tags_tag"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_tags" DROP CONSTRAINT "FK_blog_post_tags_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_tags_tag_id"`);
+        await queryRunner.query(`DROP TABLE "blog_post_tags"`);
+        await queryRunner.query(`DROP TABLE "blog_tags"`);
+    }
+}
@@ -0,0 +1,86 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogCategories1792656000000 implements MigrationInterface {
+    name = "CreateBlogCategories1792656000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_categories" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "slug" character varying(100) NOT NULL,
+                "name" character varying(100) NOT NULL,
+                "description" character varying(500),
+                "sort_order" integer NOT NULL DEFAULT 0,
+                "is_active" boolean NOT NULL DEFAULT true,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_blog_categories_slug" UNIQUE ("slug"),
+                CONSTRAINT "PK_blog_categories_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        // The four categories that used to be hard-coded in the BlogCategory enum
+        await queryRunner.query(`
+            INSERT INTO "blog_categories" ("slug", "name", "sort_order") VALUES
+                ('newsroom', 'Newsroom', 0),
+                ('thought-pieces', 'Thought Pieces', 1),
+                ('achievements', 'Achievements', 2),
+                ('awards-recognition', 'Awards & Recognition', 3)
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_categories" (
+                "post_id" uuid NOT NULL,
+                "category_id" uuid NOT NULL,
+                CONSTRAINT "PK_blog_post_categories" PRIMARY KEY ("post_id", "category_id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_categories_category_id" ON "blog_post_categories" ("category_id")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_categories" ADD CONSTRAINT "FK_blog_post_categories_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_post_categories" ADD CONSTRAINT "FK_blog_post_categories_category" FOREIGN KEY ("category_id") REFERENCES "blog_categories"("id") ON DELETE CASCADE`);
+
+        // Copy the JSON category arrays into the join table, ignoring unknown values
+        await queryRunner.query(`
+            INSERT INTO "blog_post_categories" ("post_id", "category_id")
+            SELECT p."id", c."id"
+            FROM "blog_posts" p
+            CROSS JOIN LATERAL json_array_elements_text(p."categories") AS cat("slug")
+            INNER JOIN "blog_categories" c ON c."slug" = cat."slug"
+            ON CONFLICT DO NOTHING
+        `);
+
+        // Posts left without a valid category fall back to newsroom, as the old response mapping did
+        await queryRunner.query(`
+            INSERT INTO "blog_post_categories" ("post_id", "category_id")
+            SELECT p."id", c."id"
+            FROM "blog_posts" p
+            INNER JOIN "blog_categories" c ON c."slug" = 'newsroom'
+            WHERE NOT EXISTS (SELECT 1 FROM "blog_post_categories" bpc WHERE bpc."post_id" = p."id")
+        `);
+
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "categories"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" ALTER COLUMN "categories" SET DEFAULT '[]'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" ALTER COLUMN "categories" SET DEFAULT '["newsroom"]'`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "categories" json NOT NULL DEFAULT '["newsroom"]'`);
+        await queryRunner.query(`
+            UPDATE "blog_posts" p
+            SET "categories" = sub."categories"
+            FROM (
+                SELECT bpc."post_id", json_agg(c."slug" ORDER BY c."sort_order", c."slug") AS "categories"
+                FROM "blog_post_categories" bpc
+                INNER JOIN "blog_categories" c ON c."id" = bpc."category_id"
+                GROUP BY bpc."post_id"
+            ) sub
+            WHERE sub."post_id" = p."id"
+        `);
+
+        await queryRunner.query(`ALTER TABLE "blog_post_categories" DROP CONSTRAINT "FK_blog_post_categories_category"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_categories" DROP CONSTRAINT "FK_blog_post_categories_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_categories_category_id"`);
+        await queryRunner.query(`DROP TABLE "blog_post_categories"`);
+        await queryRunner.query(`DROP TABLE "blog_categories"`);
+    }
+}
@@ -0,0 +1,246 @@
+import * as path from "path";
+import { Readable } from "stream";
+import { createHash, randomUUID } from "crypto";
+import { promises as fs, createReadStream } from "fs";
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+
+// Copies of the media helpers as they were when this migration was written, so later changes to
+// the application code cannot change what it does on a fresh database
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+    "image/jpeg": ".jpg",
+    "image/png": ".png",
+    "image/gif": ".gif",
+    "image/webp": ".webp",
+};
+
+interface MigrationStorage {
+    readonly driver: string;
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<Readable>;
+}
+
+// The storage drivers as configured by MEDIA_STORAGE_DRIVER and friends, reduced to what this migration needs
+function createStorage(): MigrationStorage {
+    const driver = (process.env.MEDIA_STORAGE_DRIVER || "local").toLowerCase();
+
+    if (driver === "local") {
+        const root = path.resolve(process.env.MEDIA_LOCAL_PATH || "uploads/media");
+        return {
+            driver,
+            put: async (key, body) => {
+                const filePath = path.join(root, key);
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(filePath, body);
+            },
+            get: key => Promise.resolve(createReadStream(path.join(root, key))),
+        };
+    }
+
+    if (driver === "s3") {
+        const bucket = process.env.S3_BUCKET;
+        if (!bucket) {
+            throw new Error("S3_BUCKET must be set when MEDIA_STORAGE_DRIVER is s3");
+        }
+
+        const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+        const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+        const client = new S3Client({
+            region: process.env.S3_REGION || "us-east-1",
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+            credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+        });
+
+        return {
+            driver,
+            put: async (key, body, contentType) => {
+                await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+            },
+            get: async key => (await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }))).Body as Readable,
+        };
+    }
+
+    throw new Error(`Unknown MEDIA_STORAGE_DRIVER "${driver}", expected "local" or "s3"`);
+}
+
+function normalizeContentType(contentType: string | null): string | null {
+    const normalized = (contentType || "").split(";")[0].trim().toLowerCase();
+    if (normalized === "image/jpg") {
+        return "image/jpeg";
+    }
+    return CONTENT_TYPE_EXTENSIONS[normalized] ? normalized : null;
+}
+
+// Bare base64 or a `data:<type>;base64,` URI; null when nothing decodable is left
+function decodeBase64Image(value: string, fallbackContentType: string | null): { buffer: Buffer; contentType: string | null } | null {
+    if (!value || typeof value !== "string") {
+        return null;
+    }
+
+    const dataUri = /^data:([^;,]+)(?:;[^,]*)?;base64,/i.exec(value);
+    const payload = dataUri ? value.slice(dataUri[0].length) : value;
+    const buffer = Buffer.from(payload.replace(/\s+/g, ""), "base64");
+
+    if (buffer.length === 0) {
+        return null;
+    }
+
+    return {
+        buffer,
+        contentType: normalizeContentType(dataUri ? dataUri[1] : fallbackContentType),
+    };
+}
+
+function buildStorageKey(id: string, contentType: string): string {
+    const date = new Date();
+    const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+    return `${date.getUTCFullYear()}/${month}/${id}${CONTENT_TYPE_EXTENSIONS[contentType] || ""}`;
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Moves the base64 images stored on blog_posts (and their revisions) into the media library.
+ * Files are written with the storage driver configured in the environment, so run this with
+ * the same MEDIA_* / S3_* settings as the application. Files are not removed if the migration
+ * fails part way, they are simply unreferenced.
+ */
+export class CreateMediaLibrary1792742400000 implements MigrationInterface {
+    name = "CreateMediaLibrary1792742400000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "media" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "filename" character varying(255) NOT NULL,
+                "content_type" character varying(100) NOT NULL,
+                "size" integer NOT NULL,
+                "checksum" character varying(64) NOT NULL,
+                "storage_driver" character varying(20) NOT NULL,
+                "storage_key" character varying(500) NOT NULL,
+                "uploaded_by_id" uuid,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_media_storage_key" UNIQUE ("storage_key"),
+                CONSTRAINT "PK_media_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`ALTER TABLE "media" ADD CONSTRAINT "FK_media_uploaded_by" FOREIGN KEY ("uploaded_by_id") REFERENCES "administrators"("id") ON DELETE SET NULL`);
+
+        for (const table of ["blog_posts", "blog_post_revisions"]) {
+            await queryRunner.query(`ALTER TABLE "${table}" ADD "featured_media_id" uuid`);
+            await queryRunner.query(`ALTER TABLE "${table}" ADD CONSTRAINT "FK_${table}_featured_media" FOREIGN KEY ("featured_media_id") REFERENCES "media"("id") ON DELETE SET NULL`);
+        }
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_featured_media_id" ON "blog_posts" ("featured_media_id")`);
+
+        const storage = createStorage();
+        // Revisions usually repeat the post's image, so identical files are stored once
+        const mediaByChecksum = new Map<string, string>();
+
+        for (const table of ["blog_posts", "blog_post_revisions"]) {
+            const rows: { id: string }[] = await queryRunner.query(
+                `SELECT "id" FROM "${table}" WHERE "uploaded_image" IS NOT NULL AND "uploaded_image" <> ''`
+            );
+
+            // Images are fetched one row at a time to keep memory flat on large tables
+            for (const { id } of rows) {
+                const [row] = await queryRunner.query(
+                    `SELECT "uploaded_image", "uploaded_image_filename", "uploaded_image_content_type" FROM "${table}" WHERE "id" = $1`,
+                    [id]
+                );
+                const mediaId = await this.moveImage(queryRunner, storage, mediaByChecksum, row);
+
+                if (mediaId) {
+                    await queryRunner.query(`UPDATE "${table}" SET "featured_media_id" = $1 WHERE "id" = $2`, [mediaId, id]);
+                } else {
+                    console.warn(`⚠️ Skipping unreadable image on ${table} ${id}`);
+                }
+            }
+        }
+
+        for (const table of ["blog_posts", "blog_post_revisions"]) {
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "uploaded_image"`);
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "uploaded_image_filename"`);
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "uploaded_image_content_type"`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        for (const table of ["blog_posts", "blog_post_revisions"]) {
+            await queryRunner.query(`ALTER TABLE "${table}" ADD "uploaded_image" text`);
+            await queryRunner.query(`ALTER TABLE "${table}" ADD "uploaded_image_filename" character varying(255)`);
+            await queryRunner.query(`ALTER TABLE "${table}" ADD "uploaded_image_content_type" character varying(100)`);
+        }
+
+        const storage = createStorage();
+        const media: { id: string; filename: string; content_type: string; storage_key: string }[] = await queryRunner.query(
+            `SELECT "id", "filename", "content_type", "storage_key" FROM "media"
+             WHERE "id" IN (SELECT "featured_media_id" FROM "blog_posts" UNION SELECT "featured_media_id" FROM "blog_post_revisions")`
+        );
+
+        for (const item of media) {
+            const data = (await readAll(await storage.get(item.storage_key))).toString("base64");
+            for (const table of ["blog_posts", "blog_post_revisions"]) {
+                await queryRunner.query(
+                    `UPDATE "${table}" SET "uploaded_image" = $1, "uploaded_image_filename" = $2, "uploaded_image_content_type" = $3 WHERE "featured_media_id" = $4`,
+                    [data, item.filename, item.content_type, item.id]
+                );
+            }
+        }
+
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_featured_media_id"`);
+        for (const table of ["blog_posts", "blog_post_revisions"]) {
+            await queryRunner.query(`ALTER TABLE "${table}" DROP CONSTRAINT "FK_${table}_featured_media"`);
+            await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "featured_media_id"`);
+        }
+
+        // Stored files are left in place; they are harmless once the table is gone
+        await queryRunner.query(`ALTER TABLE "media" DROP CONSTRAINT "FK_media_uploaded_by"`);
+        await queryRunner.query(`DROP TABLE "media"`);
+    }
+
+    private async moveImage(
+        queryRunner: QueryRunner,
+        storage: MigrationStorage,
+        mediaByChecksum: Map<string, string>,
+        row: { uploaded_image: string; uploaded_image_filename: string | null; uploaded_image_content_type: string | null },
+    ): Promise<string | null> {
+        const decoded = decodeBase64Image(row.uploaded_image, row.uploaded_image_content_type);
+        if (!decoded) {
+            return null;
+        }
+
+        const checksum = createHash("sha256").update(decoded.buffer).digest("hex");
+        const existing = mediaByChecksum.get(checksum);
+        if (existing) {
+            return existing;
+        }
+
+        // Rows without a recognisable content type are stored as JPEG
+        const contentType = decoded.contentType || "image/jpeg";
+        const storageKey = buildStorageKey(randomUUID(), contentType);
+        await storage.put(storageKey, decoded.buffer, contentType);
+
+        const [{ id }] = await queryRunner.query(
+            `INSERT INTO "media" ("filename", "content_type", "size", "checksum", "storage_driver", "storage_key")
+             VALUES ($1, $2, $3, $4, $5, $6) RETURNING "id"`,
+            [
+                (row.uploaded_image_filename || `image${contentType.replace("image/", ".")}`).slice(0, 255),
+                contentType,
+                decoded.buffer.length,
+                checksum,
+                storage.driver,
+                storageKey,
+            ]
+        );
+
+        mediaByChecksum.set(checksum, id);
+        return id;
+    }
+}
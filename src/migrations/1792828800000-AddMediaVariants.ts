@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddMediaVariants1792828800000 implements MigrationInterface {
+    name = "AddMediaVariants1792828800000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "width" integer`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "height" integer`);
+        await queryRunner.query(`
+            CREATE TABLE "media_variants" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "media_id" uuid NOT NULL,
+                "name" character varying(20) NOT NULL,
+                "content_type" character varying(100) NOT NULL,
+                "width" integer NOT NULL,
+                "height" integer NOT NULL,
+                "size" integer NOT NULL,
+                "storage_key" character varying(500) NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_media_variants_storage_key" UNIQUE ("storage_key"),
+                CONSTRAINT "PK_media_variants_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_media_variants_media_name_type" ON "media_variants" ("media_id", "name", "content_type")`);
+        await queryRunner.query(`ALTER TABLE "media_variants" ADD CONSTRAINT "FK_media_variants_media" FOREIGN KEY ("media_id") REFERENCES "media"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media_variants" DROP CONSTRAINT "FK_media_variants_media"`);
+        await queryRunner.query(`DROP INDEX "IDX_media_variants_media_name_type"`);
+        await queryRunner.query(`DROP TABLE "media_variants"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "height"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "width"`);
+    }
+}
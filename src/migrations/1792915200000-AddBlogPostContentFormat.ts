@@ -0,0 +1,99 @@
+import * as sanitizeHtml from "sanitize-html";
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+// The allow-list as it was when this migration was written; the application's own copy may change,
+// but what this migration does on a fresh database must not
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [
+        "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr", "blockquote", "pre", "code",
+        "ul", "ol", "li", "dl", "dt", "dd", "strong", "b", "em", "i", "u", "s", "del", "ins",
+        "sub", "sup", "mark", "small", "abbr", "cite", "q", "kbd", "span", "div",
+        "a", "img", "figure", "figcaption",
+        "table", "thead", "tbody", "tfoot", "tr", "th", "td", "caption",
+    ],
+    allowedAttributes: {
+        a: ["href", "name", "title", "target", "rel"],
+        img: ["src", "alt", "title", "width", "height", "loading"],
+        code: ["class"],
+        th: ["colspan", "rowspan", "scope"],
+        td: ["colspan", "rowspan"],
+        ol: ["start", "reversed"],
+        abbr: ["title"],
+    },
+    // Only syntax highlighting hints survive, e.g. the "language-ts" class markdown adds to fences
+    allowedClasses: {
+        code: ["language-*"],
+    },
+    allowedSchemes: ["http", "https", "mailto"],
+    allowedSchemesByTag: {
+        img: ["http", "https"],
+    },
+    allowProtocolRelative: false,
+    transformTags: {
+        // Links opening a new tab must not get a handle on this window
+        a: (tagName, attribs) => ({
+            tagName,
+            attribs: attribs.target === "_blank"
+                ? { ...attribs, rel: "noopener noreferrer" }
+                : attribs,
+        }),
+    },
+};
+
+/**
+ * Adds content_format and the rendered content_html column, and sanitizes every existing post
+ * with the allow-list the application applied on write at the time. Existing posts are all HTML.
+ * Revisions are left as they were; restoring one goes through the sanitizer again.
+ */
+export class AddBlogPostContentFormat1792915200000 implements MigrationInterface {
+    name = "AddBlogPostContentFormat1792915200000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "content_format" character varying(16) NOT NULL DEFAULT 'html'`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "content_html" text`);
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" ADD "content_format" character varying(16) NOT NULL DEFAULT 'html'`);
+
+        const posts: { id: string; content: string }[] = await queryRunner.query(`SELECT "id", "content" FROM "blog_posts"`);
+        for (const post of posts) {
+            const sanitized = sanitizeHtml(post.content || "", SANITIZE_OPTIONS).trim();
+            await queryRunner.query(
+                `UPDATE "blog_posts" SET "content" = $1, "content_html" = $1 WHERE "id" = $2`,
+                [sanitized, post.id]
+            );
+        }
+
+        await queryRunner.query(`ALTER TABLE "blog_posts" ALTER COLUMN "content_html" SET NOT NULL`);
+
+        // Index what readers see, so Markdown syntax never ends up in search results
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_search_vector"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "search_vector"`);
+        await queryRunner.query(`
+            ALTER TABLE "blog_posts" ADD "search_vector" tsvector GENERATED ALWAYS AS (
+                setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+                setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') ||
+                setweight(to_tsvector('english', regexp_replace(coalesce("content_html", ''), '<[^>]+>', ' ', 'g')), 'C')
+            ) STORED
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_search_vector" ON "blog_posts" USING GIN ("search_vector")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Markdown posts keep their rendered HTML; Markdown revisions and the stripped markup are not converted back
+        await queryRunner.query(`UPDATE "blog_posts" SET "content" = "content_html" WHERE "content_format" = 'markdown'`);
+
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_search_vector"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "search_vector"`);
+        await queryRunner.query(`
+            ALTER TABLE "blog_posts" ADD "search_vector" tsvector GENERATED ALWAYS AS (
+                setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+                setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') ||
+                setweight(to_tsvector('english', regexp_replace(coalesce("content", ''), '<[^>]+>', ' ', 'g')), 'C')
+            ) STORED
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_search_vector" ON "blog_posts" USING GIN ("search_vector")`);
+
+        await queryRunner.query(`ALTER TABLE "blog_post_revisions" DROP COLUMN "content_format"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "content_html"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "content_format"`);
+    }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogPostRelatedPins1793001600000 implements MigrationInterface {
+    name = "CreateBlogPostRelatedPins1793001600000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_related_pins" (
+                "post_id" uuid NOT NULL,
+                "related_post_id" uuid NOT NULL,
+                "position" integer NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_blog_post_related_pins" PRIMARY KEY ("post_id", "related_post_id"),
+                CONSTRAINT "CHK_blog_post_related_pins_self" CHECK ("post_id" <> "related_post_id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_related_pins_related_post_id" ON "blog_post_related_pins" ("related_post_id")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_related_pins" ADD CONSTRAINT "FK_blog_post_related_pins_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_post_related_pins" ADD CONSTRAINT "FK_blog_post_related_pins_related_post" FOREIGN KEY ("related_post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_related_pins" DROP CONSTRAINT "FK_blog_post_related_pins_related_post"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_related_pins" DROP CONSTRAINT "FK_blog_post_related_pins_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_related_pins_related_post_id"`);
+        await queryRunner.query(`DROP TABLE "blog_post_related_pins"`);
+    }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogSeries1793088000000 implements MigrationInterface {
+    name = "CreateBlogSeries1793088000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_series" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "title" character varying(200) NOT NULL,
+                "slug" character varying(255) NOT NULL,
+                "description" character varying(1000),
+                "cover_media_id" uuid,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_blog_series_slug" UNIQUE ("slug"),
+                CONSTRAINT "PK_blog_series_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`ALTER TABLE "blog_series" ADD CONSTRAINT "FK_blog_series_cover_media" FOREIGN KEY ("cover_media_id") REFERENCES "media"("id") ON DELETE SET NULL`);
+
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "series_id" uuid`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "series_position" integer`);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_series" ON "blog_posts" ("series_id", "series_position")`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD CONSTRAINT "FK_blog_posts_series" FOREIGN KEY ("series_id") REFERENCES "blog_series"("id") ON DELETE SET NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP CONSTRAINT "FK_blog_posts_series"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_series"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "series_position"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "series_id"`);
+        await queryRunner.query(`ALTER TABLE "blog_series" DROP CONSTRAINT "FK_blog_series_cover_media"`);
+        await queryRunner.query(`DROP TABLE "blog_series"`);
+    }
+}
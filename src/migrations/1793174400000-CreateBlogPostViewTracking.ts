@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogPostViewTracking1793174400000 implements MigrationInterface {
+    name = "CreateBlogPostViewTracking1793174400000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_view_events" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "post_id" uuid NOT NULL,
+                "visitor_hash" character varying(64) NOT NULL,
+                "referrer_host" character varying(255),
+                "utm_source" character varying(100),
+                "utm_medium" character varying(100),
+                "utm_campaign" character varying(100),
+                "viewed_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_blog_post_view_events_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_view_events_dedup" ON "blog_post_view_events" ("post_id", "visitor_hash", "viewed_at")`);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_view_events_viewed_at" ON "blog_post_view_events" ("viewed_at")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_view_events" ADD CONSTRAINT "FK_blog_post_view_events_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+
+        await queryRunner.query(`
+            CREATE TABLE "post_view_stats" (
+                "post_id" uuid NOT NULL,
+                "day" date NOT NULL,
+                "views" integer NOT NULL DEFAULT 0,
+                "unique_visitors" integer NOT NULL DEFAULT 0,
+                CONSTRAINT "PK_post_view_stats" PRIMARY KEY ("post_id", "day")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_post_view_stats_day" ON "post_view_stats" ("day")`);
+        await queryRunner.query(`ALTER TABLE "post_view_stats" ADD CONSTRAINT "FK_post_view_stats_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "post_view_stats" DROP CONSTRAINT "FK_post_view_stats_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_post_view_stats_day"`);
+        await queryRunner.query(`DROP TABLE "post_view_stats"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_view_events" DROP CONSTRAINT "FK_blog_post_view_events_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_view_events_viewed_at"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_view_events_dedup"`);
+        await queryRunner.query(`DROP TABLE "blog_post_view_events"`);
+    }
+}
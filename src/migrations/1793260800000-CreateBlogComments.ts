@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogComments1793260800000 implements MigrationInterface {
+    name = "CreateBlogComments1793260800000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "comments_enabled" boolean NOT NULL DEFAULT true`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "comment_count" integer NOT NULL DEFAULT 0`);
+
+        await queryRunner.query(`
+            CREATE TABLE "blog_comments" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "post_id" uuid NOT NULL,
+                "parent_id" uuid,
+                "depth" integer NOT NULL DEFAULT 0,
+                "author_name" character varying(100) NOT NULL,
+                "author_email" character varying(255) NOT NULL,
+                "content" text NOT NULL,
+                "status" character varying(16) NOT NULL DEFAULT 'pending',
+                "moderated_at" TIMESTAMP,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_blog_comments_id" PRIMARY KEY ("id"),
+                CONSTRAINT "CHK_blog_comments_status" CHECK ("status" IN ('pending', 'approved', 'spam', 'rejected'))
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_comments_post_status" ON "blog_comments" ("post_id", "status", "created_at")`);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_comments_status" ON "blog_comments" ("status", "created_at")`);
+        await queryRunner.query(`ALTER TABLE "blog_comments" ADD CONSTRAINT "FK_blog_comments_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_comments" ADD CONSTRAINT "FK_blog_comments_parent" FOREIGN KEY ("parent_id") REFERENCES "blog_comments"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_comments" DROP CONSTRAINT "FK_blog_comments_parent"`);
+        await queryRunner.query(`ALTER TABLE "blog_comments" DROP CONSTRAINT "FK_blog_comments_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_comments_status"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_comments_post_status"`);
+        await queryRunner.query(`DROP TABLE "blog_comments"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "comment_count"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "comments_enabled"`);
+    }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogPostTranslations1793347200000 implements MigrationInterface {
+    name = "CreateBlogPostTranslations1793347200000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_translations" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "post_id" uuid NOT NULL,
+                "locale" character varying(10) NOT NULL,
+                "title" character varying(200) NOT NULL,
+                "slug" character varying(255) NOT NULL,
+                "content" text NOT NULL,
+                "content_format" character varying(16) NOT NULL DEFAULT 'html',
+                "content_html" text NOT NULL,
+                "excerpt" character varying(500),
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_blog_post_translations_slug" UNIQUE ("slug"),
+                CONSTRAINT "PK_blog_post_translations_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_blog_post_translations_post_locale" ON "blog_post_translations" ("post_id", "locale")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_translations" ADD CONSTRAINT "FK_blog_post_translations_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_translations" DROP CONSTRAINT "FK_blog_post_translations_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_translations_post_locale"`);
+        await queryRunner.query(`DROP TABLE "blog_post_translations"`);
+    }
+}
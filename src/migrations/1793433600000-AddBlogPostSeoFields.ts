@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddBlogPostSeoFields1793433600000 implements MigrationInterface {
+    name = "AddBlogPostSeoFields1793433600000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "meta_title" character varying(70)`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "meta_description" character varying(160)`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "canonical_url" character varying(2048)`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "noindex" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "social_image_media_id" uuid`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD CONSTRAINT "FK_blog_posts_social_image_media" FOREIGN KEY ("social_image_media_id") REFERENCES "media"("id") ON DELETE SET NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP CONSTRAINT "FK_blog_posts_social_image_media"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "social_image_media_id"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "noindex"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "canonical_url"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "meta_description"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "meta_title"`);
+    }
+}
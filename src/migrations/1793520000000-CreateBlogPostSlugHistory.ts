@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogPostSlugHistory1793520000000 implements MigrationInterface {
+    name = "CreateBlogPostSlugHistory1793520000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_slug_history" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "post_id" uuid NOT NULL,
+                "slug" character varying(255) NOT NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_blog_post_slug_history_slug" UNIQUE ("slug"),
+                CONSTRAINT "PK_blog_post_slug_history_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_slug_history_post" ON "blog_post_slug_history" ("post_id")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_slug_history" ADD CONSTRAINT "FK_blog_post_slug_history_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "slug_locked" boolean NOT NULL DEFAULT false`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "slug_locked"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_slug_history" DROP CONSTRAINT "FK_blog_post_slug_history_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_slug_history_post"`);
+        await queryRunner.query(`DROP TABLE "blog_post_slug_history"`);
+    }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddBlogPostSoftDelete1793606400000 implements MigrationInterface {
+    name = "AddBlogPostSoftDelete1793606400000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "deleted_at" TIMESTAMP`);
+        // Only trashed rows are indexed, for the trash listing and the retention purge
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_deleted_at" ON "blog_posts" ("deleted_at") WHERE "deleted_at" IS NOT NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_deleted_at"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "deleted_at"`);
+    }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogPostPreviewTokens1793692800000 implements MigrationInterface {
+    name = "CreateBlogPostPreviewTokens1793692800000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_preview_tokens" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "post_id" uuid NOT NULL,
+                "label" character varying(100),
+                "expires_at" TIMESTAMP NOT NULL,
+                "revoked_at" TIMESTAMP,
+                "access_count" integer NOT NULL DEFAULT 0,
+                "last_accessed_at" TIMESTAMP,
+                "created_by_id" uuid,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_blog_post_preview_tokens_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_preview_tokens_post" ON "blog_post_preview_tokens" ("post_id")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_preview_tokens" ADD CONSTRAINT "FK_blog_post_preview_tokens_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_post_preview_tokens" ADD CONSTRAINT "FK_blog_post_preview_tokens_created_by" FOREIGN KEY ("created_by_id") REFERENCES "administrators"("id") ON DELETE SET NULL`);
+
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_preview_access_log" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "token_id" uuid NOT NULL,
+                "ip" character varying(45),
+                "user_agent" character varying(500),
+                "accessed_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_blog_post_preview_access_log_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_preview_access_log_token" ON "blog_post_preview_access_log" ("token_id", "accessed_at")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_preview_access_log" ADD CONSTRAINT "FK_blog_post_preview_access_log_token" FOREIGN KEY ("token_id") REFERENCES "blog_post_preview_tokens"("id") ON DELETE CASCADE`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_preview_access_log" DROP CONSTRAINT "FK_blog_post_preview_access_log_token"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_preview_access_log_token"`);
+        await queryRunner.query(`DROP TABLE "blog_post_preview_access_log"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_preview_tokens" DROP CONSTRAINT "FK_blog_post_preview_tokens_created_by"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_preview_tokens" DROP CONSTRAINT "FK_blog_post_preview_tokens_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_preview_tokens_post"`);
+        await queryRunner.query(`DROP TABLE "blog_post_preview_tokens"`);
+    }
+}
@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddBlogPostReviewWorkflow1793779200000 implements MigrationInterface {
+    name = "AddBlogPostReviewWorkflow1793779200000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "administrators" ADD "can_override_review" boolean NOT NULL DEFAULT false`);
+
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "review_status" character varying(20) NOT NULL DEFAULT 'draft'`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "reviewer_id" uuid`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD "review_requested_at" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" ADD CONSTRAINT "FK_blog_posts_reviewer" FOREIGN KEY ("reviewer_id") REFERENCES "administrators"("id") ON DELETE SET NULL`);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_posts_review_queue" ON "blog_posts" ("review_status", "review_requested_at")`);
+
+        // Live posts count as published; posts already scheduled were signed off before the workflow existed
+        await queryRunner.query(`UPDATE "blog_posts" SET "review_status" = 'published' WHERE "is_published" = true`);
+        await queryRunner.query(`UPDATE "blog_posts" SET "review_status" = 'approved' WHERE "is_published" = false AND "scheduled_publish_at" IS NOT NULL`);
+
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_review_events" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "post_id" uuid NOT NULL,
+                "action" character varying(20) NOT NULL,
+                "from_status" character varying(20) NOT NULL,
+                "to_status" character varying(20) NOT NULL,
+                "actor_id" uuid,
+                "reviewer_id" uuid,
+                "comment" text,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_blog_post_review_events_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_review_events_post" ON "blog_post_review_events" ("post_id", "created_at")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_review_events" ADD CONSTRAINT "FK_blog_post_review_events_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_post_review_events" ADD CONSTRAINT "FK_blog_post_review_events_actor" FOREIGN KEY ("actor_id") REFERENCES "administrators"("id") ON DELETE SET NULL`);
+        await queryRunner.query(`ALTER TABLE "blog_post_review_events" ADD CONSTRAINT "FK_blog_post_review_events_reviewer" FOREIGN KEY ("reviewer_id") REFERENCES "administrators"("id") ON DELETE SET NULL`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_review_events" DROP CONSTRAINT "FK_blog_post_review_events_reviewer"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_review_events" DROP CONSTRAINT "FK_blog_post_review_events_actor"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_review_events" DROP CONSTRAINT "FK_blog_post_review_events_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_review_events_post"`);
+        await queryRunner.query(`DROP TABLE "blog_post_review_events"`);
+
+        await queryRunner.query(`DROP INDEX "IDX_blog_posts_review_queue"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP CONSTRAINT "FK_blog_posts_reviewer"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "review_requested_at"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "reviewer_id"`);
+        await queryRunner.query(`ALTER TABLE "blog_posts" DROP COLUMN "review_status"`);
+
+        await queryRunner.query(`ALTER TABLE "administrators" DROP COLUMN "can_override_review"`);
+    }
+}
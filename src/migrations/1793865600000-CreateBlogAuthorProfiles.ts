@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateBlogAuthorProfiles1793865600000 implements MigrationInterface {
+    name = "CreateBlogAuthorProfiles1793865600000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "blog_author_profiles" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "administrator_id" uuid,
+                "slug" character varying(120) NOT NULL,
+                "display_name" character varying(100) NOT NULL,
+                "bio" text,
+                "role_title" character varying(100),
+                "avatar_media_id" uuid,
+                "social_links" jsonb NOT NULL DEFAULT '[]',
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_blog_author_profiles_slug" UNIQUE ("slug"),
+                CONSTRAINT "UQ_blog_author_profiles_administrator" UNIQUE ("administrator_id"),
+                CONSTRAINT "PK_blog_author_profiles_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`ALTER TABLE "blog_author_profiles" ADD CONSTRAINT "FK_blog_author_profiles_administrator" FOREIGN KEY ("administrator_id") REFERENCES "administrators"("id") ON DELETE SET NULL`);
+        await queryRunner.query(`ALTER TABLE "blog_author_profiles" ADD CONSTRAINT "FK_blog_author_profiles_avatar_media" FOREIGN KEY ("avatar_media_id") REFERENCES "media"("id") ON DELETE SET NULL`);
+
+        await queryRunner.query(`
+            CREATE TABLE "blog_post_authors" (
+                "post_id" uuid NOT NULL,
+                "profile_id" uuid NOT NULL,
+                "position" integer NOT NULL,
+                CONSTRAINT "PK_blog_post_authors" PRIMARY KEY ("post_id", "profile_id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_authors_profile" ON "blog_post_authors" ("profile_id")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_authors" ADD CONSTRAINT "FK_blog_post_authors_post" FOREIGN KEY ("post_id") REFERENCES "blog_posts"("id") ON DELETE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "blog_post_authors" ADD CONSTRAINT "FK_blog_post_authors_profile" FOREIGN KEY ("profile_id") REFERENCES "blog_author_profiles"("id") ON DELETE CASCADE`);
+
+        // Every administrator who wrote a post gets a profile named after them; clashing slugs get -1, -2, ... like in the app
+        await queryRunner.query(`
+            INSERT INTO "blog_author_profiles" ("administrator_id", "slug", "display_name")
+            SELECT "id",
+                   CASE WHEN "duplicate" = 0 THEN "base_slug" ELSE "base_slug" || '-' || "duplicate" END,
+                   "display_name"
+            FROM (
+                SELECT "id", "display_name", "base_slug",
+                       row_number() OVER (PARTITION BY "base_slug" ORDER BY "created_at", "id") - 1 AS "duplicate"
+                FROM (
+                    SELECT a."id", a."created_at",
+                           COALESCE(NULLIF(TRIM(a."first_name" || ' ' || a."last_name"), ''), 'Author') AS "display_name",
+                           COALESCE(NULLIF(TRIM(BOTH '-' FROM regexp_replace(lower(a."first_name" || ' ' || a."last_name"), '[^a-z0-9]+', '-', 'g')), ''), 'author') AS "base_slug"
+                    FROM "administrators" a
+                    WHERE EXISTS (SELECT 1 FROM "blog_posts" p WHERE p."author_id" = a."id")
+                ) AS "named"
+            ) AS "ranked"
+        `);
+        await queryRunner.query(`
+            INSERT INTO "blog_post_authors" ("post_id", "profile_id", "position")
+            SELECT p."id", pr."id", 1
+            FROM "blog_posts" p
+            INNER JOIN "blog_author_profiles" pr ON pr."administrator_id" = p."author_id"
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_authors" DROP CONSTRAINT "FK_blog_post_authors_profile"`);
+        await queryRunner.query(`ALTER TABLE "blog_post_authors" DROP CONSTRAINT "FK_blog_post_authors_post"`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_authors_profile"`);
+        await queryRunner.query(`DROP TABLE "blog_post_authors"`);
+        await queryRunner.query(`ALTER TABLE "blog_author_profiles" DROP CONSTRAINT "FK_blog_author_profiles_avatar_media"`);
+        await queryRunner.query(`ALTER TABLE "blog_author_profiles" DROP CONSTRAINT "FK_blog_author_profiles_administrator"`);
+        await queryRunner.query(`DROP TABLE "blog_author_profiles"`);
+    }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Replaces the look-up-then-insert view dedup with a unique index, so concurrent views by the
+ * same visitor count once. Existing events keep a null bucket, which the index ignores.
+ */
+export class AddBlogPostViewDedupBucket1793952000000 implements MigrationInterface {
+    name = "AddBlogPostViewDedupBucket1793952000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "blog_post_view_events" ADD "dedup_bucket" integer`);
+        await queryRunner.query(`DROP INDEX "IDX_blog_post_view_events_dedup"`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_blog_post_view_events_dedup" ON "blog_post_view_events" ("post_id", "visitor_hash", "dedup_bucket")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "UQ_blog_post_view_events_dedup"`);
+        await queryRunner.query(`CREATE INDEX "IDX_blog_post_view_events_dedup" ON "blog_post_view_events" ("post_id", "visitor_hash", "viewed_at")`);
+        await queryRunner.query(`ALTER TABLE "blog_post_view_events" DROP COLUMN "dedup_bucket"`);
+    }
+}
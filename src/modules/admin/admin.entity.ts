@@ -23,6 +23,10 @@ export class Administrator {
     @Column({ default: true })
     is_active: boolean;
 
+    // Lets the administrator publish blog posts that have not been approved in review; granted in the database only
+    @Column({ default: false })
+    can_override_review: boolean;
+
     @CreateDateColumn({ name: "created_at" })
     created_at: Date;
 
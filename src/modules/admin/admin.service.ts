@@ -130,6 +130,14 @@ export class AdministratorService {
         }
     }
 
+    async canOverrideReview(id: string): Promise<boolean> {
+        const administrator = await this.administratorRepository.findOne({
+            where: { id, is_active: true },
+            select: ["id", "can_override_review"]
+        });
+        return !!administrator?.can_override_review;
+    }
+
     async count(): Promise<number> {
         return await this.administratorRepository.count({
             where: { is_active: true }
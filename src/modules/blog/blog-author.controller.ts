@@ -0,0 +1,165 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Body, Patch, Param, Delete, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseGuards, Logger } from "@nestjs/common";
+
+import { BlogAuthorService } from "./blog-author.service";
+import { CreateBlogAuthorDTO, UpdateBlogAuthorDTO, BlogAuthorListResponseDTO, BlogAuthorPublicListResponseDTO, BlogAuthorSingleResponseDTO } from "./blog-author.dto";
+
+// The public author page, GET /blog/authors/:slug, is served by BlogPostController with the other post listings
+@ApiTags("Blog Authors")
+@Controller("blog/authors")
+export class BlogAuthorController {
+    private readonly logger = new Logger(BlogAuthorController.name);
+
+    constructor(
+        private readonly authorService: BlogAuthorService
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: "Get all author profiles (Public)" })
+    @ApiResponse({
+        status: 200,
+        description: "Author profiles retrieved successfully",
+        type: BlogAuthorPublicListResponseDTO
+    })
+    async findAll(): Promise<BlogAuthorPublicListResponseDTO> {
+        try {
+            const authors = await this.authorService.findAll();
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Author profiles retrieved successfully",
+                data: authors,
+                count: authors.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving author profiles: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("all")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get all author profiles with the administrator accounts behind them (Admin only)" })
+    @ApiResponse({
+        status: 200,
+        description: "Author profiles retrieved successfully",
+        type: BlogAuthorListResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async findAllForAdmin(): Promise<BlogAuthorListResponseDTO> {
+        try {
+            const authors = await this.authorService.findAllForAdmin();
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Author profiles retrieved successfully",
+                data: authors,
+                count: authors.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving author profiles: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post()
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.CREATED)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Create an author profile, for an administrator or a guest author (Admin only)" })
+    @ApiBody({ type: CreateBlogAuthorDTO })
+    @ApiResponse({
+        status: 201,
+        description: "Author profile created successfully",
+        type: BlogAuthorSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid profile, unknown avatar or administrator" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 409, description: "Slug taken, or the administrator already has a profile" })
+    async create(
+        @Body() createBlogAuthorDTO: CreateBlogAuthorDTO
+    ): Promise<BlogAuthorSingleResponseDTO> {
+        try {
+            const author = await this.authorService.create(createBlogAuthorDTO);
+
+            return {
+                status_code: HttpStatus.CREATED,
+                message: "Author profile created successfully",
+                data: author,
+            };
+        } catch (error) {
+            this.logger.error(`Error creating author profile: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Patch(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Update an author profile (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Author profile UUID" })
+    @ApiBody({ type: UpdateBlogAuthorDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Author profile updated successfully",
+        type: BlogAuthorSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid profile, unknown avatar or administrator" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Author profile not found" })
+    @ApiResponse({ status: 409, description: "Slug taken, or the administrator already has a profile" })
+    async update(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() updateBlogAuthorDTO: UpdateBlogAuthorDTO
+    ): Promise<BlogAuthorSingleResponseDTO> {
+        try {
+            const author = await this.authorService.update(id, updateBlogAuthorDTO);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Author profile updated successfully",
+                data: author,
+            };
+        } catch (error) {
+            this.logger.error(`Error updating author profile: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Delete an author profile and remove it from bylines (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Author profile UUID" })
+    @ApiResponse({ status: 200, description: "Author profile deleted successfully" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Author profile not found" })
+    @ApiResponse({ status: 409, description: "Profile is the only author of a post" })
+    async remove(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            const result = await this.authorService.remove(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error deleting author profile: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,217 @@
+import { Transform, Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString, IsNotEmpty, IsOptional, MaxLength, Matches, IsUUID, IsArray, ArrayMaxSize, IsUrl, ValidateNested } from "class-validator";
+
+import { BlogPostResponseDTO } from "./blog.dto";
+import { MediaResponseDTO } from "../media/media.dto";
+import { AUTHOR_MAX_SOCIAL_LINKS } from "./blog-author.util";
+
+export class BlogAuthorSocialLinkDTO {
+    @ApiProperty({ description: "Name of the site, e.g. Mastodon or GitHub", maxLength: 50 })
+    @IsString({ message: "Social link label must be a string" })
+    @IsNotEmpty({ message: "Social link label is required" })
+    @MaxLength(50, { message: "Social link label must be less than 50 characters" })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() : value)
+    label: string;
+
+    @ApiProperty({ description: "Absolute URL of the profile", maxLength: 2048 })
+    @IsUrl({ protocols: ["http", "https"], require_protocol: true }, { message: "Social link URL must be an absolute http(s) URL" })
+    @MaxLength(2048, { message: "Social link URL must be less than 2048 characters" })
+    url: string;
+}
+
+export class CreateBlogAuthorDTO {
+    @ApiProperty({ description: "Name shown on bylines and the author page", maxLength: 100 })
+    @IsString({ message: "Display name must be a string" })
+    @IsNotEmpty({ message: "Display name is required" })
+    @MaxLength(100, { message: "Display name must be less than 100 characters" })
+    @Transform(({ value }) => value?.trim())
+    display_name: string;
+
+    @ApiPropertyOptional({ description: "URL slug; generated from the display name when omitted", maxLength: 120 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(120, { message: "Slug must be less than 120 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Short biography", maxLength: 2000 })
+    @IsOptional()
+    @IsString({ message: "Bio must be a string" })
+    @MaxLength(2000, { message: "Bio must be less than 2000 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    bio?: string;
+
+    @ApiPropertyOptional({ description: "Role shown with the name, e.g. Staff writer", maxLength: 100 })
+    @IsOptional()
+    @IsString({ message: "Role title must be a string" })
+    @MaxLength(100, { message: "Role title must be less than 100 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    role_title?: string;
+
+    @ApiPropertyOptional({ description: "ID of an uploaded avatar in the media library", nullable: true })
+    @IsOptional()
+    @IsUUID("all", { message: "Avatar media ID must be a valid UUID" })
+    avatar_media_id?: string | null;
+
+    @ApiPropertyOptional({ description: `Links to the author elsewhere (at most ${AUTHOR_MAX_SOCIAL_LINKS})`, type: [BlogAuthorSocialLinkDTO] })
+    @IsOptional()
+    @IsArray({ message: "Social links must be an array" })
+    @ArrayMaxSize(AUTHOR_MAX_SOCIAL_LINKS, { message: `Maximum ${AUTHOR_MAX_SOCIAL_LINKS} social links allowed` })
+    @ValidateNested({ each: true })
+    @Type(() => BlogAuthorSocialLinkDTO)
+    social_links?: BlogAuthorSocialLinkDTO[];
+
+    @ApiPropertyOptional({ description: "Administrator account behind the profile; omit for guest authors", nullable: true })
+    @IsOptional()
+    @IsUUID("all", { message: "Administrator ID must be a valid UUID" })
+    administrator_id?: string | null;
+}
+
+export class UpdateBlogAuthorDTO {
+    @ApiPropertyOptional({ description: "Name shown on bylines and the author page", maxLength: 100 })
+    @IsOptional()
+    @IsString({ message: "Display name must be a string" })
+    @IsNotEmpty({ message: "Display name cannot be empty" })
+    @MaxLength(100, { message: "Display name must be less than 100 characters" })
+    @Transform(({ value }) => value?.trim())
+    display_name?: string;
+
+    @ApiPropertyOptional({ description: "URL slug; changing it breaks existing author page links", maxLength: 120 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(120, { message: "Slug must be less than 120 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Short biography; null removes it", maxLength: 2000, nullable: true })
+    @IsOptional()
+    @IsString({ message: "Bio must be a string" })
+    @MaxLength(2000, { message: "Bio must be less than 2000 characters" })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    bio?: string | null;
+
+    @ApiPropertyOptional({ description: "Role shown with the name; null removes it", maxLength: 100, nullable: true })
+    @IsOptional()
+    @IsString({ message: "Role title must be a string" })
+    @MaxLength(100, { message: "Role title must be less than 100 characters" })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    role_title?: string | null;
+
+    @ApiPropertyOptional({ description: "ID of an uploaded avatar in the media library; null removes it", nullable: true })
+    @IsOptional()
+    @IsUUID("all", { message: "Avatar media ID must be a valid UUID" })
+    avatar_media_id?: string | null;
+
+    @ApiPropertyOptional({ description: `Links to the author elsewhere (at most ${AUTHOR_MAX_SOCIAL_LINKS}); replaces the current links`, type: [BlogAuthorSocialLinkDTO] })
+    @IsOptional()
+    @IsArray({ message: "Social links must be an array" })
+    @ArrayMaxSize(AUTHOR_MAX_SOCIAL_LINKS, { message: `Maximum ${AUTHOR_MAX_SOCIAL_LINKS} social links allowed` })
+    @ValidateNested({ each: true })
+    @Type(() => BlogAuthorSocialLinkDTO)
+    social_links?: BlogAuthorSocialLinkDTO[];
+
+    @ApiPropertyOptional({ description: "Administrator account behind the profile; null makes it a guest profile", nullable: true })
+    @IsOptional()
+    @IsUUID("all", { message: "Administrator ID must be a valid UUID" })
+    administrator_id?: string | null;
+}
+
+export class BlogAuthorPublicProfileDTO {
+    @ApiProperty({ description: "Author profile ID" })
+    id: string;
+
+    @ApiProperty({ description: "Author profile slug" })
+    slug: string;
+
+    @ApiProperty({ description: "Name shown on bylines" })
+    display_name: string;
+
+    @ApiProperty({ description: "Role shown with the name", nullable: true })
+    role_title: string | null;
+
+    @ApiProperty({ description: "Avatar from the media library", type: MediaResponseDTO, nullable: true })
+    avatar_media: MediaResponseDTO | null;
+
+    @ApiProperty({ description: "Short biography", nullable: true })
+    bio: string | null;
+
+    @ApiProperty({ description: "Links to the author elsewhere", type: [BlogAuthorSocialLinkDTO] })
+    social_links: BlogAuthorSocialLinkDTO[];
+}
+
+export class BlogAuthorProfileResponseDTO extends BlogAuthorPublicProfileDTO {
+    @ApiProperty({ description: "Administrator account behind the profile; null for guest authors", nullable: true })
+    administrator_id: string | null;
+
+    @ApiProperty({ description: "Avatar media ID", nullable: true })
+    avatar_media_id: string | null;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Updated date" })
+    updated_at: Date;
+}
+
+export class BlogAuthorPublicListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Author profiles by name", type: [BlogAuthorPublicProfileDTO] })
+    data: BlogAuthorPublicProfileDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogAuthorListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Author profiles by name", type: [BlogAuthorProfileResponseDTO] })
+    data: BlogAuthorProfileResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogAuthorSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Author profile", type: BlogAuthorProfileResponseDTO })
+    data: BlogAuthorProfileResponseDTO;
+}
+
+export class BlogAuthorPageResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Author profile", type: BlogAuthorPublicProfileDTO })
+    author: BlogAuthorPublicProfileDTO;
+
+    @ApiProperty({ description: "Published posts crediting the author", type: [BlogPostResponseDTO] })
+    data: BlogPostResponseDTO[];
+
+    @ApiProperty({ description: "Cursor for the next page, or null on the last page", nullable: true })
+    next_cursor: string | null;
+
+    @ApiProperty({ description: "Whether more posts follow" })
+    has_more: boolean;
+
+    @ApiProperty({ description: "Items per page" })
+    limit: number;
+}
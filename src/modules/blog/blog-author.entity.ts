@@ -0,0 +1,118 @@
+import { Entity, PrimaryGeneratedColumn, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { Media } from "../media/media.entity";
+import { Administrator } from "../admin/admin.entity";
+
+export interface BlogAuthorSocialLink {
+    label: string;
+    url: string;
+}
+
+// Public face of a writer, kept apart from the administrator account; guest authors have no account
+@Entity("blog_author_profiles")
+export class BlogAuthorProfile {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ nullable: true, unique: true, type: "uuid" })
+    administrator_id: string | null;
+
+    @ManyToOne(() => Administrator, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "administrator_id" })
+    administrator: Administrator | null;
+
+    @Column({ unique: true, type: "varchar", length: 120 })
+    slug: string;
+
+    @Column({ type: "varchar", length: 100 })
+    display_name: string;
+
+    @Column({ nullable: true, type: "text" })
+    bio: string | null;
+
+    // e.g. "Staff writer" or "Guest contributor"
+    @Column({ nullable: true, type: "varchar", length: 100 })
+    role_title: string | null;
+
+    @Column({ nullable: true, type: "uuid" })
+    avatar_media_id: string | null;
+
+    @ManyToOne(() => Media, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "avatar_media_id" })
+    avatar_media: Media | null;
+
+    @Column({ type: "jsonb", default: () => "'[]'" })
+    social_links: BlogAuthorSocialLink[];
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    @UpdateDateColumn({ name: "updated_at", type: "timestamp" })
+    updated_at: Date;
+
+    // Byline as shown on posts
+    toSummaryObject(): {
+        id: string;
+        slug: string;
+        display_name: string;
+        role_title: string | null;
+        avatar_media: ReturnType<Media["toResponseObject"]> | null;
+    } {
+        return {
+            id: this.id,
+            slug: this.slug,
+            display_name: this.display_name,
+            role_title: this.role_title,
+            avatar_media: this.avatar_media ? this.avatar_media.toResponseObject() : null,
+        };
+    }
+
+    // Public shape, as on the author page: nothing about the administrator account behind it
+    toPublicObject(): ReturnType<BlogAuthorProfile["toSummaryObject"]> & {
+        bio: string | null;
+        social_links: BlogAuthorSocialLink[];
+    } {
+        return {
+            ...this.toSummaryObject(),
+            bio: this.bio,
+            social_links: this.social_links || [],
+        };
+    }
+
+    toResponseObject(): ReturnType<BlogAuthorProfile["toPublicObject"]> & {
+        administrator_id: string | null;
+        avatar_media_id: string | null;
+        created_at: Date;
+        updated_at: Date;
+    } {
+        return {
+            ...this.toPublicObject(),
+            administrator_id: this.administrator_id,
+            avatar_media_id: this.avatar_media_id,
+            created_at: this.created_at,
+            updated_at: this.updated_at,
+        };
+    }
+}
+
+// One entry of a post's byline; position orders co-authors, starting at 1
+@Entity("blog_post_authors")
+export class BlogPostAuthor {
+    @PrimaryColumn({ type: "uuid" })
+    post_id: string;
+
+    @PrimaryColumn({ type: "uuid" })
+    profile_id: string;
+
+    @ManyToOne(() => BlogPost, post => post.authors, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    @ManyToOne(() => BlogAuthorProfile, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "profile_id" })
+    profile: BlogAuthorProfile;
+
+    @Column({ type: "integer" })
+    position: number;
+}
@@ -0,0 +1,285 @@
+import { Repository, In, EntityManager } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { MediaService } from "../media/media.service";
+import { AdministratorService } from "../admin/admin.service";
+import { AUTHOR_RESERVED_SLUGS } from "./blog-author.util";
+import { BlogAuthorProfile, BlogPostAuthor } from "./blog-author.entity";
+import { CreateBlogAuthorDTO, UpdateBlogAuthorDTO, BlogAuthorProfileResponseDTO, BlogAuthorPublicProfileDTO } from "./blog-author.dto";
+
+@Injectable()
+export class BlogAuthorService {
+    private readonly logger = new Logger(BlogAuthorService.name);
+
+    constructor(
+        @InjectRepository(BlogAuthorProfile)
+        private readonly profileRepository: Repository<BlogAuthorProfile>,
+        @InjectRepository(BlogPostAuthor)
+        private readonly bylineRepository: Repository<BlogPostAuthor>,
+        private readonly administratorService: AdministratorService,
+        private readonly mediaService: MediaService,
+    ) {}
+
+    private async findEntity(id: string): Promise<BlogAuthorProfile> {
+        const profile = await this.profileRepository.findOne({
+            where: { id },
+            relations: ["avatar_media", "avatar_media.variants"],
+        });
+
+        if (!profile) {
+            throw new NotFoundException(`Author profile with ID ${id} not found`);
+        }
+
+        return profile;
+    }
+
+    private async ensureSlugAvailable(slug: string, excludeId?: string): Promise<void> {
+        if (AUTHOR_RESERVED_SLUGS.includes(slug)) {
+            throw new ConflictException(`Author slug "${slug}" is reserved`);
+        }
+
+        const existing = await this.profileRepository.findOne({ where: { slug } });
+        if (existing && existing.id !== excludeId) {
+            throw new ConflictException(`Author profile with slug "${slug}" already exists`);
+        }
+    }
+
+    private async generateUniqueSlug(display_name: string): Promise<string> {
+        const baseSlug = BlogPost.generateSlug(display_name) || "author";
+        let slug = baseSlug;
+        let counter = 1;
+
+        while (AUTHOR_RESERVED_SLUGS.includes(slug) || await this.profileRepository.exists({ where: { slug } })) {
+            slug = `${baseSlug}-${counter}`;
+            counter++;
+        }
+
+        return slug;
+    }
+
+    private async validateAvatar(avatar_media_id: string | null | undefined): Promise<void> {
+        if (!avatar_media_id) {
+            return;
+        }
+
+        try {
+            await this.mediaService.findEntity(avatar_media_id);
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw new BadRequestException(`Avatar media ${avatar_media_id} does not exist`);
+            }
+            throw error;
+        }
+    }
+
+    // An account can back at most one profile
+    private async validateAdministrator(administrator_id: string | null | undefined, excludeId?: string): Promise<void> {
+        if (!administrator_id) {
+            return;
+        }
+
+        try {
+            await this.administratorService.findOne(administrator_id);
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw new BadRequestException(`Administrator ${administrator_id} not found`);
+            }
+            throw error;
+        }
+
+        const existing = await this.profileRepository.findOne({ where: { administrator_id } });
+        if (existing && existing.id !== excludeId) {
+            throw new ConflictException(`Administrator ${administrator_id} already has the author profile "${existing.slug}"`);
+        }
+    }
+
+    private async findProfiles(): Promise<BlogAuthorProfile[]> {
+        try {
+            return await this.profileRepository.find({
+                relations: ["avatar_media", "avatar_media.variants"],
+                order: { display_name: "ASC" },
+            });
+        } catch (error) {
+            this.logger.error(`Error finding author profiles: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve author profiles");
+        }
+    }
+
+    async findAll(): Promise<BlogAuthorPublicProfileDTO[]> {
+        const profiles = await this.findProfiles();
+        return profiles.map(profile => profile.toPublicObject());
+    }
+
+    // With the administrator accounts behind the profiles, for editors
+    async findAllForAdmin(): Promise<BlogAuthorProfileResponseDTO[]> {
+        const profiles = await this.findProfiles();
+        return profiles.map(profile => profile.toResponseObject());
+    }
+
+    async findBySlug(slug: string): Promise<BlogAuthorProfile> {
+        if (!slug || typeof slug !== "string" || slug.trim().length === 0) {
+            throw new BadRequestException("Valid author slug is required");
+        }
+
+        const profile = await this.profileRepository.findOne({
+            where: { slug: slug.trim().toLowerCase() },
+            relations: ["avatar_media", "avatar_media.variants"],
+        });
+
+        if (!profile) {
+            throw new NotFoundException(`Author with slug "${slug}" not found`);
+        }
+
+        return profile;
+    }
+
+    // Maps byline slugs from a post payload onto profiles, keeping their order
+    async resolveAuthors(slugs: string[]): Promise<BlogAuthorProfile[]> {
+        const wanted = [...new Set((slugs || []).map(slug => (typeof slug === "string" ? slug.trim().toLowerCase() : "")).filter(Boolean))];
+        if (wanted.length === 0) {
+            throw new BadRequestException("At least one author must be credited");
+        }
+
+        const profiles = await this.profileRepository.find({ where: { slug: In(wanted) } });
+        const bySlug = new Map(profiles.map(profile => [profile.slug, profile]));
+
+        const unknown = wanted.filter(slug => !bySlug.has(slug));
+        if (unknown.length > 0) {
+            throw new BadRequestException(`Unknown author profiles: ${unknown.join(", ")}`);
+        }
+
+        return wanted.map(slug => bySlug.get(slug) as BlogAuthorProfile);
+    }
+
+    // The profile of an administrator, created from their name the first time they are credited
+    async profileFor(administrator_id: string): Promise<BlogAuthorProfile> {
+        const existing = await this.profileRepository.findOne({ where: { administrator_id } });
+        if (existing) {
+            return existing;
+        }
+
+        const administrator = await this.administratorService.findOne(administrator_id);
+        const display_name = `${administrator.first_name} ${administrator.last_name}`.trim() || "Author";
+
+        const profile = await this.profileRepository.save(this.profileRepository.create({
+            administrator_id,
+            display_name,
+            slug: await this.generateUniqueSlug(display_name),
+            social_links: [],
+        }));
+        this.logger.log(`✅ Author profile ${profile.slug} created for administrator ${administrator_id}`);
+
+        return profile;
+    }
+
+    // Replaces the byline of a post; the order of `profiles` becomes the byline order
+    async setByline(post_id: string, profiles: BlogAuthorProfile[], manager: EntityManager = this.bylineRepository.manager): Promise<void> {
+        await manager.delete(BlogPostAuthor, { post_id });
+        if (profiles.length > 0) {
+            await manager.insert(BlogPostAuthor, profiles.map((profile, index) => ({
+                post_id,
+                profile_id: profile.id,
+                position: index + 1,
+            })));
+        }
+    }
+
+    async create(createBlogAuthorDTO: CreateBlogAuthorDTO): Promise<BlogAuthorProfileResponseDTO> {
+        try {
+            const { display_name, slug, bio, role_title, avatar_media_id, social_links, administrator_id } = createBlogAuthorDTO;
+            const profileSlug = slug || BlogPost.generateSlug(display_name);
+
+            if (!profileSlug) {
+                throw new BadRequestException("Display name must contain at least one letter or digit");
+            }
+
+            await this.ensureSlugAvailable(profileSlug);
+            await this.validateAvatar(avatar_media_id);
+            await this.validateAdministrator(administrator_id);
+
+            const profile = await this.profileRepository.save(this.profileRepository.create({
+                display_name,
+                slug: profileSlug,
+                bio: bio || null,
+                role_title: role_title || null,
+                avatar_media_id: avatar_media_id || null,
+                social_links: social_links || [],
+                administrator_id: administrator_id || null,
+            }));
+            this.logger.log(`✅ Author profile created with ID: ${profile.id}, slug: ${profile.slug}`);
+
+            return (await this.findEntity(profile.id)).toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error creating author profile: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to create author profile");
+        }
+    }
+
+    async update(id: string, updateBlogAuthorDTO: UpdateBlogAuthorDTO): Promise<BlogAuthorProfileResponseDTO> {
+        try {
+            const profile = await this.findEntity(id);
+
+            if (updateBlogAuthorDTO.slug && updateBlogAuthorDTO.slug !== profile.slug) {
+                await this.ensureSlugAvailable(updateBlogAuthorDTO.slug, id);
+            }
+
+            await this.validateAvatar(updateBlogAuthorDTO.avatar_media_id);
+            await this.validateAdministrator(updateBlogAuthorDTO.administrator_id, id);
+
+            Object.assign(profile, updateBlogAuthorDTO);
+            if (updateBlogAuthorDTO.avatar_media_id !== undefined) {
+                // Drop the loaded relation so TypeORM saves the new foreign key
+                profile.avatar_media = null;
+            }
+
+            await this.profileRepository.save(profile);
+            this.logger.log(`✅ Author profile updated with ID: ${id}`);
+
+            return (await this.findEntity(id)).toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error updating author profile: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to update author profile");
+        }
+    }
+
+    // Refused while the profile is the only author of a post, so no public post loses its byline
+    async remove(id: string): Promise<{ message: string }> {
+        try {
+            const profile = await this.findEntity(id);
+
+            const soleAuthorOf = await this.bylineRepository
+                .createQueryBuilder("byline")
+                .where("byline.profile_id = :id", { id })
+                .andWhere("NOT EXISTS (SELECT 1 FROM blog_post_authors other WHERE other.post_id = byline.post_id AND other.profile_id <> byline.profile_id)")
+                .getCount();
+            if (soleAuthorOf > 0) {
+                throw new ConflictException(`Author profile is the only author of ${soleAuthorOf} post(s); credit another author first`);
+            }
+
+            await this.profileRepository.remove(profile);
+            this.logger.log(`Author profile deleted with ID: ${id}`);
+
+            return { message: "Author profile deleted successfully" };
+        } catch (error) {
+            this.logger.error(`Error deleting author profile: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to delete author profile");
+        }
+    }
+}
@@ -0,0 +1,17 @@
+import { bylineNames } from "./blog-author.util";
+
+describe("blog-author.util", () => {
+    describe("bylineNames", () => {
+        const author = { first_name: "Ada", last_name: "Lovelace" };
+
+        it("credits the byline profiles in order", () => {
+            expect(bylineNames({ author, authors: [{ display_name: "Ada L." }, { display_name: "Charles Babbage" }] })).toEqual(["Ada L.", "Charles Babbage"]);
+        });
+
+        it("falls back to the owning administrator without a byline", () => {
+            expect(bylineNames({ author, authors: [] })).toEqual(["Ada Lovelace"]);
+            expect(bylineNames({ author })).toEqual(["Ada Lovelace"]);
+            expect(bylineNames({ author: null, authors: [] })).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,29 @@
+// Upper bound for the co-authors credited on one post
+export const POST_MAX_AUTHORS = 10;
+
+// Upper bound for the social links on one author profile
+export const AUTHOR_MAX_SOCIAL_LINKS = 10;
+
+// Slugs taken by routes under /blog/authors, which no profile may use
+export const AUTHOR_RESERVED_SLUGS = ["all"];
+
+// Relations that load a post's byline with avatars; add them wherever posts are turned into responses
+export const POST_AUTHOR_RELATIONS = ["authors", "authors.profile", "authors.profile.avatar_media", "authors.profile.avatar_media.variants"];
+
+interface BylinePost {
+    author?: { first_name: string; last_name: string } | null;
+    authors?: { display_name: string }[];
+}
+
+/**
+ * Names to credit a post to, for feeds and structured data: the byline profiles in order,
+ * or the owning administrator's name for posts without a byline.
+ */
+export function bylineNames(post: BylinePost): string[] {
+    if (post.authors && post.authors.length > 0) {
+        return post.authors.map(author => author.display_name);
+    }
+
+    const name = post.author ? `${post.author.first_name} ${post.author.last_name}`.trim() : "";
+    return name ? [name] : [];
+}
@@ -0,0 +1,118 @@
+import { Type, Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString, IsOptional, IsBoolean, IsIn, IsUUID, IsArray, ArrayMinSize, ArrayMaxSize, MaxLength, ValidateNested } from "class-validator";
+
+export const BULK_ACTIONS = ["publish", "unpublish", "feature", "unfeature", "set_categories", "delete"] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+export const BULK_RESULT_STATUSES = ["updated", "skipped", "not_found"] as const;
+export type BulkResultStatus = typeof BULK_RESULT_STATUSES[number];
+
+// Upper bound on the posts one request may touch, whether listed by ID or matched by a filter
+export const BULK_MAX_POSTS = 100;
+
+export class BulkBlogPostFilterDTO {
+    @ApiPropertyOptional({ description: "Full-text search term", maxLength: 200 })
+    @IsOptional()
+    @IsString({ message: "Search must be a string" })
+    @MaxLength(200, { message: "Search must be less than 200 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    search?: string;
+
+    @ApiPropertyOptional({ description: "Only published or only unpublished posts" })
+    @IsOptional()
+    @IsBoolean({ message: "Is published must be boolean" })
+    is_published?: boolean;
+
+    @ApiPropertyOptional({ description: "Only featured or only non-featured posts" })
+    @IsOptional()
+    @IsBoolean({ message: "Is featured must be boolean" })
+    is_featured?: boolean;
+
+    @ApiPropertyOptional({ description: "Only posts by this author" })
+    @IsOptional()
+    @IsUUID("all", { message: "Author ID must be a valid UUID" })
+    author_id?: string;
+
+    @ApiPropertyOptional({ description: "Posts in any of these category slugs", type: [String] })
+    @IsOptional()
+    @IsArray({ message: "Categories must be an array" })
+    @IsString({ each: true, message: "Each category must be a category slug" })
+    categories?: string[];
+
+    @ApiPropertyOptional({ description: "Posts carrying any of these tag slugs", type: [String] })
+    @IsOptional()
+    @IsArray({ message: "Tags must be an array" })
+    @IsString({ each: true, message: "Each tag must be a tag slug" })
+    tags?: string[];
+}
+
+export class BulkBlogPostActionDTO {
+    @ApiProperty({ description: "Action applied to every selected post; delete moves posts to the trash", enum: BULK_ACTIONS })
+    @IsIn(BULK_ACTIONS, { message: `Action must be one of: ${BULK_ACTIONS.join(", ")}` })
+    action: BulkAction;
+
+    @ApiPropertyOptional({ description: `IDs of the posts to change (at most ${BULK_MAX_POSTS}); mutually exclusive with filter`, type: [String] })
+    @IsOptional()
+    @IsArray({ message: "IDs must be an array" })
+    @ArrayMinSize(1, { message: "At least one ID is required" })
+    @ArrayMaxSize(BULK_MAX_POSTS, { message: `At most ${BULK_MAX_POSTS} posts can be changed at once` })
+    @IsUUID("all", { each: true, message: "Each ID must be a valid UUID" })
+    ids?: string[];
+
+    @ApiPropertyOptional({ description: `Selects posts with the same filters as the admin listing; fails if more than ${BULK_MAX_POSTS} match`, type: BulkBlogPostFilterDTO })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => BulkBlogPostFilterDTO)
+    filter?: BulkBlogPostFilterDTO;
+
+    @ApiPropertyOptional({ description: "Category slugs, required by set_categories", type: [String] })
+    @IsOptional()
+    @IsArray({ message: "Categories must be an array" })
+    @ArrayMinSize(1, { message: "At least one category must be selected" })
+    @ArrayMaxSize(4, { message: "Maximum 4 categories allowed" })
+    @IsString({ each: true, message: "Each category must be a category slug" })
+    categories?: string[];
+}
+
+export class BlogPostBulkResultDTO {
+    @ApiProperty({ description: "Blog post ID" })
+    id: string;
+
+    @ApiProperty({ description: "Outcome for this post", enum: BULK_RESULT_STATUSES })
+    status: BulkResultStatus;
+
+    @ApiPropertyOptional({ description: "Why the post was skipped or not found" })
+    message?: string;
+}
+
+export class BlogPostBulkReportDTO {
+    @ApiProperty({ description: "Action that was applied", enum: BULK_ACTIONS })
+    action: BulkAction;
+
+    @ApiProperty({ description: "Number of posts selected" })
+    total: number;
+
+    @ApiProperty({ description: "Number of posts changed" })
+    updated: number;
+
+    @ApiProperty({ description: "Number of posts the action did not apply to" })
+    skipped: number;
+
+    @ApiProperty({ description: "Number of IDs without a post" })
+    not_found: number;
+
+    @ApiProperty({ description: "Outcome per post, in request order", type: [BlogPostBulkResultDTO] })
+    results: BlogPostBulkResultDTO[];
+}
+
+export class BlogPostBulkResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Per-post report", type: BlogPostBulkReportDTO })
+    data: BlogPostBulkReportDTO;
+}
@@ -0,0 +1,160 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Body, Patch, Param, Delete, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseInterceptors, ClassSerializerInterceptor, UseGuards, Logger } from "@nestjs/common";
+
+import { BlogCategoryService } from "./blog-category.service";
+import { CreateBlogCategoryDTO, UpdateBlogCategoryDTO, BlogCategoryListResponseDTO, BlogCategorySingleResponseDTO } from "./blog-category.dto";
+
+@ApiTags("Blog Categories")
+@Controller("blog/categories")
+@UseInterceptors(ClassSerializerInterceptor)
+export class BlogCategoryController {
+    private readonly logger = new Logger(BlogCategoryController.name);
+
+    constructor(
+        private readonly categoryService: BlogCategoryService
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: "Get active categories in display order (Public)" })
+    @ApiResponse({
+        status: 200,
+        description: "Categories retrieved successfully",
+        type: BlogCategoryListResponseDTO
+    })
+    async findAll(): Promise<BlogCategoryListResponseDTO> {
+        try {
+            const categories = await this.categoryService.findAll();
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Categories retrieved successfully",
+                data: categories,
+                count: categories.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving categories: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("all")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get all categories including inactive ones (Admin only)" })
+    @ApiResponse({
+        status: 200,
+        description: "Categories retrieved successfully",
+        type: BlogCategoryListResponseDTO
+    })
+    async findAllForAdmin(): Promise<BlogCategoryListResponseDTO> {
+        try {
+            const categories = await this.categoryService.findAll(true);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Categories retrieved successfully",
+                data: categories,
+                count: categories.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving categories: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post()
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.CREATED)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Create a category (Admin only)" })
+    @ApiBody({ type: CreateBlogCategoryDTO })
+    @ApiResponse({
+        status: 201,
+        description: "Category created successfully",
+        type: BlogCategorySingleResponseDTO
+    })
+    @ApiResponse({ status: 409, description: "Category slug already exists" })
+    async create(
+        @Body() createBlogCategoryDTO: CreateBlogCategoryDTO
+    ): Promise<BlogCategorySingleResponseDTO> {
+        try {
+            const category = await this.categoryService.create(createBlogCategoryDTO);
+
+            return {
+                status_code: HttpStatus.CREATED,
+                message: "Category created successfully",
+                data: category,
+            };
+        } catch (error) {
+            this.logger.error(`Error creating category: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Patch(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Update, reorder or deactivate a category (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Category UUID" })
+    @ApiBody({ type: UpdateBlogCategoryDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Category updated successfully",
+        type: BlogCategorySingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Cannot deactivate the last active category" })
+    @ApiResponse({ status: 404, description: "Category not found" })
+    @ApiResponse({ status: 409, description: "Category slug already exists" })
+    async update(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() updateBlogCategoryDTO: UpdateBlogCategoryDTO
+    ): Promise<BlogCategorySingleResponseDTO> {
+        try {
+            const category = await this.categoryService.update(id, updateBlogCategoryDTO);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Category updated successfully",
+                data: category,
+            };
+        } catch (error) {
+            this.logger.error(`Error updating category: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Delete an unused category (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Category UUID" })
+    @ApiResponse({ status: 200, description: "Category deleted successfully" })
+    @ApiResponse({ status: 404, description: "Category not found" })
+    @ApiResponse({ status: 409, description: "Category still has posts" })
+    async remove(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            const result = await this.categoryService.remove(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error deleting category: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
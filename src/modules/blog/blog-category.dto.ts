@@ -0,0 +1,128 @@
+import { Transform, Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsInt, MaxLength, MinLength, Matches, Min } from "class-validator";
+
+export class CreateBlogCategoryDTO {
+    @ApiProperty({ description: "Display name of the category", maxLength: 100 })
+    @IsString({ message: "Name must be a string" })
+    @IsNotEmpty({ message: "Name is required" })
+    @MinLength(2, { message: "Name must be at least 2 characters long" })
+    @MaxLength(100, { message: "Name must be less than 100 characters" })
+    @Transform(({ value }) => value?.trim())
+    name: string;
+
+    @ApiPropertyOptional({ description: "URL slug; generated from the name when omitted", maxLength: 100 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(100, { message: "Slug must be less than 100 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Description of the category", maxLength: 500 })
+    @IsOptional()
+    @IsString({ message: "Description must be a string" })
+    @MaxLength(500, { message: "Description must be less than 500 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    description?: string;
+
+    @ApiPropertyOptional({ description: "Position in category listings, lowest first", default: 0 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt({ message: "Sort order must be an integer" })
+    @Min(0, { message: "Sort order must not be negative" })
+    sort_order?: number;
+
+    @ApiPropertyOptional({ description: "Whether the category can be assigned and listed publicly", default: true })
+    @IsOptional()
+    @Type(() => Boolean)
+    @IsBoolean({ message: "Is active must be boolean" })
+    is_active?: boolean;
+}
+
+export class UpdateBlogCategoryDTO {
+    @ApiPropertyOptional({ description: "Display name of the category", maxLength: 100 })
+    @IsOptional()
+    @IsString({ message: "Name must be a string" })
+    @MinLength(2, { message: "Name must be at least 2 characters long" })
+    @MaxLength(100, { message: "Name must be less than 100 characters" })
+    @Transform(({ value }) => value?.trim())
+    name?: string;
+
+    @ApiPropertyOptional({ description: "URL slug; changing it breaks existing category links", maxLength: 100 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(100, { message: "Slug must be less than 100 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Description of the category", maxLength: 500 })
+    @IsOptional()
+    @IsString({ message: "Description must be a string" })
+    @MaxLength(500, { message: "Description must be less than 500 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    description?: string;
+
+    @ApiPropertyOptional({ description: "Position in category listings, lowest first" })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt({ message: "Sort order must be an integer" })
+    @Min(0, { message: "Sort order must not be negative" })
+    sort_order?: number;
+
+    @ApiPropertyOptional({ description: "Whether the category can be assigned and listed publicly" })
+    @IsOptional()
+    @Type(() => Boolean)
+    @IsBoolean({ message: "Is active must be boolean" })
+    is_active?: boolean;
+}
+
+export class BlogCategoryResponseDTO {
+    @ApiProperty({ description: "Category ID" })
+    id: string;
+
+    @ApiProperty({ description: "Category slug" })
+    slug: string;
+
+    @ApiProperty({ description: "Category display name" })
+    name: string;
+
+    @ApiProperty({ description: "Category description", nullable: true })
+    description: string | null;
+
+    @ApiProperty({ description: "Position in category listings" })
+    sort_order: number;
+
+    @ApiProperty({ description: "Active status" })
+    is_active: boolean;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Updated date" })
+    updated_at: Date;
+}
+
+export class BlogCategoryListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Categories array", type: [BlogCategoryResponseDTO] })
+    data: BlogCategoryResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogCategorySingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Category data", type: BlogCategoryResponseDTO })
+    data: BlogCategoryResponseDTO;
+}
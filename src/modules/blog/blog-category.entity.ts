@@ -0,0 +1,64 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToMany, BeforeInsert, BeforeUpdate } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+
+@Entity("blog_categories")
+export class BlogCategory {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ unique: true, type: "varchar", length: 100 })
+    slug: string;
+
+    @Column({ type: "varchar", length: 100 })
+    name: string;
+
+    @Column({ nullable: true, type: "varchar", length: 500 })
+    description: string | null;
+
+    @Column({ default: 0, type: "integer" })
+    sort_order: number;
+
+    // Inactive categories can't be assigned to posts and have no public listing, but keep their posts
+    @Column({ default: true, type: "boolean" })
+    is_active: boolean;
+
+    @ManyToMany(() => BlogPost, post => post.categories)
+    posts: BlogPost[];
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    @UpdateDateColumn({ name: "updated_at", type: "timestamp" })
+    updated_at: Date;
+
+    @BeforeInsert()
+    @BeforeUpdate()
+    generateSlugFromName(): void {
+        if (this.name && !this.slug) {
+            this.slug = BlogPost.generateSlug(this.name);
+        }
+    }
+
+    toResponseObject(): {
+        id: string;
+        slug: string;
+        name: string;
+        description: string | null;
+        sort_order: number;
+        is_active: boolean;
+        created_at: Date;
+        updated_at: Date;
+    } {
+        return {
+            id: this.id,
+            slug: this.slug,
+            name: this.name,
+            description: this.description,
+            sort_order: this.sort_order,
+            is_active: this.is_active,
+            created_at: this.created_at,
+            updated_at: this.updated_at,
+        };
+    }
+}
@@ -0,0 +1,194 @@
+import { Repository, In } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogCategory } from "./blog-category.entity";
+import { CreateBlogCategoryDTO, UpdateBlogCategoryDTO, BlogCategoryResponseDTO } from "./blog-category.dto";
+
+@Injectable()
+export class BlogCategoryService {
+    private readonly logger = new Logger(BlogCategoryService.name);
+
+    constructor(
+        @InjectRepository(BlogCategory)
+        private readonly categoryRepository: Repository<BlogCategory>,
+    ) {}
+
+    private async findEntity(id: string): Promise<BlogCategory> {
+        const category = await this.categoryRepository.findOne({ where: { id } });
+
+        if (!category) {
+            throw new NotFoundException(`Category with ID ${id} not found`);
+        }
+
+        return category;
+    }
+
+    private async ensureSlugAvailable(slug: string, excludeId?: string): Promise<void> {
+        const existing = await this.categoryRepository.findOne({ where: { slug } });
+        if (existing && existing.id !== excludeId) {
+            throw new ConflictException(`Category with slug "${slug}" already exists`);
+        }
+    }
+
+    private async countActive(): Promise<number> {
+        return await this.categoryRepository.count({ where: { is_active: true } });
+    }
+
+    async findAll(includeInactive: boolean = false): Promise<BlogCategoryResponseDTO[]> {
+        try {
+            const categories = await this.categoryRepository.find({
+                where: includeInactive ? {} : { is_active: true },
+                order: { sort_order: "ASC", name: "ASC" },
+            });
+
+            return categories.map(category => category.toResponseObject());
+        } catch (error) {
+            this.logger.error(`Error finding categories: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve categories");
+        }
+    }
+
+    async findActiveBySlug(slug: string): Promise<BlogCategory | null> {
+        if (!slug || typeof slug !== "string") {
+            return null;
+        }
+
+        return await this.categoryRepository.findOne({
+            where: { slug: slug.trim().toLowerCase(), is_active: true },
+        });
+    }
+
+    // Used when a post is saved without categories
+    async getDefault(): Promise<BlogCategory> {
+        const category = await this.categoryRepository.findOne({
+            where: { is_active: true },
+            order: { sort_order: "ASC", name: "ASC" },
+        });
+
+        if (!category) {
+            throw new BadRequestException("No active blog categories are configured");
+        }
+
+        return category;
+    }
+
+    // Maps slugs from a post payload onto active categories, falling back to the default category
+    async resolveCategories(slugs: string[] | undefined): Promise<BlogCategory[]> {
+        const uniqueSlugs = [...new Set((slugs || [])
+            .filter(slug => typeof slug === "string")
+            .map(slug => slug.trim().toLowerCase())
+            .filter(Boolean))];
+
+        if (uniqueSlugs.length === 0) {
+            return [await this.getDefault()];
+        }
+
+        const categories = await this.categoryRepository.find({
+            where: { slug: In(uniqueSlugs), is_active: true },
+        });
+
+        if (categories.length !== uniqueSlugs.length) {
+            const known = new Set(categories.map(category => category.slug));
+            const unknown = uniqueSlugs.filter(slug => !known.has(slug));
+            throw new BadRequestException(`Invalid categories: ${unknown.join(", ")}`);
+        }
+
+        return categories;
+    }
+
+    async create(createBlogCategoryDTO: CreateBlogCategoryDTO): Promise<BlogCategoryResponseDTO> {
+        try {
+            const { name, slug, description, sort_order, is_active } = createBlogCategoryDTO;
+            const categorySlug = slug || BlogPost.generateSlug(name);
+
+            if (!categorySlug) {
+                throw new BadRequestException("Category name must contain at least one letter or digit");
+            }
+
+            await this.ensureSlugAvailable(categorySlug);
+
+            const category = await this.categoryRepository.save(this.categoryRepository.create({
+                name: name.trim(),
+                slug: categorySlug,
+                description: description || null,
+                sort_order: sort_order ?? 0,
+                is_active: is_active ?? true,
+            }));
+            this.logger.log(`✅ Category created with ID: ${category.id}, slug: ${category.slug}`);
+
+            return category.toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error creating category: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to create category");
+        }
+    }
+
+    async update(id: string, updateBlogCategoryDTO: UpdateBlogCategoryDTO): Promise<BlogCategoryResponseDTO> {
+        try {
+            const category = await this.findEntity(id);
+
+            if (updateBlogCategoryDTO.slug && updateBlogCategoryDTO.slug !== category.slug) {
+                await this.ensureSlugAvailable(updateBlogCategoryDTO.slug, id);
+            }
+
+            if (updateBlogCategoryDTO.is_active === false && category.is_active && await this.countActive() <= 1) {
+                throw new BadRequestException("At least one category must remain active");
+            }
+
+            Object.assign(category, updateBlogCategoryDTO);
+
+            const updatedCategory = await this.categoryRepository.save(category);
+            this.logger.log(`✅ Category updated with ID: ${id}`);
+
+            return updatedCategory.toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error updating category: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to update category");
+        }
+    }
+
+    async remove(id: string): Promise<{ message: string }> {
+        try {
+            const category = await this.findEntity(id);
+
+            const postCount = await this.categoryRepository
+                .createQueryBuilder("category")
+                .innerJoin("category.posts", "post")
+                .where("category.id = :id", { id })
+                .getCount();
+
+            if (postCount > 0) {
+                throw new ConflictException(`Category is used by ${postCount} post(s) - deactivate it instead`);
+            }
+
+            if (category.is_active && await this.countActive() <= 1) {
+                throw new BadRequestException("At least one category must remain active");
+            }
+
+            await this.categoryRepository.remove(category);
+            this.logger.log(`Category deleted with ID: ${id}`);
+
+            return { message: "Category deleted successfully" };
+        } catch (error) {
+            this.logger.error(`Error deleting category: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to delete category");
+        }
+    }
+}
@@ -0,0 +1,216 @@
+import { ThrottlerGuard } from "@nestjs/throttler";
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Body, Patch, Param, Delete, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseGuards, Query, Logger, BadRequestException } from "@nestjs/common";
+
+import { BlogCommentService } from "./blog-comment.service";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./blog-pagination.util";
+import { COMMENT_STATUSES, CommentStatus } from "./blog-comment.util";
+import { CreateBlogCommentDTO, ModerateBlogCommentDTO, BulkModerateBlogCommentsDTO, BlogCommentThreadResponseDTO, BlogCommentPageResponseDTO, BlogCommentSingleResponseDTO } from "./blog-comment.dto";
+
+@ApiTags("Blog Comments")
+@Controller("blog")
+export class BlogCommentController {
+    private readonly logger = new Logger(BlogCommentController.name);
+
+    constructor(
+        private readonly commentService: BlogCommentService
+    ) {}
+
+    @Get("slug/:slug/comments")
+    @ApiOperation({ summary: "Get the approved comments of a published blog post as threads (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Blog post slug" })
+    @ApiResponse({
+        status: 200,
+        description: "Comments retrieved successfully",
+        type: BlogCommentThreadResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async findThread(
+        @Param("slug") slug: string
+    ): Promise<BlogCommentThreadResponseDTO> {
+        try {
+            const { comments, count } = await this.commentService.findThread(slug);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Comments retrieved successfully",
+                data: comments,
+                count,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving comments: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post("slug/:slug/comments")
+    @UseGuards(ThrottlerGuard)
+    @HttpCode(HttpStatus.ACCEPTED)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Submit a comment or reply; it is published once a moderator approves it (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Blog post slug" })
+    @ApiBody({ type: CreateBlogCommentDTO })
+    @ApiResponse({ status: 202, description: "Comment submitted for moderation" })
+    @ApiResponse({ status: 400, description: "Invalid comment, unknown parent or comments are closed" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    @ApiResponse({ status: 429, description: "Too many submissions" })
+    async submit(
+        @Param("slug") slug: string,
+        @Body() createBlogCommentDTO: CreateBlogCommentDTO
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            await this.commentService.submit(slug, createBlogCommentDTO);
+
+            return {
+                status_code: HttpStatus.ACCEPTED,
+                message: "Comment submitted and awaiting moderation",
+            };
+        } catch (error) {
+            this.logger.error(`Error submitting comment: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("comments")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get the comment moderation queue, oldest first (Admin only)" })
+    @ApiQuery({ name: "status", required: false, enum: COMMENT_STATUSES, description: "Moderation status (default pending)" })
+    @ApiQuery({ name: "post_id", required: false, type: String, description: "Only comments on this post" })
+    @ApiQuery({ name: "cursor", required: false, type: String, description: "next_cursor from the previous page" })
+    @ApiQuery({ name: "limit", required: false, type: Number, description: `Items per page (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})` })
+    @ApiResponse({
+        status: 200,
+        description: "Comments retrieved successfully",
+        type: BlogCommentPageResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid status, post ID or cursor" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async findAll(
+        @Query("status") status?: string,
+        @Query("post_id", new ParseUUIDPipe({ optional: true })) post_id?: string,
+        @Query("cursor") cursor?: string,
+        @Query("limit") limit?: number
+    ): Promise<BlogCommentPageResponseDTO> {
+        try {
+            if (status !== undefined && !COMMENT_STATUSES.includes(status as CommentStatus)) {
+                throw new BadRequestException(`Status must be one of: ${COMMENT_STATUSES.join(", ")}`);
+            }
+
+            const result = await this.commentService.findAll({
+                status: (status as CommentStatus | undefined) || "pending",
+                post_id,
+                cursor: cursor || undefined,
+                limit: limit ? Number(limit) : undefined,
+            });
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Comments retrieved successfully",
+                data: result.data,
+                next_cursor: result.next_cursor,
+                has_more: result.has_more,
+                limit: result.limit,
+                count: result.total,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving comment queue: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Patch("comments")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Set the moderation status of several comments at once (Admin only)" })
+    @ApiBody({ type: BulkModerateBlogCommentsDTO })
+    @ApiResponse({ status: 200, description: "Comments moderated successfully" })
+    @ApiResponse({ status: 400, description: "Invalid status or unknown comment" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async bulkModerate(
+        @Body() bulkModerateBlogCommentsDTO: BulkModerateBlogCommentsDTO
+    ): Promise<{ status_code: number; message: string; count: number }> {
+        try {
+            const count = await this.commentService.bulkModerate(bulkModerateBlogCommentsDTO.ids, bulkModerateBlogCommentsDTO.status);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Comments moderated successfully",
+                count,
+            };
+        } catch (error) {
+            this.logger.error(`Error bulk moderating comments: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Patch("comments/:id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Set the moderation status of a comment (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Comment UUID" })
+    @ApiBody({ type: ModerateBlogCommentDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Comment moderated successfully",
+        type: BlogCommentSingleResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Comment not found" })
+    async moderate(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() moderateBlogCommentDTO: ModerateBlogCommentDTO
+    ): Promise<BlogCommentSingleResponseDTO> {
+        try {
+            const comment = await this.commentService.moderate(id, moderateBlogCommentDTO.status);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Comment moderated successfully",
+                data: comment,
+            };
+        } catch (error) {
+            this.logger.error(`Error moderating comment: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete("comments/:id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Delete a comment and its replies (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Comment UUID" })
+    @ApiResponse({ status: 200, description: "Comment deleted successfully" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Comment not found" })
+    async remove(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            const result = await this.commentService.remove(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error deleting comment: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
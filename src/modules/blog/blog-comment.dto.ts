@@ -0,0 +1,170 @@
+import { Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString, IsNotEmpty, IsOptional, IsEmail, IsIn, IsUUID, IsArray, ArrayMinSize, ArrayMaxSize, MaxLength, MinLength } from "class-validator";
+
+import { COMMENT_STATUSES, COMMENT_MAX_LENGTH, COMMENT_BULK_LIMIT, CommentStatus } from "./blog-comment.util";
+
+export class CreateBlogCommentDTO {
+    @ApiProperty({ description: "Name shown with the comment", maxLength: 100 })
+    @IsString({ message: "Name must be a string" })
+    @IsNotEmpty({ message: "Name is required" })
+    @MaxLength(100, { message: "Name must be less than 100 characters" })
+    @Transform(({ value }) => value?.trim())
+    author_name: string;
+
+    @ApiProperty({ description: "Email address; never shown publicly", maxLength: 255 })
+    @IsEmail({}, { message: "Email must be a valid email address" })
+    @MaxLength(255, { message: "Email must be less than 255 characters" })
+    @Transform(({ value }) => value?.trim().toLowerCase())
+    author_email: string;
+
+    @ApiProperty({ description: "Comment text (plain text)", maxLength: COMMENT_MAX_LENGTH })
+    @IsString({ message: "Comment must be a string" })
+    @MinLength(2, { message: "Comment must be at least 2 characters long" })
+    @MaxLength(COMMENT_MAX_LENGTH, { message: `Comment must be less than ${COMMENT_MAX_LENGTH} characters` })
+    @Transform(({ value }) => value?.trim())
+    content: string;
+
+    @ApiPropertyOptional({ description: "ID of the approved comment this replies to" })
+    @IsOptional()
+    @IsUUID("all", { message: "Parent ID must be a valid UUID" })
+    parent_id?: string;
+
+    // Honeypot: hidden from people by the comment form, so only bots fill it in
+    @ApiPropertyOptional({ description: "Must be left empty" })
+    @IsOptional()
+    @IsString()
+    website?: string;
+}
+
+export class ModerateBlogCommentDTO {
+    @ApiProperty({ description: "New moderation status", enum: COMMENT_STATUSES })
+    @IsIn(COMMENT_STATUSES, { message: `Status must be one of: ${COMMENT_STATUSES.join(", ")}` })
+    status: CommentStatus;
+}
+
+export class BulkModerateBlogCommentsDTO extends ModerateBlogCommentDTO {
+    @ApiProperty({ description: `IDs of the comments to moderate (at most ${COMMENT_BULK_LIMIT})`, type: [String] })
+    @IsArray({ message: "Comment IDs must be an array" })
+    @ArrayMinSize(1, { message: "At least one comment ID is required" })
+    @ArrayMaxSize(COMMENT_BULK_LIMIT, { message: `At most ${COMMENT_BULK_LIMIT} comments can be moderated at once` })
+    @IsUUID("all", { each: true, message: "Each comment ID must be a valid UUID" })
+    ids: string[];
+}
+
+export class BlogCommentPublicDTO {
+    @ApiProperty({ description: "Comment ID" })
+    id: string;
+
+    @ApiProperty({ description: "ID of the comment this replies to", nullable: true })
+    parent_id: string | null;
+
+    @ApiProperty({ description: "Commenter name" })
+    author_name: string;
+
+    @ApiProperty({ description: "Comment text (plain text)" })
+    content: string;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Approved replies, oldest first", type: () => [BlogCommentPublicDTO] })
+    replies: BlogCommentPublicDTO[];
+}
+
+export class BlogCommentPostSummaryDTO {
+    @ApiProperty({ description: "Blog post ID" })
+    id: string;
+
+    @ApiProperty({ description: "Blog post title" })
+    title: string;
+
+    @ApiProperty({ description: "Blog post slug" })
+    slug: string;
+}
+
+export class BlogCommentResponseDTO {
+    @ApiProperty({ description: "Comment ID" })
+    id: string;
+
+    @ApiProperty({ description: "Blog post ID" })
+    post_id: string;
+
+    @ApiProperty({ description: "Blog post the comment was left on", type: BlogCommentPostSummaryDTO, nullable: true })
+    post: BlogCommentPostSummaryDTO | null;
+
+    @ApiProperty({ description: "ID of the comment this replies to", nullable: true })
+    parent_id: string | null;
+
+    @ApiProperty({ description: "Nesting depth, 0 for top-level comments" })
+    depth: number;
+
+    @ApiProperty({ description: "Commenter name" })
+    author_name: string;
+
+    @ApiProperty({ description: "Commenter email" })
+    author_email: string;
+
+    @ApiProperty({ description: "Comment text (plain text)" })
+    content: string;
+
+    @ApiProperty({ description: "Moderation status", enum: COMMENT_STATUSES })
+    status: CommentStatus;
+
+    @ApiProperty({ description: "When the status was last changed by a moderator", nullable: true })
+    moderated_at: Date | null;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Updated date" })
+    updated_at: Date;
+}
+
+export class BlogCommentThreadResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Top-level comments with nested replies, oldest first", type: [BlogCommentPublicDTO] })
+    data: BlogCommentPublicDTO[];
+
+    @ApiProperty({ description: "Number of approved comments including replies" })
+    count: number;
+}
+
+export class BlogCommentPageResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Comments array", type: [BlogCommentResponseDTO] })
+    data: BlogCommentResponseDTO[];
+
+    @ApiProperty({ description: "Cursor for the next page, or null on the last page", nullable: true })
+    next_cursor: string | null;
+
+    @ApiProperty({ description: "Whether more comments follow" })
+    has_more: boolean;
+
+    @ApiProperty({ description: "Page size used" })
+    limit: number;
+
+    @ApiProperty({ description: "Total number of matching comments" })
+    count: number;
+}
+
+export class BlogCommentSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Comment data", type: BlogCommentResponseDTO })
+    data: BlogCommentResponseDTO;
+}
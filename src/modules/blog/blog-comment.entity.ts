@@ -0,0 +1,100 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { CommentStatus } from "./blog-comment.util";
+
+@Entity("blog_comments")
+@Index(["post_id", "status", "created_at"])
+@Index(["status", "created_at"])
+export class BlogComment {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "uuid" })
+    post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    // Replies are deleted together with the comment they answer
+    @Column({ nullable: true, type: "uuid" })
+    parent_id: string | null;
+
+    @ManyToOne(() => BlogComment, { nullable: true, onDelete: "CASCADE" })
+    @JoinColumn({ name: "parent_id" })
+    parent: BlogComment | null;
+
+    @Column({ default: 0, type: "integer" })
+    depth: number;
+
+    @Column({ type: "varchar", length: 100 })
+    author_name: string;
+
+    // Only shown to moderators
+    @Column({ type: "varchar", length: 255 })
+    author_email: string;
+
+    // Plain text; clients must escape it when rendering
+    @Column("text")
+    content: string;
+
+    @Column({ type: "varchar", length: 16, default: "pending" })
+    status: CommentStatus;
+
+    @Column({ name: "moderated_at", nullable: true, type: "timestamp" })
+    moderated_at: Date | null;
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    @UpdateDateColumn({ name: "updated_at", type: "timestamp" })
+    updated_at: Date;
+
+    // Public shape: no email or moderation details
+    toPublicObject(): {
+        id: string;
+        parent_id: string | null;
+        author_name: string;
+        content: string;
+        created_at: Date;
+    } {
+        return {
+            id: this.id,
+            parent_id: this.parent_id,
+            author_name: this.author_name,
+            content: this.content,
+            created_at: this.created_at,
+        };
+    }
+
+    toResponseObject(): {
+        id: string;
+        post_id: string;
+        post: { id: string; title: string; slug: string } | null;
+        parent_id: string | null;
+        depth: number;
+        author_name: string;
+        author_email: string;
+        content: string;
+        status: CommentStatus;
+        moderated_at: Date | null;
+        created_at: Date;
+        updated_at: Date;
+    } {
+        return {
+            id: this.id,
+            post_id: this.post_id,
+            post: this.post ? { id: this.post.id, title: this.post.title, slug: this.post.slug } : null,
+            parent_id: this.parent_id,
+            depth: this.depth,
+            author_name: this.author_name,
+            author_email: this.author_email,
+            content: this.content,
+            status: this.status,
+            moderated_at: this.moderated_at,
+            created_at: this.created_at,
+            updated_at: this.updated_at,
+        };
+    }
+}
@@ -0,0 +1,272 @@
+import { Repository, In, EntityManager } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogComment } from "./blog-comment.entity";
+import { BlogPostService, CursorPage } from "./blog.service";
+import { clampPageSize, encodeCursor, decodeCursor } from "./blog-pagination.util";
+import { COMMENT_MAX_DEPTH, CommentStatus, buildCommentTree } from "./blog-comment.util";
+import { CreateBlogCommentDTO, BlogCommentPublicDTO, BlogCommentResponseDTO } from "./blog-comment.dto";
+
+export interface BlogCommentQuery {
+    status?: CommentStatus;
+    post_id?: string;
+    cursor?: string;
+    limit?: number;
+}
+
+@Injectable()
+export class BlogCommentService {
+    private readonly logger = new Logger(BlogCommentService.name);
+
+    constructor(
+        @InjectRepository(BlogComment)
+        private readonly commentRepository: Repository<BlogComment>,
+        private readonly blogPostService: BlogPostService,
+    ) {}
+
+    private async findEntity(id: string): Promise<BlogComment> {
+        const comment = await this.commentRepository.findOne({
+            where: { id },
+            relations: ["post"],
+        });
+
+        if (!comment) {
+            throw new NotFoundException(`Comment with ID ${id} not found`);
+        }
+
+        return comment;
+    }
+
+    // Raw update so recounting does not bump the posts' updated_at
+    private async syncCommentCounts(post_ids: string[], manager: EntityManager = this.commentRepository.manager): Promise<void> {
+        if (post_ids.length === 0) {
+            return;
+        }
+
+        await manager.query(
+            `UPDATE "blog_posts" SET "comment_count" = (
+                SELECT COUNT(*) FROM "blog_comments"
+                WHERE "blog_comments"."post_id" = "blog_posts"."id" AND "blog_comments"."status" = 'approved'
+            ) WHERE "id" = ANY($1::uuid[])`,
+            [[...new Set(post_ids)]]
+        );
+    }
+
+    // Approved comments of a published post, threaded and oldest first
+    async findThread(slug: string): Promise<{ comments: BlogCommentPublicDTO[]; count: number }> {
+        try {
+            const post = await this.blogPostService.findPublicEntityBySlug(slug);
+
+            const comments = await this.commentRepository.find({
+                where: { post_id: post.id, status: "approved" },
+                order: { created_at: "ASC", id: "ASC" },
+            });
+
+            return {
+                comments: buildCommentTree(comments.map(comment => comment.toPublicObject())),
+                count: comments.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error finding comments: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve comments");
+        }
+    }
+
+    /**
+     * Queues a reader comment for moderation. Submissions that filled in the honeypot field
+     * are dropped without an error, so bots cannot tell they were caught.
+     */
+    async submit(slug: string, createBlogCommentDTO: CreateBlogCommentDTO): Promise<void> {
+        try {
+            const post = await this.blogPostService.findPublicEntityBySlug(slug);
+
+            if (!post.comments_enabled) {
+                throw new BadRequestException("Comments are closed for this post");
+            }
+
+            if (createBlogCommentDTO.website) {
+                this.logger.warn(`🍯 Honeypot triggered on post ${post.id}, comment discarded`);
+                return;
+            }
+
+            const { author_name, author_email, content, parent_id } = createBlogCommentDTO;
+            let depth = 0;
+
+            if (parent_id) {
+                const parent = await this.commentRepository.findOne({
+                    where: { id: parent_id, post_id: post.id, status: "approved" },
+                });
+
+                if (!parent) {
+                    throw new BadRequestException(`Comment ${parent_id} does not exist on this post`);
+                }
+
+                depth = parent.depth + 1;
+                if (depth > COMMENT_MAX_DEPTH) {
+                    throw new BadRequestException(`Replies can be nested at most ${COMMENT_MAX_DEPTH} levels deep`);
+                }
+            }
+
+            const comment = await this.commentRepository.save(this.commentRepository.create({
+                post_id: post.id,
+                parent_id: parent_id || null,
+                depth,
+                author_name,
+                author_email,
+                content,
+                status: "pending",
+            }));
+            this.logger.log(`💬 Comment ${comment.id} on post ${post.id} awaiting moderation`);
+        } catch (error) {
+            this.logger.error(`Error submitting comment: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to submit comment");
+        }
+    }
+
+    // Moderation queue, oldest first so comments are reviewed in the order they arrived
+    async findAll(query: BlogCommentQuery = {}): Promise<CursorPage<BlogCommentResponseDTO> & { total: number }> {
+        try {
+            const limit = clampPageSize(query.limit);
+            // Inner join, so comments on trashed posts leave the queue with their post
+            const queryBuilder = this.commentRepository
+                .createQueryBuilder("comment")
+                .innerJoinAndSelect("comment.post", "post");
+
+            if (query.status) {
+                queryBuilder.andWhere("comment.status = :status", { status: query.status });
+            }
+
+            if (query.post_id) {
+                queryBuilder.andWhere("comment.post_id = :post_id", { post_id: query.post_id });
+            }
+
+            const total = await queryBuilder.getCount();
+
+            if (query.cursor) {
+                const cursor = decodeCursor(query.cursor);
+                if (!cursor || cursor.sort !== "created_at") {
+                    throw new BadRequestException("Invalid cursor");
+                }
+
+                queryBuilder.andWhere(
+                    "(comment.created_at > CAST(:cursorValue AS timestamp) OR (comment.created_at = CAST(:cursorValue AS timestamp) AND comment.id > :cursorId))",
+                    { cursorValue: cursor.value, cursorId: cursor.id }
+                );
+            }
+
+            const { entities, raw } = await queryBuilder
+                .addSelect("comment.created_at::text", "sort_value")
+                .orderBy("comment.created_at", "ASC")
+                .addOrderBy("comment.id", "ASC")
+                .limit(limit + 1)
+                .getRawAndEntities();
+
+            const has_more = entities.length > limit;
+            const comments = entities.slice(0, limit);
+            const last = comments[comments.length - 1];
+
+            return {
+                data: comments.map(comment => comment.toResponseObject()),
+                next_cursor: has_more && last
+                    ? encodeCursor({ sort: "created_at", direction: "asc", value: raw[comments.length - 1].sort_value, id: last.id })
+                    : null,
+                has_more,
+                limit,
+                total,
+            };
+        } catch (error) {
+            this.logger.error(`Error finding comments: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve comments");
+        }
+    }
+
+    async moderate(id: string, status: CommentStatus): Promise<BlogCommentResponseDTO> {
+        try {
+            const comment = await this.findEntity(id);
+
+            await this.commentRepository.manager.transaction(async manager => {
+                await manager.update(BlogComment, { id }, { status, moderated_at: new Date() });
+                await this.syncCommentCounts([comment.post_id], manager);
+            });
+            this.logger.log(`✅ Comment ${id} marked as ${status}`);
+
+            return (await this.findEntity(id)).toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error moderating comment: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to moderate comment");
+        }
+    }
+
+    async bulkModerate(ids: string[], status: CommentStatus): Promise<number> {
+        try {
+            const uniqueIds = [...new Set(ids)];
+            const comments = await this.commentRepository.find({ where: { id: In(uniqueIds) }, select: ["id", "post_id"] });
+
+            const found = new Set(comments.map(comment => comment.id));
+            const missing = uniqueIds.filter(id => !found.has(id));
+            if (missing.length > 0) {
+                throw new BadRequestException(`Comments not found: ${missing.join(", ")}`);
+            }
+
+            await this.commentRepository.manager.transaction(async manager => {
+                await manager.update(BlogComment, { id: In(uniqueIds) }, { status, moderated_at: new Date() });
+                await this.syncCommentCounts(comments.map(comment => comment.post_id), manager);
+            });
+            this.logger.log(`✅ ${uniqueIds.length} comment(s) marked as ${status}`);
+
+            return uniqueIds.length;
+        } catch (error) {
+            this.logger.error(`Error bulk moderating comments: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to moderate comments");
+        }
+    }
+
+    // Replies are deleted along with the comment
+    async remove(id: string): Promise<{ message: string }> {
+        try {
+            const comment = await this.findEntity(id);
+
+            await this.commentRepository.manager.transaction(async manager => {
+                await manager.delete(BlogComment, { id });
+                await this.syncCommentCounts([comment.post_id], manager);
+            });
+            this.logger.log(`Comment deleted with ID: ${id}`);
+
+            return { message: "Comment deleted successfully" };
+        } catch (error) {
+            this.logger.error(`Error deleting comment: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to delete comment");
+        }
+    }
+}
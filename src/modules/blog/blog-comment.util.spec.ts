@@ -0,0 +1,31 @@
+import { buildCommentTree } from "./blog-comment.util";
+
+describe("blog-comment.util", () => {
+    describe("buildCommentTree", () => {
+        it("should nest replies under their parents in input order", () => {
+            const tree = buildCommentTree([
+                { id: "a", parent_id: null },
+                { id: "b", parent_id: null },
+                { id: "a1", parent_id: "a" },
+                { id: "a1x", parent_id: "a1" },
+                { id: "a2", parent_id: "a" },
+            ]);
+
+            expect(tree.map(node => node.id)).toEqual(["a", "b"]);
+            expect(tree[0].replies.map(node => node.id)).toEqual(["a1", "a2"]);
+            expect(tree[0].replies[0].replies.map(node => node.id)).toEqual(["a1x"]);
+            expect(tree[1].replies).toEqual([]);
+        });
+
+        it("should drop replies whose parent is missing", () => {
+            const tree = buildCommentTree([
+                { id: "a", parent_id: null },
+                { id: "orphan", parent_id: "rejected" },
+                { id: "orphan-reply", parent_id: "orphan" },
+            ]);
+
+            expect(tree.map(node => node.id)).toEqual(["a"]);
+            expect(tree[0].replies).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,34 @@
+export const COMMENT_STATUSES = ["pending", "approved", "spam", "rejected"] as const;
+export type CommentStatus = typeof COMMENT_STATUSES[number];
+
+// Replies to replies are allowed up to this depth; top-level comments have depth 0
+export const COMMENT_MAX_DEPTH = 3;
+export const COMMENT_MAX_LENGTH = 5000;
+export const COMMENT_BULK_LIMIT = 100;
+
+export interface CommentNode<T> {
+    id: string;
+    parent_id: string | null;
+    replies: (T & CommentNode<T>)[];
+}
+
+/**
+ * Nests comments under their parents, keeping the input order at every level.
+ * Replies whose parent is not in the list (e.g. it was rejected) are dropped with their subtree.
+ */
+export function buildCommentTree<T extends { id: string; parent_id: string | null }>(comments: T[]): (T & CommentNode<T>)[] {
+    const nodes = new Map(comments.map(comment => [comment.id, { ...comment, replies: [] } as T & CommentNode<T>]));
+    const roots: (T & CommentNode<T>)[] = [];
+
+    for (const comment of comments) {
+        const node = nodes.get(comment.id) as T & CommentNode<T>;
+
+        if (comment.parent_id === null) {
+            roots.push(node);
+        } else {
+            nodes.get(comment.parent_id)?.replies.push(node);
+        }
+    }
+
+    return roots;
+}
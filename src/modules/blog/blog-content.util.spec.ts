@@ -0,0 +1,47 @@
+import { sanitizeContent, renderMarkdown, renderContent } from "./blog-content.util";
+
+describe("blog-content.util", () => {
+    describe("sanitizeContent", () => {
+        it("should strip scripts, event handlers and javascript: links", () => {
+            const html = `<p onclick="steal()">Hi<script>alert(1)</script></p><a href="javascript:alert(1)">x</a><img src="x" onerror="alert(1)">`;
+            expect(sanitizeContent(html)).toBe(`<p>Hi</p><a>x</a><img src="x" />`);
+        });
+
+        it("should keep allowed formatting", () => {
+            const html = `<h2>Title</h2><p><strong>bold</strong> <a href="https://example.com" title="t">link</a></p><pre><code class="language-ts">x</code></pre>`;
+            expect(sanitizeContent(html)).toBe(html);
+        });
+
+        it("should drop non-allowed classes and styles", () => {
+            expect(sanitizeContent(`<code class="evil language-js" style="color:red">x</code>`)).toBe(`<code class="language-js">x</code>`);
+        });
+
+        it("should add rel to links opening a new tab", () => {
+            expect(sanitizeContent(`<a href="https://example.com" target="_blank">x</a>`))
+                .toBe(`<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>`);
+        });
+    });
+
+    describe("renderMarkdown", () => {
+        it("should render Markdown and sanitize embedded HTML", () => {
+            expect(renderMarkdown("# Hello\n\nSome *text*<script>alert(1)</script>"))
+                .toBe("<h1>Hello</h1>\n<p>Some <em>text</em></p>");
+        });
+    });
+
+    describe("renderContent", () => {
+        it("should keep the Markdown source and return rendered HTML", () => {
+            expect(renderContent("**hi** there", "markdown")).toEqual({
+                content: "**hi** there",
+                content_html: "<p><strong>hi</strong> there</p>",
+            });
+        });
+
+        it("should store sanitized HTML as both source and output", () => {
+            expect(renderContent("<p>ok</p><script>x</script>", "html")).toEqual({
+                content: "<p>ok</p>",
+                content_html: "<p>ok</p>",
+            });
+        });
+    });
+});
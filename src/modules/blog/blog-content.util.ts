@@ -0,0 +1,68 @@
+import * as MarkdownIt from "markdown-it";
+import * as sanitizeHtml from "sanitize-html";
+
+export const CONTENT_FORMATS = ["html", "markdown"] as const;
+export type ContentFormat = typeof CONTENT_FORMATS[number];
+
+// Everything a post body legitimately needs; scripts, styles, forms and embeds are dropped
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [
+        "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr", "blockquote", "pre", "code",
+        "ul", "ol", "li", "dl", "dt", "dd", "strong", "b", "em", "i", "u", "s", "del", "ins",
+        "sub", "sup", "mark", "small", "abbr", "cite", "q", "kbd", "span", "div",
+        "a", "img", "figure", "figcaption",
+        "table", "thead", "tbody", "tfoot", "tr", "th", "td", "caption",
+    ],
+    allowedAttributes: {
+        a: ["href", "name", "title", "target", "rel"],
+        img: ["src", "alt", "title", "width", "height", "loading"],
+        code: ["class"],
+        th: ["colspan", "rowspan", "scope"],
+        td: ["colspan", "rowspan"],
+        ol: ["start", "reversed"],
+        abbr: ["title"],
+    },
+    // Only syntax highlighting hints survive, e.g. the "language-ts" class markdown adds to fences
+    allowedClasses: {
+        code: ["language-*"],
+    },
+    allowedSchemes: ["http", "https", "mailto"],
+    allowedSchemesByTag: {
+        img: ["http", "https"],
+    },
+    allowProtocolRelative: false,
+    transformTags: {
+        // Links opening a new tab must not get a handle on this window
+        a: (tagName, attribs) => ({
+            tagName,
+            attribs: attribs.target === "_blank"
+                ? { ...attribs, rel: "noopener noreferrer" }
+                : attribs,
+        }),
+    },
+};
+
+// Raw HTML in Markdown is allowed and goes through the same sanitizer as HTML posts
+const markdown = new MarkdownIt({ html: true, linkify: true });
+
+export function sanitizeContent(html: string): string {
+    return sanitizeHtml(html || "", SANITIZE_OPTIONS).trim();
+}
+
+export function renderMarkdown(source: string): string {
+    return sanitizeContent(markdown.render(source || ""));
+}
+
+/**
+ * Returns the stored source and the HTML served to readers for a post body.
+ * HTML is sanitized in place, so the source of an HTML post is always safe to render;
+ * Markdown keeps the author's source and only the rendered output is sanitized.
+ */
+export function renderContent(content: string, format: ContentFormat): { content: string; content_html: string } {
+    if (format === "markdown") {
+        return { content, content_html: renderMarkdown(content) };
+    }
+
+    const sanitized = sanitizeContent(content);
+    return { content: sanitized, content_html: sanitized };
+}
@@ -0,0 +1,95 @@
+import { Request as ExpressRequest, Response } from "express";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiProduces } from "@nestjs/swagger";
+import { Controller, Get, Param, HttpStatus, NotFoundException, BadRequestException, Query, Logger, Req, Res } from "@nestjs/common";
+
+import { BlogFeedService } from "./blog-feed.service";
+import { FEED_FORMATS, FEED_MODES, FeedFormat, FeedMode } from "./blog-feed.util";
+
+@ApiTags("Blog Feeds")
+@Controller("blog")
+export class BlogFeedController {
+    private readonly logger = new Logger(BlogFeedController.name);
+
+    constructor(
+        private readonly feedService: BlogFeedService
+    ) {}
+
+    private parse(format: string, mode: string | undefined): { format: FeedFormat; mode: FeedMode } {
+        if (!FEED_FORMATS.includes(format as FeedFormat)) {
+            throw new NotFoundException(`Unknown feed format "${format}"`);
+        }
+
+        if (mode !== undefined && !FEED_MODES.includes(mode as FeedMode)) {
+            throw new BadRequestException(`Mode must be one of: ${FEED_MODES.join(", ")}`);
+        }
+
+        return { format: format as FeedFormat, mode: (mode as FeedMode) || "excerpt" };
+    }
+
+    private async send(req: ExpressRequest, res: Response, format: FeedFormat, mode: FeedMode, category?: string): Promise<string | undefined> {
+        const apiOrigin = `${req.protocol}://${req.get("host")}`;
+        const feed = await this.feedService.render(format, mode, apiOrigin, `${apiOrigin}${req.originalUrl}`, category);
+
+        res.set({
+            "Content-Type": feed.content_type,
+            "Cache-Control": "public, max-age=300",
+            "ETag": feed.etag,
+            "Last-Modified": feed.last_modified.toUTCString(),
+        });
+
+        // Express compares If-None-Match / If-Modified-Since against the headers set above
+        if (req.fresh) {
+            res.status(HttpStatus.NOT_MODIFIED);
+            return undefined;
+        }
+
+        return feed.body;
+    }
+
+    @Get("feed.:format")
+    @ApiOperation({ summary: "Feed of published blog posts (Public)" })
+    @ApiParam({ name: "format", enum: FEED_FORMATS, description: "rss (RSS 2.0), atom or json (JSON Feed 1.1)" })
+    @ApiQuery({ name: "mode", required: false, enum: FEED_MODES, description: "Include excerpts only (default) or the full post content" })
+    @ApiProduces("application/rss+xml", "application/atom+xml", "application/feed+json")
+    @ApiResponse({ status: 200, description: "Feed document" })
+    @ApiResponse({ status: 304, description: "Feed unchanged since the given ETag or date" })
+    async feed(
+        @Param("format") format: string,
+        @Query("mode") mode: string | undefined,
+        @Req() req: ExpressRequest,
+        @Res({ passthrough: true }) res: Response
+    ): Promise<string | undefined> {
+        try {
+            const options = this.parse(format, mode);
+            return await this.send(req, res, options.format, options.mode);
+        } catch (error) {
+            this.logger.error(`Error rendering feed: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("category/:category/feed.:format")
+    @ApiOperation({ summary: "Feed of published blog posts in one category (Public)" })
+    @ApiParam({ name: "category", description: "Blog category slug" })
+    @ApiParam({ name: "format", enum: FEED_FORMATS, description: "rss (RSS 2.0), atom or json (JSON Feed 1.1)" })
+    @ApiQuery({ name: "mode", required: false, enum: FEED_MODES, description: "Include excerpts only (default) or the full post content" })
+    @ApiProduces("application/rss+xml", "application/atom+xml", "application/feed+json")
+    @ApiResponse({ status: 200, description: "Feed document" })
+    @ApiResponse({ status: 304, description: "Feed unchanged since the given ETag or date" })
+    @ApiResponse({ status: 400, description: "Invalid category" })
+    async categoryFeed(
+        @Param("category") category: string,
+        @Param("format") format: string,
+        @Query("mode") mode: string | undefined,
+        @Req() req: ExpressRequest,
+        @Res({ passthrough: true }) res: Response
+    ): Promise<string | undefined> {
+        try {
+            const options = this.parse(format, mode);
+            return await this.send(req, res, options.format, options.mode, category);
+        } catch (error) {
+            this.logger.error(`Error rendering category feed: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
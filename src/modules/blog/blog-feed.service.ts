@@ -0,0 +1,115 @@
+import { createHash } from "crypto";
+import { Subscription } from "rxjs";
+import { ConfigService } from "@nestjs/config";
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from "@nestjs/common";
+
+import { BlogPostResponseDTO } from "./blog.dto";
+import { BlogPostService } from "./blog.service";
+import { bylineNames } from "./blog-author.util";
+import { BlogCategoryService } from "./blog-category.service";
+import { FeedFormat, FeedMode, FeedItem, FeedMeta, FEED_CONTENT_TYPES, renderFeed, summarize } from "./blog-feed.util";
+
+// Aggregators only look at the newest entries, older posts stay reachable through the site
+export const FEED_ITEM_LIMIT = 50;
+
+export interface RenderedFeed {
+    body: string;
+    content_type: string;
+    etag: string;
+    last_modified: Date;
+}
+
+@Injectable()
+export class BlogFeedService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(BlogFeedService.name);
+
+    // Last-Modified for every feed: when public posts last changed, or when this process started.
+    // It only moves forward, unlike the dates of the posts shown, which go back when the newest is unpublished
+    private changedAt = new Date();
+    private subscription: Subscription | null = null;
+
+    constructor(
+        private readonly blogPostService: BlogPostService,
+        private readonly categoryService: BlogCategoryService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    onModuleInit(): void {
+        this.subscription = this.blogPostService.publicPostsChanged.subscribe(() => {
+            this.changedAt = new Date();
+        });
+    }
+
+    onModuleDestroy(): void {
+        this.subscription?.unsubscribe();
+    }
+
+    private get siteUrl(): string {
+        return (this.configService.get<string>("FRONTEND_URL") || "http://localhost:3000").replace(/\/+$/, "");
+    }
+
+    private get siteTitle(): string {
+        return this.configService.get<string>("BLOG_FEED_TITLE") || "AITHENA Blog";
+    }
+
+    private toItem(post: BlogPostResponseDTO, mode: FeedMode, apiOrigin: string, categoryNames: Map<string, string>): FeedItem {
+        const media = post.featured_media;
+
+        return {
+            id: post.id,
+            title: post.title,
+            url: `${this.siteUrl}/blog/${post.slug}`,
+            summary: summarize(post.excerpt, post.content_html),
+            content_html: mode === "full" ? post.content_html : null,
+            published: new Date(post.published_at || post.created_at),
+            updated: new Date(post.updated_at),
+            authors: bylineNames(post),
+            categories: post.categories.map(slug => categoryNames.get(slug) || slug),
+            image: media
+                ? { url: `${apiOrigin}${media.url}`, content_type: media.content_type, size: media.size }
+                : post.featured_image
+                    ? { url: post.featured_image, content_type: null, size: null }
+                    : null,
+        };
+    }
+
+    /**
+     * Renders the feed from the same posts the public listing endpoints return.
+     * `apiOrigin` makes media URLs absolute; post links point at FRONTEND_URL.
+     */
+    async render(format: FeedFormat, mode: FeedMode, apiOrigin: string, feedUrl: string, category?: string): Promise<RenderedFeed> {
+        const [page, categories] = await Promise.all([
+            category
+                ? this.blogPostService.findByCategory(category, { limit: FEED_ITEM_LIMIT })
+                : this.blogPostService.findPublished({ limit: FEED_ITEM_LIMIT }),
+            this.categoryService.findAll(true),
+        ]);
+
+        const categoryNames = new Map(categories.map(item => [item.slug, item.name]));
+        const items = page.data.map(post => this.toItem(post, mode, apiOrigin, categoryNames));
+
+        const newest = items.length > 0
+            ? new Date(Math.max(...items.map(item => Math.max(item.updated.getTime(), item.published.getTime()))))
+            : null;
+
+        const categoryName = category ? categoryNames.get(category.trim().toLowerCase()) || category : null;
+        const meta: FeedMeta = {
+            title: categoryName ? `${this.siteTitle} - ${categoryName}` : this.siteTitle,
+            description: categoryName ? `Latest ${categoryName} posts from ${this.siteTitle}` : `Latest posts from ${this.siteTitle}`,
+            site_url: category ? `${this.siteUrl}/blog/category/${encodeURIComponent(category)}` : `${this.siteUrl}/blog`,
+            feed_url: feedUrl,
+            updated: newest || new Date(0),
+        };
+
+        const body = renderFeed(format, meta, items);
+        this.logger.log(`📡 Rendered ${format} feed${category ? ` for ${category}` : ""} with ${items.length} items`);
+
+        return {
+            body,
+            content_type: FEED_CONTENT_TYPES[format],
+            // The body has no timestamps of its own, so identical content always hashes the same
+            etag: `"${createHash("sha1").update(body).digest("hex")}"`,
+            last_modified: this.changedAt,
+        };
+    }
+}
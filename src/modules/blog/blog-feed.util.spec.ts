@@ -0,0 +1,75 @@
+import { escapeXml, summarize, renderFeed, FeedItem, FeedMeta } from "./blog-feed.util";
+
+describe("blog-feed.util", () => {
+    const meta: FeedMeta = {
+        title: "Blog & News",
+        description: "Latest posts",
+        site_url: "https://example.com/blog",
+        feed_url: "https://api.example.com/api/blog/feed.rss",
+        updated: new Date("2026-03-02T10:00:00Z"),
+    };
+
+    const item = (content_html: string | null): FeedItem => ({
+        id: "6f1c1f52-0d0a-4d4c-9d7e-0d1f7c1c9b11",
+        title: "Ship <fast>",
+        url: "https://example.com/blog/ship-fast",
+        summary: "Short summary",
+        content_html,
+        published: new Date("2026-03-01T09:00:00Z"),
+        updated: new Date("2026-03-02T10:00:00Z"),
+        authors: ["Ada Lovelace"],
+        categories: ["Newsroom"],
+        image: { url: "https://api.example.com/api/media/1", content_type: "image/png", size: 1234 },
+    });
+
+    describe("escapeXml", () => {
+        it("should escape markup and drop control characters", () => {
+            expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>\u0001`)).toBe("&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;");
+        });
+
+        it("should keep tabs, line breaks and characters outside the BMP", () => {
+            expect(escapeXml("a\tb\r\nc\u000B\u001F 😀")).toBe("a\tb\r\nc 😀");
+        });
+    });
+
+    describe("summarize", () => {
+        it("should prefer the excerpt", () => {
+            expect(summarize("  The excerpt ", "<p>Body</p>")).toBe("The excerpt");
+        });
+
+        it("should fall back to the content without markup, cut at a word", () => {
+            expect(summarize(null, "<p>one two</p><p>three four</p>", 12)).toBe("one two…");
+        });
+    });
+
+    describe("renderFeed", () => {
+        it("should only include full content in full mode", () => {
+            expect(renderFeed("rss", meta, [item(null)])).not.toContain("content:encoded");
+            expect(renderFeed("rss", meta, [item("<p>Body ]]> end</p>")])).toContain("<content:encoded><![CDATA[<p>Body ]]]]><![CDATA[> end</p>]]></content:encoded>");
+        });
+
+        it("should render a valid RSS item", () => {
+            const rss = renderFeed("rss", meta, [item(null)]);
+            expect(rss).toContain("<title>Blog &amp; News</title>");
+            expect(rss).toContain("<title>Ship &lt;fast&gt;</title>");
+            expect(rss).toContain("<pubDate>Sun, 01 Mar 2026 09:00:00 GMT</pubDate>");
+            expect(rss).toContain(`<enclosure url="https://api.example.com/api/media/1" length="1234" type="image/png"/>`);
+        });
+
+        it("should render Atom dates as ISO 8601", () => {
+            const atom = renderFeed("atom", meta, [item("<p>Body</p>")]);
+            expect(atom).toContain("<updated>2026-03-02T10:00:00.000Z</updated>");
+            expect(atom).toContain(`<content type="html">&lt;p&gt;Body&lt;/p&gt;</content>`);
+        });
+
+        it("should render JSON Feed items with content in either mode", () => {
+            const excerpt = JSON.parse(renderFeed("json", meta, [item(null)]));
+            const full = JSON.parse(renderFeed("json", meta, [item("<p>Body</p>")]));
+
+            expect(excerpt.version).toBe("https://jsonfeed.org/version/1.1");
+            expect(excerpt.items[0].content_text).toBe("Short summary");
+            expect(full.items[0].content_html).toBe("<p>Body</p>");
+            expect(full.items[0].authors).toEqual([{ name: "Ada Lovelace" }]);
+        });
+    });
+});
@@ -0,0 +1,174 @@
+export const FEED_FORMATS = ["rss", "atom", "json"] as const;
+export type FeedFormat = typeof FEED_FORMATS[number];
+
+export const FEED_MODES = ["excerpt", "full"] as const;
+export type FeedMode = typeof FEED_MODES[number];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: "application/rss+xml; charset=utf-8",
+    atom: "application/atom+xml; charset=utf-8",
+    json: "application/feed+json; charset=utf-8",
+};
+
+export interface FeedMeta {
+    title: string;
+    description: string;
+    site_url: string;
+    feed_url: string;
+    updated: Date;
+}
+
+export interface FeedItem {
+    id: string;
+    title: string;
+    url: string;
+    summary: string;
+    // Only set in full-content mode
+    content_html: string | null;
+    published: Date;
+    updated: Date;
+    authors: string[];
+    categories: string[];
+    image: { url: string; content_type: string | null; size: number | null } | null;
+}
+
+// Control characters other than tab, line feed and carriage return are not allowed anywhere in XML 1.0
+function isXmlChar(char: string): boolean {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+export function escapeXml(value: string): string {
+    return [...(value || "")]
+        .filter(isXmlChar)
+        .join("")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+// CDATA cannot contain "]]>", so it is split across two sections
+function cdata(value: string): string {
+    return `<![CDATA[${(value || "").replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+// Plain-text summary for feed readers: the excerpt, or the start of the content without markup
+export function summarize(excerpt: string | null | undefined, content: string, maxLength: number = 300): string {
+    if (excerpt && excerpt.trim()) {
+        return excerpt.trim();
+    }
+
+    const text = (content || "")
+        .replace(/<[^>]+>/g, " ")
+        .replace(/&nbsp;/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+
+    if (text.length <= maxLength) {
+        return text;
+    }
+
+    const cut = text.slice(0, maxLength);
+    const lastSpace = cut.lastIndexOf(" ");
+    return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+function renderRss(meta: FeedMeta, items: FeedItem[]): string {
+    const entries = items.map(item => [
+        "    <item>",
+        `      <title>${escapeXml(item.title)}</title>`,
+        `      <link>${escapeXml(item.url)}</link>`,
+        `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+        `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+        ...item.authors.map(author => `      <dc:creator>${escapeXml(author)}</dc:creator>`),
+        ...item.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+        `      <description>${escapeXml(item.summary)}</description>`,
+        ...(item.content_html !== null ? [`      <content:encoded>${cdata(item.content_html)}</content:encoded>`] : []),
+        ...(item.image ? [`      <enclosure url="${escapeXml(item.image.url)}" length="${item.image.size ?? 0}" type="${escapeXml(item.image.content_type || "image/jpeg")}"/>`] : []),
+        "    </item>",
+    ].join("\n"));
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+        "  <channel>",
+        `    <title>${escapeXml(meta.title)}</title>`,
+        `    <link>${escapeXml(meta.site_url)}</link>`,
+        `    <description>${escapeXml(meta.description)}</description>`,
+        "    <language>en</language>",
+        `    <lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>`,
+        `    <atom:link href="${escapeXml(meta.feed_url)}" rel="self" type="application/rss+xml"/>`,
+        ...entries,
+        "  </channel>",
+        "</rss>",
+        "",
+    ].join("\n");
+}
+
+function renderAtom(meta: FeedMeta, items: FeedItem[]): string {
+    const entries = items.map(item => [
+        "  <entry>",
+        `    <title>${escapeXml(item.title)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+        `    <id>urn:uuid:${escapeXml(item.id)}</id>`,
+        `    <published>${item.published.toISOString()}</published>`,
+        `    <updated>${item.updated.toISOString()}</updated>`,
+        ...item.authors.map(author => `    <author><name>${escapeXml(author)}</name></author>`),
+        ...item.categories.map(category => `    <category term="${escapeXml(category)}"/>`),
+        `    <summary>${escapeXml(item.summary)}</summary>`,
+        ...(item.content_html !== null ? [`    <content type="html">${escapeXml(item.content_html)}</content>`] : []),
+        ...(item.image ? [`    <link rel="enclosure" href="${escapeXml(item.image.url)}" type="${escapeXml(item.image.content_type || "image/jpeg")}"${item.image.size ? ` length="${item.image.size}"` : ""}/>`] : []),
+        "  </entry>",
+    ].join("\n"));
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">`,
+        `  <title>${escapeXml(meta.title)}</title>`,
+        `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+        `  <link rel="alternate" type="text/html" href="${escapeXml(meta.site_url)}"/>`,
+        `  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.feed_url)}"/>`,
+        `  <id>${escapeXml(meta.feed_url)}</id>`,
+        `  <updated>${meta.updated.toISOString()}</updated>`,
+        ...entries,
+        "</feed>",
+        "",
+    ].join("\n");
+}
+
+function renderJson(meta: FeedMeta, items: FeedItem[]): string {
+    return JSON.stringify({
+        version: "https://jsonfeed.org/version/1.1",
+        title: meta.title,
+        home_page_url: meta.site_url,
+        feed_url: meta.feed_url,
+        description: meta.description,
+        language: "en",
+        items: items.map(item => ({
+            id: item.id,
+            url: item.url,
+            title: item.title,
+            summary: item.summary,
+            // JSON Feed requires content on every item, the summary stands in for excerpt mode
+            ...(item.content_html !== null ? { content_html: item.content_html } : { content_text: item.summary }),
+            image: item.image?.url,
+            date_published: item.published.toISOString(),
+            date_modified: item.updated.toISOString(),
+            authors: item.authors.map(name => ({ name })),
+            tags: item.categories,
+        })),
+    }, null, 2);
+}
+
+export function renderFeed(format: FeedFormat, meta: FeedMeta, items: FeedItem[]): string {
+    switch (format) {
+        case "atom":
+            return renderAtom(meta, items);
+        case "json":
+            return renderJson(meta, items);
+        default:
+            return renderRss(meta, items);
+    }
+}
@@ -0,0 +1,55 @@
+import { clampPageSize, encodeCursor, decodeCursor, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./blog-pagination.util";
+
+describe("blog-pagination.util", () => {
+    describe("clampPageSize", () => {
+        it("should fall back to the default page size", () => {
+            expect(clampPageSize(undefined)).toBe(DEFAULT_PAGE_SIZE);
+            expect(clampPageSize(Number("abc"))).toBe(DEFAULT_PAGE_SIZE);
+        });
+
+        it("should keep the page size between 1 and the maximum", () => {
+            expect(clampPageSize(-5)).toBe(1);
+            expect(clampPageSize(25.7)).toBe(25);
+            expect(clampPageSize(10000)).toBe(MAX_PAGE_SIZE);
+        });
+    });
+
+    describe("cursors", () => {
+        it("should round-trip a cursor", () => {
+            const cursor = { sort: "published_at" as const, direction: "desc" as const, value: "2026-05-01 10:00:00.123456", id: "6b0e9f0c-6d7a-4b9e-9c1e-2f3a4b5c6d7e" };
+
+            expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+        });
+
+        it("should reject anything that is not an encoded cursor", () => {
+            expect(decodeCursor("not-a-cursor")).toBeNull();
+            expect(decodeCursor(Buffer.from(JSON.stringify(["title", "asc", "x"])).toString("base64url"))).toBeNull();
+            expect(decodeCursor(Buffer.from(JSON.stringify(["author", "asc", "x", "id"])).toString("base64url"))).toBeNull();
+            expect(decodeCursor(Buffer.from(JSON.stringify(["title", "up", "x", "id"])).toString("base64url"))).toBeNull();
+        });
+
+        const encode = (parts: unknown[]) => Buffer.from(JSON.stringify(parts)).toString("base64url");
+        const id = "6b0e9f0c-6d7a-4b9e-9c1e-2f3a4b5c6d7e";
+
+        it("should reject an ID that is not a UUID", () => {
+            expect(decodeCursor(encode(["title", "asc", "Hello", "y"]))).toBeNull();
+            expect(decodeCursor(encode(["title", "asc", "Hello", `${id}'`]))).toBeNull();
+        });
+
+        it("should reject values that do not match the sort type", () => {
+            expect(decodeCursor(encode(["published_at", "desc", "x", id]))).toBeNull();
+            expect(decodeCursor(encode(["published_at", "desc", "2026-02-30 10:00:00", id]))).toBeNull();
+            expect(decodeCursor(encode(["view_count", "desc", "12abc", id]))).toBeNull();
+            expect(decodeCursor(encode(["view_count", "desc", "99999999999", id]))).toBeNull();
+            expect(decodeCursor(encode(["relevance", "desc", "0x10", id]))).toBeNull();
+            expect(decodeCursor(encode(["title", "asc", "nul\u0000byte", id]))).toBeNull();
+        });
+
+        it("should accept values as Postgres prints them", () => {
+            expect(decodeCursor(encode(["created_at", "asc", "2026-05-01 10:00:00", id]))).not.toBeNull();
+            expect(decodeCursor(encode(["view_count", "desc", "42", id]))).not.toBeNull();
+            expect(decodeCursor(encode(["relevance", "desc", "1.5e-05", id]))).not.toBeNull();
+            expect(decodeCursor(encode(["title", "asc", "Any title, even 'quoted'", id]))).not.toBeNull();
+        });
+    });
+});
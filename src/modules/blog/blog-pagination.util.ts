@@ -0,0 +1,102 @@
+import { SEARCH_CONFIG } from "./blog-search.util";
+
+export const BLOG_SORT_FIELDS = ["published_at", "updated_at", "created_at", "view_count", "title", "relevance"] as const;
+export type BlogSortField = typeof BLOG_SORT_FIELDS[number];
+
+export const SORT_DIRECTIONS = ["asc", "desc"] as const;
+export type SortDirection = typeof SORT_DIRECTIONS[number];
+
+export const DEFAULT_PAGE_SIZE = 10;
+// Hard cap for every listing, so no endpoint can return the whole table in one response
+export const MAX_PAGE_SIZE = 50;
+
+interface SortDefinition {
+    // SQL expression ordered on; it is compared against the cursor too, so it must be deterministic
+    expression: string;
+    // Postgres type the cursor value is cast back to
+    type: "timestamp" | "integer" | "text" | "real";
+    default_direction: SortDirection;
+}
+
+// Drafts have no published_at, so they fall back to their creation time
+export const BLOG_SORTS: Record<BlogSortField, SortDefinition> = {
+    published_at: { expression: "COALESCE(post.published_at, post.created_at)", type: "timestamp", default_direction: "desc" },
+    updated_at: { expression: "post.updated_at", type: "timestamp", default_direction: "desc" },
+    created_at: { expression: "post.created_at", type: "timestamp", default_direction: "desc" },
+    view_count: { expression: "post.view_count", type: "integer", default_direction: "desc" },
+    title: { expression: "post.title", type: "text", default_direction: "asc" },
+    // Only available with a search query, which binds :tsQuery
+    relevance: { expression: `ts_rank_cd(post.search_vector, to_tsquery('${SEARCH_CONFIG}', :tsQuery))`, type: "real", default_direction: "desc" },
+};
+
+export interface BlogCursor {
+    sort: BlogSortField;
+    direction: SortDirection;
+    // Sort value of the last row as Postgres printed it, so the comparison is exact
+    value: string;
+    id: string;
+}
+
+export function clampPageSize(limit: number | undefined): number {
+    return Math.max(1, Math.min(Math.floor(limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE));
+}
+
+export function encodeCursor(cursor: BlogCursor): string {
+    return Buffer.from(JSON.stringify([cursor.sort, cursor.direction, cursor.value, cursor.id])).toString("base64url");
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+const INTEGER_PATTERN = /^-?\d{1,10}$/;
+const REAL_PATTERN = /^-?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i;
+
+/**
+ * Whether `value` reads as a value of the given Postgres type, the way (expression)::text prints
+ * it, so that casting it back in SQL cannot fail.
+ */
+function isCursorValue(value: string, type: SortDefinition["type"]): boolean {
+    switch (type) {
+        case "timestamp": {
+            const match = TIMESTAMP_PATTERN.exec(value);
+            if (!match) {
+                return false;
+            }
+
+            const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+            const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+            return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+                && date.getUTCHours() === hours && date.getUTCMinutes() === minutes && date.getUTCSeconds() === seconds;
+        }
+        case "integer":
+            return INTEGER_PATTERN.test(value) && Math.abs(Number(value)) <= 2147483647;
+        case "real":
+            return REAL_PATTERN.test(value) && Number.isFinite(Number(value));
+        case "text":
+            return !value.includes("\u0000");
+    }
+}
+
+// Returns null for anything that was not produced by encodeCursor
+export function decodeCursor(encoded: string): BlogCursor | null {
+    try {
+        const parsed = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+
+        if (!Array.isArray(parsed) || parsed.length !== 4) {
+            return null;
+        }
+
+        const [sort, direction, value, id] = parsed;
+        if (!BLOG_SORT_FIELDS.includes(sort) || !SORT_DIRECTIONS.includes(direction) || typeof value !== "string" || typeof id !== "string") {
+            return null;
+        }
+
+        // The value and ID go into SQL casts and comparisons, so malformed ones are refused here rather than by Postgres
+        if (!UUID_PATTERN.test(id) || !isCursorValue(value, BLOG_SORTS[sort as BlogSortField].type)) {
+            return null;
+        }
+
+        return { sort, direction, value, id };
+    } catch {
+        return null;
+    }
+}
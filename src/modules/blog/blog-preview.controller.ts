@@ -0,0 +1,204 @@
+import { Request as ExpressRequest } from "express";
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Delete, Body, Param, Query, Req, Ip, Headers, Header, HttpStatus, HttpCode, ParseUUIDPipe, UsePipes, ValidationPipe, UseGuards, Logger } from "@nestjs/common";
+
+import { BlogPostSingleResponseDTO } from "./blog.dto";
+import { BlogSeoService } from "./blog-seo.service";
+import { BlogPreviewService } from "./blog-preview.service";
+import { AuthenticatedRequest, ApiLocalized, localePreference } from "./blog.controller";
+import { CreateBlogPreviewTokenDTO, BlogPreviewTokenSingleResponseDTO, BlogPreviewTokenListResponseDTO, BlogPreviewAccessListResponseDTO } from "./blog-preview.dto";
+
+@ApiTags("Blog Previews")
+@Controller("blog")
+export class BlogPreviewController {
+    private readonly logger = new Logger(BlogPreviewController.name);
+
+    constructor(
+        private readonly previewService: BlogPreviewService,
+        private readonly seoService: BlogSeoService,
+    ) {}
+
+    private apiOrigin(req: ExpressRequest): string {
+        return `${req.protocol}://${req.get("host")}`;
+    }
+
+    @Get("preview/:token")
+    @Header("Cache-Control", "private, no-store")
+    @Header("X-Robots-Tag", "noindex, nofollow")
+    @ApiOperation({ summary: "Read a draft through a preview link, in the same shape as the slug lookup (Public)" })
+    @ApiParam({ name: "token", type: String, description: "Signed preview token" })
+    @ApiLocalized()
+    @ApiResponse({
+        status: 200,
+        description: "Draft retrieved successfully",
+        type: BlogPostSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid locale" })
+    @ApiResponse({ status: 404, description: "Preview link or post not found" })
+    @ApiResponse({ status: 410, description: "Preview link expired or revoked" })
+    async preview(
+        @Param("token") token: string,
+        @Req() req: ExpressRequest,
+        @Ip() ip: string,
+        @Headers("user-agent") userAgent: string | undefined,
+        @Query("locale") locale?: string,
+        @Headers("accept-language") acceptLanguage?: string
+    ): Promise<BlogPostSingleResponseDTO> {
+        try {
+            const post = await this.previewService.resolve(token, { ip, user_agent: userAgent }, localePreference(locale, acceptLanguage));
+            const seo = this.seoService.build(post, this.apiOrigin(req));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Preview retrieved successfully",
+                // Drafts must never be indexed, whatever the post's own setting
+                data: { ...post, seo: { ...seo, robots: "noindex, nofollow" } },
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving preview: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post(":id/preview-tokens")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.CREATED)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Create a signed, expiring preview link to a draft (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiBody({ type: CreateBlogPreviewTokenDTO, required: false })
+    @ApiResponse({
+        status: 201,
+        description: "Preview link created successfully",
+        type: BlogPreviewTokenSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Post is already published or invalid expiry" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async create(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() createDTO: CreateBlogPreviewTokenDTO,
+        @Req() req: ExpressRequest & Pick<AuthenticatedRequest, "user">
+    ): Promise<BlogPreviewTokenSingleResponseDTO> {
+        try {
+            const token = await this.previewService.create(id, createDTO || {}, req.user?.id || req.user?.sub || null, this.apiOrigin(req));
+
+            return {
+                status_code: HttpStatus.CREATED,
+                message: "Preview link created successfully",
+                data: token,
+            };
+        } catch (error) {
+            this.logger.error(`Error creating preview link: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":id/preview-tokens")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "List the preview links of a post with their status and use (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Preview links retrieved successfully",
+        type: BlogPreviewTokenListResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async findAll(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Req() req: ExpressRequest
+    ): Promise<BlogPreviewTokenListResponseDTO> {
+        try {
+            const tokens = await this.previewService.findAll(id, this.apiOrigin(req));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Preview links retrieved successfully",
+                data: tokens,
+                count: tokens.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving preview links: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id/preview-tokens/:tokenId")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Revoke a preview link; it stops working immediately (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiParam({ name: "tokenId", type: String, description: "Preview token UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Preview link revoked successfully",
+        type: BlogPreviewTokenSingleResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Preview link not found" })
+    async revoke(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("tokenId", ParseUUIDPipe) tokenId: string,
+        @Req() req: ExpressRequest
+    ): Promise<BlogPreviewTokenSingleResponseDTO> {
+        try {
+            const token = await this.previewService.revoke(id, tokenId, this.apiOrigin(req));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Preview link revoked successfully",
+                data: token,
+            };
+        } catch (error) {
+            this.logger.error(`Error revoking preview link: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":id/preview-tokens/:tokenId/access-log")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "List when and from where a preview link was opened (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiParam({ name: "tokenId", type: String, description: "Preview token UUID" })
+    @ApiQuery({ name: "page", required: false, type: Number, description: "Page number" })
+    @ApiQuery({ name: "limit", required: false, type: Number, description: "Items per page (max 100)" })
+    @ApiResponse({
+        status: 200,
+        description: "Access log retrieved successfully",
+        type: BlogPreviewAccessListResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Preview link not found" })
+    async findAccessLog(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("tokenId", ParseUUIDPipe) tokenId: string,
+        @Query("page") page?: number,
+        @Query("limit") limit?: number
+    ): Promise<BlogPreviewAccessListResponseDTO> {
+        try {
+            const result = await this.previewService.findAccessLog(id, tokenId, page ? Number(page) : 1, limit ? Number(limit) : 20);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Access log retrieved successfully",
+                data: result.data,
+                count: result.total,
+                page: result.page,
+                limit: result.limit,
+                total_pages: result.totalPages,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving preview access log: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import { Type, Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsInt, Min, Max, IsString, MaxLength } from "class-validator";
+
+import { BlogRevisionEditorResponseDTO } from "./blog-revision.dto";
+import { PREVIEW_DEFAULT_HOURS, PREVIEW_MAX_HOURS, PREVIEW_TOKEN_STATUSES, PreviewTokenStatus } from "./blog-preview.util";
+
+export class CreateBlogPreviewTokenDTO {
+    @ApiPropertyOptional({ description: "Hours until the link stops working", minimum: 1, maximum: PREVIEW_MAX_HOURS, default: PREVIEW_DEFAULT_HOURS })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt({ message: "Expires in hours must be a whole number" })
+    @Min(1, { message: "Expires in hours must be at least 1" })
+    @Max(PREVIEW_MAX_HOURS, { message: `Expires in hours must be at most ${PREVIEW_MAX_HOURS}` })
+    expires_in_hours?: number;
+
+    @ApiPropertyOptional({ description: "Who the link is for, e.g. \"Legal review\"", maxLength: 100 })
+    @IsOptional()
+    @IsString({ message: "Label must be a string" })
+    @MaxLength(100, { message: "Label must be less than 100 characters" })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || undefined : value)
+    label?: string;
+}
+
+export class BlogPreviewTokenResponseDTO {
+    @ApiProperty({ description: "Preview token ID" })
+    id: string;
+
+    @ApiProperty({ description: "Blog post ID" })
+    post_id: string;
+
+    @ApiProperty({ description: "Who the link is for", nullable: true })
+    label: string | null;
+
+    @ApiProperty({ description: "active, expired or revoked", enum: PREVIEW_TOKEN_STATUSES })
+    status: PreviewTokenStatus;
+
+    @ApiProperty({ description: "When the link stops working" })
+    expires_at: Date;
+
+    @ApiProperty({ description: "When the link was revoked", nullable: true })
+    revoked_at: Date | null;
+
+    @ApiProperty({ description: "Number of times the preview was opened" })
+    access_count: number;
+
+    @ApiProperty({ description: "When the preview was last opened", nullable: true })
+    last_accessed_at: Date | null;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Administrator who created the link", type: BlogRevisionEditorResponseDTO, nullable: true })
+    created_by: BlogRevisionEditorResponseDTO | null;
+
+    @ApiProperty({ description: "Signed token to share" })
+    token: string;
+
+    @ApiProperty({ description: "Public API URL that returns the draft for this token" })
+    url: string;
+}
+
+export class BlogPreviewAccessDTO {
+    @ApiProperty({ description: "Access ID" })
+    id: string;
+
+    @ApiProperty({ description: "IP address the preview was opened from", nullable: true })
+    ip: string | null;
+
+    @ApiProperty({ description: "Browser user agent", nullable: true })
+    user_agent: string | null;
+
+    @ApiProperty({ description: "When the preview was opened" })
+    accessed_at: Date;
+}
+
+export class BlogPreviewTokenSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Preview link", type: BlogPreviewTokenResponseDTO })
+    data: BlogPreviewTokenResponseDTO;
+}
+
+export class BlogPreviewTokenListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Preview links, newest first", type: [BlogPreviewTokenResponseDTO] })
+    data: BlogPreviewTokenResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogPreviewAccessListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Accesses, newest first", type: [BlogPreviewAccessDTO] })
+    data: BlogPreviewAccessDTO[];
+
+    @ApiProperty({ description: "Total number of accesses" })
+    count: number;
+
+    @ApiProperty({ description: "Current page" })
+    page: number;
+
+    @ApiProperty({ description: "Items per page" })
+    limit: number;
+
+    @ApiProperty({ description: "Total pages" })
+    total_pages: number;
+}
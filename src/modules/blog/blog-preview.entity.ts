@@ -0,0 +1,104 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { Administrator } from "../admin/admin.entity";
+import { PreviewTokenStatus, previewTokenStatus } from "./blog-preview.util";
+
+// A shareable preview link to a draft; the link itself is signed, this record allows revoking it
+@Entity("blog_post_preview_tokens")
+export class BlogPostPreviewToken {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Index()
+    @Column({ type: "uuid" })
+    post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    // Who the link was made for, e.g. "Legal review"
+    @Column({ nullable: true, type: "varchar", length: 100 })
+    label: string | null;
+
+    @Column({ type: "timestamp" })
+    expires_at: Date;
+
+    @Column({ nullable: true, type: "timestamp" })
+    revoked_at: Date | null;
+
+    @Column({ type: "integer", default: 0 })
+    access_count: number;
+
+    @Column({ nullable: true, type: "timestamp" })
+    last_accessed_at: Date | null;
+
+    @Column({ nullable: true, type: "uuid" })
+    created_by_id: string | null;
+
+    @ManyToOne(() => Administrator, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "created_by_id" })
+    created_by: Administrator | null;
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    toResponseObject(now: Date = new Date()): {
+        id: string;
+        post_id: string;
+        label: string | null;
+        status: PreviewTokenStatus;
+        expires_at: Date;
+        revoked_at: Date | null;
+        access_count: number;
+        last_accessed_at: Date | null;
+        created_at: Date;
+        created_by: {
+            id: string;
+            first_name: string;
+            last_name: string;
+        } | null;
+    } {
+        return {
+            id: this.id,
+            post_id: this.post_id,
+            label: this.label,
+            status: previewTokenStatus(this, now),
+            expires_at: this.expires_at,
+            revoked_at: this.revoked_at,
+            access_count: this.access_count,
+            last_accessed_at: this.last_accessed_at,
+            created_at: this.created_at,
+            created_by: this.created_by ? {
+                id: this.created_by.id,
+                first_name: this.created_by.first_name,
+                last_name: this.created_by.last_name,
+            } : null,
+        };
+    }
+}
+
+// One successful opening of a preview link, kept so editors can see who read the draft
+@Entity("blog_post_preview_access_log")
+@Index(["token_id", "accessed_at"])
+export class BlogPostPreviewAccess {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "uuid" })
+    token_id: string;
+
+    @ManyToOne(() => BlogPostPreviewToken, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "token_id" })
+    token: BlogPostPreviewToken;
+
+    @Column({ nullable: true, type: "varchar", length: 45 })
+    ip: string | null;
+
+    @Column({ nullable: true, type: "varchar", length: 500 })
+    user_agent: string | null;
+
+    @CreateDateColumn({ name: "accessed_at", type: "timestamp" })
+    accessed_at: Date;
+}
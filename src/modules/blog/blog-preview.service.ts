@@ -0,0 +1,237 @@
+import { Repository } from "typeorm";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, GoneException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogPostResponseDTO } from "./blog.dto";
+import { BlogPostService } from "./blog.service";
+import { LocalePreference } from "./blog-translation.util";
+import { BlogPostPreviewToken, BlogPostPreviewAccess } from "./blog-preview.entity";
+import { CreateBlogPreviewTokenDTO, BlogPreviewTokenResponseDTO, BlogPreviewAccessDTO } from "./blog-preview.dto";
+import { signPreviewToken, verifyPreviewToken, previewTokenStatus, previewExpiry } from "./blog-preview.util";
+
+export interface BlogPreviewVisitor {
+    ip: string;
+    user_agent: string | undefined;
+}
+
+export interface BlogPreviewAccessPage {
+    data: BlogPreviewAccessDTO[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+}
+
+@Injectable()
+export class BlogPreviewService {
+    private readonly logger = new Logger(BlogPreviewService.name);
+
+    constructor(
+        @InjectRepository(BlogPostPreviewToken)
+        private readonly tokenRepository: Repository<BlogPostPreviewToken>,
+        @InjectRepository(BlogPostPreviewAccess)
+        private readonly accessRepository: Repository<BlogPostPreviewAccess>,
+        @InjectRepository(BlogPost)
+        private readonly blogPostRepository: Repository<BlogPost>,
+        private readonly blogPostService: BlogPostService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    // Falls back to the JWT secret, like the view hash salt, so previews work without extra setup
+    private get secret(): string {
+        const secret = this.configService.get<string>("PREVIEW_TOKEN_SECRET") || this.configService.get<string>("JWT_SECRET");
+        if (!secret) {
+            throw new Error("PREVIEW_TOKEN_SECRET or JWT_SECRET must be set to sign preview links");
+        }
+        return secret;
+    }
+
+    private toResponse(token: BlogPostPreviewToken, apiOrigin: string): BlogPreviewTokenResponseDTO {
+        const signed = signPreviewToken(this.secret, { id: token.id, expires_at: token.expires_at });
+
+        return {
+            ...token.toResponseObject(),
+            token: signed,
+            url: `${apiOrigin}/api/blog/preview/${signed}`,
+        };
+    }
+
+    private async findPost(post_id: string): Promise<BlogPost> {
+        const post = await this.blogPostRepository.findOne({ where: { id: post_id } });
+        if (!post) {
+            throw new NotFoundException(`Blog post with ID ${post_id} not found`);
+        }
+        return post;
+    }
+
+    private async findToken(post_id: string, token_id: string): Promise<BlogPostPreviewToken> {
+        const token = await this.tokenRepository.findOne({
+            where: { id: token_id, post_id },
+            relations: ["created_by"],
+        });
+
+        if (!token) {
+            throw new NotFoundException(`Preview link with ID ${token_id} not found for this post`);
+        }
+
+        return token;
+    }
+
+    /**
+     * Creates a signed, expiring preview link to a draft. Published posts already have a
+     * public URL, so they are refused. `apiOrigin` makes the returned URL absolute.
+     */
+    async create(post_id: string, createDTO: CreateBlogPreviewTokenDTO, created_by_id: string | null, apiOrigin: string): Promise<BlogPreviewTokenResponseDTO> {
+        try {
+            const post = await this.findPost(post_id);
+            if (post.is_published) {
+                throw new BadRequestException("Post is already published; share its public URL instead");
+            }
+
+            const saved = await this.tokenRepository.save(this.tokenRepository.create({
+                post_id,
+                label: createDTO.label || null,
+                expires_at: previewExpiry(createDTO.expires_in_hours),
+                created_by_id,
+            }));
+
+            this.logger.log(`🔗 Preview link ${saved.id} created for post ${post_id}, expires ${saved.expires_at.toISOString()}`);
+
+            return this.toResponse(await this.findToken(post_id, saved.id), apiOrigin);
+        } catch (error) {
+            this.logger.error(`Error creating preview link: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to create preview link");
+        }
+    }
+
+    async findAll(post_id: string, apiOrigin: string): Promise<BlogPreviewTokenResponseDTO[]> {
+        try {
+            await this.findPost(post_id);
+
+            const tokens = await this.tokenRepository.find({
+                where: { post_id },
+                relations: ["created_by"],
+                order: { created_at: "DESC" },
+            });
+
+            return tokens.map(token => this.toResponse(token, apiOrigin));
+        } catch (error) {
+            this.logger.error(`Error finding preview links: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve preview links");
+        }
+    }
+
+    // Revoking twice keeps the first revocation time
+    async revoke(post_id: string, token_id: string, apiOrigin: string): Promise<BlogPreviewTokenResponseDTO> {
+        try {
+            const token = await this.findToken(post_id, token_id);
+
+            if (!token.revoked_at) {
+                token.revoked_at = new Date();
+                await this.tokenRepository.update(token.id, { revoked_at: token.revoked_at });
+                this.logger.log(`🔒 Preview link ${token.id} revoked`);
+            }
+
+            return this.toResponse(token, apiOrigin);
+        } catch (error) {
+            this.logger.error(`Error revoking preview link: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to revoke preview link");
+        }
+    }
+
+    async findAccessLog(post_id: string, token_id: string, page: number = 1, limit: number = 20): Promise<BlogPreviewAccessPage> {
+        try {
+            await this.findToken(post_id, token_id);
+
+            const take = Math.min(Math.max(limit, 1), 100);
+            const skip = (Math.max(page, 1) - 1) * take;
+
+            const [entries, total] = await this.accessRepository.findAndCount({
+                where: { token_id },
+                order: { accessed_at: "DESC" },
+                skip,
+                take,
+            });
+
+            return {
+                data: entries.map(entry => ({
+                    id: entry.id,
+                    ip: entry.ip,
+                    user_agent: entry.user_agent,
+                    accessed_at: entry.accessed_at,
+                })),
+                total,
+                page: Math.max(page, 1),
+                limit: take,
+                totalPages: Math.ceil(total / take),
+            };
+        } catch (error) {
+            this.logger.error(`Error finding preview access log: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve preview access log");
+        }
+    }
+
+    /**
+     * Returns the draft behind a preview token, shaped like findBySlug, and logs the access.
+     * Forged and unknown tokens are not found; expired and revoked ones are gone.
+     */
+    async resolve(signed: string, visitor: BlogPreviewVisitor, preference: LocalePreference): Promise<BlogPostResponseDTO> {
+        try {
+            const claims = verifyPreviewToken(this.secret, signed);
+            const token = claims ? await this.tokenRepository.findOne({ where: { id: claims.id } }) : null;
+
+            // The signed expiry must match the record, so a token cannot outlive a shortened link
+            if (!claims || !token || token.expires_at.getTime() !== claims.expires_at.getTime()) {
+                throw new NotFoundException("Preview link not found");
+            }
+
+            const status = previewTokenStatus(token);
+            if (status !== "active") {
+                throw new GoneException(`Preview link has ${status === "revoked" ? "been revoked" : "expired"}`);
+            }
+
+            const post = await this.blogPostService.findPreview(token.post_id, preference);
+
+            const now = new Date();
+            await this.tokenRepository.increment({ id: token.id }, "access_count", 1);
+            await this.tokenRepository.update(token.id, { last_accessed_at: now });
+            await this.accessRepository.save(this.accessRepository.create({
+                token_id: token.id,
+                ip: visitor.ip ? visitor.ip.slice(0, 45) : null,
+                user_agent: visitor.user_agent ? visitor.user_agent.slice(0, 500) : null,
+            }));
+
+            return post;
+        } catch (error) {
+            this.logger.error(`Error resolving preview link: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof GoneException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve preview");
+        }
+    }
+}
@@ -0,0 +1,51 @@
+import { signPreviewToken, verifyPreviewToken, previewTokenStatus, previewExpiry, PREVIEW_DEFAULT_HOURS, PREVIEW_MAX_HOURS } from "./blog-preview.util";
+
+describe("blog-preview.util", () => {
+    const secret = "test-secret";
+    const claims = { id: "6f1c1f52-0d0a-4d4c-9d7e-0d1f7c1c9b11", expires_at: new Date("2026-03-04T09:00:00Z") };
+
+    describe("signPreviewToken / verifyPreviewToken", () => {
+        it("round-trips the claims", () => {
+            const token = signPreviewToken(secret, claims);
+
+            expect(token.startsWith(`${claims.id}.`)).toBe(true);
+            expect(verifyPreviewToken(secret, token)).toEqual(claims);
+        });
+
+        it("rejects tokens signed with another secret or altered", () => {
+            const token = signPreviewToken(secret, claims);
+            const [id, expiry, signature] = token.split(".");
+            const later = (parseInt(expiry, 36) + 3600).toString(36);
+
+            expect(verifyPreviewToken("other-secret", token)).toBeNull();
+            expect(verifyPreviewToken(secret, `${id}.${later}.${signature}`)).toBeNull();
+            expect(verifyPreviewToken(secret, `${id}.${expiry}.${signature.slice(0, -1)}`)).toBeNull();
+        });
+
+        it("rejects malformed tokens", () => {
+            expect(verifyPreviewToken(secret, "")).toBeNull();
+            expect(verifyPreviewToken(secret, "not-a-token")).toBeNull();
+            expect(verifyPreviewToken(secret, "a.b.c")).toBeNull();
+        });
+    });
+
+    describe("previewTokenStatus", () => {
+        const now = new Date("2026-03-02T00:00:00Z");
+
+        it("prefers revoked over expired", () => {
+            expect(previewTokenStatus({ expires_at: claims.expires_at, revoked_at: null }, now)).toBe("active");
+            expect(previewTokenStatus({ expires_at: new Date("2026-03-01T00:00:00Z"), revoked_at: null }, now)).toBe("expired");
+            expect(previewTokenStatus({ expires_at: new Date("2026-03-01T00:00:00Z"), revoked_at: now }, now)).toBe("revoked");
+        });
+    });
+
+    describe("previewExpiry", () => {
+        const now = new Date("2026-03-02T00:00:00.750Z");
+
+        it("defaults, clamps and drops milliseconds", () => {
+            expect(previewExpiry(undefined, now)).toEqual(new Date(Date.UTC(2026, 2, 2) + PREVIEW_DEFAULT_HOURS * 3600000));
+            expect(previewExpiry(2, now)).toEqual(new Date("2026-03-02T02:00:00Z"));
+            expect(previewExpiry(100000, now)).toEqual(new Date(Date.UTC(2026, 2, 2) + PREVIEW_MAX_HOURS * 3600000));
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const PREVIEW_DEFAULT_HOURS = 72;
+// A preview link is for a review round, not a permanent back door to the draft
+export const PREVIEW_MAX_HOURS = 30 * 24;
+
+export const PREVIEW_TOKEN_STATUSES = ["active", "expired", "revoked"] as const;
+export type PreviewTokenStatus = typeof PREVIEW_TOKEN_STATUSES[number];
+
+export interface PreviewTokenClaims {
+    id: string;
+    expires_at: Date;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function sign(secret: string, payload: string): string {
+    return createHmac("sha256", secret).update(`blog-preview:${payload}`).digest("base64url");
+}
+
+/**
+ * Token handed out in a preview link: the token record ID and expiry, signed so that forged or
+ * altered links are rejected before the database is consulted. Revocation still needs the record.
+ */
+export function signPreviewToken(secret: string, claims: PreviewTokenClaims): string {
+    const payload = `${claims.id}.${Math.floor(claims.expires_at.getTime() / 1000).toString(36)}`;
+    return `${payload}.${sign(secret, payload)}`;
+}
+
+// Claims of a correctly signed token, expired or not; null for anything else
+export function verifyPreviewToken(secret: string, token: string): PreviewTokenClaims | null {
+    const parts = typeof token === "string" ? token.split(".") : [];
+    if (parts.length !== 3 || !UUID_PATTERN.test(parts[0]) || !/^[0-9a-z]+$/.test(parts[1])) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(secret, `${parts[0]}.${parts[1]}`));
+    const actual = Buffer.from(parts[2]);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+    }
+
+    return { id: parts[0], expires_at: new Date(parseInt(parts[1], 36) * 1000) };
+}
+
+export function previewTokenStatus(token: { expires_at: Date; revoked_at: Date | null }, now: Date = new Date()): PreviewTokenStatus {
+    if (token.revoked_at) {
+        return "revoked";
+    }
+    return token.expires_at <= now ? "expired" : "active";
+}
+
+// Expiry for a new token, whole seconds so it survives the round trip through the token
+export function previewExpiry(hours: number | undefined, now: Date = new Date()): Date {
+    const clamped = Math.max(1, Math.min(Math.floor(hours || PREVIEW_DEFAULT_HOURS), PREVIEW_MAX_HOURS));
+    return new Date(Math.floor((now.getTime() + clamped * 60 * 60 * 1000) / 1000) * 1000);
+}
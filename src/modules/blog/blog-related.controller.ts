@@ -0,0 +1,116 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Put, Body, Param, HttpStatus, ValidationPipe, ParseUUIDPipe, UsePipes, UseGuards, Query, Logger } from "@nestjs/common";
+
+import { BlogPostService } from "./blog.service";
+import { BlogPostListResponseDTO } from "./blog.dto";
+import { BlogRelatedService } from "./blog-related.service";
+import { SetRelatedPostsDTO } from "./blog-related.dto";
+import { RELATED_DEFAULT_LIMIT, RELATED_MAX_LIMIT } from "./blog-related.util";
+
+@ApiTags("Blog Related Posts")
+@Controller("blog")
+export class BlogRelatedController {
+    private readonly logger = new Logger(BlogRelatedController.name);
+
+    constructor(
+        private readonly blogPostService: BlogPostService,
+        private readonly relatedService: BlogRelatedService
+    ) {}
+
+    @Get("slug/:slug/related")
+    @ApiOperation({ summary: "Get posts related to a published blog post (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Blog post slug" })
+    @ApiQuery({ name: "limit", required: false, type: Number, description: `Number of posts to return (default ${RELATED_DEFAULT_LIMIT}, max ${RELATED_MAX_LIMIT})` })
+    @ApiResponse({
+        status: 200,
+        description: "Related blog posts retrieved successfully, pinned posts first",
+        type: BlogPostListResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async findRelated(
+        @Param("slug") slug: string,
+        @Query("limit") limit?: number
+    ): Promise<BlogPostListResponseDTO> {
+        try {
+            const posts = await this.blogPostService.findRelated(slug, limit ? Number(limit) : RELATED_DEFAULT_LIMIT);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Related blog posts retrieved successfully",
+                data: posts,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving related posts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":id/related")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get the related posts pinned to a blog post" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Pinned related posts retrieved successfully",
+        type: BlogPostListResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async findPins(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<BlogPostListResponseDTO> {
+        try {
+            const posts = await this.relatedService.findPins(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Pinned related posts retrieved successfully",
+                data: posts,
+                count: posts.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving pinned related posts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Put(":id/related")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Replace the related posts pinned to a blog post" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiBody({ type: SetRelatedPostsDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Related posts pinned successfully",
+        type: BlogPostListResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Unknown post or post pinned to itself" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async setPins(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() setRelatedPostsDTO: SetRelatedPostsDTO
+    ): Promise<BlogPostListResponseDTO> {
+        try {
+            const posts = await this.relatedService.setPins(id, setRelatedPostsDTO.post_ids);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Related posts pinned successfully",
+                data: posts,
+                count: posts.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error pinning related posts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsArray, ArrayMaxSize, IsUUID } from "class-validator";
+
+import { RELATED_MAX_PINS } from "./blog-related.util";
+
+export class SetRelatedPostsDTO {
+    @ApiProperty({
+        description: `IDs of posts to show as related, in display order (at most ${RELATED_MAX_PINS}); an empty list removes all pins`,
+        type: [String]
+    })
+    @IsArray({ message: "Post IDs must be an array" })
+    @ArrayMaxSize(RELATED_MAX_PINS, { message: `Maximum ${RELATED_MAX_PINS} related posts can be pinned` })
+    @IsUUID("all", { each: true, message: "Each post ID must be a valid UUID" })
+    post_ids: string[];
+}
@@ -0,0 +1,27 @@
+import { Entity, Column, CreateDateColumn, ManyToOne, JoinColumn, PrimaryColumn } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+
+// Related post chosen by an editor; pins are listed before computed recommendations
+@Entity("blog_post_related_pins")
+export class BlogPostRelatedPin {
+    @PrimaryColumn({ type: "uuid" })
+    post_id: string;
+
+    @PrimaryColumn({ type: "uuid" })
+    related_post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "related_post_id" })
+    related_post: BlogPost;
+
+    @Column({ type: "integer" })
+    position: number;
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+}
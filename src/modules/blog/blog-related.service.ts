@@ -0,0 +1,108 @@
+import { Repository, In } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogPostResponseDTO } from "./blog.dto";
+import { BlogPostRelatedPin } from "./blog-related.entity";
+import { POST_AUTHOR_RELATIONS } from "./blog-author.util";
+
+@Injectable()
+export class BlogRelatedService {
+    private readonly logger = new Logger(BlogRelatedService.name);
+
+    constructor(
+        @InjectRepository(BlogPostRelatedPin)
+        private readonly pinRepository: Repository<BlogPostRelatedPin>,
+        @InjectRepository(BlogPost)
+        private readonly blogPostRepository: Repository<BlogPost>,
+    ) {}
+
+    // Pinned post IDs in display order; visibility is checked by the caller
+    async getPinnedIds(post_id: string): Promise<string[]> {
+        const pins = await this.pinRepository.find({
+            where: { post_id },
+            order: { position: "ASC" },
+        });
+
+        return pins.map(pin => pin.related_post_id);
+    }
+
+    // Pinned posts for editors, including drafts that will only appear once published
+    async findPins(post_id: string): Promise<BlogPostResponseDTO[]> {
+        try {
+            if (!(await this.blogPostRepository.exists({ where: { id: post_id } }))) {
+                throw new NotFoundException(`Blog post with ID ${post_id} not found`);
+            }
+
+            const ids = await this.getPinnedIds(post_id);
+            if (ids.length === 0) {
+                return [];
+            }
+
+            const posts = await this.blogPostRepository.find({
+                where: { id: In(ids) },
+                relations: ["author", ...POST_AUTHOR_RELATIONS, "featured_media", "featured_media.variants", "categories", "tags"],
+            });
+            const postsById = new Map(posts.map(post => [post.id, post]));
+
+            return ids
+                .map(id => postsById.get(id))
+                .filter((post): post is BlogPost => !!post)
+                .map(post => post.toResponseObject() as BlogPostResponseDTO);
+        } catch (error) {
+            this.logger.error(`Error finding related post pins: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve related post pins");
+        }
+    }
+
+    async setPins(post_id: string, post_ids: string[]): Promise<BlogPostResponseDTO[]> {
+        try {
+            if (!(await this.blogPostRepository.exists({ where: { id: post_id } }))) {
+                throw new NotFoundException(`Blog post with ID ${post_id} not found`);
+            }
+
+            const ids = [...new Set(post_ids)];
+            if (ids.includes(post_id)) {
+                throw new BadRequestException("A post cannot be related to itself");
+            }
+
+            if (ids.length > 0) {
+                const existing = await this.blogPostRepository.find({ where: { id: In(ids) }, select: ["id"] });
+                const existingIds = new Set(existing.map(post => post.id));
+                const missing = ids.filter(id => !existingIds.has(id));
+                if (missing.length > 0) {
+                    throw new BadRequestException(`Blog posts not found: ${missing.join(", ")}`);
+                }
+            }
+
+            await this.pinRepository.manager.transaction(async manager => {
+                await manager.delete(BlogPostRelatedPin, { post_id });
+                if (ids.length > 0) {
+                    await manager.insert(BlogPostRelatedPin, ids.map((related_post_id, position) => ({
+                        post_id,
+                        related_post_id,
+                        position,
+                    })));
+                }
+            });
+
+            this.logger.log(`📌 Pinned ${ids.length} related posts for post ${post_id}`);
+
+            return await this.findPins(post_id);
+        } catch (error) {
+            this.logger.error(`Error pinning related posts: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to pin related posts");
+        }
+    }
+}
@@ -0,0 +1,46 @@
+import { extractKeywords, scoreRelatedPost, rankRelatedPosts, RELATED_WEIGHTS } from "./blog-related.util";
+
+describe("blog-related.util", () => {
+    const now = new Date("2026-06-01T00:00:00Z");
+
+    describe("extractKeywords", () => {
+        it("should weight title words and skip markup, stop words and short words", () => {
+            const keywords = extractKeywords(
+                "Scaling Postgres",
+                "<p>This post is about <strong>indexes</strong>. Indexes &amp; vacuum, vacuum, vacuum.</p>",
+                3
+            );
+
+            expect(keywords).toEqual(["postgres", "scaling", "vacuum"]);
+        });
+
+        it("should only return letters and digits", () => {
+            expect(extractKeywords("C++ & Node.js: 2026 roadmap", "")).toEqual(["node", "roadmap"]);
+        });
+    });
+
+    describe("scoreRelatedPost", () => {
+        it("should combine categories, keywords and recency", () => {
+            const score = scoreRelatedPost({ id: "a", shared_categories: 1, keyword_rank: 0.5, published_at: now }, now);
+            expect(score).toBeCloseTo(RELATED_WEIGHTS.category + RELATED_WEIGHTS.keyword * 0.5 + RELATED_WEIGHTS.recency);
+        });
+
+        it("should halve the recency score every 90 days", () => {
+            const old = new Date(now.getTime() - 90 * 86400000);
+            expect(scoreRelatedPost({ id: "a", shared_categories: 0, keyword_rank: 0, published_at: old }, now))
+                .toBeCloseTo(RELATED_WEIGHTS.recency / 2);
+        });
+    });
+
+    describe("rankRelatedPosts", () => {
+        it("should order by score, then by newest", () => {
+            const day = (days: number) => new Date(now.getTime() - days * 86400000);
+
+            expect(rankRelatedPosts([
+                { id: "recent-only", shared_categories: 0, keyword_rank: 0, published_at: day(1) },
+                { id: "same-category", shared_categories: 1, keyword_rank: 0.1, published_at: day(400) },
+                { id: "strong-match", shared_categories: 1, keyword_rank: 0.8, published_at: day(30) },
+            ], now)).toEqual(["strong-match", "same-category", "recent-only"]);
+        });
+    });
+});
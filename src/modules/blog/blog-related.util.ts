@@ -0,0 +1,79 @@
+export const RELATED_DEFAULT_LIMIT = 4;
+export const RELATED_MAX_LIMIT = 20;
+export const RELATED_MAX_PINS = 10;
+
+// Candidate posts scored per request; only posts sharing a category or a keyword are considered
+export const RELATED_CANDIDATE_LIMIT = 200;
+
+export const RELATED_WEIGHTS = {
+    category: 2,
+    keyword: 6,
+    recency: 1,
+};
+
+// A post loses half of its recency score every 90 days
+export const RELATED_RECENCY_HALF_LIFE_DAYS = 90;
+
+const KEYWORD_LIMIT = 12;
+const TITLE_WEIGHT = 3;
+
+const STOP_WORDS = new Set([
+    "about", "after", "again", "also", "been", "before", "being", "between", "both", "could", "does",
+    "doing", "down", "during", "each", "from", "further", "have", "having", "here", "into", "just",
+    "more", "most", "much", "only", "other", "ours", "over", "same", "should", "some", "such", "than",
+    "that", "their", "theirs", "them", "then", "there", "these", "they", "this", "those", "through",
+    "under", "until", "very", "want", "were", "what", "when", "where", "which", "while", "will", "with",
+    "would", "your", "yours", "make", "made", "like", "many", "every", "because", "using", "used",
+]);
+
+export interface RelatedCandidate {
+    id: string;
+    shared_categories: number;
+    // ts_rank normalised to 0..1
+    keyword_rank: number;
+    published_at: Date | null;
+}
+
+function words(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length >= 4 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+/**
+ * Picks the most frequent meaningful words of a post, counting title words more heavily.
+ * Only letters and digits are returned, so the words can be joined into a tsquery directly.
+ */
+export function extractKeywords(title: string, html: string, limit: number = KEYWORD_LIMIT): string[] {
+    const counts = new Map<string, number>();
+    const add = (word: string, weight: number) => counts.set(word, (counts.get(word) || 0) + weight);
+
+    words(title || "").forEach(word => add(word, TITLE_WEIGHT));
+    words((html || "").replace(/<[^>]+>/g, " ").replace(/&[a-z#0-9]+;/gi, " ")).forEach(word => add(word, 1));
+
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([word]) => word);
+}
+
+export function scoreRelatedPost(candidate: RelatedCandidate, now: Date = new Date()): number {
+    const ageDays = candidate.published_at
+        ? Math.max(0, (now.getTime() - candidate.published_at.getTime()) / 86400000)
+        : Infinity;
+    const recency = Math.pow(0.5, ageDays / RELATED_RECENCY_HALF_LIFE_DAYS);
+
+    return RELATED_WEIGHTS.category * candidate.shared_categories
+        + RELATED_WEIGHTS.keyword * candidate.keyword_rank
+        + RELATED_WEIGHTS.recency * recency;
+}
+
+// Candidate IDs from best to worst; ties go to the newer post
+export function rankRelatedPosts(candidates: RelatedCandidate[], now: Date = new Date()): string[] {
+    return candidates
+        .map(candidate => ({ candidate, score: scoreRelatedPost(candidate, now) }))
+        .sort((a, b) => b.score - a.score
+            || (b.candidate.published_at?.getTime() ?? 0) - (a.candidate.published_at?.getTime() ?? 0))
+        .map(({ candidate }) => candidate.id);
+}
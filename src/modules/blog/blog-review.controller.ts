@@ -0,0 +1,167 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Patch, Body, Param, Query, Request, HttpStatus, HttpCode, ParseUUIDPipe, UsePipes, ValidationPipe, UseGuards, BadRequestException, Logger } from "@nestjs/common";
+
+import { BlogPostSingleResponseDTO } from "./blog.dto";
+import { AuthenticatedRequest, administratorId } from "./blog.controller";
+import { BlogReviewService } from "./blog-review.service";
+import { REVIEW_ACTIONS, REVIEW_STATUSES, ReviewStatus } from "./blog-review.util";
+import { BlogReviewTransitionDTO, AssignBlogReviewerDTO, BlogReviewEventListResponseDTO, BlogReviewQueueResponseDTO } from "./blog-review.dto";
+
+@ApiTags("Blog Review")
+@Controller("blog")
+@UseGuards(JWTAuthGuard)
+@ApiBearerAuth()
+export class BlogReviewController {
+    private readonly logger = new Logger(BlogReviewController.name);
+
+    constructor(private readonly reviewService: BlogReviewService) {}
+
+    @Get("review-queue")
+    @ApiOperation({ summary: "Get posts waiting for review, the longest waiting first (Admin only)" })
+    @ApiQuery({ name: "status", required: false, enum: REVIEW_STATUSES, description: "Review status (default in_review)" })
+    @ApiQuery({ name: "reviewer_id", required: false, type: String, description: "Only posts assigned to this reviewer" })
+    @ApiQuery({ name: "page", required: false, type: Number, description: "Page number" })
+    @ApiQuery({ name: "limit", required: false, type: Number, description: "Items per page (max 100)" })
+    @ApiResponse({
+        status: 200,
+        description: "Review queue retrieved successfully",
+        type: BlogReviewQueueResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid status or reviewer ID" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async findQueue(
+        @Query("status") status?: string,
+        @Query("reviewer_id", new ParseUUIDPipe({ optional: true })) reviewer_id?: string,
+        @Query("page") page?: number,
+        @Query("limit") limit?: number
+    ): Promise<BlogReviewQueueResponseDTO> {
+        try {
+            if (status !== undefined && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+                throw new BadRequestException(`Status must be one of: ${REVIEW_STATUSES.join(", ")}`);
+            }
+
+            const result = await this.reviewService.findQueue({
+                status: status as ReviewStatus | undefined,
+                reviewer_id,
+                page: page ? Number(page) : undefined,
+                limit: limit ? Number(limit) : undefined,
+            });
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Review queue retrieved successfully",
+                data: result.data,
+                count: result.total,
+                page: result.page,
+                limit: result.limit,
+                total_pages: result.totalPages,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving review queue: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post(":id/review/:action")
+    @HttpCode(HttpStatus.OK)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Move a post through review: submit, request_changes, approve, publish or withdraw (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiParam({ name: "action", enum: REVIEW_ACTIONS, description: "Workflow action" })
+    @ApiBody({ type: BlogReviewTransitionDTO, required: false })
+    @ApiResponse({
+        status: 200,
+        description: "Review status changed successfully",
+        type: BlogPostSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Unknown action, action not allowed from the current status, missing comment or invalid reviewer" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 403, description: "Not the assigned reviewer, or reviewing one's own post" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async transition(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("action") action: string,
+        @Body() transitionDTO: BlogReviewTransitionDTO,
+        @Request() req: AuthenticatedRequest
+    ): Promise<BlogPostSingleResponseDTO> {
+        try {
+            const post = await this.reviewService.transition(id, action, transitionDTO || {}, administratorId(req));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Review status changed successfully",
+                data: post,
+            };
+        } catch (error) {
+            this.logger.error(`Error changing review status: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Patch(":id/review/reviewer")
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Assign or clear the reviewer of a post (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiBody({ type: AssignBlogReviewerDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Reviewer assigned successfully",
+        type: BlogPostSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Unknown reviewer, the author, or the post is already published" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async assignReviewer(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() assignDTO: AssignBlogReviewerDTO,
+        @Request() req: AuthenticatedRequest
+    ): Promise<BlogPostSingleResponseDTO> {
+        try {
+            const post = await this.reviewService.assignReviewer(id, assignDTO.reviewer_id, administratorId(req));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Reviewer assigned successfully",
+                data: post,
+            };
+        } catch (error) {
+            this.logger.error(`Error assigning reviewer: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":id/review/history")
+    @ApiOperation({ summary: "List every review step taken on a post, oldest first (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Review history retrieved successfully",
+        type: BlogReviewEventListResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async findHistory(@Param("id", ParseUUIDPipe) id: string): Promise<BlogReviewEventListResponseDTO> {
+        try {
+            const events = await this.reviewService.findHistory(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Review history retrieved successfully",
+                data: events,
+                count: events.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving review history: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
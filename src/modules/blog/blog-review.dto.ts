@@ -0,0 +1,94 @@
+import { Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, MaxLength, IsUUID, ValidateIf } from "class-validator";
+
+import { BlogPostResponseDTO } from "./blog.dto";
+import { BlogRevisionEditorResponseDTO } from "./blog-revision.dto";
+import { REVIEW_ACTIONS, REVIEW_STATUSES, ReviewAction, ReviewStatus } from "./blog-review.util";
+
+export class BlogReviewTransitionDTO {
+    @ApiPropertyOptional({ description: "Note for the history; required when requesting changes", maxLength: 2000 })
+    @IsOptional()
+    @IsString({ message: "Comment must be a string" })
+    @MaxLength(2000, { message: "Comment must be less than 2000 characters" })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || undefined : value)
+    comment?: string;
+
+    @ApiPropertyOptional({ description: "Administrator to review the post; only used when submitting" })
+    @IsOptional()
+    @IsUUID("all", { message: "Reviewer ID must be a valid UUID" })
+    reviewer_id?: string;
+}
+
+export class AssignBlogReviewerDTO {
+    @ApiProperty({ description: "Administrator to review the post, or null to leave it to any reviewer", nullable: true })
+    @ValidateIf((_, value) => value !== null)
+    @IsUUID("all", { message: "Reviewer ID must be a valid UUID" })
+    reviewer_id: string | null;
+}
+
+export class BlogReviewEventResponseDTO {
+    @ApiProperty({ description: "Review event ID" })
+    id: string;
+
+    @ApiProperty({ description: "Blog post ID" })
+    post_id: string;
+
+    @ApiProperty({ description: "Workflow action, or assign when only the reviewer changed", enum: [...REVIEW_ACTIONS, "assign"] })
+    action: ReviewAction | "assign";
+
+    @ApiProperty({ description: "Status before the action", enum: REVIEW_STATUSES })
+    from_status: ReviewStatus;
+
+    @ApiProperty({ description: "Status after the action", enum: REVIEW_STATUSES })
+    to_status: ReviewStatus;
+
+    @ApiProperty({ description: "Note left with the action", nullable: true })
+    comment: string | null;
+
+    @ApiProperty({ description: "When the action was taken" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Administrator who took the action", type: BlogRevisionEditorResponseDTO, nullable: true })
+    actor: BlogRevisionEditorResponseDTO | null;
+
+    @ApiProperty({ description: "Reviewer assigned after the action", type: BlogRevisionEditorResponseDTO, nullable: true })
+    reviewer: BlogRevisionEditorResponseDTO | null;
+}
+
+export class BlogReviewEventListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Review history, oldest first", type: [BlogReviewEventResponseDTO] })
+    data: BlogReviewEventResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogReviewQueueResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Posts waiting longest first", type: [BlogPostResponseDTO] })
+    data: BlogPostResponseDTO[];
+
+    @ApiProperty({ description: "Total number of posts in the queue" })
+    count: number;
+
+    @ApiProperty({ description: "Current page" })
+    page: number;
+
+    @ApiProperty({ description: "Items per page" })
+    limit: number;
+
+    @ApiProperty({ description: "Total pages" })
+    total_pages: number;
+}
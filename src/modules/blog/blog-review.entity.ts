@@ -0,0 +1,91 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { Administrator } from "../admin/admin.entity";
+import { ReviewAction, ReviewStatus } from "./blog-review.util";
+
+// One step of a post's editorial review, kept as the history shown to editors and reviewers
+@Entity("blog_post_review_events")
+@Index(["post_id", "created_at"])
+export class BlogPostReviewEvent {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "uuid" })
+    post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    // A workflow action, or "assign" when only the reviewer changed
+    @Column({ type: "varchar", length: 20 })
+    action: ReviewAction | "assign";
+
+    @Column({ type: "varchar", length: 20 })
+    from_status: ReviewStatus;
+
+    @Column({ type: "varchar", length: 20 })
+    to_status: ReviewStatus;
+
+    @Column({ nullable: true, type: "uuid" })
+    actor_id: string | null;
+
+    @ManyToOne(() => Administrator, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "actor_id" })
+    actor: Administrator | null;
+
+    // Reviewer assigned once this step was taken
+    @Column({ nullable: true, type: "uuid" })
+    reviewer_id: string | null;
+
+    @ManyToOne(() => Administrator, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "reviewer_id" })
+    reviewer: Administrator | null;
+
+    @Column({ nullable: true, type: "text" })
+    comment: string | null;
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    toResponseObject(): {
+        id: string;
+        post_id: string;
+        action: ReviewAction | "assign";
+        from_status: ReviewStatus;
+        to_status: ReviewStatus;
+        comment: string | null;
+        created_at: Date;
+        actor: {
+            id: string;
+            first_name: string;
+            last_name: string;
+        } | null;
+        reviewer: {
+            id: string;
+            first_name: string;
+            last_name: string;
+        } | null;
+    } {
+        return {
+            id: this.id,
+            post_id: this.post_id,
+            action: this.action,
+            from_status: this.from_status,
+            to_status: this.to_status,
+            comment: this.comment,
+            created_at: this.created_at,
+            actor: this.actor ? {
+                id: this.actor.id,
+                first_name: this.actor.first_name,
+                last_name: this.actor.last_name,
+            } : null,
+            reviewer: this.reviewer ? {
+                id: this.reviewer.id,
+                first_name: this.reviewer.first_name,
+                last_name: this.reviewer.last_name,
+            } : null,
+        };
+    }
+}
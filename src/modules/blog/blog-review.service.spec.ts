@@ -0,0 +1,82 @@
+import { Logger } from "@nestjs/common";
+import { Repository } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { BlogPostService } from "./blog.service";
+import { BlogReviewService } from "./blog-review.service";
+import { BlogPostReviewEvent } from "./blog-review.entity";
+import { AdministratorService } from "../admin/admin.service";
+
+describe("BlogReviewService", () => {
+    const postId = "6b0e9f0c-6d7a-4b9e-9c1e-2f3a4b5c6d7e";
+    const authorId = "0f1e2d3c-4b5a-4978-8a6b-5c4d3e2f1a0b";
+    const reviewerId = "3c2b1a0f-9e8d-4c7b-a6f5-e4d3c2b1a0f9";
+
+    const createService = (fields: Partial<BlogPost>) => {
+        const post = Object.assign(new BlogPost(), {
+            id: postId,
+            author_id: authorId,
+            reviewer_id: reviewerId,
+            is_published: false,
+            review_status: "approved",
+            review_requested_at: null,
+            scheduled_publish_at: new Date(Date.now() + 60 * 60 * 1000),
+            ...fields,
+        });
+        const blogPostRepository = {
+            findOne: jest.fn().mockResolvedValue(post),
+            update: jest.fn().mockResolvedValue(undefined),
+        };
+        const eventRepository = {
+            create: jest.fn().mockImplementation((event: Partial<BlogPostReviewEvent>) => event),
+            save: jest.fn().mockResolvedValue(undefined),
+        };
+        const service = new BlogReviewService(
+            eventRepository as unknown as Repository<BlogPostReviewEvent>,
+            blogPostRepository as unknown as Repository<BlogPost>,
+            { findOne: jest.fn().mockResolvedValue({}) } as unknown as BlogPostService,
+            {} as AdministratorService,
+        );
+
+        return { service, blogPostRepository };
+    };
+
+    beforeEach(() => jest.spyOn(Logger.prototype, "log").mockImplementation(() => undefined));
+    afterEach(() => jest.restoreAllMocks());
+
+    describe("transition", () => {
+        it("should cancel the schedule when changes are requested on an approved post", async () => {
+            const { service, blogPostRepository } = createService({});
+
+            await service.transition(postId, "request_changes", { comment: "Please cite the source" }, reviewerId);
+
+            expect(blogPostRepository.update).toHaveBeenCalledWith(postId, expect.objectContaining({
+                review_status: "changes_requested",
+                scheduled_publish_at: null,
+            }));
+        });
+
+        it("should cancel the schedule when an approved post is withdrawn", async () => {
+            const { service, blogPostRepository } = createService({});
+
+            await service.transition(postId, "withdraw", {}, authorId);
+
+            expect(blogPostRepository.update).toHaveBeenCalledWith(postId, expect.objectContaining({
+                review_status: "draft",
+                scheduled_publish_at: null,
+            }));
+        });
+
+        it("should keep the schedule when a post is approved", async () => {
+            const scheduledAt = new Date(Date.now() + 60 * 60 * 1000);
+            const { service, blogPostRepository } = createService({ review_status: "in_review", scheduled_publish_at: scheduledAt });
+
+            await service.transition(postId, "approve", {}, reviewerId);
+
+            expect(blogPostRepository.update).toHaveBeenCalledWith(postId, expect.objectContaining({
+                review_status: "approved",
+                scheduled_publish_at: scheduledAt,
+            }));
+        });
+    });
+});
@@ -0,0 +1,250 @@
+import { Repository } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogPostResponseDTO } from "./blog.dto";
+import { BlogPostService } from "./blog.service";
+import { BlogPostReviewEvent } from "./blog-review.entity";
+import { AdministratorService } from "../admin/admin.service";
+import { BlogReviewTransitionDTO, BlogReviewEventResponseDTO } from "./blog-review.dto";
+import { ReviewAction, ReviewStatus, REVIEW_ACTIONS, nextReviewStatus, isPublishable } from "./blog-review.util";
+
+export interface BlogReviewQueueQuery {
+    status?: ReviewStatus;
+    reviewer_id?: string;
+    page?: number;
+    limit?: number;
+}
+
+export interface BlogReviewQueuePage {
+    data: BlogPostResponseDTO[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+}
+
+// Actions that record a reviewer's decision, as opposed to moves made by the writer
+const REVIEWER_ACTIONS: ReviewAction[] = ["approve", "request_changes"];
+
+@Injectable()
+export class BlogReviewService {
+    private readonly logger = new Logger(BlogReviewService.name);
+
+    constructor(
+        @InjectRepository(BlogPostReviewEvent)
+        private readonly eventRepository: Repository<BlogPostReviewEvent>,
+        @InjectRepository(BlogPost)
+        private readonly blogPostRepository: Repository<BlogPost>,
+        private readonly blogPostService: BlogPostService,
+        private readonly administratorService: AdministratorService,
+    ) {}
+
+    private async findPost(post_id: string): Promise<BlogPost> {
+        const post = await this.blogPostRepository.findOne({ where: { id: post_id } });
+        if (!post) {
+            throw new NotFoundException(`Blog post with ID ${post_id} not found`);
+        }
+        return post;
+    }
+
+    // Reviewers must be active administrators other than the author
+    private async validateReviewer(post: BlogPost, reviewer_id: string): Promise<void> {
+        if (reviewer_id === post.author_id) {
+            throw new BadRequestException("Authors cannot review their own posts");
+        }
+
+        try {
+            await this.administratorService.findOne(reviewer_id);
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw new BadRequestException(`Reviewer ${reviewer_id} not found`);
+            }
+            throw error;
+        }
+    }
+
+    private async record(post: BlogPost, action: ReviewAction | "assign", from_status: ReviewStatus, actor_id: string, comment: string | null = null): Promise<void> {
+        await this.eventRepository.save(this.eventRepository.create({
+            post_id: post.id,
+            action,
+            from_status,
+            to_status: post.review_status,
+            actor_id,
+            reviewer_id: post.reviewer_id,
+            comment,
+        }));
+    }
+
+    /**
+     * Moves a post through the review workflow. Approving and requesting changes are left to the
+     * assigned reviewer, or to anyone but the author while nobody is assigned; administrators who
+     * may override review can take any decision. Publishing goes through BlogPostService.update.
+     */
+    async transition(post_id: string, action: string, transitionDTO: BlogReviewTransitionDTO, actor_id: string): Promise<BlogPostResponseDTO> {
+        try {
+            if (!REVIEW_ACTIONS.includes(action as ReviewAction)) {
+                throw new BadRequestException(`Action must be one of: ${REVIEW_ACTIONS.join(", ")}`);
+            }
+            const reviewAction = action as ReviewAction;
+
+            const post = await this.findPost(post_id);
+            const from_status = post.review_status;
+            const to_status = nextReviewStatus(from_status, reviewAction);
+            if (!to_status) {
+                throw new BadRequestException(`Cannot ${reviewAction.replace("_", " ")} a post that is ${from_status.replace("_", " ")}`);
+            }
+
+            const comment = transitionDTO.comment || null;
+            if (reviewAction === "request_changes" && !comment) {
+                throw new BadRequestException("A comment is required when requesting changes");
+            }
+
+            if (REVIEWER_ACTIONS.includes(reviewAction)) {
+                const isAuthor = actor_id === post.author_id;
+                const isOtherReviewer = !!post.reviewer_id && post.reviewer_id !== actor_id;
+                if ((isAuthor || isOtherReviewer) && !(await this.administratorService.canOverrideReview(actor_id))) {
+                    throw new ForbiddenException(isAuthor ? "Authors cannot review their own posts" : "Only the assigned reviewer can decide on this post");
+                }
+            }
+
+            if (reviewAction === "publish") {
+                await this.blogPostService.update(post.id, { is_published: true }, actor_id);
+                post.review_status = to_status;
+            } else {
+                if (reviewAction === "submit") {
+                    if (transitionDTO.reviewer_id) {
+                        await this.validateReviewer(post, transitionDTO.reviewer_id);
+                        post.reviewer_id = transitionDTO.reviewer_id;
+                    }
+                    post.review_requested_at = new Date();
+                } else if (reviewAction === "withdraw") {
+                    post.review_requested_at = null;
+                } else if (!post.reviewer_id && actor_id !== post.author_id) {
+                    // Whoever picks up an unassigned post becomes its reviewer
+                    post.reviewer_id = actor_id;
+                }
+
+                // Leaving the approved state also cancels the schedule, or the scheduler would publish unapproved content
+                post.review_status = to_status;
+                if (!isPublishable(to_status)) {
+                    post.scheduled_publish_at = null;
+                }
+                await this.blogPostRepository.update(post.id, {
+                    review_status: post.review_status,
+                    reviewer_id: post.reviewer_id,
+                    review_requested_at: post.review_requested_at,
+                    scheduled_publish_at: post.scheduled_publish_at,
+                });
+            }
+
+            await this.record(post, reviewAction, from_status, actor_id, comment);
+            this.logger.log(`📝 Post ${post.id} review: ${from_status} → ${to_status} (${reviewAction})`);
+
+            return await this.blogPostService.findOne(post.id);
+        } catch (error) {
+            this.logger.error(`Error changing review status: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ForbiddenException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to change review status");
+        }
+    }
+
+    // Assigning null leaves the decision to any administrator other than the author
+    async assignReviewer(post_id: string, reviewer_id: string | null, actor_id: string): Promise<BlogPostResponseDTO> {
+        try {
+            const post = await this.findPost(post_id);
+            if (post.review_status === "published") {
+                throw new BadRequestException("Published posts are no longer in review");
+            }
+
+            if (reviewer_id) {
+                await this.validateReviewer(post, reviewer_id);
+            }
+
+            if (post.reviewer_id !== reviewer_id) {
+                post.reviewer_id = reviewer_id;
+                await this.blogPostRepository.update(post.id, { reviewer_id });
+                await this.record(post, "assign", post.review_status, actor_id);
+                this.logger.log(`👤 Post ${post.id} reviewer set to ${reviewer_id || "anyone"}`);
+            }
+
+            return await this.blogPostService.findOne(post.id);
+        } catch (error) {
+            this.logger.error(`Error assigning reviewer: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to assign reviewer");
+        }
+    }
+
+    // Posts in a review status, the ones waiting longest first
+    async findQueue(query: BlogReviewQueueQuery = {}): Promise<BlogReviewQueuePage> {
+        try {
+            const page = Math.max(query.page || 1, 1);
+            const take = Math.min(Math.max(query.limit || 20, 1), 100);
+
+            const queryBuilder = this.blogPostRepository
+                .createQueryBuilder("post")
+                .leftJoinAndSelect("post.author", "author")
+                .leftJoinAndSelect("post.reviewer", "reviewer")
+                .leftJoinAndSelect("post.authors", "authors")
+                .leftJoinAndSelect("authors.profile", "profile")
+                .leftJoinAndSelect("profile.avatar_media", "avatar_media")
+                .leftJoinAndSelect("post.categories", "categories")
+                .leftJoinAndSelect("post.tags", "tags")
+                .where("post.review_status = :status", { status: query.status || "in_review" });
+
+            if (query.reviewer_id) {
+                queryBuilder.andWhere("post.reviewer_id = :reviewer_id", { reviewer_id: query.reviewer_id });
+            }
+
+            const [posts, total] = await queryBuilder
+                .orderBy("post.review_requested_at", "ASC", "NULLS LAST")
+                .addOrderBy("post.created_at", "ASC")
+                .skip((page - 1) * take)
+                .take(take)
+                .getManyAndCount();
+
+            return {
+                data: posts.map(post => post.toResponseObject() as BlogPostResponseDTO),
+                total,
+                page,
+                limit: take,
+                totalPages: Math.ceil(total / take),
+            };
+        } catch (error) {
+            this.logger.error(`Error finding review queue: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve review queue");
+        }
+    }
+
+    async findHistory(post_id: string): Promise<BlogReviewEventResponseDTO[]> {
+        try {
+            await this.findPost(post_id);
+
+            const events = await this.eventRepository.find({
+                where: { post_id },
+                relations: ["actor", "reviewer"],
+                order: { created_at: "ASC" },
+            });
+
+            return events.map(event => event.toResponseObject());
+        } catch (error) {
+            this.logger.error(`Error finding review history: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve review history");
+        }
+    }
+}
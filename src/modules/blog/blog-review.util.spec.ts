@@ -0,0 +1,50 @@
+import { nextReviewStatus, isPublishable, touchesReviewedFields } from "./blog-review.util";
+
+describe("blog-review.util", () => {
+    describe("nextReviewStatus", () => {
+        it("follows the workflow from draft to published", () => {
+            expect(nextReviewStatus("draft", "submit")).toBe("in_review");
+            expect(nextReviewStatus("in_review", "approve")).toBe("approved");
+            expect(nextReviewStatus("approved", "publish")).toBe("published");
+        });
+
+        it("sends rejected posts back through review", () => {
+            expect(nextReviewStatus("in_review", "request_changes")).toBe("changes_requested");
+            expect(nextReviewStatus("approved", "request_changes")).toBe("changes_requested");
+            expect(nextReviewStatus("changes_requested", "submit")).toBe("in_review");
+            expect(nextReviewStatus("changes_requested", "withdraw")).toBe("draft");
+        });
+
+        it("refuses moves the workflow does not allow", () => {
+            expect(nextReviewStatus("draft", "approve")).toBeNull();
+            expect(nextReviewStatus("in_review", "publish")).toBeNull();
+            expect(nextReviewStatus("changes_requested", "approve")).toBeNull();
+            expect(nextReviewStatus("published", "withdraw")).toBeNull();
+        });
+    });
+
+    describe("isPublishable", () => {
+        it("only lets approved or live posts go live", () => {
+            expect(isPublishable("approved")).toBe(true);
+            expect(isPublishable("published")).toBe(true);
+            expect(isPublishable("in_review")).toBe(false);
+            expect(isPublishable("draft")).toBe(false);
+        });
+    });
+
+    describe("touchesReviewedFields", () => {
+        const current = { title: "Hello", content: "Body", excerpt: null, categories: ["news", "tech"], is_featured: false };
+
+        it("ignores unchanged values, list order and fields outside the review", () => {
+            expect(touchesReviewedFields({ title: "Hello", excerpt: null }, current)).toBe(false);
+            expect(touchesReviewedFields({ categories: ["tech", "news"] }, current)).toBe(false);
+            expect(touchesReviewedFields({ is_featured: true, meta_title: "SEO" }, current)).toBe(false);
+        });
+
+        it("detects changed reviewed fields", () => {
+            expect(touchesReviewedFields({ content: "New body" }, current)).toBe(true);
+            expect(touchesReviewedFields({ excerpt: "Summary" }, current)).toBe(true);
+            expect(touchesReviewedFields({ categories: ["news"] }, current)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,48 @@
+export const REVIEW_STATUSES = ["draft", "in_review", "changes_requested", "approved", "published"] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export const REVIEW_ACTIONS = ["submit", "request_changes", "approve", "publish", "withdraw"] as const;
+export type ReviewAction = typeof REVIEW_ACTIONS[number];
+
+interface ReviewTransition {
+    from: ReviewStatus[];
+    to: ReviewStatus;
+}
+
+// Every move the workflow allows; anything else is refused
+export const REVIEW_TRANSITIONS: Record<ReviewAction, ReviewTransition> = {
+    submit: { from: ["draft", "changes_requested"], to: "in_review" },
+    request_changes: { from: ["in_review", "approved"], to: "changes_requested" },
+    approve: { from: ["in_review"], to: "approved" },
+    publish: { from: ["approved"], to: "published" },
+    withdraw: { from: ["in_review", "changes_requested", "approved"], to: "draft" },
+};
+
+// Fields whose edits change what the reviewer signed off on
+export const REVIEWED_FIELDS = ["title", "content", "content_format", "excerpt", "categories", "featured_image", "featured_media_id"] as const;
+
+/**
+ * Status a post moves to when `action` is applied, or null when the action is not allowed
+ * from `current`.
+ */
+export function nextReviewStatus(current: ReviewStatus, action: ReviewAction): ReviewStatus | null {
+    const transition = REVIEW_TRANSITIONS[action];
+    return transition && transition.from.includes(current) ? transition.to : null;
+}
+
+// Approved posts may go live; published ones already are
+export function isPublishable(status: ReviewStatus): boolean {
+    return status === "approved" || status === "published";
+}
+
+function comparable(value: unknown): string {
+    return JSON.stringify(Array.isArray(value) ? [...value].sort() : value ?? null);
+}
+
+/**
+ * Whether an update changes a field the review covered. Lists such as category slugs are
+ * compared without regard to order.
+ */
+export function touchesReviewedFields(changes: Record<string, unknown>, current: Record<string, unknown>): boolean {
+    return REVIEWED_FIELDS.some(field => changes[field] !== undefined && comparable(changes[field]) !== comparable(current[field]));
+}
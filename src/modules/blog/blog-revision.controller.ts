@@ -0,0 +1,138 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth } from "@nestjs/swagger";
+import { Controller, Get, Post, Param, HttpStatus, HttpCode, ParseUUIDPipe, UseInterceptors, ClassSerializerInterceptor, UseGuards, Request, Query, Logger } from "@nestjs/common";
+
+import { BlogPostService } from "./blog.service";
+import { BlogPostSingleResponseDTO } from "./blog.dto";
+import { AuthenticatedRequest, administratorId } from "./blog.controller";
+import { BlogPostRevisionService, RevisionDiff } from "./blog-revision.service";
+import { BlogPostRevisionListResponseDTO, BlogPostRevisionSingleResponseDTO } from "./blog-revision.dto";
+
+@ApiTags("Blog Posts")
+@Controller("blog/:id/revisions")
+@UseInterceptors(ClassSerializerInterceptor)
+@UseGuards(JWTAuthGuard)
+@ApiBearerAuth()
+export class BlogPostRevisionController {
+    private readonly logger = new Logger(BlogPostRevisionController.name);
+
+    constructor(
+        private readonly blogPostService: BlogPostService,
+        private readonly revisionService: BlogPostRevisionService,
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: "List revisions of a blog post (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Revisions retrieved successfully",
+        type: BlogPostRevisionListResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async findAll(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<BlogPostRevisionListResponseDTO> {
+        try {
+            const revisions = await this.revisionService.findAll(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Revisions retrieved successfully",
+                data: revisions,
+                count: revisions.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving revisions: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("compare")
+    @ApiOperation({ summary: "Field-level diff between two revisions (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiQuery({ name: "from", required: true, type: String, description: "Base revision UUID" })
+    @ApiQuery({ name: "to", required: true, type: String, description: "Target revision UUID" })
+    @ApiResponse({ status: 200, description: "Revisions compared successfully" })
+    @ApiResponse({ status: 404, description: "Revision not found" })
+    async compare(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Query("from", ParseUUIDPipe) from: string,
+        @Query("to", ParseUUIDPipe) to: string
+    ): Promise<{ status_code: number; message: string; data: RevisionDiff }> {
+        try {
+            const diff = await this.revisionService.compare(id, from, to);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Revisions compared successfully",
+                data: diff,
+            };
+        } catch (error) {
+            this.logger.error(`Error comparing revisions: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":revisionId")
+    @ApiOperation({ summary: "Get a single revision (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiParam({ name: "revisionId", type: String, description: "Revision UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Revision retrieved successfully",
+        type: BlogPostRevisionSingleResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Revision not found" })
+    async findOne(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("revisionId", ParseUUIDPipe) revisionId: string
+    ): Promise<BlogPostRevisionSingleResponseDTO> {
+        try {
+            const revision = await this.revisionService.findOne(id, revisionId);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Revision retrieved successfully",
+                data: revision,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving revision: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post(":revisionId/restore")
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: "Restore a revision as the current version (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiParam({ name: "revisionId", type: String, description: "Revision UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Revision restored successfully",
+        type: BlogPostSingleResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Revision not found" })
+    async restore(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("revisionId", ParseUUIDPipe) revisionId: string,
+        @Request() req: AuthenticatedRequest
+    ): Promise<BlogPostSingleResponseDTO> {
+        try {
+            this.logger.log(`Restoring blog post ${id} to revision ${revisionId}`, {
+                userId: req.user?.id || req.user?.sub
+            });
+
+            const post = await this.blogPostService.restoreRevision(id, revisionId, administratorId(req));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Revision restored successfully",
+                data: post,
+            };
+        } catch (error) {
+            this.logger.error(`Error restoring revision: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
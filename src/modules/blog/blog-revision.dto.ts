@@ -0,0 +1,82 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { CONTENT_FORMATS, ContentFormat } from "./blog-content.util";
+
+export class BlogRevisionEditorResponseDTO {
+    @ApiProperty({ description: "Editor ID" })
+    id: string;
+
+    @ApiProperty({ description: "Editor first name" })
+    first_name: string;
+
+    @ApiProperty({ description: "Editor last name" })
+    last_name: string;
+}
+
+export class BlogPostRevisionSummaryDTO {
+    @ApiProperty({ description: "Revision ID" })
+    id: string;
+
+    @ApiProperty({ description: "Blog post ID" })
+    post_id: string;
+
+    @ApiProperty({ description: "Sequential revision number, starting at 1" })
+    revision_number: number;
+
+    @ApiProperty({ description: "Title at this revision" })
+    title: string;
+
+    @ApiProperty({ description: "Revision this one was restored from", nullable: true })
+    restored_from_id: string | null;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Administrator who made the change", type: BlogRevisionEditorResponseDTO, nullable: true })
+    editor: BlogRevisionEditorResponseDTO | null;
+}
+
+export class BlogPostRevisionResponseDTO extends BlogPostRevisionSummaryDTO {
+    @ApiProperty({ description: "Content at this revision" })
+    content: string;
+
+    @ApiProperty({ description: "Content format at this revision", enum: CONTENT_FORMATS })
+    content_format: ContentFormat;
+
+    @ApiProperty({ description: "Excerpt at this revision", nullable: true })
+    excerpt: string | null;
+
+    @ApiProperty({ description: "Category slugs at this revision", type: [String] })
+    categories: string[];
+
+    @ApiProperty({ description: "Featured image URL at this revision", nullable: true })
+    featured_image: string | null;
+
+    @ApiProperty({ description: "Featured media ID at this revision", nullable: true })
+    featured_media_id: string | null;
+}
+
+export class BlogPostRevisionListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Revisions array, newest first", type: [BlogPostRevisionSummaryDTO] })
+    data: BlogPostRevisionSummaryDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogPostRevisionSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Revision data", type: BlogPostRevisionResponseDTO })
+    data: BlogPostRevisionResponseDTO;
+}
@@ -0,0 +1,131 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { ContentFormat } from "./blog-content.util";
+import { Administrator } from "../admin/admin.entity";
+
+// Fields copied from BlogPost into every revision snapshot
+export const REVISION_TRACKED_FIELDS = [
+    "title",
+    "content",
+    "content_format",
+    "excerpt",
+    "categories",
+    "featured_image",
+    "featured_media_id",
+] as const;
+
+export type RevisionTrackedField = typeof REVISION_TRACKED_FIELDS[number];
+
+@Entity("blog_post_revisions")
+@Index(["post_id", "revision_number"], { unique: true })
+export class BlogPostRevision {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "uuid" })
+    post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    @Column({ type: "integer" })
+    revision_number: number;
+
+    @Column({ type: "varchar", length: 200 })
+    title: string;
+
+    @Column("text")
+    content: string;
+
+    @Column({ type: "varchar", length: 16, default: "html" })
+    content_format: ContentFormat;
+
+    @Column({ nullable: true, type: "varchar", length: 500 })
+    excerpt: string | null;
+
+    // Category slugs at the time of the snapshot
+    @Column({ type: "json", nullable: false, default: '[]' })
+    categories: string[];
+
+    @Column({ nullable: true, type: "varchar", length: 2048 })
+    featured_image: string | null;
+
+    // Cleared when the media item is deleted
+    @Column({ nullable: true, type: "uuid" })
+    featured_media_id: string | null;
+
+    @Column({ nullable: true, type: "uuid" })
+    editor_id: string | null;
+
+    @ManyToOne(() => Administrator, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "editor_id" })
+    editor: Administrator | null;
+
+    // Set when this revision was produced by restoring an older one
+    @Column({ nullable: true, type: "uuid" })
+    restored_from_id: string | null;
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    static fromPost(post: BlogPost, revision_number: number): Partial<BlogPostRevision> {
+        // Typed as every tracked field, so adding one to REVISION_TRACKED_FIELDS fails to compile until it is copied here
+        const tracked: Pick<BlogPostRevision, RevisionTrackedField> = {
+            title: post.title,
+            content: post.content,
+            content_format: post.content_format,
+            excerpt: post.excerpt ?? null,
+            categories: BlogPost.categorySlugs(post.categories),
+            featured_image: post.featured_image ?? null,
+            featured_media_id: post.featured_media_id ?? null,
+        };
+
+        return {
+            post_id: post.id,
+            revision_number,
+            ...tracked,
+        };
+    }
+
+    toSummaryObject(): {
+        id: string;
+        post_id: string;
+        revision_number: number;
+        title: string;
+        restored_from_id: string | null;
+        created_at: Date;
+        editor: {
+            id: string;
+            first_name: string;
+            last_name: string;
+        } | null;
+    } {
+        return {
+            id: this.id,
+            post_id: this.post_id,
+            revision_number: this.revision_number,
+            title: this.title,
+            restored_from_id: this.restored_from_id,
+            created_at: this.created_at,
+            editor: this.editor ? {
+                id: this.editor.id,
+                first_name: this.editor.first_name,
+                last_name: this.editor.last_name,
+            } : null,
+        };
+    }
+
+    toResponseObject() {
+        return {
+            ...this.toSummaryObject(),
+            content: this.content,
+            content_format: this.content_format,
+            excerpt: this.excerpt,
+            categories: this.categories,
+            featured_image: this.featured_image,
+            featured_media_id: this.featured_media_id,
+        };
+    }
+}
@@ -0,0 +1,23 @@
+import { BlogPostRevisionService } from "./blog-revision.service";
+
+describe("BlogPostRevisionService", () => {
+    describe("diffField", () => {
+        it("should report changed text fields with both values", () => {
+            expect(BlogPostRevisionService.diffField("title", "Old title", "New title")).toEqual({
+                field: "title",
+                changed: true,
+                from: "Old title",
+                to: "New title",
+            });
+        });
+
+        it("should treat null and undefined as equal", () => {
+            expect(BlogPostRevisionService.diffField("excerpt", null, undefined).changed).toBe(false);
+        });
+
+        it("should compare categories by value", () => {
+            expect(BlogPostRevisionService.diffField("categories", ["newsroom"], ["newsroom"]).changed).toBe(false);
+            expect(BlogPostRevisionService.diffField("categories", ["newsroom"], ["awards-recognition"]).changed).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,184 @@
+import { Repository, EntityManager } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogPostRevision, REVISION_TRACKED_FIELDS, RevisionTrackedField } from "./blog-revision.entity";
+import { BlogPostRevisionResponseDTO, BlogPostRevisionSummaryDTO } from "./blog-revision.dto";
+
+export interface RevisionFieldDiff {
+    field: RevisionTrackedField;
+    changed: boolean;
+    from: unknown;
+    to: unknown;
+}
+
+export interface RevisionDiff {
+    from: BlogPostRevisionSummaryDTO;
+    to: BlogPostRevisionSummaryDTO;
+    changed_fields: RevisionTrackedField[];
+    fields: RevisionFieldDiff[];
+}
+
+@Injectable()
+export class BlogPostRevisionService {
+    private readonly logger = new Logger(BlogPostRevisionService.name);
+
+    constructor(
+        @InjectRepository(BlogPostRevision)
+        private readonly revisionRepository: Repository<BlogPostRevision>,
+    ) {}
+
+    private validateId(id: string, label: string): void {
+        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+        if (!id || !uuidRegex.test(id)) {
+            throw new BadRequestException(`Invalid ${label} ID format`);
+        }
+    }
+
+    async hasRevisions(post_id: string, manager: EntityManager = this.revisionRepository.manager): Promise<boolean> {
+        const count = await manager.getRepository(BlogPostRevision).count({ where: { post_id } });
+        return count > 0;
+    }
+
+    // Holds the post row until the transaction ends, so concurrent edits take revision numbers in turn
+    async lockPost(post_id: string, manager: EntityManager): Promise<void> {
+        await manager
+            .createQueryBuilder(BlogPost, "post")
+            .select("post.id")
+            .where("post.id = :post_id", { post_id })
+            .setLock("pessimistic_write")
+            .getOne();
+    }
+
+    /**
+     * Records the post as its next revision. Pass the manager of an open transaction to record it
+     * as part of that transaction; otherwise the revision gets a transaction of its own.
+     */
+    async snapshot(
+        post: BlogPost,
+        editor_id: string | null = null,
+        restored_from_id: string | null = null,
+        manager?: EntityManager,
+    ): Promise<BlogPostRevision> {
+        if (!manager) {
+            return this.revisionRepository.manager.transaction(transactional => this.snapshot(post, editor_id, restored_from_id, transactional));
+        }
+
+        await this.lockPost(post.id, manager);
+        const revisionRepository = manager.getRepository(BlogPostRevision);
+        const latest = await revisionRepository
+            .createQueryBuilder("revision")
+            .select("MAX(revision.revision_number)", "max")
+            .where("revision.post_id = :post_id", { post_id: post.id })
+            .getRawOne();
+
+        const revision = revisionRepository.create({
+            ...BlogPostRevision.fromPost(post, (parseInt(latest?.max ?? "0", 10) || 0) + 1),
+            editor_id,
+            restored_from_id,
+        });
+
+        const saved = await revisionRepository.save(revision);
+        this.logger.log(`📝 Revision ${saved.revision_number} recorded for post ${post.id}`);
+
+        return saved;
+    }
+
+    async findAll(post_id: string): Promise<BlogPostRevisionSummaryDTO[]> {
+        try {
+            this.validateId(post_id, "blog post");
+
+            const revisions = await this.revisionRepository
+                .createQueryBuilder("revision")
+                .leftJoinAndSelect("revision.editor", "editor")
+                .select([
+                    "revision.id",
+                    "revision.post_id",
+                    "revision.revision_number",
+                    "revision.title",
+                    "revision.restored_from_id",
+                    "revision.created_at",
+                    "editor.id",
+                    "editor.first_name",
+                    "editor.last_name",
+                ])
+                .where("revision.post_id = :post_id", { post_id })
+                .orderBy("revision.revision_number", "DESC")
+                .getMany();
+
+            return revisions.map(revision => revision.toSummaryObject());
+        } catch (error) {
+            this.logger.error(`Error finding revisions: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve revisions");
+        }
+    }
+
+    async findEntity(post_id: string, revision_id: string): Promise<BlogPostRevision> {
+        this.validateId(post_id, "blog post");
+        this.validateId(revision_id, "revision");
+
+        const revision = await this.revisionRepository.findOne({
+            where: { id: revision_id, post_id },
+            relations: ["editor"],
+        });
+
+        if (!revision) {
+            throw new NotFoundException(`Revision with ID ${revision_id} not found for blog post ${post_id}`);
+        }
+
+        return revision;
+    }
+
+    async findOne(post_id: string, revision_id: string): Promise<BlogPostRevisionResponseDTO> {
+        try {
+            const revision = await this.findEntity(post_id, revision_id);
+            return revision.toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error finding revision: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve revision");
+        }
+    }
+
+    async compare(post_id: string, from_id: string, to_id: string): Promise<RevisionDiff> {
+        try {
+            const [from, to] = await Promise.all([
+                this.findEntity(post_id, from_id),
+                this.findEntity(post_id, to_id),
+            ]);
+
+            const fields = REVISION_TRACKED_FIELDS.map(field => BlogPostRevisionService.diffField(field, from[field], to[field]));
+
+            return {
+                from: from.toSummaryObject(),
+                to: to.toSummaryObject(),
+                changed_fields: fields.filter(diff => diff.changed).map(diff => diff.field),
+                fields,
+            };
+        } catch (error) {
+            this.logger.error(`Error comparing revisions: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to compare revisions");
+        }
+    }
+
+    static diffField(field: RevisionTrackedField, from: unknown, to: unknown): RevisionFieldDiff {
+        const changed = JSON.stringify(from ?? null) !== JSON.stringify(to ?? null);
+
+        return { field, changed, from: from ?? null, to: to ?? null };
+    }
+}
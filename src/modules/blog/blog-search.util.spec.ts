@@ -0,0 +1,32 @@
+import { buildTsQuery } from "./blog-search.util";
+
+describe("buildTsQuery", () => {
+    it("should require every plain term", () => {
+        expect(buildTsQuery("contract review")).toBe("contract & review");
+    });
+
+    it("should turn quoted text into a phrase query", () => {
+        expect(buildTsQuery('"llm safety" policy')).toBe("(llm <-> safety) & policy");
+    });
+
+    it("should support prefix terms", () => {
+        expect(buildTsQuery("contr*")).toBe("contr:*");
+    });
+
+    it("should support exclusions", () => {
+        expect(buildTsQuery("ai -hype")).toBe("ai & !hype");
+    });
+
+    it("should group OR alternatives", () => {
+        expect(buildTsQuery("legal contract OR agreement")).toBe("legal & (contract | agreement)");
+    });
+
+    it("should strip tsquery operators from user input", () => {
+        expect(buildTsQuery("a&b | !c")).toBe("(a <-> b) & c");
+    });
+
+    it("should return null when nothing searchable remains", () => {
+        expect(buildTsQuery("  & | ! ")).toBeNull();
+        expect(buildTsQuery("")).toBeNull();
+    });
+});
@@ -0,0 +1,86 @@
+// PostgreSQL text search configuration shared by the search_vector column and every query against it
+export const SEARCH_CONFIG = "english";
+
+// Options for ts_headline when building highlighted snippets
+export const SEARCH_HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter= … ";
+
+function splitWords(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length > 0);
+}
+
+function group(words: string[]): string {
+    const joined = words.join(" <-> ");
+    return words.length > 1 ? `(${joined})` : joined;
+}
+
+/**
+ * Converts a user search string into a to_tsquery() expression.
+ *
+ * Supported syntax: `"exact phrase"`, `prefix*`, `-excluded`, and `OR` between terms.
+ * Every other term is required. Only letters and digits reach the output, so the result
+ * is always a valid tsquery. Returns null when nothing searchable is left.
+ */
+export function buildTsQuery(input: string): string | null {
+    if (!input || typeof input !== "string") {
+        return null;
+    }
+
+    const groups: string[][] = [];
+    let pendingOr = false;
+    const tokenRegex = /(-?)"([^"]*)"?|(\S+)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(input)) !== null) {
+        const [, phraseNegation, phrase, word] = match;
+
+        if (word !== undefined && word.toUpperCase() === "OR") {
+            pendingOr = groups.length > 0;
+            continue;
+        }
+
+        let term: string;
+        let negated: boolean;
+
+        if (phrase !== undefined) {
+            const words = splitWords(phrase);
+            if (words.length === 0) {
+                continue;
+            }
+            term = group(words);
+            negated = phraseNegation === "-";
+        } else {
+            negated = word.startsWith("-");
+            const raw = negated ? word.slice(1) : word;
+            const words = splitWords(raw);
+            if (words.length === 0) {
+                continue;
+            }
+            if (raw.endsWith("*")) {
+                words[words.length - 1] += ":*";
+            }
+            term = group(words);
+        }
+
+        if (negated) {
+            term = `!${term}`;
+        }
+
+        if (pendingOr) {
+            groups[groups.length - 1].push(term);
+        } else {
+            groups.push([term]);
+        }
+        pendingOr = false;
+    }
+
+    if (groups.length === 0) {
+        return null;
+    }
+
+    return groups
+        .map(terms => terms.length > 1 ? `(${terms.join(" | ")})` : terms[0])
+        .join(" & ");
+}
@@ -0,0 +1,36 @@
+import { ConfigService } from "@nestjs/config";
+import { Injectable } from "@nestjs/common";
+
+import { BlogPostResponseDTO, BlogPostSeoDTO } from "./blog.dto";
+import { buildSeo } from "./blog-seo.util";
+
+@Injectable()
+export class BlogSeoService {
+    constructor(
+        private readonly configService: ConfigService,
+    ) {}
+
+    private get siteUrl(): string {
+        return (this.configService.get<string>("FRONTEND_URL") || "http://localhost:3000").replace(/\/+$/, "");
+    }
+
+    private get siteName(): string {
+        return this.configService.get<string>("SEO_SITE_NAME") || "AITHENA";
+    }
+
+    // Stored with or without the leading @
+    private get twitterSite(): string | null {
+        const handle = (this.configService.get<string>("TWITTER_SITE") || "").trim().replace(/^@+/, "");
+        return handle ? `@${handle}` : null;
+    }
+
+    // `apiOrigin` makes media URLs absolute; canonical links point at FRONTEND_URL
+    build(post: BlogPostResponseDTO, apiOrigin: string): BlogPostSeoDTO {
+        return buildSeo(post, {
+            site_url: this.siteUrl,
+            site_name: this.siteName,
+            api_origin: apiOrigin,
+            twitter_site: this.twitterSite,
+        });
+    }
+}
@@ -0,0 +1,157 @@
+import { BlogPostResponseDTO } from "./blog.dto";
+import { MediaResponseDTO } from "../media/media.dto";
+import { buildSeo, SeoContext, SEO_TITLE_MAX_LENGTH, SEO_DESCRIPTION_MAX_LENGTH } from "./blog-seo.util";
+
+describe("blog-seo.util", () => {
+    const context: SeoContext = {
+        site_url: "https://example.com",
+        site_name: "Example",
+        api_origin: "https://api.example.com",
+        twitter_site: "@example",
+    };
+
+    const media = (id: string): MediaResponseDTO => ({
+        id,
+        url: `/api/media/${id}`,
+        filename: `${id}.png`,
+        content_type: "image/png",
+        size: 1234,
+        width: 1200,
+        height: 630,
+        variants: [],
+        srcset: {},
+        created_at: new Date("2026-03-01T09:00:00Z"),
+    });
+
+    const post = (overrides: Partial<BlogPostResponseDTO> = {}): BlogPostResponseDTO => ({
+        id: "6f1c1f52-0d0a-4d4c-9d7e-0d1f7c1c9b11",
+        title: "Ship fast",
+        slug: "ship-fast",
+        content: "<p>Body</p>",
+        content_format: "html",
+        content_html: "<p>How we <strong>ship</strong> every day.</p>",
+        excerpt: null,
+        featured_image: null,
+        featured_media_id: null,
+        featured_media: null,
+        meta_title: null,
+        meta_description: null,
+        canonical_url: null,
+        noindex: false,
+        social_image_media_id: null,
+        social_image_media: null,
+        is_published: true,
+        is_featured: false,
+        view_count: 0,
+        comments_enabled: true,
+        comment_count: 0,
+        categories: ["engineering", "news"],
+        tags: [{ id: "t1", name: "Release", slug: "release" }],
+        created_at: new Date("2026-03-01T09:00:00Z"),
+        updated_at: new Date("2026-03-02T10:00:00Z"),
+        published_at: new Date("2026-03-01T09:00:00Z"),
+        author: { id: "u1", first_name: "Ada", last_name: "Lovelace" },
+        ...overrides,
+    } as BlogPostResponseDTO);
+
+    describe("buildSeo", () => {
+        it("should derive defaults from the post", () => {
+            const seo = buildSeo(post(), context);
+
+            expect(seo.title).toBe("Ship fast");
+            expect(seo.description).toBe("How we ship every day.");
+            expect(seo.canonical_url).toBe("https://example.com/blog/ship-fast");
+            expect(seo.robots).toBe("index, follow");
+            expect(seo.open_graph).toMatchObject({
+                type: "article",
+                url: "https://example.com/blog/ship-fast",
+                site_name: "Example",
+                image: null,
+                published_time: "2026-03-01T09:00:00.000Z",
+                modified_time: "2026-03-02T10:00:00.000Z",
+                section: "engineering",
+                tags: ["Release"],
+            });
+            expect(seo.twitter).toEqual({ card: "summary", title: "Ship fast", description: "How we ship every day.", image: null, site: "@example" });
+        });
+
+        it("should prefer the excerpt over the content for the description", () => {
+            expect(buildSeo(post({ excerpt: "Short summary" }), context).description).toBe("Short summary");
+        });
+
+        it("should use explicit SEO fields over the defaults", () => {
+            const seo = buildSeo(post({
+                meta_title: "Shipping daily",
+                meta_description: "Our release process",
+                canonical_url: "https://medium.com/@ada/ship-fast",
+                noindex: true,
+            }), context);
+
+            expect(seo.title).toBe("Shipping daily");
+            expect(seo.description).toBe("Our release process");
+            expect(seo.canonical_url).toBe("https://medium.com/@ada/ship-fast");
+            expect(seo.open_graph.url).toBe("https://medium.com/@ada/ship-fast");
+            expect(seo.robots).toBe("noindex, follow");
+            expect(seo.json_ld.headline).toBe("Ship fast");
+        });
+
+        it("should keep derived titles and descriptions within the limits", () => {
+            const seo = buildSeo(post({ title: "A".repeat(200), content_html: `<p>${"word ".repeat(100)}</p>` }), context);
+
+            expect(seo.title.length).toBeLessThanOrEqual(SEO_TITLE_MAX_LENGTH);
+            expect(seo.title.endsWith("…")).toBe(true);
+            expect(seo.description.length).toBeLessThanOrEqual(SEO_DESCRIPTION_MAX_LENGTH);
+        });
+
+        it("should pick the social image, then the featured media, then the featured image URL", () => {
+            const both = buildSeo(post({ social_image_media: media("social"), featured_media: media("featured") }), context);
+            expect(both.open_graph.image).toBe("https://api.example.com/api/media/social");
+            expect(both.open_graph.image_width).toBe(1200);
+            expect(both.twitter.card).toBe("summary_large_image");
+
+            const featured = buildSeo(post({ featured_media: media("featured") }), context);
+            expect(featured.twitter.image).toBe("https://api.example.com/api/media/featured");
+
+            const legacy = buildSeo(post({ featured_image: "https://cdn.example.com/cover.jpg" }), context);
+            expect(legacy.open_graph.image).toBe("https://cdn.example.com/cover.jpg");
+            expect(legacy.open_graph.image_width).toBeNull();
+        });
+
+        it("should build a schema.org Article", () => {
+            const seo = buildSeo(post({ featured_media: media("featured"), locale: "zh" }), context);
+
+            expect(seo.json_ld).toEqual({
+                "@context": "https://schema.org",
+                "@type": "Article",
+                headline: "Ship fast",
+                description: "How we ship every day.",
+                image: ["https://api.example.com/api/media/featured"],
+                datePublished: "2026-03-01T09:00:00.000Z",
+                dateModified: "2026-03-02T10:00:00.000Z",
+                author: [{ "@type": "Person", name: "Ada Lovelace" }],
+                publisher: { "@type": "Organization", name: "Example", url: "https://example.com" },
+                mainEntityOfPage: { "@type": "WebPage", "@id": "https://example.com/blog/ship-fast" },
+                inLanguage: "zh",
+                keywords: "Release",
+            });
+        });
+
+        it("should credit co-authors with links to their author pages", () => {
+            const byline = (slug: string, display_name: string) => ({ id: slug, slug, display_name, role_title: null, avatar_media: null });
+            const seo = buildSeo(post({ authors: [byline("ada", "Ada L."), byline("charles", "Charles Babbage")] }), context);
+
+            expect(seo.json_ld.author).toEqual([
+                { "@type": "Person", name: "Ada L.", url: "https://example.com/blog/authors/ada" },
+                { "@type": "Person", name: "Charles Babbage", url: "https://example.com/blog/authors/charles" },
+            ]);
+        });
+
+        it("should leave out the publish date and author of drafts without them", () => {
+            const seo = buildSeo(post({ published_at: undefined, author: undefined }), context);
+
+            expect(seo.json_ld).not.toHaveProperty("datePublished");
+            expect(seo.json_ld).not.toHaveProperty("author");
+            expect(seo.open_graph.published_time).toBeNull();
+        });
+    });
+});
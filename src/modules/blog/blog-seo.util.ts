@@ -0,0 +1,100 @@
+import { summarize } from "./blog-feed.util";
+import { bylineNames } from "./blog-author.util";
+import { BlogPostResponseDTO, BlogPostSeoDTO } from "./blog.dto";
+
+// Lengths search engines display before truncating
+export const SEO_TITLE_MAX_LENGTH = 70;
+export const SEO_DESCRIPTION_MAX_LENGTH = 160;
+
+// Google truncates Article headlines beyond this
+const HEADLINE_MAX_LENGTH = 110;
+
+export interface SeoContext {
+    // Public site the post is read on (FRONTEND_URL), without trailing slash
+    site_url: string;
+    site_name: string;
+    // Origin of this API, used to make media URLs absolute
+    api_origin: string;
+    // Twitter @handle of the site, if any
+    twitter_site: string | null;
+}
+
+function truncate(value: string, maxLength: number): string {
+    return value.length <= maxLength ? value : `${value.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+// Social image, then featured media library image, then the legacy featured image URL
+function shareImage(post: BlogPostResponseDTO, context: SeoContext): { url: string; width: number | null; height: number | null; alt: string } | null {
+    const media = post.social_image_media || post.featured_media;
+    if (media) {
+        return { url: `${context.api_origin}${media.url}`, width: media.width ?? null, height: media.height ?? null, alt: post.title };
+    }
+
+    if (post.featured_image) {
+        return { url: post.featured_image, width: null, height: null, alt: post.title };
+    }
+
+    return null;
+}
+
+/**
+ * Ready-made head metadata for a post: explicit SEO fields win, everything else is derived
+ * from the post (title, excerpt or content, featured image, dates, author, categories and tags).
+ */
+export function buildSeo(post: BlogPostResponseDTO, context: SeoContext): BlogPostSeoDTO {
+    const title = truncate(post.meta_title || post.title, SEO_TITLE_MAX_LENGTH);
+    const description = summarize(null, post.meta_description || post.excerpt || post.content_html, SEO_DESCRIPTION_MAX_LENGTH - 1);
+    const canonical_url = post.canonical_url || `${context.site_url}/blog/${encodeURIComponent(post.slug)}`;
+    const image = shareImage(post, context);
+    // Byline profiles link to their public author page
+    const authors = post.authors && post.authors.length > 0
+        ? post.authors.map(author => ({ "@type": "Person", name: author.display_name, url: `${context.site_url}/blog/authors/${encodeURIComponent(author.slug)}` }))
+        : bylineNames(post).map(name => ({ "@type": "Person", name }));
+    const published = post.published_at ? new Date(post.published_at).toISOString() : null;
+    const modified = new Date(post.updated_at).toISOString();
+    const tags = (post.tags || []).map(tag => tag.name);
+
+    return {
+        title,
+        description,
+        canonical_url,
+        robots: post.noindex ? "noindex, follow" : "index, follow",
+        open_graph: {
+            type: "article",
+            title,
+            description,
+            url: canonical_url,
+            site_name: context.site_name,
+            locale: post.locale || null,
+            image: image ? image.url : null,
+            image_width: image ? image.width : null,
+            image_height: image ? image.height : null,
+            image_alt: image ? image.alt : null,
+            published_time: published,
+            modified_time: modified,
+            section: post.categories[0] || null,
+            tags,
+        },
+        twitter: {
+            card: image ? "summary_large_image" : "summary",
+            title,
+            description,
+            image: image ? image.url : null,
+            site: context.twitter_site,
+        },
+        json_ld: {
+            "@context": "https://schema.org",
+            "@type": "Article",
+            headline: truncate(post.title, HEADLINE_MAX_LENGTH),
+            description,
+            ...(image ? { image: [image.url] } : {}),
+            ...(published ? { datePublished: published } : {}),
+            dateModified: modified,
+            ...(authors.length > 0 ? { author: authors } : {}),
+            publisher: { "@type": "Organization", name: context.site_name, url: context.site_url },
+            mainEntityOfPage: { "@type": "WebPage", "@id": canonical_url },
+            ...(post.locale ? { inLanguage: post.locale } : {}),
+            ...(tags.length > 0 ? { keywords: tags.join(", ") } : {}),
+        },
+    };
+}
@@ -0,0 +1,228 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Put, Body, Patch, Param, Delete, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseInterceptors, ClassSerializerInterceptor, UseGuards, Logger } from "@nestjs/common";
+
+import { BlogPostListResponseDTO } from "./blog.dto";
+import { BlogSeriesService } from "./blog-series.service";
+import { CreateBlogSeriesDTO, UpdateBlogSeriesDTO, SetBlogSeriesPostsDTO, BlogSeriesListResponseDTO, BlogSeriesSingleResponseDTO, BlogSeriesDetailResponseDTO } from "./blog-series.dto";
+
+@ApiTags("Blog Series")
+@Controller("blog/series")
+@UseInterceptors(ClassSerializerInterceptor)
+export class BlogSeriesController {
+    private readonly logger = new Logger(BlogSeriesController.name);
+
+    constructor(
+        private readonly seriesService: BlogSeriesService
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: "Get all series with their number of published parts (Public)" })
+    @ApiResponse({
+        status: 200,
+        description: "Series retrieved successfully",
+        type: BlogSeriesListResponseDTO
+    })
+    async findAll(): Promise<BlogSeriesListResponseDTO> {
+        try {
+            const series = await this.seriesService.findAll();
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Series retrieved successfully",
+                data: series,
+                count: series.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving series: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":slug")
+    @ApiOperation({ summary: "Get a series with its published parts in reading order (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Series slug" })
+    @ApiResponse({
+        status: 200,
+        description: "Series retrieved successfully",
+        type: BlogSeriesDetailResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Series not found" })
+    async findBySlug(
+        @Param("slug") slug: string
+    ): Promise<BlogSeriesDetailResponseDTO> {
+        try {
+            const series = await this.seriesService.findBySlug(slug);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Series retrieved successfully",
+                data: series,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving series by slug: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":id/posts")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get every part of a series including drafts (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Series UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Series parts retrieved successfully",
+        type: BlogPostListResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Series not found" })
+    async findParts(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<BlogPostListResponseDTO> {
+        try {
+            const posts = await this.seriesService.findParts(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Series parts retrieved successfully",
+                data: posts,
+                count: posts.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving series parts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post()
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.CREATED)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Create a series (Admin only)" })
+    @ApiBody({ type: CreateBlogSeriesDTO })
+    @ApiResponse({
+        status: 201,
+        description: "Series created successfully",
+        type: BlogSeriesSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid cover media" })
+    @ApiResponse({ status: 409, description: "Series slug already exists" })
+    async create(
+        @Body() createBlogSeriesDTO: CreateBlogSeriesDTO
+    ): Promise<BlogSeriesSingleResponseDTO> {
+        try {
+            const series = await this.seriesService.create(createBlogSeriesDTO);
+
+            return {
+                status_code: HttpStatus.CREATED,
+                message: "Series created successfully",
+                data: series,
+            };
+        } catch (error) {
+            this.logger.error(`Error creating series: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Patch(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Update a series (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Series UUID" })
+    @ApiBody({ type: UpdateBlogSeriesDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Series updated successfully",
+        type: BlogSeriesSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid cover media" })
+    @ApiResponse({ status: 404, description: "Series not found" })
+    @ApiResponse({ status: 409, description: "Series slug already exists" })
+    async update(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() updateBlogSeriesDTO: UpdateBlogSeriesDTO
+    ): Promise<BlogSeriesSingleResponseDTO> {
+        try {
+            const series = await this.seriesService.update(id, updateBlogSeriesDTO);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Series updated successfully",
+                data: series,
+            };
+        } catch (error) {
+            this.logger.error(`Error updating series: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Put(":id/posts")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Set and reorder the parts of a series (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Series UUID" })
+    @ApiBody({ type: SetBlogSeriesPostsDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Series parts updated successfully",
+        type: BlogPostListResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Unknown post" })
+    @ApiResponse({ status: 404, description: "Series not found" })
+    async setParts(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() setBlogSeriesPostsDTO: SetBlogSeriesPostsDTO
+    ): Promise<BlogPostListResponseDTO> {
+        try {
+            const posts = await this.seriesService.setParts(id, setBlogSeriesPostsDTO.post_ids);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Series parts updated successfully",
+                data: posts,
+                count: posts.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error updating series parts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Delete a series; its posts remain as standalone posts (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Series UUID" })
+    @ApiResponse({ status: 200, description: "Series deleted successfully" })
+    @ApiResponse({ status: 404, description: "Series not found" })
+    async remove(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            const result = await this.seriesService.remove(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error deleting series: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,147 @@
+import { Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString, IsNotEmpty, IsOptional, MaxLength, MinLength, Matches, IsUUID, IsArray, ArrayMaxSize } from "class-validator";
+
+import { BlogPostResponseDTO } from "./blog.dto";
+import { MediaResponseDTO } from "../media/media.dto";
+
+export const SERIES_MAX_PARTS = 50;
+
+export class CreateBlogSeriesDTO {
+    @ApiProperty({ description: "Title of the series", maxLength: 200 })
+    @IsString({ message: "Title must be a string" })
+    @IsNotEmpty({ message: "Title is required" })
+    @MinLength(3, { message: "Title must be at least 3 characters long" })
+    @MaxLength(200, { message: "Title must be less than 200 characters" })
+    @Transform(({ value }) => value?.trim())
+    title: string;
+
+    @ApiPropertyOptional({ description: "URL slug; generated from the title when omitted", maxLength: 255 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(255, { message: "Slug must be less than 255 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Description of the series", maxLength: 1000 })
+    @IsOptional()
+    @IsString({ message: "Description must be a string" })
+    @MaxLength(1000, { message: "Description must be less than 1000 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    description?: string;
+
+    @ApiPropertyOptional({ description: "ID of an uploaded cover image in the media library", nullable: true })
+    @IsOptional()
+    @IsUUID("4", { message: "Cover media ID must be a valid UUID" })
+    cover_media_id?: string | null;
+}
+
+export class UpdateBlogSeriesDTO {
+    @ApiPropertyOptional({ description: "Title of the series", maxLength: 200 })
+    @IsOptional()
+    @IsString({ message: "Title must be a string" })
+    @MinLength(3, { message: "Title must be at least 3 characters long" })
+    @MaxLength(200, { message: "Title must be less than 200 characters" })
+    @Transform(({ value }) => value?.trim())
+    title?: string;
+
+    @ApiPropertyOptional({ description: "URL slug; changing it breaks existing series links", maxLength: 255 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(255, { message: "Slug must be less than 255 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Description of the series", maxLength: 1000 })
+    @IsOptional()
+    @IsString({ message: "Description must be a string" })
+    @MaxLength(1000, { message: "Description must be less than 1000 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    description?: string;
+
+    @ApiPropertyOptional({ description: "ID of an uploaded cover image in the media library; null removes it", nullable: true })
+    @IsOptional()
+    @IsUUID("4", { message: "Cover media ID must be a valid UUID" })
+    cover_media_id?: string | null;
+}
+
+export class SetBlogSeriesPostsDTO {
+    @ApiProperty({
+        description: `IDs of the posts in the series, in reading order (at most ${SERIES_MAX_PARTS}). Posts left out are removed from the series; posts from another series are moved`,
+        type: [String]
+    })
+    @IsArray({ message: "Post IDs must be an array" })
+    @ArrayMaxSize(SERIES_MAX_PARTS, { message: `A series can have at most ${SERIES_MAX_PARTS} parts` })
+    @IsUUID("all", { each: true, message: "Each post ID must be a valid UUID" })
+    post_ids: string[];
+}
+
+export class BlogSeriesResponseDTO {
+    @ApiProperty({ description: "Series ID" })
+    id: string;
+
+    @ApiProperty({ description: "Series title" })
+    title: string;
+
+    @ApiProperty({ description: "Series slug" })
+    slug: string;
+
+    @ApiProperty({ description: "Series description", nullable: true })
+    description: string | null;
+
+    @ApiProperty({ description: "Cover media ID", nullable: true })
+    cover_media_id: string | null;
+
+    @ApiProperty({ description: "Cover image from the media library", type: MediaResponseDTO, nullable: true })
+    cover_media: MediaResponseDTO | null;
+
+    @ApiProperty({ description: "Number of published parts" })
+    part_count: number;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Updated date" })
+    updated_at: Date;
+}
+
+export class BlogSeriesDetailDTO extends BlogSeriesResponseDTO {
+    @ApiProperty({ description: "Parts in reading order", type: [BlogPostResponseDTO] })
+    posts: BlogPostResponseDTO[];
+}
+
+export class BlogSeriesListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Series array", type: [BlogSeriesResponseDTO] })
+    data: BlogSeriesResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogSeriesSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Series data", type: BlogSeriesResponseDTO })
+    data: BlogSeriesResponseDTO;
+}
+
+export class BlogSeriesDetailResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Series with its parts", type: BlogSeriesDetailDTO })
+    data: BlogSeriesDetailDTO;
+}
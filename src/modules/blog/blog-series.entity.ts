@@ -0,0 +1,66 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn, BeforeInsert, BeforeUpdate } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { Media } from "../media/media.entity";
+
+// Multi-part article series; parts are ordered by BlogPost.series_position
+@Entity("blog_series")
+export class BlogSeries {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "varchar", length: 200 })
+    title: string;
+
+    @Column({ unique: true, type: "varchar", length: 255 })
+    slug: string;
+
+    @Column({ nullable: true, type: "varchar", length: 1000 })
+    description: string | null;
+
+    @Column({ nullable: true, type: "uuid" })
+    cover_media_id: string | null;
+
+    @ManyToOne(() => Media, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "cover_media_id" })
+    cover_media: Media | null;
+
+    @OneToMany(() => BlogPost, post => post.series)
+    posts: BlogPost[];
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    @UpdateDateColumn({ name: "updated_at", type: "timestamp" })
+    updated_at: Date;
+
+    @BeforeInsert()
+    @BeforeUpdate()
+    generateSlugFromTitle(): void {
+        if (this.title && !this.slug) {
+            this.slug = BlogPost.generateSlug(this.title);
+        }
+    }
+
+    toResponseObject(): {
+        id: string;
+        title: string;
+        slug: string;
+        description: string | null;
+        cover_media_id: string | null;
+        cover_media: ReturnType<Media["toResponseObject"]> | null;
+        created_at: Date;
+        updated_at: Date;
+    } {
+        return {
+            id: this.id,
+            title: this.title,
+            slug: this.slug,
+            description: this.description,
+            cover_media_id: this.cover_media_id,
+            cover_media: this.cover_media ? this.cover_media.toResponseObject() : null,
+            created_at: this.created_at,
+            updated_at: this.updated_at,
+        };
+    }
+}
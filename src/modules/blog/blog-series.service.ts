@@ -0,0 +1,258 @@
+import { Repository, In } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogSeries } from "./blog-series.entity";
+import { BlogPostService } from "./blog.service";
+import { BlogPostResponseDTO } from "./blog.dto";
+import { MediaService } from "../media/media.service";
+import { POST_AUTHOR_RELATIONS } from "./blog-author.util";
+import { CreateBlogSeriesDTO, UpdateBlogSeriesDTO, BlogSeriesResponseDTO, BlogSeriesDetailDTO } from "./blog-series.dto";
+
+@Injectable()
+export class BlogSeriesService {
+    private readonly logger = new Logger(BlogSeriesService.name);
+
+    constructor(
+        @InjectRepository(BlogSeries)
+        private readonly seriesRepository: Repository<BlogSeries>,
+        @InjectRepository(BlogPost)
+        private readonly blogPostRepository: Repository<BlogPost>,
+        private readonly blogPostService: BlogPostService,
+        private readonly mediaService: MediaService,
+    ) {}
+
+    private async findEntity(id: string): Promise<BlogSeries> {
+        const series = await this.seriesRepository.findOne({
+            where: { id },
+            relations: ["cover_media", "cover_media.variants"],
+        });
+
+        if (!series) {
+            throw new NotFoundException(`Series with ID ${id} not found`);
+        }
+
+        return series;
+    }
+
+    private async ensureSlugAvailable(slug: string, excludeId?: string): Promise<void> {
+        const existing = await this.seriesRepository.findOne({ where: { slug } });
+        if (existing && existing.id !== excludeId) {
+            throw new ConflictException(`Series with slug "${slug}" already exists`);
+        }
+    }
+
+    private async validateCoverMedia(cover_media_id: string | null | undefined): Promise<void> {
+        if (!cover_media_id) {
+            return;
+        }
+
+        try {
+            await this.mediaService.findEntity(cover_media_id);
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw new BadRequestException(`Cover media ${cover_media_id} does not exist`);
+            }
+            throw error;
+        }
+    }
+
+    private async toResponse(series: BlogSeries): Promise<BlogSeriesResponseDTO> {
+        const counts = await this.blogPostService.countSeriesParts([series.id]);
+        return { ...series.toResponseObject(), part_count: counts[series.id] || 0 };
+    }
+
+    async findAll(): Promise<BlogSeriesResponseDTO[]> {
+        try {
+            const series = await this.seriesRepository.find({
+                relations: ["cover_media", "cover_media.variants"],
+                order: { title: "ASC" },
+            });
+            const counts = await this.blogPostService.countSeriesParts(series.map(item => item.id));
+
+            return series.map(item => ({ ...item.toResponseObject(), part_count: counts[item.id] || 0 }));
+        } catch (error) {
+            this.logger.error(`Error finding series: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve series");
+        }
+    }
+
+    // Public series page: the series and its published parts in reading order
+    async findBySlug(slug: string): Promise<BlogSeriesDetailDTO> {
+        try {
+            const series = await this.seriesRepository.findOne({
+                where: { slug: (slug || "").trim().toLowerCase() },
+                relations: ["cover_media", "cover_media.variants"],
+            });
+
+            if (!series) {
+                throw new NotFoundException(`Series with slug "${slug}" not found`);
+            }
+
+            const posts = await this.blogPostService.findSeriesParts(series.id);
+
+            return { ...series.toResponseObject(), part_count: posts.length, posts };
+        } catch (error) {
+            this.logger.error(`Error finding series by slug: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve series");
+        }
+    }
+
+    // Every part including drafts, for editors arranging the series
+    async findParts(id: string): Promise<BlogPostResponseDTO[]> {
+        try {
+            await this.findEntity(id);
+
+            const posts = await this.blogPostRepository.find({
+                where: { series_id: id },
+                relations: ["author", ...POST_AUTHOR_RELATIONS, "featured_media", "featured_media.variants", "categories", "tags"],
+                order: { series_position: { direction: "ASC", nulls: "LAST" }, created_at: "ASC" },
+            });
+
+            return posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+        } catch (error) {
+            this.logger.error(`Error finding series parts: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve series parts");
+        }
+    }
+
+    async create(createBlogSeriesDTO: CreateBlogSeriesDTO): Promise<BlogSeriesResponseDTO> {
+        try {
+            const { title, slug, description, cover_media_id } = createBlogSeriesDTO;
+            const seriesSlug = slug || BlogPost.generateSlug(title);
+
+            if (!seriesSlug) {
+                throw new BadRequestException("Series title must contain at least one letter or digit");
+            }
+
+            await this.ensureSlugAvailable(seriesSlug);
+            await this.validateCoverMedia(cover_media_id);
+
+            const series = await this.seriesRepository.save(this.seriesRepository.create({
+                title: title.trim(),
+                slug: seriesSlug,
+                description: description || null,
+                cover_media_id: cover_media_id || null,
+            }));
+            this.logger.log(`✅ Series created with ID: ${series.id}, slug: ${series.slug}`);
+
+            return await this.toResponse(await this.findEntity(series.id));
+        } catch (error) {
+            this.logger.error(`Error creating series: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to create series");
+        }
+    }
+
+    async update(id: string, updateBlogSeriesDTO: UpdateBlogSeriesDTO): Promise<BlogSeriesResponseDTO> {
+        try {
+            const series = await this.findEntity(id);
+
+            if (updateBlogSeriesDTO.slug && updateBlogSeriesDTO.slug !== series.slug) {
+                await this.ensureSlugAvailable(updateBlogSeriesDTO.slug, id);
+            }
+
+            await this.validateCoverMedia(updateBlogSeriesDTO.cover_media_id);
+
+            Object.assign(series, updateBlogSeriesDTO);
+            if (updateBlogSeriesDTO.cover_media_id !== undefined) {
+                // Drop the loaded relation so TypeORM saves the new foreign key
+                series.cover_media = null;
+            }
+
+            await this.seriesRepository.save(series);
+            this.logger.log(`✅ Series updated with ID: ${id}`);
+
+            return await this.toResponse(await this.findEntity(id));
+        } catch (error) {
+            this.logger.error(`Error updating series: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to update series");
+        }
+    }
+
+    // Posts in the series stay published as standalone posts
+    async remove(id: string): Promise<{ message: string }> {
+        try {
+            const series = await this.findEntity(id);
+
+            await this.seriesRepository.manager.transaction(async manager => {
+                await manager.update(BlogPost, { series_id: id }, { series_id: null, series_position: null });
+                await manager.remove(series);
+            });
+            this.logger.log(`Series deleted with ID: ${id}`);
+
+            return { message: "Series deleted successfully" };
+        } catch (error) {
+            this.logger.error(`Error deleting series: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to delete series");
+        }
+    }
+
+    /**
+     * Replaces the parts of a series with the given posts in reading order.
+     * Posts no longer listed leave the series; posts listed from another series are moved.
+     */
+    async setParts(id: string, post_ids: string[]): Promise<BlogPostResponseDTO[]> {
+        try {
+            await this.findEntity(id);
+
+            const ids = [...new Set(post_ids)];
+            if (ids.length > 0) {
+                const existing = await this.blogPostRepository.find({ where: { id: In(ids) }, select: ["id", "series_id"] });
+                const existingIds = new Set(existing.map(post => post.id));
+                const missing = ids.filter(postId => !existingIds.has(postId));
+                if (missing.length > 0) {
+                    throw new BadRequestException(`Blog posts not found: ${missing.join(", ")}`);
+                }
+
+                const moved = existing.filter(post => post.series_id && post.series_id !== id);
+                if (moved.length > 0) {
+                    this.logger.log(`🔀 Moving ${moved.length} post(s) from another series into series ${id}`);
+                }
+            }
+
+            await this.seriesRepository.manager.transaction(async manager => {
+                await manager.update(BlogPost, { series_id: id }, { series_id: null, series_position: null });
+                for (const [index, postId] of ids.entries()) {
+                    await manager.update(BlogPost, { id: postId }, { series_id: id, series_position: index + 1 });
+                }
+            });
+            this.logger.log(`✅ Series ${id} now has ${ids.length} part(s)`);
+
+            return await this.findParts(id);
+        } catch (error) {
+            this.logger.error(`Error setting series parts: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to update series parts");
+        }
+    }
+}
@@ -0,0 +1,26 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+
+// A slug a post was published under before it was renamed; it keeps redirecting to the post
+@Entity("blog_post_slug_history")
+export class BlogPostSlugHistory {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Index()
+    @Column({ type: "uuid" })
+    post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    // Shares the namespace of post and translation slugs, so an old link always resolves to one post
+    @Column({ unique: true, type: "varchar", length: 255 })
+    slug: string;
+
+    // When the post stopped using this slug
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+}
@@ -0,0 +1,43 @@
+import { Repository, Not, EntityManager } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, Logger } from "@nestjs/common";
+
+import { BlogPostSlugHistory } from "./blog-slug-history.entity";
+
+@Injectable()
+export class BlogPostSlugHistoryService {
+    private readonly logger = new Logger(BlogPostSlugHistoryService.name);
+
+    constructor(
+        @InjectRepository(BlogPostSlugHistory)
+        private readonly slugHistoryRepository: Repository<BlogPostSlugHistory>,
+    ) {}
+
+    // A post may take back one of its own old slugs, so its history can be excluded
+    async isSlugTaken(slug: string, excludePostId?: string): Promise<boolean> {
+        return this.slugHistoryRepository.exists({
+            where: excludePostId ? { slug, post_id: Not(excludePostId) } : { slug },
+        });
+    }
+
+    async findPostId(slug: string): Promise<string | null> {
+        const entry = await this.slugHistoryRepository.findOne({ where: { slug } });
+        return entry ? entry.post_id : null;
+    }
+
+    /**
+     * Keeps the previous slug of a post as a redirect. When the post moves back to one of
+     * its own old slugs, that slug is live again and leaves the history. Pass the manager of the
+     * transaction that saves the post, so the slug and its redirect are committed together.
+     */
+    async recordChange(post_id: string, previous: string, current: string, manager: EntityManager = this.slugHistoryRepository.manager): Promise<void> {
+        if (previous === current) {
+            return;
+        }
+
+        const slugHistoryRepository = manager.getRepository(BlogPostSlugHistory);
+        await slugHistoryRepository.delete({ post_id, slug: current });
+        await slugHistoryRepository.insert({ post_id, slug: previous });
+        this.logger.log(`🔀 Post ${post_id} moved from slug "${previous}" to "${current}"`);
+    }
+}
@@ -0,0 +1,169 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Body, Patch, Param, Delete, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseInterceptors, ClassSerializerInterceptor, UseGuards, Logger } from "@nestjs/common";
+
+import { BlogTagService } from "./blog-tag.service";
+import { CreateBlogTagDTO, UpdateBlogTagDTO, MergeBlogTagDTO, BlogTagListResponseDTO, BlogTagSingleResponseDTO } from "./blog-tag.dto";
+
+@ApiTags("Blog Tags")
+@Controller("blog/tags")
+@UseInterceptors(ClassSerializerInterceptor)
+export class BlogTagController {
+    private readonly logger = new Logger(BlogTagController.name);
+
+    constructor(
+        private readonly tagService: BlogTagService
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: "Get all tags with post counts (Public)" })
+    @ApiResponse({
+        status: 200,
+        description: "Tags retrieved successfully",
+        type: BlogTagListResponseDTO
+    })
+    async findAll(): Promise<BlogTagListResponseDTO> {
+        try {
+            const tags = await this.tagService.findAll();
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Tags retrieved successfully",
+                data: tags,
+                count: tags.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving tags: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post()
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.CREATED)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Create a tag (Admin only)" })
+    @ApiBody({ type: CreateBlogTagDTO })
+    @ApiResponse({
+        status: 201,
+        description: "Tag created successfully",
+        type: BlogTagSingleResponseDTO
+    })
+    @ApiResponse({ status: 409, description: "Tag already exists" })
+    async create(
+        @Body() createBlogTagDTO: CreateBlogTagDTO
+    ): Promise<BlogTagSingleResponseDTO> {
+        try {
+            const tag = await this.tagService.create(createBlogTagDTO);
+
+            return {
+                status_code: HttpStatus.CREATED,
+                message: "Tag created successfully",
+                data: tag,
+            };
+        } catch (error) {
+            this.logger.error(`Error creating tag: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Patch(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Rename a tag (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Tag UUID" })
+    @ApiBody({ type: UpdateBlogTagDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Tag renamed successfully",
+        type: BlogTagSingleResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Tag not found" })
+    @ApiResponse({ status: 409, description: "Another tag already uses that name" })
+    async rename(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() updateBlogTagDTO: UpdateBlogTagDTO
+    ): Promise<BlogTagSingleResponseDTO> {
+        try {
+            const tag = await this.tagService.rename(id, updateBlogTagDTO);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Tag renamed successfully",
+                data: tag,
+            };
+        } catch (error) {
+            this.logger.error(`Error renaming tag: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post(":id/merge")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.OK)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Merge a tag into another one and delete it (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "UUID of the tag being merged away" })
+    @ApiBody({ type: MergeBlogTagDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Tags merged successfully",
+        type: BlogTagSingleResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Tag not found" })
+    async merge(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Body() mergeBlogTagDTO: MergeBlogTagDTO
+    ): Promise<BlogTagSingleResponseDTO> {
+        try {
+            const tag = await this.tagService.merge(id, mergeBlogTagDTO.target_id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Tags merged successfully",
+                data: tag,
+            };
+        } catch (error) {
+            this.logger.error(`Error merging tags: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Delete a tag (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Tag UUID" })
+    @ApiResponse({ status: 200, description: "Tag deleted successfully" })
+    @ApiResponse({ status: 404, description: "Tag not found" })
+    async remove(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            const result = await this.tagService.remove(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error deleting tag: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,70 @@
+import { Transform } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+import { IsString, IsNotEmpty, MaxLength, MinLength, IsUUID } from "class-validator";
+
+export class CreateBlogTagDTO {
+    @ApiProperty({ description: "Display name of the tag", maxLength: 50 })
+    @IsString({ message: "Name must be a string" })
+    @IsNotEmpty({ message: "Name is required" })
+    @MinLength(2, { message: "Name must be at least 2 characters long" })
+    @MaxLength(50, { message: "Name must be less than 50 characters" })
+    @Transform(({ value }) => value?.trim())
+    name: string;
+}
+
+export class UpdateBlogTagDTO {
+    @ApiProperty({ description: "New display name of the tag; the slug is regenerated from it", maxLength: 50 })
+    @IsString({ message: "Name must be a string" })
+    @IsNotEmpty({ message: "Name is required" })
+    @MinLength(2, { message: "Name must be at least 2 characters long" })
+    @MaxLength(50, { message: "Name must be less than 50 characters" })
+    @Transform(({ value }) => value?.trim())
+    name: string;
+}
+
+export class MergeBlogTagDTO {
+    @ApiProperty({ description: "Tag that absorbs the posts of the merged tag" })
+    @IsUUID("all", { message: "Target tag ID must be a valid UUID" })
+    target_id: string;
+}
+
+export class BlogTagSummaryDTO {
+    @ApiProperty({ description: "Tag ID" })
+    id: string;
+
+    @ApiProperty({ description: "Tag name" })
+    name: string;
+
+    @ApiProperty({ description: "Tag slug" })
+    slug: string;
+}
+
+export class BlogTagResponseDTO extends BlogTagSummaryDTO {
+    @ApiProperty({ description: "Number of posts carrying the tag" })
+    post_count: number;
+}
+
+export class BlogTagListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Tags array", type: [BlogTagResponseDTO] })
+    data: BlogTagResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogTagSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Tag data", type: BlogTagResponseDTO })
+    data: BlogTagResponseDTO;
+}
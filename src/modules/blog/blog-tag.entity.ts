@@ -0,0 +1,44 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToMany, BeforeInsert, BeforeUpdate } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+
+@Entity("blog_tags")
+export class BlogTag {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "varchar", length: 50 })
+    name: string;
+
+    @Column({ unique: true, type: "varchar", length: 60 })
+    slug: string;
+
+    @ManyToMany(() => BlogPost, post => post.tags)
+    posts: BlogPost[];
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    @UpdateDateColumn({ name: "updated_at", type: "timestamp" })
+    updated_at: Date;
+
+    @BeforeInsert()
+    @BeforeUpdate()
+    generateSlugFromName(): void {
+        if (this.name && !this.slug) {
+            this.slug = BlogPost.generateSlug(this.name);
+        }
+    }
+
+    toResponseObject(): {
+        id: string;
+        name: string;
+        slug: string;
+    } {
+        return {
+            id: this.id,
+            name: this.name,
+            slug: this.slug,
+        };
+    }
+}
@@ -0,0 +1,229 @@
+import { Repository, In } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogTag } from "./blog-tag.entity";
+import { CreateBlogTagDTO, UpdateBlogTagDTO, BlogTagResponseDTO } from "./blog-tag.dto";
+
+@Injectable()
+export class BlogTagService {
+    private readonly logger = new Logger(BlogTagService.name);
+
+    constructor(
+        @InjectRepository(BlogTag)
+        private readonly tagRepository: Repository<BlogTag>,
+    ) {}
+
+    private toSlug(name: string): string {
+        const slug = name ? BlogPost.generateSlug(name) : "";
+        if (!slug) {
+            throw new BadRequestException("Tag name must contain at least one letter or digit");
+        }
+        return slug;
+    }
+
+    private async findEntity(id: string): Promise<BlogTag> {
+        const tag = await this.tagRepository.findOne({ where: { id } });
+
+        if (!tag) {
+            throw new NotFoundException(`Tag with ID ${id} not found`);
+        }
+
+        return tag;
+    }
+
+    private async countPosts(tag_ids: string[]): Promise<Record<string, number>> {
+        if (tag_ids.length === 0) {
+            return {};
+        }
+
+        const rows: { tag_id: string; count: string }[] = await this.tagRepository
+            .createQueryBuilder("tag")
+            .innerJoin("tag.posts", "post")
+            .select("tag.id", "tag_id")
+            .addSelect("COUNT(post.id)", "count")
+            .where("tag.id IN (:...tag_ids)", { tag_ids })
+            .groupBy("tag.id")
+            .getRawMany();
+
+        return rows.reduce((counts, row) => {
+            counts[row.tag_id] = parseInt(row.count, 10);
+            return counts;
+        }, {} as Record<string, number>);
+    }
+
+    private async toResponse(tag: BlogTag): Promise<BlogTagResponseDTO> {
+        const counts = await this.countPosts([tag.id]);
+        return { ...tag.toResponseObject(), post_count: counts[tag.id] || 0 };
+    }
+
+    async findAll(): Promise<BlogTagResponseDTO[]> {
+        try {
+            const tags = await this.tagRepository.find({ order: { name: "ASC" } });
+            const counts = await this.countPosts(tags.map(tag => tag.id));
+
+            return tags.map(tag => ({ ...tag.toResponseObject(), post_count: counts[tag.id] || 0 }));
+        } catch (error) {
+            this.logger.error(`Error finding tags: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve tags");
+        }
+    }
+
+    async findBySlug(slug: string): Promise<BlogTag> {
+        if (!slug || typeof slug !== "string" || slug.trim().length === 0) {
+            throw new BadRequestException("Valid tag slug is required");
+        }
+
+        const tag = await this.tagRepository.findOne({ where: { slug: slug.trim().toLowerCase() } });
+
+        if (!tag) {
+            throw new NotFoundException(`Tag with slug "${slug}" not found`);
+        }
+
+        return tag;
+    }
+
+    // Maps free-form names from a post payload onto tags, creating the ones that don't exist yet
+    async resolveTags(names: string[]): Promise<BlogTag[]> {
+        const bySlug = new Map<string, string>();
+        for (const name of names || []) {
+            const trimmed = typeof name === "string" ? name.trim() : "";
+            const slug = trimmed ? BlogPost.generateSlug(trimmed) : "";
+            if (slug && !bySlug.has(slug)) {
+                bySlug.set(slug, trimmed);
+            }
+        }
+
+        if (bySlug.size === 0) {
+            return [];
+        }
+
+        const existing = await this.tagRepository.find({ where: { slug: In([...bySlug.keys()]) } });
+        const existingSlugs = new Set(existing.map(tag => tag.slug));
+
+        const missing = [...bySlug.entries()]
+            .filter(([slug]) => !existingSlugs.has(slug))
+            .map(([slug, name]) => this.tagRepository.create({ name, slug }));
+
+        if (missing.length > 0) {
+            await this.tagRepository.save(missing);
+            this.logger.log(`🏷️ Created tags: ${missing.map(tag => tag.slug).join(", ")}`);
+        }
+
+        return [...existing, ...missing];
+    }
+
+    async create(createBlogTagDTO: CreateBlogTagDTO): Promise<BlogTagResponseDTO> {
+        try {
+            const slug = this.toSlug(createBlogTagDTO.name);
+
+            const existing = await this.tagRepository.findOne({ where: { slug } });
+            if (existing) {
+                throw new ConflictException(`Tag "${existing.name}" already exists`);
+            }
+
+            const tag = await this.tagRepository.save(this.tagRepository.create({
+                name: createBlogTagDTO.name.trim(),
+                slug,
+            }));
+            this.logger.log(`✅ Tag created with ID: ${tag.id}, slug: ${tag.slug}`);
+
+            return { ...tag.toResponseObject(), post_count: 0 };
+        } catch (error) {
+            this.logger.error(`Error creating tag: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to create tag");
+        }
+    }
+
+    async rename(id: string, updateBlogTagDTO: UpdateBlogTagDTO): Promise<BlogTagResponseDTO> {
+        try {
+            const tag = await this.findEntity(id);
+            const slug = this.toSlug(updateBlogTagDTO.name);
+
+            if (slug !== tag.slug) {
+                const existing = await this.tagRepository.findOne({ where: { slug } });
+                if (existing) {
+                    throw new ConflictException(`Tag "${existing.name}" already exists - merge the tags instead`);
+                }
+            }
+
+            tag.name = updateBlogTagDTO.name.trim();
+            tag.slug = slug;
+
+            const updatedTag = await this.tagRepository.save(tag);
+            this.logger.log(`✅ Tag ${id} renamed to "${updatedTag.name}"`);
+
+            return await this.toResponse(updatedTag);
+        } catch (error) {
+            this.logger.error(`Error renaming tag: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to rename tag");
+        }
+    }
+
+    async merge(source_id: string, target_id: string): Promise<BlogTagResponseDTO> {
+        try {
+            if (source_id === target_id) {
+                throw new BadRequestException("Cannot merge a tag into itself");
+            }
+
+            const [source, target] = await Promise.all([
+                this.findEntity(source_id),
+                this.findEntity(target_id),
+            ]);
+
+            await this.tagRepository.manager.transaction(async manager => {
+                // Re-point posts to the target, skipping posts that already carry both tags
+                await manager.query(
+                    `INSERT INTO "blog_post_tags" ("post_id", "tag_id")
+                     SELECT "post_id", $2 FROM "blog_post_tags" WHERE "tag_id" = $1
+                     ON CONFLICT DO NOTHING`,
+                    [source.id, target.id]
+                );
+                await manager.delete(BlogTag, { id: source.id });
+            });
+
+            this.logger.log(`🔀 Tag "${source.slug}" merged into "${target.slug}"`);
+
+            return await this.toResponse(target);
+        } catch (error) {
+            this.logger.error(`Error merging tags: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to merge tags");
+        }
+    }
+
+    async remove(id: string): Promise<{ message: string }> {
+        try {
+            const tag = await this.findEntity(id);
+
+            // Join rows are removed by the ON DELETE CASCADE on blog_post_tags
+            await this.tagRepository.remove(tag);
+            this.logger.log(`Tag deleted with ID: ${id}`);
+
+            return { message: "Tag deleted successfully" };
+        } catch (error) {
+            this.logger.error(`Error deleting tag: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to delete tag");
+        }
+    }
+}
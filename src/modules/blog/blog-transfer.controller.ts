@@ -0,0 +1,178 @@
+import { Request as ExpressRequest } from "express";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth, ApiBody, ApiConsumes, ApiProduces } from "@nestjs/swagger";
+import { Controller, Get, Post, Body, Query, Req, HttpStatus, HttpCode, UseGuards, UseInterceptors, UploadedFile, StreamableFile, BadRequestException, Logger } from "@nestjs/common";
+
+import { AuthenticatedRequest } from "./blog.controller";
+import { BlogTransferService } from "./blog-transfer.service";
+import { BlogWxrImportService } from "./blog-wxr.service";
+import { ImportBlogPostsDTO, BlogImportResponseDTO } from "./blog-transfer.dto";
+import { ImportWordPressDTO, BlogWxrImportResponseDTO } from "./blog-wxr.dto";
+import { TRANSFER_FORMATS, TransferFormat, IMPORT_MAX_FILE_SIZE } from "./blog-transfer.util";
+
+@ApiTags("Blog Import & Export")
+@Controller("blog")
+@UseGuards(JWTAuthGuard)
+@ApiBearerAuth()
+export class BlogTransferController {
+    private readonly logger = new Logger(BlogTransferController.name);
+
+    constructor(
+        private readonly transferService: BlogTransferService,
+        private readonly wxrImportService: BlogWxrImportService
+    ) {}
+
+    private parseBoolean(name: string, value: string | undefined): boolean | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+
+        if (value !== "true" && value !== "false") {
+            throw new BadRequestException(`${name} must be true or false`);
+        }
+
+        return value === "true";
+    }
+
+    @Get("export")
+    @ApiOperation({ summary: "Export posts as a JSON bundle or a ZIP of Markdown files with front matter (Admin only)" })
+    @ApiQuery({ name: "format", required: false, enum: TRANSFER_FORMATS, description: "json (default) or markdown" })
+    @ApiQuery({ name: "search", required: false, type: String, description: "Search term" })
+    @ApiQuery({ name: "is_published", required: false, type: Boolean, description: "Filter by published status" })
+    @ApiQuery({ name: "is_featured", required: false, type: Boolean, description: "Filter by featured status" })
+    @ApiQuery({ name: "categories", required: false, isArray: true, type: String, description: "Filter by category slugs" })
+    @ApiQuery({ name: "tags", required: false, isArray: true, type: String, description: "Filter by tag slugs" })
+    @ApiProduces("application/json", "application/zip")
+    @ApiResponse({ status: 200, description: "Export file as an attachment" })
+    @ApiResponse({ status: 400, description: "Invalid format or filter" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async export(
+        @Req() req: ExpressRequest,
+        @Query("format") format?: string,
+        @Query("search") search?: string,
+        @Query("is_published") is_published?: string,
+        @Query("is_featured") is_featured?: string,
+        @Query("categories") categories?: string | string[],
+        @Query("tags") tags?: string | string[]
+    ): Promise<StreamableFile> {
+        try {
+            if (format !== undefined && !TRANSFER_FORMATS.includes(format as TransferFormat)) {
+                throw new BadRequestException(`Format must be one of: ${TRANSFER_FORMATS.join(", ")}`);
+            }
+
+            const file = await this.transferService.export((format as TransferFormat) || "json", {
+                search,
+                is_published: this.parseBoolean("is_published", is_published),
+                is_featured: this.parseBoolean("is_featured", is_featured),
+                categories: categories ? [categories].flat() : undefined,
+                tags: tags ? [tags].flat() : undefined,
+            }, `${req.protocol}://${req.get("host")}`);
+
+            return new StreamableFile(file.body, {
+                type: file.content_type,
+                length: file.body.length,
+                disposition: `attachment; filename="${file.filename}"`,
+            });
+        } catch (error) {
+            this.logger.error(`Error exporting posts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post("import")
+    @HttpCode(HttpStatus.OK)
+    @UseInterceptors(FileInterceptor("file", { limits: { fileSize: IMPORT_MAX_FILE_SIZE, files: 1 } }))
+    @ApiConsumes("multipart/form-data")
+    @ApiOperation({ summary: "Import posts from an export file; entries that fail validation or whose slug is taken are reported and skipped (Admin only)" })
+    @ApiQuery({ name: "dry_run", required: false, type: Boolean, description: "Only validate the entries and report what would be created" })
+    @ApiBody({ type: ImportBlogPostsDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Import report",
+        type: BlogImportResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Missing or unreadable file" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 413, description: "File too large" })
+    async import(
+        @UploadedFile() file: Express.Multer.File,
+        @Req() req: AuthenticatedRequest,
+        @Query("dry_run") dryRun?: string
+    ): Promise<BlogImportResponseDTO> {
+        try {
+            if (!file || !file.buffer || file.buffer.length === 0) {
+                throw new BadRequestException("File is required");
+            }
+
+            const importerId = req.user?.id || req.user?.sub;
+            if (!importerId) {
+                throw new BadRequestException("Author ID is required - authentication issue");
+            }
+
+            const report = await this.transferService.import(file.buffer, this.parseBoolean("dry_run", dryRun) || false, importerId);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: report.dry_run
+                    ? `Dry run: ${report.created} of ${report.total} posts can be imported`
+                    : `Imported ${report.created} of ${report.total} posts`,
+                data: report,
+            };
+        } catch (error) {
+            this.logger.error(`Error importing posts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Post("import/wordpress")
+    @HttpCode(HttpStatus.OK)
+    @UseInterceptors(FileInterceptor("file", { limits: { fileSize: IMPORT_MAX_FILE_SIZE, files: 1 } }))
+    @ApiConsumes("multipart/form-data")
+    @ApiOperation({ summary: "Import posts from a WordPress export (WXR), keeping slugs and publish dates and copying images (Admin only)" })
+    @ApiQuery({ name: "dry_run", required: false, type: Boolean, description: "Only validate the posts and report what would be created; no images are copied" })
+    @ApiBody({ type: ImportWordPressDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Import report with skipped items, category matches and media",
+        type: BlogWxrImportResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Missing file, not a WordPress export or invalid category map" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 413, description: "File too large" })
+    async importWordPress(
+        @UploadedFile() file: Express.Multer.File,
+        @Req() req: ExpressRequest & Pick<AuthenticatedRequest, "user">,
+        @Body("category_map") categoryMap?: string,
+        @Body("import_media") importMedia?: string,
+        @Query("dry_run") dryRun?: string
+    ): Promise<BlogWxrImportResponseDTO> {
+        try {
+            if (!file || !file.buffer || file.buffer.length === 0) {
+                throw new BadRequestException("File is required");
+            }
+
+            const importerId = req.user?.id || req.user?.sub;
+            if (!importerId) {
+                throw new BadRequestException("Author ID is required - authentication issue");
+            }
+
+            const report = await this.wxrImportService.import(file.buffer, {
+                dry_run: this.parseBoolean("dry_run", dryRun) || false,
+                import_media: this.parseBoolean("import_media", importMedia) ?? true,
+                category_map: categoryMap,
+            }, importerId, `${req.protocol}://${req.get("host")}`);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: report.dry_run
+                    ? `Dry run: ${report.created} of ${report.total} WordPress posts can be imported, ${report.skipped.length} items skipped`
+                    : `Imported ${report.created} of ${report.total} WordPress posts, ${report.skipped.length} items skipped`,
+                data: report,
+            };
+        } catch (error) {
+            this.logger.error(`Error importing WordPress export: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+export const IMPORT_RESULT_STATUSES = ["created", "valid", "conflict", "invalid"] as const;
+export type ImportResultStatus = typeof IMPORT_RESULT_STATUSES[number];
+
+export class ImportBlogPostsDTO {
+    @ApiProperty({ description: "JSON bundle or ZIP of Markdown files, as produced by the export (max 20MB)", type: "string", format: "binary" })
+    file: any;
+}
+
+export class BlogImportResultDTO {
+    @ApiProperty({ description: "Bundle position or archive file name of the entry" })
+    source: string;
+
+    @ApiProperty({ description: "Entry title", nullable: true })
+    title: string | null;
+
+    @ApiProperty({ description: "Slug the post was or would be created with", nullable: true })
+    slug: string | null;
+
+    @ApiProperty({ description: "created, valid (dry run only), conflict or invalid", enum: IMPORT_RESULT_STATUSES })
+    status: ImportResultStatus;
+
+    @ApiPropertyOptional({ description: "ID of the created post" })
+    id?: string;
+
+    @ApiProperty({ description: "Why the entry was rejected", type: [String] })
+    errors: string[];
+
+    @ApiProperty({ description: "Parts of the entry that were not carried over", type: [String] })
+    warnings: string[];
+}
+
+export class BlogImportReportDTO {
+    @ApiProperty({ description: "Whether the import only validated the entries" })
+    dry_run: boolean;
+
+    @ApiProperty({ description: "Number of entries in the file" })
+    total: number;
+
+    @ApiProperty({ description: "Number of posts created, or that would be created in a dry run" })
+    created: number;
+
+    @ApiProperty({ description: "Number of entries whose slug is already in use" })
+    conflicts: number;
+
+    @ApiProperty({ description: "Number of entries that failed validation" })
+    invalid: number;
+
+    @ApiProperty({ description: "Outcome per entry, in file order", type: [BlogImportResultDTO] })
+    results: BlogImportResultDTO[];
+}
+
+export class BlogImportResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Per-entry report", type: BlogImportReportDTO })
+    data: BlogImportReportDTO;
+}
@@ -0,0 +1,342 @@
+import { Repository } from "typeorm";
+import { validate } from "class-validator";
+import { plainToInstance } from "class-transformer";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { CreateBlogPostDTO } from "./blog.dto";
+import { BlogPostService, BlogPostQuery } from "./blog.service";
+import { BlogCategoryService } from "./blog-category.service";
+import { MediaService } from "../media/media.service";
+import { AdministratorService } from "../admin/admin.service";
+import { createZip, readZip, isZip } from "./blog-zip.util";
+import { BlogImportReportDTO, BlogImportResultDTO } from "./blog-transfer.dto";
+import {
+    BlogTransferEntry,
+    RawTransferEntry,
+    TransferFormat,
+    IMPORT_MAX_ENTRIES,
+    IMPORT_MAX_FILE_SIZE,
+    buildBundle,
+    parseBundle,
+    toMarkdownDocument,
+    parseMarkdownDocument,
+    markdownFileName,
+} from "./blog-transfer.util";
+
+// Runs after an entry passed every check and right before its post is created; never in a dry run
+export type BlogImportPreparer = (entry: RawTransferEntry, createDTO: CreateBlogPostDTO, result: BlogImportResultDTO) => Promise<void>;
+
+export interface BlogExportFile {
+    body: Buffer;
+    content_type: string;
+    filename: string;
+    count: number;
+}
+
+// Entry fields checked with the CreateBlogPostDTO rules; the rest are resolved by the import itself
+const DTO_FIELDS = ["title", "slug", "content", "content_format", "excerpt", "featured_image", "featured_media_id", "categories", "tags", "is_published", "is_featured"] as const;
+
+@Injectable()
+export class BlogTransferService {
+    private readonly logger = new Logger(BlogTransferService.name);
+
+    constructor(
+        @InjectRepository(BlogPost)
+        private readonly blogPostRepository: Repository<BlogPost>,
+        private readonly blogPostService: BlogPostService,
+        private readonly categoryService: BlogCategoryService,
+        private readonly mediaService: MediaService,
+        private readonly administratorService: AdministratorService,
+    ) {}
+
+    private toEntry(post: BlogPost, apiOrigin: string): BlogTransferEntry {
+        return {
+            title: post.title,
+            slug: post.slug,
+            content: post.content,
+            content_format: post.content_format,
+            excerpt: post.excerpt,
+            categories: BlogPost.categorySlugs(post.categories),
+            tags: (post.tags || []).map(tag => tag.name),
+            is_published: post.is_published,
+            is_featured: post.is_featured,
+            published_at: post.published_at ? post.published_at.toISOString() : null,
+            author_email: post.author ? post.author.email : null,
+            featured_image: post.featured_image,
+            featured_media_id: post.featured_media_id,
+            featured_media_url: post.featured_media ? `${apiOrigin}${post.featured_media.url}` : null,
+        };
+    }
+
+    /**
+     * Exports the posts matching the admin listing filters as a JSON bundle or a ZIP of
+     * Markdown files with front matter. `apiOrigin` makes media URLs absolute.
+     */
+    async export(format: TransferFormat, query: BlogPostQuery, apiOrigin: string): Promise<BlogExportFile> {
+        try {
+            const posts = await this.blogPostService.findForExport(query);
+            const entries = posts.map(post => this.toEntry(post, apiOrigin));
+            const date = new Date().toISOString().slice(0, 10);
+
+            this.logger.log(`📦 Exporting ${entries.length} post(s) as ${format}`);
+
+            if (format === "markdown") {
+                return {
+                    body: createZip(entries.map((entry, index) => ({
+                        name: markdownFileName(entry, index),
+                        data: Buffer.from(toMarkdownDocument(entry), "utf8"),
+                        modified: posts[index].updated_at,
+                    }))),
+                    content_type: "application/zip",
+                    filename: `blog-export-${date}.zip`,
+                    count: entries.length,
+                };
+            }
+
+            return {
+                body: Buffer.from(JSON.stringify(buildBundle(entries), null, 2), "utf8"),
+                content_type: "application/json",
+                filename: `blog-export-${date}.json`,
+                count: entries.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error exporting blog posts: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to export blog posts");
+        }
+    }
+
+    // Entries of an uploaded bundle or archive, in file order
+    private readEntries(buffer: Buffer): RawTransferEntry[] {
+        let entries: RawTransferEntry[];
+
+        try {
+            if (isZip(buffer)) {
+                entries = readZip(buffer, { max_total_size: IMPORT_MAX_FILE_SIZE * 5, max_files: IMPORT_MAX_ENTRIES * 2 })
+                    // Archivers add metadata such as __MACOSX/ entries next to the Markdown files
+                    .filter(file => file.name.toLowerCase().endsWith(".md") && !file.name.split("/").some(part => part.startsWith("__MACOSX") || part.startsWith(".")))
+                    .sort((a, b) => a.name.localeCompare(b.name))
+                    .map(file => {
+                        try {
+                            return { source: file.name, data: parseMarkdownDocument(file.data.toString("utf8")) };
+                        } catch (error) {
+                            return { source: file.name, data: {}, error: error.message };
+                        }
+                    });
+            } else {
+                entries = parseBundle(buffer.toString("utf8"));
+            }
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+
+        if (entries.length === 0) {
+            throw new BadRequestException("File contains no posts");
+        }
+
+        if (entries.length > IMPORT_MAX_ENTRIES) {
+            throw new BadRequestException(`At most ${IMPORT_MAX_ENTRIES} posts can be imported at once`);
+        }
+
+        return entries;
+    }
+
+    private async importEntry(raw: RawTransferEntry, dryRun: boolean, importer_id: string, overrideReview: boolean, seenSlugs: Set<string>, prepare?: BlogImportPreparer): Promise<BlogImportResultDTO> {
+        const { data } = raw;
+        const result: BlogImportResultDTO = {
+            source: raw.source,
+            title: typeof data.title === "string" ? data.title : null,
+            slug: null,
+            status: "invalid",
+            errors: [],
+            warnings: [...(raw.warnings || [])],
+        };
+
+        if (raw.error) {
+            result.errors.push(raw.error);
+            return result;
+        }
+
+        // Missing and null values are both treated as "not set", as they are in the create endpoint
+        const fields: Record<string, unknown> = {};
+        for (const field of DTO_FIELDS) {
+            if (data[field] !== undefined && data[field] !== null) {
+                fields[field] = data[field];
+            }
+        }
+
+        let createDTO: CreateBlogPostDTO;
+        try {
+            createDTO = plainToInstance(CreateBlogPostDTO, fields);
+        } catch {
+            // The DTO transforms expect strings where strings belong
+            result.errors.push("Entry has fields of the wrong type");
+            return result;
+        }
+
+        const validationErrors = await validate(createDTO, { whitelist: true, forbidNonWhitelisted: true });
+        for (const error of validationErrors) {
+            result.errors.push(...Object.values(error.constraints || {}));
+        }
+
+        const publishedAt = typeof data.published_at === "string" ? new Date(data.published_at) : null;
+        if (data.published_at !== undefined && data.published_at !== null && (!publishedAt || isNaN(publishedAt.getTime()))) {
+            result.errors.push("Published at must be an ISO 8601 date");
+        }
+
+        if (result.errors.length > 0) {
+            return result;
+        }
+
+        const slug = createDTO.slug || BlogPost.generateSlug(createDTO.title);
+        result.slug = slug || null;
+        if (!slug) {
+            result.errors.push("Title must contain at least one letter or digit");
+            return result;
+        }
+
+        try {
+            await this.categoryService.resolveCategories(createDTO.categories);
+        } catch (error) {
+            if (error instanceof BadRequestException) {
+                result.errors.push(error.message);
+                return result;
+            }
+            throw error;
+        }
+
+        if (seenSlugs.has(slug)) {
+            result.status = "conflict";
+            result.errors.push(`Slug "${slug}" appears more than once in this file`);
+            return result;
+        }
+        seenSlugs.add(slug);
+
+        if (await this.blogPostService.isSlugTaken(slug)) {
+            result.status = "conflict";
+            result.errors.push(`Slug "${slug}" is already in use`);
+            return result;
+        }
+
+        let author_id = importer_id;
+        if (typeof data.author_email === "string" && data.author_email.trim()) {
+            const author = await this.administratorService.findByEmail(data.author_email.trim());
+            if (author) {
+                author_id = author.id;
+            } else {
+                result.warnings.push(`Author ${data.author_email.trim()} not found; the post is attributed to the importing administrator`);
+            }
+        }
+
+        if (createDTO.featured_media_id) {
+            try {
+                await this.mediaService.findEntity(createDTO.featured_media_id);
+            } catch (error) {
+                if (!(error instanceof NotFoundException)) {
+                    throw error;
+                }
+                result.warnings.push(`Featured media ${createDTO.featured_media_id} does not exist here and was left out`);
+                delete createDTO.featured_media_id;
+            }
+        } else if (typeof data.featured_media_url === "string" && data.featured_media_url) {
+            result.warnings.push(`Featured media ${data.featured_media_url} is not copied; upload it and set it on the post`);
+        }
+
+        // Posts that were live elsewhere still need review here, unless the importer may skip it
+        const draftOnly = !overrideReview && (!!createDTO.is_published || !!createDTO.scheduled_publish_at || typeof data.scheduled_publish_at === "string");
+        if (draftOnly) {
+            result.warnings.push("Publishing requires an approved review; the post is imported as a draft");
+        }
+
+        if (dryRun) {
+            result.status = "valid";
+            return result;
+        }
+
+        try {
+            createDTO.slug = slug;
+            if (prepare) {
+                await prepare(raw, createDTO, result);
+            }
+            if (draftOnly) {
+                createDTO.is_published = false;
+                delete createDTO.scheduled_publish_at;
+            }
+            const post = await this.blogPostService.create(createDTO, author_id, importer_id);
+
+            // Keep the original publish date instead of the time of the import
+            if (post.is_published && publishedAt) {
+                await this.blogPostRepository.update(post.id, { published_at: publishedAt });
+            }
+
+            result.status = "created";
+            result.id = post.id;
+            return result;
+        } catch (error) {
+            if (error instanceof ConflictException) {
+                result.status = "conflict";
+                result.errors.push(error.message);
+                return result;
+            }
+
+            if (error instanceof BadRequestException) {
+                result.errors.push(error.message);
+                return result;
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Imports parsed entries one by one and reports the outcome of each. Entries are validated
+     * with the CreateBlogPostDTO rules; entries that fail or whose slug is taken are skipped.
+     * Callers handle errors; BadRequestException is the only one expected.
+     */
+    async importEntries(entries: RawTransferEntry[], dryRun: boolean, importer_id: string, prepare?: BlogImportPreparer): Promise<BlogImportReportDTO> {
+        const seenSlugs = new Set<string>();
+        const results: BlogImportResultDTO[] = [];
+        const overrideReview = await this.administratorService.canOverrideReview(importer_id);
+
+        for (const entry of entries) {
+            results.push(await this.importEntry(entry, dryRun, importer_id, overrideReview, seenSlugs, prepare));
+        }
+
+        const count = (status: BlogImportResultDTO["status"]) => results.filter(result => result.status === status).length;
+        const report: BlogImportReportDTO = {
+            dry_run: dryRun,
+            total: results.length,
+            created: count(dryRun ? "valid" : "created"),
+            conflicts: count("conflict"),
+            invalid: count("invalid"),
+            results,
+        };
+        this.logger.log(`📥 Import${dryRun ? " (dry run)" : ""}: ${report.created} ${dryRun ? "valid" : "created"}, ${report.conflicts} conflicts, ${report.invalid} invalid`);
+
+        return report;
+    }
+
+    /**
+     * Imports a JSON bundle or Markdown archive entry by entry. A dry run performs every check
+     * without creating anything.
+     */
+    async import(buffer: Buffer, dryRun: boolean, importer_id: string): Promise<BlogImportReportDTO> {
+        try {
+            return await this.importEntries(this.readEntries(buffer), dryRun, importer_id);
+        } catch (error) {
+            this.logger.error(`Error importing blog posts: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to import blog posts");
+        }
+    }
+}
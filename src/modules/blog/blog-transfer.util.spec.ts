@@ -0,0 +1,92 @@
+import {
+    BlogTransferEntry,
+    BUNDLE_FORMAT,
+    BUNDLE_VERSION,
+    buildBundle,
+    parseBundle,
+    toMarkdownDocument,
+    parseMarkdownDocument,
+    markdownFileName,
+} from "./blog-transfer.util";
+
+describe("blog-transfer.util", () => {
+    const entry = (overrides: Partial<BlogTransferEntry> = {}): BlogTransferEntry => ({
+        title: "Ship fast: a \"field\" guide",
+        slug: "ship-fast",
+        content: "# Heading\n\n---\n\nBody with a rule above.",
+        content_format: "markdown",
+        excerpt: null,
+        categories: ["news", "engineering"],
+        tags: ["Release notes"],
+        is_published: true,
+        is_featured: false,
+        published_at: "2026-03-01T09:00:00.000Z",
+        author_email: "editor@example.com",
+        featured_image: null,
+        featured_media_id: null,
+        featured_media_url: null,
+        ...overrides,
+    });
+
+    describe("Markdown documents", () => {
+        it("round-trips every front matter field and the body", () => {
+            const original = entry();
+            const { content, ...frontMatter } = original;
+
+            expect(parseMarkdownDocument(toMarkdownDocument(original))).toEqual({ ...frontMatter, content });
+        });
+
+        it("reads hand-written YAML with plain scalars and block lists", () => {
+            const text = [
+                "---",
+                "# written by hand",
+                "title: Hello world",
+                "slug: 'it''s-here'",
+                "is_published: false",
+                "categories:",
+                "  - news",
+                "  - \"release notes\"",
+                "tags: [a, b]",
+                "excerpt:",
+                "---",
+                "",
+                "Body",
+            ].join("\r\n");
+
+            expect(parseMarkdownDocument(text)).toEqual({
+                title: "Hello world",
+                slug: "it's-here",
+                is_published: false,
+                categories: ["news", "release notes"],
+                tags: ["a", "b"],
+                excerpt: null,
+                content: "Body",
+            });
+        });
+
+        it("rejects documents without front matter", () => {
+            expect(() => parseMarkdownDocument("# Just a heading")).toThrow("Missing front matter");
+            expect(() => parseMarkdownDocument("---\nnot a pair\n---\nBody")).toThrow("Invalid front matter on line 2");
+        });
+
+        it("names files by slug and falls back to the position", () => {
+            expect(markdownFileName(entry(), 0)).toBe("ship-fast.md");
+            expect(markdownFileName(entry({ slug: null }), 4)).toBe("post-5.md");
+        });
+    });
+
+    describe("JSON bundles", () => {
+        it("round-trips entries with their position as source", () => {
+            const bundle = buildBundle([entry()], new Date("2026-03-02T00:00:00Z"));
+
+            expect(bundle).toMatchObject({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exported_at: "2026-03-02T00:00:00.000Z", count: 1 });
+            expect(parseBundle(JSON.stringify(bundle))).toEqual([{ source: "posts[0]", data: entry() }]);
+        });
+
+        it("rejects other JSON and newer versions", () => {
+            expect(() => parseBundle("not json")).toThrow("File is neither a ZIP archive nor valid JSON");
+            expect(() => parseBundle(JSON.stringify({ posts: [] }))).toThrow(`JSON file is not a ${BUNDLE_FORMAT} export`);
+            expect(() => parseBundle(JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION + 1, posts: [] }))).toThrow(`Unsupported bundle version ${BUNDLE_VERSION + 1}`);
+        });
+    });
+});
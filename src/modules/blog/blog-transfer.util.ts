@@ -0,0 +1,199 @@
+import { ContentFormat } from "./blog-content.util";
+
+export const TRANSFER_FORMATS = ["json", "markdown"] as const;
+export type TransferFormat = typeof TRANSFER_FORMATS[number];
+
+// Identifies JSON bundles written by the export, so other JSON files are rejected up front
+export const BUNDLE_FORMAT = "aithena-blog";
+export const BUNDLE_VERSION = 1;
+
+// Upper bounds for one import upload and the entries in it
+export const IMPORT_MAX_FILE_SIZE = 20 * 1024 * 1024;
+export const IMPORT_MAX_ENTRIES = 500;
+
+// One post as it travels between environments; IDs are left behind, everything is keyed by slug
+export interface BlogTransferEntry {
+    title: string;
+    slug: string | null;
+    content: string;
+    content_format: ContentFormat;
+    excerpt: string | null;
+    categories: string[];
+    tags: string[];
+    is_published: boolean;
+    is_featured: boolean;
+    published_at: string | null;
+    author_email: string | null;
+    featured_image: string | null;
+    // Only relinked when a media item with the same ID exists in the target environment
+    featured_media_id: string | null;
+    featured_media_url: string | null;
+}
+
+export interface BlogTransferBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exported_at: string;
+    count: number;
+    posts: BlogTransferEntry[];
+}
+
+// A parsed entry before validation; `source` names the file or bundle position it came from
+export interface RawTransferEntry {
+    source: string;
+    data: Record<string, unknown>;
+    // Set instead of data when the entry could not be parsed
+    error?: string;
+    // Notes from converting the entry, reported with its result
+    warnings?: string[];
+}
+
+// Front matter keys in the order they are written
+const FRONT_MATTER_KEYS: (keyof BlogTransferEntry)[] = [
+    "title",
+    "slug",
+    "content_format",
+    "excerpt",
+    "categories",
+    "tags",
+    "is_published",
+    "is_featured",
+    "published_at",
+    "author_email",
+    "featured_image",
+    "featured_media_id",
+    "featured_media_url",
+];
+
+/**
+ * Markdown file with YAML front matter for one entry. Values are written as JSON, which is
+ * valid YAML, so strings never need YAML-specific quoting rules. The body is the content as
+ * written, in content_format.
+ */
+export function toMarkdownDocument(entry: BlogTransferEntry): string {
+    const lines = FRONT_MATTER_KEYS.map(key => `${key}: ${JSON.stringify(entry[key] ?? null)}`);
+    return `---\n${lines.join("\n")}\n---\n\n${entry.content.trim()}\n`;
+}
+
+function parseScalar(value: string): unknown {
+    const trimmed = value.trim();
+
+    if (trimmed === "" || trimmed === "~" || trimmed === "null") {
+        return null;
+    }
+
+    if (trimmed === "true" || trimmed === "false") {
+        return trimmed === "true";
+    }
+
+    if (trimmed.startsWith("\"") || trimmed.startsWith("[") || trimmed.startsWith("{")) {
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            // Flow lists with plain items, such as [news, release notes]
+            if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
+                const inner = trimmed.slice(1, -1).trim();
+                return inner ? inner.split(",").map(item => parseScalar(item)) : [];
+            }
+            return trimmed;
+        }
+    }
+
+    if (trimmed.startsWith("'") && trimmed.endsWith("'") && trimmed.length >= 2) {
+        return trimmed.slice(1, -1).replace(/''/g, "'");
+    }
+
+    return trimmed;
+}
+
+/**
+ * Reads a Markdown document with front matter. Supports what toMarkdownDocument writes plus
+ * the hand-edited basics: plain and quoted scalars, flow lists and "- item" block lists.
+ * Throws an Error with a readable message when the front matter is missing or malformed.
+ */
+export function parseMarkdownDocument(text: string): Record<string, unknown> {
+    const normalized = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+    const match = /^---\n([\s\S]*?)\n---(?:\n|$)([\s\S]*)$/.exec(normalized);
+    if (!match) {
+        throw new Error("Missing front matter");
+    }
+
+    const data: Record<string, unknown> = {};
+    let listKey: string | null = null;
+
+    for (const [index, line] of match[1].split("\n").entries()) {
+        if (line.trim() === "" || line.trim().startsWith("#")) {
+            continue;
+        }
+
+        const item = /^\s+-\s*(.*)$/.exec(line) || /^-\s+(.*)$/.exec(line);
+        if (item && listKey) {
+            (data[listKey] as unknown[]).push(parseScalar(item[1]));
+            continue;
+        }
+
+        const pair = /^([A-Za-z_][\w-]*)\s*:(.*)$/.exec(line);
+        if (!pair) {
+            throw new Error(`Invalid front matter on line ${index + 2}`);
+        }
+
+        const [, key, value] = pair;
+        if (value.trim() === "") {
+            // Either an empty value or the start of a block list
+            data[key] = [];
+            listKey = key;
+        } else {
+            data[key] = parseScalar(value);
+            listKey = null;
+        }
+    }
+
+    // Keys left with an empty block list and no items were empty scalars
+    for (const [key, value] of Object.entries(data)) {
+        if (Array.isArray(value) && value.length === 0 && key !== "categories" && key !== "tags") {
+            data[key] = null;
+        }
+    }
+
+    data.content = match[2].trim();
+    return data;
+}
+
+export function buildBundle(entries: BlogTransferEntry[], exportedAt: Date = new Date()): BlogTransferBundle {
+    return {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exported_at: exportedAt.toISOString(),
+        count: entries.length,
+        posts: entries,
+    };
+}
+
+// Entries of a JSON bundle; throws an Error with a readable message for anything else
+export function parseBundle(text: string): RawTransferEntry[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text.replace(/^\uFEFF/, ""));
+    } catch {
+        throw new Error("File is neither a ZIP archive nor valid JSON");
+    }
+
+    const bundle = parsed as Partial<BlogTransferBundle> | null;
+    if (!bundle || typeof bundle !== "object" || bundle.format !== BUNDLE_FORMAT || !Array.isArray(bundle.posts)) {
+        throw new Error(`JSON file is not a ${BUNDLE_FORMAT} export`);
+    }
+
+    if (typeof bundle.version !== "number" || bundle.version > BUNDLE_VERSION) {
+        throw new Error(`Unsupported bundle version ${String(bundle.version)}`);
+    }
+
+    return bundle.posts.map((post, index) => ({
+        source: `posts[${index}]`,
+        data: post && typeof post === "object" ? { ...(post as unknown as Record<string, unknown>) } : {},
+    }));
+}
+
+// File name for an entry inside the Markdown archive, unique even when slugs are missing
+export function markdownFileName(entry: BlogTransferEntry, index: number): string {
+    return `${entry.slug || `post-${index + 1}`}.md`;
+}
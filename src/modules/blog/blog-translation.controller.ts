@@ -0,0 +1,109 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Put, Delete, Body, Param, HttpStatus, ValidationPipe, ParseUUIDPipe, UsePipes, UseGuards, Logger } from "@nestjs/common";
+
+import { BlogPostTranslationService } from "./blog-translation.service";
+import { UpsertBlogPostTranslationDTO, BlogPostTranslationListResponseDTO, BlogPostTranslationSingleResponseDTO } from "./blog-translation.dto";
+
+@ApiTags("Blog Translations")
+@Controller("blog")
+@UseGuards(JWTAuthGuard)
+@ApiBearerAuth()
+export class BlogPostTranslationController {
+    private readonly logger = new Logger(BlogPostTranslationController.name);
+
+    constructor(
+        private readonly translationService: BlogPostTranslationService
+    ) {}
+
+    @Get(":id/translations")
+    @ApiOperation({ summary: "Get every translation of a blog post (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Translations retrieved successfully",
+        type: BlogPostTranslationListResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async findAll(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<BlogPostTranslationListResponseDTO> {
+        try {
+            const translations = await this.translationService.findAll(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Translations retrieved successfully",
+                data: translations,
+                count: translations.length,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving translations: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Put(":id/translations/:locale")
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Create or replace the translation of a blog post for a locale (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiParam({ name: "locale", type: String, description: "Locale other than the default one, e.g. zh or ms" })
+    @ApiBody({ type: UpsertBlogPostTranslationDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Translation saved successfully",
+        type: BlogPostTranslationSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Unsupported locale or invalid translation" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    @ApiResponse({ status: 409, description: "Slug already in use" })
+    async upsert(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("locale") locale: string,
+        @Body() upsertBlogPostTranslationDTO: UpsertBlogPostTranslationDTO
+    ): Promise<BlogPostTranslationSingleResponseDTO> {
+        try {
+            const translation = await this.translationService.upsert(id, locale, upsertBlogPostTranslationDTO);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Translation saved successfully",
+                data: translation,
+            };
+        } catch (error) {
+            this.logger.error(`Error saving translation: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id/translations/:locale")
+    @ApiOperation({ summary: "Delete the translation of a blog post for a locale (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiParam({ name: "locale", type: String, description: "Locale of the translation" })
+    @ApiResponse({ status: 200, description: "Translation deleted successfully" })
+    @ApiResponse({ status: 400, description: "Unsupported locale" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Translation not found" })
+    async remove(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("locale") locale: string
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            const result = await this.translationService.remove(id, locale);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error deleting translation: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,100 @@
+import { Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString, IsNotEmpty, IsOptional, IsIn, MaxLength, MinLength, Matches } from "class-validator";
+
+import { BlogLocale } from "./blog-translation.util";
+import { CONTENT_FORMATS, ContentFormat } from "./blog-content.util";
+
+export class UpsertBlogPostTranslationDTO {
+    @ApiProperty({ description: "Translated title", maxLength: 200 })
+    @IsString({ message: "Title must be a string" })
+    @MaxLength(200, { message: "Title must be less than 200 characters" })
+    @MinLength(1, { message: "Title is required" })
+    @Transform(({ value }) => value?.trim())
+    title: string;
+
+    @ApiPropertyOptional({ description: "URL slug of the translation; generated from the title when omitted", maxLength: 255 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(255, { message: "Slug must be less than 255 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiProperty({ description: "Translated content" })
+    @IsString({ message: "Content must be a string" })
+    @IsNotEmpty({ message: "Content is required" })
+    @Transform(({ value }) => value?.trim())
+    content: string;
+
+    @ApiPropertyOptional({ description: "Format of content; HTML is sanitized, Markdown is rendered to sanitized HTML", enum: CONTENT_FORMATS, default: "html" })
+    @IsOptional()
+    @IsIn(CONTENT_FORMATS, { message: `Content format must be one of: ${CONTENT_FORMATS.join(", ")}` })
+    content_format?: ContentFormat;
+
+    @ApiPropertyOptional({ description: "Translated excerpt", maxLength: 500 })
+    @IsOptional()
+    @IsString({ message: "Excerpt must be a string" })
+    @MaxLength(500, { message: "Excerpt must be less than 500 characters" })
+    @Transform(({ value }) => value?.trim() || undefined)
+    excerpt?: string;
+}
+
+export class BlogPostTranslationResponseDTO {
+    @ApiProperty({ description: "Translation ID" })
+    id: string;
+
+    @ApiProperty({ description: "Blog post ID" })
+    post_id: string;
+
+    @ApiProperty({ description: "Locale" })
+    locale: BlogLocale;
+
+    @ApiProperty({ description: "Translated title" })
+    title: string;
+
+    @ApiProperty({ description: "Slug of the translation" })
+    slug: string;
+
+    @ApiProperty({ description: "Translated content as written, in content_format" })
+    content: string;
+
+    @ApiProperty({ description: "Format of content", enum: CONTENT_FORMATS })
+    content_format: ContentFormat;
+
+    @ApiProperty({ description: "Sanitized HTML rendered from content" })
+    content_html: string;
+
+    @ApiProperty({ description: "Translated excerpt", nullable: true })
+    excerpt: string | null;
+
+    @ApiProperty({ description: "Created date" })
+    created_at: Date;
+
+    @ApiProperty({ description: "Updated date" })
+    updated_at: Date;
+}
+
+export class BlogPostTranslationListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Translations array", type: [BlogPostTranslationResponseDTO] })
+    data: BlogPostTranslationResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+}
+
+export class BlogPostTranslationSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Translation data", type: BlogPostTranslationResponseDTO })
+    data: BlogPostTranslationResponseDTO;
+}
@@ -0,0 +1,76 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { BlogLocale } from "./blog-translation.util";
+import { ContentFormat } from "./blog-content.util";
+
+// A post's title, slug and content in a locale other than the default one
+@Entity("blog_post_translations")
+@Index(["post_id", "locale"], { unique: true })
+export class BlogPostTranslation {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "uuid" })
+    post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    @Column({ type: "varchar", length: 10 })
+    locale: BlogLocale;
+
+    @Column({ type: "varchar", length: 200 })
+    title: string;
+
+    // Unique across posts and all translations, so a slug alone identifies post and locale
+    @Column({ unique: true, type: "varchar", length: 255 })
+    slug: string;
+
+    @Column("text")
+    content: string;
+
+    @Column({ type: "varchar", length: 16, default: "html" })
+    content_format: ContentFormat;
+
+    @Column("text")
+    content_html: string;
+
+    @Column({ nullable: true, type: "varchar", length: 500 })
+    excerpt: string | null;
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    @UpdateDateColumn({ name: "updated_at", type: "timestamp" })
+    updated_at: Date;
+
+    toResponseObject(): {
+        id: string;
+        post_id: string;
+        locale: BlogLocale;
+        title: string;
+        slug: string;
+        content: string;
+        content_format: ContentFormat;
+        content_html: string;
+        excerpt: string | null;
+        created_at: Date;
+        updated_at: Date;
+    } {
+        return {
+            id: this.id,
+            post_id: this.post_id,
+            locale: this.locale,
+            title: this.title,
+            slug: this.slug,
+            content: this.content,
+            content_format: this.content_format,
+            content_html: this.content_html,
+            excerpt: this.excerpt,
+            created_at: this.created_at,
+            updated_at: this.updated_at,
+        };
+    }
+}
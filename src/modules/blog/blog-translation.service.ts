@@ -0,0 +1,211 @@
+import { Repository, In, Not } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { renderContent } from "./blog-content.util";
+import { BlogPostTranslation } from "./blog-translation.entity";
+import { BlogPostSlugHistoryService } from "./blog-slug-history.service";
+import { BlogPostResponseDTO, BlogPostAlternateDTO } from "./blog.dto";
+import { UpsertBlogPostTranslationDTO, BlogPostTranslationResponseDTO } from "./blog-translation.dto";
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, BlogLocale, normalizeLocale } from "./blog-translation.util";
+
+@Injectable()
+export class BlogPostTranslationService {
+    private readonly logger = new Logger(BlogPostTranslationService.name);
+
+    constructor(
+        @InjectRepository(BlogPostTranslation)
+        private readonly translationRepository: Repository<BlogPostTranslation>,
+        @InjectRepository(BlogPost)
+        private readonly blogPostRepository: Repository<BlogPost>,
+        private readonly slugHistoryService: BlogPostSlugHistoryService,
+    ) {}
+
+    // Only locales other than the default can be translated; the post itself holds the default one
+    private translatableLocale(value: string): BlogLocale {
+        const locale = normalizeLocale(value);
+        if (!locale || locale !== value.toLowerCase() || locale === DEFAULT_LOCALE) {
+            const locales = SUPPORTED_LOCALES.filter(supported => supported !== DEFAULT_LOCALE);
+            throw new BadRequestException(`Locale must be one of: ${locales.join(", ")}`);
+        }
+
+        return locale;
+    }
+
+    async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+        return this.translationRepository.exists({
+            where: excludeId ? { slug, id: Not(excludeId) } : { slug },
+        });
+    }
+
+    // Translation slugs share one namespace with post slugs and their history, so a slug always resolves to one post
+    private async isSlugAvailable(slug: string, excludeId?: string): Promise<boolean> {
+        return !(await this.blogPostRepository.exists({ where: { slug }, withDeleted: true }))
+            && !(await this.isSlugTaken(slug, excludeId))
+            && !(await this.slugHistoryService.isSlugTaken(slug));
+    }
+
+    private async generateUniqueSlug(title: string, fallback: string, excludeId?: string): Promise<string> {
+        // Titles in non-Latin scripts have no slug characters, so those fall back to the post's slug
+        const baseSlug = BlogPost.generateSlug(title) || fallback;
+        let slug = baseSlug;
+        let counter = 1;
+
+        while (!(await this.isSlugAvailable(slug, excludeId))) {
+            slug = `${baseSlug}-${counter}`;
+            counter++;
+        }
+
+        return slug;
+    }
+
+    async findBySlug(slug: string): Promise<BlogPostTranslation | null> {
+        return this.translationRepository.findOne({ where: { slug } });
+    }
+
+    /**
+     * Swaps title, slug, content and excerpt for the given locale where a translation exists,
+     * leaving other posts in the default locale, and lists every locale as hreflang alternates.
+     */
+    async localize<T extends BlogPostResponseDTO>(posts: T[], locale: BlogLocale): Promise<T[]> {
+        if (posts.length === 0) {
+            return posts;
+        }
+
+        const ids = posts.map(post => post.id);
+        const available = await this.translationRepository.find({
+            where: { post_id: In(ids) },
+            select: ["post_id", "locale", "slug"],
+            order: { locale: "ASC" },
+        });
+        const translations = locale === DEFAULT_LOCALE ? [] : await this.translationRepository.find({
+            where: { post_id: In(ids), locale },
+        });
+        const translationsByPost = new Map(translations.map(translation => [translation.post_id, translation]));
+
+        return posts.map(post => {
+            const alternates: BlogPostAlternateDTO[] = [
+                { hreflang: DEFAULT_LOCALE, slug: post.slug },
+                ...available
+                    .filter(translation => translation.post_id === post.id)
+                    .map(translation => ({ hreflang: translation.locale, slug: translation.slug })),
+                { hreflang: "x-default", slug: post.slug },
+            ];
+
+            const translation = translationsByPost.get(post.id);
+            if (!translation) {
+                return { ...post, locale: DEFAULT_LOCALE, alternates };
+            }
+
+            return {
+                ...post,
+                title: translation.title,
+                slug: translation.slug,
+                content: translation.content,
+                content_format: translation.content_format,
+                content_html: translation.content_html,
+                excerpt: translation.excerpt ?? post.excerpt,
+                locale: translation.locale,
+                alternates,
+            };
+        });
+    }
+
+    async findAll(post_id: string): Promise<BlogPostTranslationResponseDTO[]> {
+        try {
+            if (!(await this.blogPostRepository.exists({ where: { id: post_id } }))) {
+                throw new NotFoundException(`Blog post with ID ${post_id} not found`);
+            }
+
+            const translations = await this.translationRepository.find({
+                where: { post_id },
+                order: { locale: "ASC" },
+            });
+
+            return translations.map(translation => translation.toResponseObject());
+        } catch (error) {
+            this.logger.error(`Error finding translations: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve translations");
+        }
+    }
+
+    // Creates the translation for a locale or replaces it
+    async upsert(post_id: string, localeParam: string, upsertDTO: UpsertBlogPostTranslationDTO): Promise<BlogPostTranslationResponseDTO> {
+        try {
+            const locale = this.translatableLocale(localeParam);
+
+            const post = await this.blogPostRepository.findOne({ where: { id: post_id } });
+            if (!post) {
+                throw new NotFoundException(`Blog post with ID ${post_id} not found`);
+            }
+
+            const existing = await this.translationRepository.findOne({ where: { post_id, locale } });
+
+            let slug: string;
+            if (upsertDTO.slug) {
+                if (!(await this.isSlugAvailable(upsertDTO.slug, existing?.id))) {
+                    throw new ConflictException(`Slug "${upsertDTO.slug}" is already in use`);
+                }
+                slug = upsertDTO.slug;
+            } else {
+                slug = existing?.slug || await this.generateUniqueSlug(upsertDTO.title, `${post.slug}-${locale}`);
+            }
+
+            const format = upsertDTO.content_format || "html";
+            const rendered = renderContent(upsertDTO.content, format);
+
+            const translation = await this.translationRepository.save(this.translationRepository.merge(
+                existing || this.translationRepository.create({ post_id, locale }),
+                {
+                    title: upsertDTO.title,
+                    slug,
+                    content: rendered.content,
+                    content_format: format,
+                    content_html: rendered.content_html,
+                    excerpt: upsertDTO.excerpt || null,
+                }
+            ));
+            this.logger.log(`✅ ${existing ? "Updated" : "Created"} ${locale} translation of post ${post_id}, slug: ${slug}`);
+
+            return translation.toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error saving translation: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to save translation");
+        }
+    }
+
+    async remove(post_id: string, localeParam: string): Promise<{ message: string }> {
+        try {
+            const locale = this.translatableLocale(localeParam);
+
+            const translation = await this.translationRepository.findOne({ where: { post_id, locale } });
+            if (!translation) {
+                throw new NotFoundException(`No ${locale} translation for blog post ${post_id}`);
+            }
+
+            await this.translationRepository.remove(translation);
+            this.logger.log(`Deleted ${locale} translation of post ${post_id}`);
+
+            return { message: "Translation deleted successfully" };
+        } catch (error) {
+            this.logger.error(`Error deleting translation: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to delete translation");
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { normalizeLocale, negotiateLocale, chooseLocale, DEFAULT_LOCALE } from "./blog-translation.util";
+
+describe("blog-translation.util", () => {
+    describe("normalizeLocale", () => {
+        it("should map regional and script variants to the language", () => {
+            expect(normalizeLocale("zh-Hans-SG")).toBe("zh");
+            expect(normalizeLocale("MS_my")).toBe("ms");
+            expect(normalizeLocale("en")).toBe("en");
+        });
+
+        it("should return null for unsupported languages", () => {
+            expect(normalizeLocale("fr-FR")).toBeNull();
+            expect(normalizeLocale("")).toBeNull();
+            expect(normalizeLocale(undefined)).toBeNull();
+        });
+    });
+
+    describe("negotiateLocale", () => {
+        it("should pick the supported language with the highest q-value", () => {
+            expect(negotiateLocale("fr-FR, ms;q=0.5, zh-CN;q=0.8")).toBe("zh");
+            expect(negotiateLocale("ta-SG,ms-MY;q=0.9,en;q=0.8")).toBe("ms");
+        });
+
+        it("should keep header order for equal q-values and skip refusals", () => {
+            expect(negotiateLocale("zh, ms")).toBe("zh");
+            expect(negotiateLocale("zh;q=0, ms;q=0.2")).toBe("ms");
+        });
+
+        it("should return null without a supported language", () => {
+            expect(negotiateLocale("fr, de;q=0.5, *;q=0.1")).toBeNull();
+            expect(negotiateLocale(undefined)).toBeNull();
+        });
+    });
+
+    describe("chooseLocale", () => {
+        it("should prefer the requested locale, then the slug locale, then Accept-Language", () => {
+            expect(chooseLocale({ requested: "ms", accepted: "zh" }, "zh")).toBe("ms");
+            expect(chooseLocale({ requested: null, accepted: "ms" }, "zh")).toBe("zh");
+            expect(chooseLocale({ requested: null, accepted: "ms" })).toBe("ms");
+            expect(chooseLocale({ requested: null, accepted: null })).toBe(DEFAULT_LOCALE);
+        });
+    });
+});
@@ -0,0 +1,58 @@
+// Locales the blog is published in. The post's own columns hold the default locale;
+// every other locale is stored as a BlogPostTranslation.
+export const SUPPORTED_LOCALES = ["en", "zh", "ms"] as const;
+export type BlogLocale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: BlogLocale = "en";
+
+export interface LocalePreference {
+    // From the locale query parameter; always wins
+    requested: BlogLocale | null;
+    // Best match from the Accept-Language header
+    accepted: BlogLocale | null;
+}
+
+// "zh-Hans-SG", "ZH_sg" and "zh" all map to "zh"; unsupported languages map to null
+export function normalizeLocale(value: string | undefined | null): BlogLocale | null {
+    const language = (value || "").trim().toLowerCase().split(/[-_]/)[0];
+    return SUPPORTED_LOCALES.find(locale => locale === language) || null;
+}
+
+/**
+ * First supported locale in an Accept-Language header, honouring q-values.
+ * Entries with q=0 are refusals and are skipped; the wildcard is left to the fallback policy.
+ */
+export function negotiateLocale(acceptLanguage: string | undefined): BlogLocale | null {
+    if (!acceptLanguage) {
+        return null;
+    }
+
+    const ranges = acceptLanguage
+        .split(",")
+        .map((part, index) => {
+            const [tag, ...params] = part.trim().split(";");
+            const q = params.map(param => param.trim()).find(param => param.startsWith("q="));
+            const quality = q ? Number(q.slice(2)) : 1;
+            return { tag: tag.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+        })
+        .filter(range => range.tag && range.quality > 0)
+        .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+    for (const range of ranges) {
+        const locale = normalizeLocale(range.tag);
+        if (locale) {
+            return locale;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Fallback policy: the requested locale, then the slug's own locale (when the reader followed a
+ * translated URL), then Accept-Language, then the default locale. Content missing in the chosen
+ * locale is served in the default locale, and the response's `locale` says which one was used.
+ */
+export function chooseLocale(preference: LocalePreference, slugLocale: BlogLocale | null = null): BlogLocale {
+    return preference.requested || slugLocale || preference.accepted || DEFAULT_LOCALE;
+}
@@ -0,0 +1,200 @@
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Body, Param, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseGuards, Query, Ip, Headers, Logger, BadRequestException } from "@nestjs/common";
+
+import { BlogViewService } from "./blog-view.service";
+import { RecordBlogViewDTO, BlogViewRecordResponseDTO, BlogViewSeriesResponseDTO, BlogTopPostListResponseDTO, BlogReferrerListResponseDTO } from "./blog-view.dto";
+import { ANALYTICS_DEFAULT_RANGE_DAYS, ANALYTICS_MAX_RANGE_DAYS, ANALYTICS_DEFAULT_LIMIT, ANALYTICS_MAX_LIMIT, DateRange, resolveDateRange, clampAnalyticsLimit } from "./blog-view.util";
+
+const FROM_QUERY = { name: "from", required: false, type: String, description: `First day (YYYY-MM-DD), default ${ANALYTICS_DEFAULT_RANGE_DAYS} days before "to"` };
+const TO_QUERY = { name: "to", required: false, type: String, description: "Last day (YYYY-MM-DD), default today" };
+const LIMIT_QUERY = { name: "limit", required: false, type: Number, description: `Number of rows (default ${ANALYTICS_DEFAULT_LIMIT}, max ${ANALYTICS_MAX_LIMIT})` };
+
+@ApiTags("Blog Analytics")
+@Controller("blog")
+export class BlogViewController {
+    private readonly logger = new Logger(BlogViewController.name);
+
+    constructor(
+        private readonly viewService: BlogViewService
+    ) {}
+
+    private range(from?: string, to?: string): DateRange {
+        const range = resolveDateRange(from, to);
+        if (!range) {
+            throw new BadRequestException(`Dates must be YYYY-MM-DD, "from" must not be after "to" and the range may span at most ${ANALYTICS_MAX_RANGE_DAYS} days`);
+        }
+
+        return range;
+    }
+
+    @Post("slug/:slug/view")
+    @HttpCode(HttpStatus.OK)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Record a view of a published blog post; repeat views and bots are not counted (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Blog post slug" })
+    @ApiBody({ type: RecordBlogViewDTO, required: false })
+    @ApiResponse({
+        status: 200,
+        description: "View recorded",
+        type: BlogViewRecordResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async recordView(
+        @Param("slug") slug: string,
+        @Ip() ip: string,
+        @Headers("user-agent") userAgent: string | undefined,
+        @Body() recordBlogViewDTO: RecordBlogViewDTO
+    ): Promise<BlogViewRecordResponseDTO> {
+        try {
+            const result = await this.viewService.recordView(slug, { ip, user_agent: userAgent }, recordBlogViewDTO);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.counted ? "View recorded successfully" : "Repeat view not counted",
+                view_count: result.view_count,
+                counted: result.counted,
+            };
+        } catch (error) {
+            this.logger.error(`Error recording view: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("analytics/views")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get site-wide daily views over a date range (Admin only)" })
+    @ApiQuery(FROM_QUERY)
+    @ApiQuery(TO_QUERY)
+    @ApiResponse({
+        status: 200,
+        description: "View statistics retrieved successfully",
+        type: BlogViewSeriesResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid date range" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async getSiteViews(
+        @Query("from") from?: string,
+        @Query("to") to?: string
+    ): Promise<BlogViewSeriesResponseDTO> {
+        try {
+            const series = await this.viewService.getViewSeries(this.range(from, to));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "View statistics retrieved successfully",
+                data: series,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving view statistics: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("analytics/top-posts")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get the most viewed posts over a date range (Admin only)" })
+    @ApiQuery(FROM_QUERY)
+    @ApiQuery(TO_QUERY)
+    @ApiQuery(LIMIT_QUERY)
+    @ApiResponse({
+        status: 200,
+        description: "Top posts retrieved successfully",
+        type: BlogTopPostListResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid date range" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async getTopPosts(
+        @Query("from") from?: string,
+        @Query("to") to?: string,
+        @Query("limit") limit?: number
+    ): Promise<BlogTopPostListResponseDTO> {
+        try {
+            const posts = await this.viewService.getTopPosts(this.range(from, to), clampAnalyticsLimit(Number(limit)));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Top posts retrieved successfully",
+                data: posts,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving top posts: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("analytics/referrers")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get the top referrers over a date range, site-wide or for one post (Admin only)" })
+    @ApiQuery(FROM_QUERY)
+    @ApiQuery(TO_QUERY)
+    @ApiQuery(LIMIT_QUERY)
+    @ApiQuery({ name: "post_id", required: false, type: String, description: "Only count views of this post" })
+    @ApiResponse({
+        status: 200,
+        description: "Top referrers retrieved successfully",
+        type: BlogReferrerListResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid date range or post ID" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async getTopReferrers(
+        @Query("from") from?: string,
+        @Query("to") to?: string,
+        @Query("limit") limit?: number,
+        @Query("post_id", new ParseUUIDPipe({ optional: true })) post_id?: string
+    ): Promise<BlogReferrerListResponseDTO> {
+        try {
+            const referrers = await this.viewService.getTopReferrers(this.range(from, to), clampAnalyticsLimit(Number(limit)), post_id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Top referrers retrieved successfully",
+                data: referrers,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving top referrers: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get(":id/analytics/views")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get daily views of a blog post over a date range (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiQuery(FROM_QUERY)
+    @ApiQuery(TO_QUERY)
+    @ApiResponse({
+        status: 200,
+        description: "View statistics retrieved successfully",
+        type: BlogViewSeriesResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid date range" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found" })
+    async getPostViews(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Query("from") from?: string,
+        @Query("to") to?: string
+    ): Promise<BlogViewSeriesResponseDTO> {
+        try {
+            const series = await this.viewService.getViewSeries(this.range(from, to), id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "View statistics retrieved successfully",
+                data: series,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving post view statistics: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, MaxLength } from "class-validator";
+
+export class RecordBlogViewDTO {
+    @ApiPropertyOptional({ description: "document.referrer of the page view", maxLength: 2000 })
+    @IsOptional()
+    @IsString({ message: "Referrer must be a string" })
+    @MaxLength(2000, { message: "Referrer must be less than 2000 characters" })
+    referrer?: string;
+
+    @ApiPropertyOptional({ description: "utm_source of the landing URL", maxLength: 200 })
+    @IsOptional()
+    @IsString({ message: "UTM source must be a string" })
+    @MaxLength(200, { message: "UTM source must be less than 200 characters" })
+    utm_source?: string;
+
+    @ApiPropertyOptional({ description: "utm_medium of the landing URL", maxLength: 200 })
+    @IsOptional()
+    @IsString({ message: "UTM medium must be a string" })
+    @MaxLength(200, { message: "UTM medium must be less than 200 characters" })
+    utm_medium?: string;
+
+    @ApiPropertyOptional({ description: "utm_campaign of the landing URL", maxLength: 200 })
+    @IsOptional()
+    @IsString({ message: "UTM campaign must be a string" })
+    @MaxLength(200, { message: "UTM campaign must be less than 200 characters" })
+    utm_campaign?: string;
+}
+
+export class BlogViewRecordResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Total counted views of the post" })
+    view_count: number;
+
+    @ApiProperty({ description: "False when the view was a repeat or came from a bot and was not counted" })
+    counted: boolean;
+}
+
+export class BlogViewPointDTO {
+    @ApiProperty({ description: "Day (YYYY-MM-DD)" })
+    date: string;
+
+    @ApiProperty({ description: "Counted views" })
+    views: number;
+
+    @ApiProperty({ description: "Unique visitors; site-wide this is the sum of each post's unique visitors" })
+    unique_visitors: number;
+}
+
+export class BlogViewSeriesDTO {
+    @ApiProperty({ description: "First day of the range (YYYY-MM-DD)" })
+    from: string;
+
+    @ApiProperty({ description: "Last day of the range (YYYY-MM-DD)" })
+    to: string;
+
+    @ApiProperty({ description: "Counted views over the range" })
+    total_views: number;
+
+    @ApiProperty({ description: "One point per day, days without views included", type: [BlogViewPointDTO] })
+    points: BlogViewPointDTO[];
+}
+
+export class BlogTopPostDTO {
+    @ApiProperty({ description: "Blog post ID" })
+    post_id: string;
+
+    @ApiProperty({ description: "Blog post title" })
+    title: string;
+
+    @ApiProperty({ description: "Blog post slug" })
+    slug: string;
+
+    @ApiProperty({ description: "Counted views over the range" })
+    views: number;
+
+    @ApiProperty({ description: "Sum of daily unique visitors over the range" })
+    unique_visitors: number;
+}
+
+export class BlogReferrerDTO {
+    @ApiProperty({ description: "Referring host, or null for direct traffic", nullable: true })
+    referrer: string | null;
+
+    @ApiProperty({ description: "Counted views from this referrer" })
+    views: number;
+}
+
+export class BlogViewSeriesResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Daily view series", type: BlogViewSeriesDTO })
+    data: BlogViewSeriesDTO;
+}
+
+export class BlogTopPostListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Most viewed posts", type: [BlogTopPostDTO] })
+    data: BlogTopPostDTO[];
+}
+
+export class BlogReferrerListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Top referrers", type: [BlogReferrerDTO] })
+    data: BlogReferrerDTO[];
+}
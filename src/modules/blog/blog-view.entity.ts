@@ -0,0 +1,62 @@
+import { Entity, PrimaryGeneratedColumn, PrimaryColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+
+// One counted view of a published post; repeat views inside the dedup window are not stored
+@Entity("blog_post_view_events")
+@Index(["post_id", "visitor_hash", "dedup_bucket"], { unique: true })
+@Index(["viewed_at"])
+export class BlogPostViewEvent {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "uuid" })
+    post_id: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    @Column({ type: "varchar", length: 64 })
+    visitor_hash: string;
+
+    @Column({ type: "varchar", length: 255, nullable: true })
+    referrer_host: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    utm_source: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    utm_medium: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    utm_campaign: string | null;
+
+    // See dedupBucket; null for views recorded before the bucket existed
+    @Column({ type: "integer", nullable: true })
+    dedup_bucket: number | null;
+
+    @CreateDateColumn({ name: "viewed_at", type: "timestamp" })
+    viewed_at: Date;
+}
+
+// Daily roll-up of view events, rebuilt by the scheduler
+@Entity("post_view_stats")
+@Index(["day"])
+export class BlogPostViewStat {
+    @PrimaryColumn({ type: "uuid" })
+    post_id: string;
+
+    @PrimaryColumn({ type: "date" })
+    day: string;
+
+    @ManyToOne(() => BlogPost, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post: BlogPost;
+
+    @Column({ type: "integer", default: 0 })
+    views: number;
+
+    @Column({ type: "integer", default: 0 })
+    unique_visitors: number;
+}
@@ -0,0 +1,209 @@
+import { Repository } from "typeorm";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, NotFoundException, BadRequestException, Logger, InternalServerErrorException, OnModuleInit } from "@nestjs/common";
+
+import { BlogPost } from "./blog.entity";
+import { BlogPostService } from "./blog.service";
+import { BlogPostViewEvent, BlogPostViewStat } from "./blog-view.entity";
+import { RecordBlogViewDTO, BlogViewSeriesDTO, BlogTopPostDTO, BlogReferrerDTO } from "./blog-view.dto";
+import { DateRange, dedupBucket, isLikelyBot, visitorHash, referrerHost, normalizeUtm, formatDay } from "./blog-view.util";
+
+export interface BlogViewVisitor {
+    ip: string;
+    user_agent: string | undefined;
+}
+
+@Injectable()
+export class BlogViewService implements OnModuleInit {
+    private readonly logger = new Logger(BlogViewService.name);
+
+    constructor(
+        @InjectRepository(BlogPostViewEvent)
+        private readonly eventRepository: Repository<BlogPostViewEvent>,
+        @InjectRepository(BlogPostViewStat)
+        private readonly statRepository: Repository<BlogPostViewStat>,
+        @InjectRepository(BlogPost)
+        private readonly blogPostRepository: Repository<BlogPost>,
+        private readonly blogPostService: BlogPostService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    // Falls back to the JWT secret so visitor hashes can never be reversed by hashing every IPv4 address
+    private get hashSalt(): string {
+        const salt = this.configService.get<string>("VIEW_HASH_SALT") || this.configService.get<string>("JWT_SECRET");
+        if (!salt) {
+            throw new Error("VIEW_HASH_SALT or JWT_SECRET must be set to hash visitors");
+        }
+        return salt;
+    }
+
+    // Unsalted hashes would be reversible, so a missing salt stops the app from starting
+    onModuleInit(): void {
+        void this.hashSalt;
+    }
+
+    /**
+     * Records a view of a published post and bumps its view_count, unless it comes from a
+     * bot or the same visitor already viewed the post within the dedup window.
+     */
+    async recordView(slug: string, visitor: BlogViewVisitor, recordBlogViewDTO: RecordBlogViewDTO = {}): Promise<{ view_count: number; counted: boolean }> {
+        try {
+            const post = await this.blogPostService.findPublicEntityBySlug(slug);
+
+            if (isLikelyBot(visitor.user_agent)) {
+                return { view_count: post.view_count, counted: false };
+            }
+
+            const now = new Date();
+            const hash = visitorHash(this.hashSalt, visitor.ip, visitor.user_agent || "", formatDay(now));
+
+            // A repeat view conflicts on the dedup index and inserts nothing, so concurrent requests count once
+            const counted = await this.eventRepository.manager.transaction(async manager => {
+                const result = await manager
+                    .createQueryBuilder()
+                    .insert()
+                    .into(BlogPostViewEvent)
+                    .values({
+                        post_id: post.id,
+                        visitor_hash: hash,
+                        dedup_bucket: dedupBucket(now),
+                        referrer_host: referrerHost(recordBlogViewDTO.referrer),
+                        utm_source: normalizeUtm(recordBlogViewDTO.utm_source),
+                        utm_medium: normalizeUtm(recordBlogViewDTO.utm_medium),
+                        utm_campaign: normalizeUtm(recordBlogViewDTO.utm_campaign),
+                    })
+                    .orIgnore()
+                    .execute();
+
+                if ((result.raw as unknown[]).length === 0) {
+                    return false;
+                }
+
+                await manager.increment(BlogPost, { id: post.id }, "view_count", 1);
+                return true;
+            });
+
+            return { view_count: post.view_count + (counted ? 1 : 0), counted };
+        } catch (error) {
+            this.logger.error(`Error recording view: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to record view");
+        }
+    }
+
+    /**
+     * Rebuilds post_view_stats from the view events of the last `days` days plus today.
+     * Yesterday is always included so views recorded around midnight are not lost.
+     */
+    async rollupDailyStats(days: number = 1): Promise<void> {
+        await this.statRepository.query(
+            `INSERT INTO "post_view_stats" ("post_id", "day", "views", "unique_visitors")
+             SELECT "post_id", "viewed_at"::date, COUNT(*), COUNT(DISTINCT "visitor_hash")
+             FROM "blog_post_view_events"
+             WHERE "viewed_at" >= CURRENT_DATE - $1::int
+             GROUP BY "post_id", "viewed_at"::date
+             ON CONFLICT ("post_id", "day") DO UPDATE
+             SET "views" = EXCLUDED."views", "unique_visitors" = EXCLUDED."unique_visitors"`,
+            [days]
+        );
+    }
+
+    // Daily views for one post, or site-wide when post_id is omitted
+    async getViewSeries(range: DateRange, post_id?: string): Promise<BlogViewSeriesDTO> {
+        try {
+            if (post_id && !(await this.blogPostRepository.exists({ where: { id: post_id } }))) {
+                throw new NotFoundException(`Blog post with ID ${post_id} not found`);
+            }
+
+            const rows: { date: string; views: number; unique_visitors: number }[] = await this.statRepository.query(
+                `SELECT to_char("series"."day", 'YYYY-MM-DD') AS "date",
+                        COALESCE(SUM("stats"."views"), 0)::int AS "views",
+                        COALESCE(SUM("stats"."unique_visitors"), 0)::int AS "unique_visitors"
+                 FROM generate_series($1::date, $2::date, interval '1 day') AS "series"("day")
+                 LEFT JOIN "post_view_stats" "stats"
+                     ON "stats"."day" = "series"."day"::date AND ($3::uuid IS NULL OR "stats"."post_id" = $3::uuid)
+                 GROUP BY "series"."day"
+                 ORDER BY "series"."day" ASC`,
+                [range.from, range.to, post_id || null]
+            );
+
+            return {
+                from: range.from,
+                to: range.to,
+                total_views: rows.reduce((total, row) => total + row.views, 0),
+                points: rows,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving view series: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to retrieve view statistics");
+        }
+    }
+
+    async getTopPosts(range: DateRange, limit: number): Promise<BlogTopPostDTO[]> {
+        try {
+            const rows: { post_id: string; title: string; slug: string; views: string; unique_visitors: string }[] = await this.statRepository
+                .createQueryBuilder("stats")
+                .innerJoin("stats.post", "post")
+                .select("stats.post_id", "post_id")
+                .addSelect("post.title", "title")
+                .addSelect("post.slug", "slug")
+                .addSelect("SUM(stats.views)", "views")
+                .addSelect("SUM(stats.unique_visitors)", "unique_visitors")
+                .where("stats.day BETWEEN :from AND :to", range)
+                .groupBy("stats.post_id")
+                .addGroupBy("post.title")
+                .addGroupBy("post.slug")
+                .orderBy("views", "DESC")
+                .addOrderBy("post.title", "ASC")
+                .limit(limit)
+                .getRawMany();
+
+            return rows.map(row => ({
+                post_id: row.post_id,
+                title: row.title,
+                slug: row.slug,
+                views: Number(row.views),
+                unique_visitors: Number(row.unique_visitors),
+            }));
+        } catch (error) {
+            this.logger.error(`Error retrieving top posts: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve top posts");
+        }
+    }
+
+    // Referrers come from the raw events, so they are exact up to the latest view
+    async getTopReferrers(range: DateRange, limit: number, post_id?: string): Promise<BlogReferrerDTO[]> {
+        try {
+            const queryBuilder = this.eventRepository
+                .createQueryBuilder("event")
+                .select("event.referrer_host", "referrer")
+                .addSelect("COUNT(*)", "views")
+                .where("event.viewed_at >= CAST(:from AS date)", { from: range.from })
+                .andWhere("event.viewed_at < CAST(:to AS date) + 1", { to: range.to })
+                .groupBy("event.referrer_host")
+                .orderBy("views", "DESC")
+                .limit(limit);
+
+            if (post_id) {
+                queryBuilder.andWhere("event.post_id = :post_id", { post_id });
+            }
+
+            const rows: { referrer: string | null; views: string }[] = await queryBuilder.getRawMany();
+
+            return rows.map(row => ({ referrer: row.referrer, views: Number(row.views) }));
+        } catch (error) {
+            this.logger.error(`Error retrieving top referrers: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve top referrers");
+        }
+    }
+}
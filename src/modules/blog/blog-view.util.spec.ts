@@ -0,0 +1,88 @@
+import { dedupBucket, isLikelyBot, visitorHash, referrerHost, normalizeUtm, resolveDateRange, clampAnalyticsLimit, ANALYTICS_MAX_LIMIT } from "./blog-view.util";
+
+describe("blog-view.util", () => {
+    describe("isLikelyBot", () => {
+        it("should flag crawlers and missing user agents", () => {
+            expect(isLikelyBot("Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)")).toBe(true);
+            expect(isLikelyBot("curl/8.4.0")).toBe(true);
+            expect(isLikelyBot(undefined)).toBe(true);
+        });
+
+        it("should accept regular browsers", () => {
+            expect(isLikelyBot("Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15")).toBe(false);
+        });
+    });
+
+    describe("dedupBucket", () => {
+        it("should share a bucket within a window and move on at its end", () => {
+            const start = dedupBucket(new Date("2026-06-01T10:00:00Z"));
+
+            expect(dedupBucket(new Date("2026-06-01T10:29:59Z"))).toBe(start);
+            expect(dedupBucket(new Date("2026-06-01T10:30:00Z"))).toBe(start + 1);
+            expect(dedupBucket(new Date("2026-06-01T09:59:59Z"))).toBe(start - 1);
+        });
+
+        it("should fit in a Postgres integer", () => {
+            expect(dedupBucket(new Date("2100-01-01T00:00:00Z"))).toBeLessThan(2147483647);
+        });
+    });
+
+    describe("visitorHash", () => {
+        it("should be stable within a day and change across days", () => {
+            const first = visitorHash("salt", "203.0.113.7", "Firefox", "2026-06-01");
+
+            expect(visitorHash("salt", "203.0.113.7", "Firefox", "2026-06-01")).toBe(first);
+            expect(visitorHash("salt", "203.0.113.7", "Firefox", "2026-06-02")).not.toBe(first);
+            expect(first).toHaveLength(64);
+            expect(first).not.toContain("203.0.113.7");
+        });
+    });
+
+    describe("referrerHost", () => {
+        it("should keep only the host without www", () => {
+            expect(referrerHost("https://www.Google.com/search?q=nest")).toBe("google.com");
+            expect(referrerHost("http://news.ycombinator.com/item?id=1")).toBe("news.ycombinator.com");
+        });
+
+        it("should return null for direct traffic and non-web URLs", () => {
+            expect(referrerHost(undefined)).toBeNull();
+            expect(referrerHost("not a url")).toBeNull();
+            expect(referrerHost("android-app://com.slack")).toBeNull();
+        });
+    });
+
+    describe("normalizeUtm", () => {
+        it("should trim and lowercase values and drop empty ones", () => {
+            expect(normalizeUtm("  Newsletter ")).toBe("newsletter");
+            expect(normalizeUtm("   ")).toBeNull();
+            expect(normalizeUtm("x".repeat(300))).toHaveLength(100);
+        });
+    });
+
+    describe("resolveDateRange", () => {
+        const today = new Date("2026-06-30T15:00:00Z");
+
+        it("should default to the last 30 days", () => {
+            expect(resolveDateRange(undefined, undefined, today)).toEqual({ from: "2026-06-01", to: "2026-06-30" });
+        });
+
+        it("should accept an explicit range", () => {
+            expect(resolveDateRange("2026-01-01", "2026-01-31", today)).toEqual({ from: "2026-01-01", to: "2026-01-31" });
+        });
+
+        it("should reject malformed, reversed and overly long ranges", () => {
+            expect(resolveDateRange("2026-02-30", undefined, today)).toBeNull();
+            expect(resolveDateRange("yesterday", undefined, today)).toBeNull();
+            expect(resolveDateRange("2026-06-10", "2026-06-01", today)).toBeNull();
+            expect(resolveDateRange("2024-01-01", "2026-01-01", today)).toBeNull();
+        });
+    });
+
+    describe("clampAnalyticsLimit", () => {
+        it("should keep the limit within bounds", () => {
+            expect(clampAnalyticsLimit(Number(undefined))).toBe(10);
+            expect(clampAnalyticsLimit(0)).toBe(10);
+            expect(clampAnalyticsLimit(500)).toBe(ANALYTICS_MAX_LIMIT);
+        });
+    });
+});
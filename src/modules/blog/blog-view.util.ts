@@ -0,0 +1,101 @@
+import { createHash } from "crypto";
+
+// Repeat views of a post by the same visitor inside one window of this length are not counted
+export const VIEW_DEDUP_WINDOW_MINUTES = 30;
+
+export const ANALYTICS_DEFAULT_RANGE_DAYS = 30;
+export const ANALYTICS_MAX_RANGE_DAYS = 366;
+export const ANALYTICS_DEFAULT_LIMIT = 10;
+export const ANALYTICS_MAX_LIMIT = 50;
+
+const UTM_MAX_LENGTH = 100;
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|fetch|monitor|headless|lighthouse|curl|wget|python-requests|httpclient/i;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 86400000;
+
+export interface DateRange {
+    // Inclusive calendar days, YYYY-MM-DD
+    from: string;
+    to: string;
+}
+
+// Fixed window a view falls in; the unique index on it lets the database drop repeat views atomically
+export function dedupBucket(date: Date): number {
+    return Math.floor(date.getTime() / (VIEW_DEDUP_WINDOW_MINUTES * 60000));
+}
+
+export function isLikelyBot(userAgent: string | undefined): boolean {
+    return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * Anonymous visitor key. The salt changes every day, so a visitor can be
+ * recognised within a day but not followed across days, and raw IPs are never stored.
+ */
+export function visitorHash(salt: string, ip: string, userAgent: string, day: string): string {
+    return createHash("sha256").update(`${salt}|${day}|${ip}|${userAgent}`).digest("hex");
+}
+
+// Host of the referring page without "www.", or null for direct traffic and garbage
+export function referrerHost(referrer: string | undefined): string | null {
+    if (!referrer) {
+        return null;
+    }
+
+    try {
+        const url = new URL(referrer);
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+            return null;
+        }
+
+        return url.hostname.toLowerCase().replace(/^www\./, "").slice(0, 255) || null;
+    } catch {
+        return null;
+    }
+}
+
+export function normalizeUtm(value: string | undefined): string | null {
+    const normalized = (value || "").trim().toLowerCase().slice(0, UTM_MAX_LENGTH);
+    return normalized || null;
+}
+
+export function formatDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function parseDay(value: string): Date | null {
+    if (!DATE_PATTERN.test(value)) {
+        return null;
+    }
+
+    const date = new Date(`${value}T00:00:00Z`);
+    return Number.isNaN(date.getTime()) || formatDay(date) !== value ? null : date;
+}
+
+/**
+ * Resolves an analytics date range, defaulting to the last 30 days up to today.
+ * Returns null when a date is malformed, the range is reversed or longer than the maximum.
+ */
+export function resolveDateRange(from: string | undefined, to: string | undefined, today: Date = new Date()): DateRange | null {
+    const end = to ? parseDay(to) : parseDay(formatDay(today));
+    if (!end) {
+        return null;
+    }
+
+    const start = from ? parseDay(from) : new Date(end.getTime() - (ANALYTICS_DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+    if (!start || start > end) {
+        return null;
+    }
+
+    if ((end.getTime() - start.getTime()) / DAY_MS + 1 > ANALYTICS_MAX_RANGE_DAYS) {
+        return null;
+    }
+
+    return { from: formatDay(start), to: formatDay(end) };
+}
+
+export function clampAnalyticsLimit(limit: number | undefined): number {
+    return Math.max(1, Math.min(Math.floor(limit || ANALYTICS_DEFAULT_LIMIT), ANALYTICS_MAX_LIMIT));
+}
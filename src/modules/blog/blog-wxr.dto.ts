@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+import { BlogImportReportDTO } from "./blog-transfer.dto";
+import { WXR_CATEGORY_MATCH_STATUSES, WxrCategoryMatchStatus } from "./blog-wxr.util";
+
+export class ImportWordPressDTO {
+    @ApiProperty({ description: "WordPress export file (WXR, Tools > Export in WordPress; max 20MB)", type: "string", format: "binary" })
+    file: any;
+
+    @ApiPropertyOptional({
+        description: "JSON object mapping WordPress category slugs to category slugs here; null leaves a WordPress category out. Unlisted categories match a category with the same slug",
+        example: "{\"news-and-events\": \"news\", \"uncategorized\": null}"
+    })
+    category_map?: string;
+
+    @ApiPropertyOptional({ description: "Copy featured and inline images into the media library", default: true })
+    import_media?: boolean;
+}
+
+export class BlogWxrSkippedItemDTO {
+    @ApiProperty({ description: "Permalink of the item on the WordPress site, or its WordPress ID" })
+    source: string;
+
+    @ApiProperty({ description: "Item title" })
+    title: string;
+
+    @ApiProperty({ description: "WordPress post type, e.g. page or nav_menu_item" })
+    type: string;
+
+    @ApiProperty({ description: "WordPress status, e.g. trash" })
+    status: string;
+
+    @ApiProperty({ description: "Why the item was not imported" })
+    reason: string;
+}
+
+export class BlogWxrCategoryMatchDTO {
+    @ApiProperty({ description: "WordPress category slug" })
+    wordpress_slug: string;
+
+    @ApiProperty({ description: "WordPress category name" })
+    wordpress_name: string;
+
+    @ApiProperty({ description: "Category slug posts were assigned to", nullable: true })
+    category: string | null;
+
+    @ApiProperty({ description: "mapped (by category_map), matched (same slug), ignored (mapped to null) or unmapped", enum: WXR_CATEGORY_MATCH_STATUSES })
+    status: WxrCategoryMatchStatus;
+}
+
+export class BlogWxrMediaReportDTO {
+    @ApiProperty({ description: "WordPress attachments used as featured or inline images by the imported posts" })
+    referenced: number;
+
+    @ApiProperty({ description: "Attachments copied into the media library" })
+    imported: number;
+
+    @ApiProperty({ description: "Attachments that could not be copied; the affected posts carry a warning" })
+    failed: number;
+}
+
+export class BlogWxrImportReportDTO extends BlogImportReportDTO {
+    @ApiProperty({ description: "Items that are not posts or are in the trash", type: [BlogWxrSkippedItemDTO] })
+    skipped: BlogWxrSkippedItemDTO[];
+
+    @ApiProperty({ description: "Where each WordPress category landed", type: [BlogWxrCategoryMatchDTO] })
+    categories: BlogWxrCategoryMatchDTO[];
+
+    @ApiProperty({ description: "Attachment import summary", type: BlogWxrMediaReportDTO })
+    media: BlogWxrMediaReportDTO;
+}
+
+export class BlogWxrImportResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Per-post report with skipped items, category matches and media", type: BlogWxrImportReportDTO })
+    data: BlogWxrImportReportDTO;
+}
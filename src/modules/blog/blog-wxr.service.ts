@@ -0,0 +1,253 @@
+import { isIP } from "net";
+import { lookup } from "dns/promises";
+import { Injectable, BadRequestException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { CreateBlogPostDTO } from "./blog.dto";
+import { BlogCategoryService } from "./blog-category.service";
+import { BlogTransferService } from "./blog-transfer.service";
+import { MediaService } from "../media/media.service";
+import { MEDIA_MAX_FILE_SIZE, detectImageType } from "../media/media.util";
+import { IMPORT_MAX_ENTRIES, RawTransferEntry } from "./blog-transfer.util";
+import { BlogImportResultDTO } from "./blog-transfer.dto";
+import { BlogWxrImportReportDTO, BlogWxrMediaReportDTO, BlogWxrSkippedItemDTO } from "./blog-wxr.dto";
+import {
+    WxrItem,
+    parseWxr,
+    parseCategoryMap,
+    matchCategories,
+    wxrSkipReason,
+    toImportEntry,
+    attachmentBaseUrl,
+    collectImageUrls,
+    rewriteMediaUrls,
+    isPublicAddress,
+} from "./blog-wxr.util";
+
+export interface WxrImportOptions {
+    dry_run: boolean;
+    import_media: boolean;
+    // Raw category_map field of the upload
+    category_map?: string;
+}
+
+// Per attachment download; slow hosts fail the image, not the import
+const MEDIA_DOWNLOAD_TIMEOUT_MS = 15000;
+
+// Redirects are followed by hand so that every hop is checked like the first URL
+const MEDIA_MAX_REDIRECTS = 3;
+
+@Injectable()
+export class BlogWxrImportService {
+    private readonly logger = new Logger(BlogWxrImportService.name);
+
+    constructor(
+        private readonly transferService: BlogTransferService,
+        private readonly categoryService: BlogCategoryService,
+        private readonly mediaService: MediaService,
+    ) {}
+
+    // Attachment URLs come from an uploaded file, so they must not reach the server's own network
+    private async assertPublicUrl(url: URL): Promise<void> {
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+            throw new Error("only http and https URLs are fetched");
+        }
+
+        const hostname = url.hostname.replace(/^\[|\]$/g, "");
+        const addresses = isIP(hostname)
+            ? [hostname]
+            : (await lookup(hostname, { all: true })).map(entry => entry.address);
+
+        const blocked = addresses.find(address => !isPublicAddress(address));
+        if (blocked) {
+            throw new Error(`${url.hostname} resolves to the non-public address ${blocked}`);
+        }
+    }
+
+    // Fetches an attachment, refusing anything but public http(s) hosts and anything over the upload limit
+    private async download(url: string): Promise<{ buffer: Buffer; content_type: string | null }> {
+        const signal = AbortSignal.timeout(MEDIA_DOWNLOAD_TIMEOUT_MS);
+        let target = new URL(url);
+        let response: Response;
+
+        for (let redirects = 0; ; redirects++) {
+            await this.assertPublicUrl(target);
+            response = await fetch(target, { redirect: "manual", signal });
+
+            const location = response.headers.get("location");
+            if (response.status < 300 || response.status >= 400 || !location) {
+                break;
+            }
+
+            await response.body?.cancel();
+            if (redirects >= MEDIA_MAX_REDIRECTS) {
+                throw new Error(`more than ${MEDIA_MAX_REDIRECTS} redirects`);
+            }
+            target = new URL(location, target);
+        }
+
+        if (!response.ok || !response.body) {
+            throw new Error(`the server answered ${response.status}`);
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const reader = response.body.getReader();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            size += chunk.value.length;
+            if (size > MEDIA_MAX_FILE_SIZE) {
+                await reader.cancel();
+                throw new Error(`the file is larger than ${MEDIA_MAX_FILE_SIZE / 1024 / 1024}MB`);
+            }
+            chunks.push(Buffer.from(chunk.value));
+        }
+
+        return { buffer: Buffer.concat(chunks), content_type: response.headers.get("content-type") };
+    }
+
+    // Copies an attachment into the media library and returns its media ID
+    private async importMedia(url: string, importer_id: string): Promise<string> {
+        const { buffer, content_type } = await this.download(url);
+        const filename = decodeURIComponent(new URL(url).pathname.split("/").pop() || "attachment");
+
+        const media = await this.mediaService.upload({
+            buffer,
+            size: buffer.length,
+            // The media library checks the declared type against the content, so declare what the bytes are
+            mimetype: detectImageType(buffer) || content_type || "application/octet-stream",
+            originalname: filename,
+        } as Express.Multer.File, importer_id);
+
+        return media.id;
+    }
+
+    /**
+     * Imports the posts of a WordPress export. Categories are mapped with the category_map option,
+     * bodies are converted to HTML, original slugs and publish dates are kept, and attachments used
+     * by the posts are copied into the media library unless import_media is off. Pages, menu items
+     * and trashed posts are reported as skipped.
+     */
+    async import(buffer: Buffer, options: WxrImportOptions, importer_id: string, apiOrigin: string): Promise<BlogWxrImportReportDTO> {
+        try {
+            let document: ReturnType<typeof parseWxr>;
+            let categoryMap: ReturnType<typeof parseCategoryMap>;
+            try {
+                document = parseWxr(buffer.toString("utf8"));
+                categoryMap = parseCategoryMap(options.category_map);
+            } catch (error) {
+                throw new BadRequestException(error.message);
+            }
+
+            const knownSlugs = new Set((await this.categoryService.findAll()).map(category => category.slug));
+            const unknownTargets = Object.values(categoryMap).filter((slug): slug is string => slug !== null && !knownSlugs.has(slug));
+            if (unknownTargets.length > 0) {
+                throw new BadRequestException(`Category map points to unknown categories: ${[...new Set(unknownTargets)].join(", ")}`);
+            }
+
+            const categoryMatches = matchCategories(document.categories, categoryMap, knownSlugs);
+            const categoryTargets = new Map(categoryMatches
+                .filter(match => match.status !== "unmapped")
+                .map(match => [match.wordpress_slug, match.category]));
+
+            const skipped: BlogWxrSkippedItemDTO[] = [];
+            const posts: WxrItem[] = [];
+            for (const item of document.items) {
+                const reason = wxrSkipReason(item);
+                if (reason) {
+                    skipped.push({ source: item.link || `WordPress post ${item.id}`, title: item.title, type: item.type, status: item.status, reason });
+                } else {
+                    posts.push(item);
+                }
+            }
+
+            if (posts.length === 0) {
+                throw new BadRequestException("File contains no posts");
+            }
+
+            if (posts.length > IMPORT_MAX_ENTRIES) {
+                throw new BadRequestException(`At most ${IMPORT_MAX_ENTRIES} posts can be imported at once`);
+            }
+
+            const entries = posts.map(item => toImportEntry(item, document.authors, categoryTargets));
+
+            // Attachments are matched by URL without WordPress's size suffix, so resized copies count too
+            const attachmentsById = new Map(document.attachments.map(attachment => [attachment.id, attachment.attachment_url as string]));
+            const attachmentsByUrl = new Map(document.attachments.map(attachment => [attachmentBaseUrl(attachment.attachment_url as string), attachment.attachment_url as string]));
+            const referencedUrls = (entry: RawTransferEntry): string[] => {
+                const thumbnail = typeof entry.data.thumbnail_id === "string" ? attachmentsById.get(entry.data.thumbnail_id) : undefined;
+                const inline = collectImageUrls(entry.data.content as string)
+                    .map(url => attachmentsByUrl.get(attachmentBaseUrl(url)))
+                    .filter((url): url is string => !!url);
+                return [...new Set([...(thumbnail ? [thumbnail] : []), ...inline])];
+            };
+
+            const media: BlogWxrMediaReportDTO = {
+                referenced: new Set(entries.flatMap(referencedUrls)).size,
+                imported: 0,
+                failed: 0,
+            };
+
+            // Settled per original URL, so an image shared by several posts is copied once
+            const imported = new Map<string, { id: string } | { error: string }>();
+
+            const prepare = async (entry: RawTransferEntry, createDTO: CreateBlogPostDTO, result: BlogImportResultDTO): Promise<void> => {
+                if (typeof entry.data.scheduled_publish_at === "string") {
+                    createDTO.scheduled_publish_at = new Date(entry.data.scheduled_publish_at);
+                }
+
+                const urls = referencedUrls(entry);
+                if (!options.import_media) {
+                    if (urls.length > 0) {
+                        result.warnings.push(`${urls.length} image(s) were not imported and still point to the WordPress site`);
+                    }
+                    return;
+                }
+
+                const replacements = new Map<string, string>();
+                for (const url of urls) {
+                    if (!imported.has(url)) {
+                        try {
+                            imported.set(url, { id: await this.importMedia(url, importer_id) });
+                            media.imported++;
+                        } catch (error) {
+                            imported.set(url, { error: error.message });
+                            media.failed++;
+                        }
+                    }
+
+                    const outcome = imported.get(url)!;
+                    if ("error" in outcome) {
+                        result.warnings.push(`Image ${url} could not be imported: ${outcome.error}`);
+                    } else {
+                        replacements.set(attachmentBaseUrl(url), `${apiOrigin}/api/media/${outcome.id}`);
+                    }
+                }
+
+                const thumbnail = typeof entry.data.thumbnail_id === "string" ? attachmentsById.get(entry.data.thumbnail_id) : undefined;
+                const featured = thumbnail ? imported.get(thumbnail) : undefined;
+                if (featured && "id" in featured) {
+                    createDTO.featured_media_id = featured.id;
+                }
+
+                createDTO.content = rewriteMediaUrls(createDTO.content, replacements);
+            };
+
+            const report = await this.transferService.importEntries(entries, options.dry_run, importer_id, prepare);
+            this.logger.log(`📥 WordPress import: ${skipped.length} items skipped, ${media.imported} images imported, ${media.failed} failed`);
+
+            return {
+                ...report,
+                skipped,
+                categories: categoryMatches,
+                media,
+            };
+        } catch (error) {
+            this.logger.error(`Error importing WordPress export: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to import WordPress export");
+        }
+    }
+}
@@ -0,0 +1,219 @@
+import {
+    parseXml,
+    parseWxr,
+    parseCategoryMap,
+    matchCategories,
+    wxrSkipReason,
+    convertWordPressContent,
+    attachmentBaseUrl,
+    collectImageUrls,
+    rewriteMediaUrls,
+    toImportEntry,
+    isPublicAddress,
+} from "./blog-wxr.util";
+
+describe("blog-wxr.util", () => {
+    const wxr = `<?xml version="1.0" encoding="UTF-8" ?>
+<!-- This is a WordPress eXtended RSS file -->
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+    <title>Old blog</title>
+    <link>https://old.example.com</link>
+    <wp:wxr_version>1.2</wp:wxr_version>
+    <wp:base_blog_url>https://old.example.com</wp:base_blog_url>
+    <wp:author><wp:author_login><![CDATA[jane]]></wp:author_login><wp:author_email><![CDATA[jane@example.com]]></wp:author_email></wp:author>
+    <wp:category><wp:category_nicename><![CDATA[news-and-events]]></wp:category_nicename><wp:cat_name><![CDATA[News &amp; Events]]></wp:cat_name></wp:category>
+    <item>
+        <title><![CDATA[Hello &amp; welcome]]></title>
+        <link>https://old.example.com/2019/05/hello-world/</link>
+        <dc:creator><![CDATA[jane]]></dc:creator>
+        <content:encoded><![CDATA[First line
+second line
+
+<img src="https://old.example.com/wp-content/uploads/2019/05/cat-300x200.jpg" class="wp-image-7" />]]></content:encoded>
+        <excerpt:encoded><![CDATA[<p>Short &amp; sweet</p>]]></excerpt:encoded>
+        <wp:post_id>5</wp:post_id>
+        <wp:post_date_gmt><![CDATA[2019-05-03 10:15:00]]></wp:post_date_gmt>
+        <wp:post_name><![CDATA[hello-world]]></wp:post_name>
+        <wp:status><![CDATA[publish]]></wp:status>
+        <wp:post_type><![CDATA[post]]></wp:post_type>
+        <wp:post_password><![CDATA[]]></wp:post_password>
+        <category domain="category" nicename="news-and-events"><![CDATA[News &amp; Events]]></category>
+        <category domain="category" nicename="misc"><![CDATA[Misc]]></category>
+        <category domain="post_tag" nicename="cats"><![CDATA[Cats]]></category>
+        <wp:postmeta><wp:meta_key><![CDATA[_thumbnail_id]]></wp:meta_key><wp:meta_value><![CDATA[7]]></wp:meta_value></wp:postmeta>
+    </item>
+    <item>
+        <title>About</title>
+        <wp:post_id>6</wp:post_id>
+        <wp:post_date_gmt>0000-00-00 00:00:00</wp:post_date_gmt>
+        <wp:status>publish</wp:status>
+        <wp:post_type>page</wp:post_type>
+    </item>
+    <item>
+        <title>cat.jpg</title>
+        <wp:post_id>7</wp:post_id>
+        <wp:post_type>attachment</wp:post_type>
+        <wp:status>inherit</wp:status>
+        <wp:attachment_url>https://old.example.com/wp-content/uploads/2019/05/cat.jpg</wp:attachment_url>
+    </item>
+</channel>
+</rss>`;
+
+    describe("parseXml", () => {
+        it("reads elements, attributes, entities and CDATA", () => {
+            const document = parseXml("<a x=\"1 &gt; 0\" y='b'>T &amp; <![CDATA[<raw>]]><b/></a>");
+            const [root] = document.children;
+
+            expect(root).toMatchObject({ name: "a", attributes: { x: "1 > 0", y: "b" }, text: "T & <raw>" });
+            expect(root.children.map(child => child.name)).toEqual(["b"]);
+        });
+
+        it("reports malformed documents with a line number", () => {
+            expect(() => parseXml("<a>\n<b></a>")).toThrow("Unexpected closing tag </a> on line 2");
+            expect(() => parseXml("<a><b></b>")).toThrow("Element <a> is never closed");
+            expect(() => parseXml("<a><![CDATA[x</a>")).toThrow("Unterminated CDATA section on line 1");
+        });
+    });
+
+    describe("parseWxr", () => {
+        it("reads authors, categories, posts and attachments", () => {
+            const document = parseWxr(wxr);
+
+            expect(document.site_url).toBe("https://old.example.com");
+            expect(document.authors).toEqual({ jane: "jane@example.com" });
+            expect(document.categories).toEqual([{ slug: "news-and-events", name: "News & Events" }, { slug: "misc", name: "Misc" }]);
+            expect(document.items.map(item => item.id)).toEqual(["5", "6"]);
+            expect(document.attachments.map(item => item.attachment_url)).toEqual(["https://old.example.com/wp-content/uploads/2019/05/cat.jpg"]);
+            expect(document.items[0]).toMatchObject({
+                title: "Hello & welcome",
+                slug: "hello-world",
+                creator: "jane",
+                published_at: new Date("2019-05-03T10:15:00Z"),
+                thumbnail_id: "7",
+                has_password: false,
+                tags: ["Cats"],
+            });
+            expect(document.items[1].published_at).toBeNull();
+        });
+
+        it("rejects XML that is not a WordPress export", () => {
+            expect(() => parseWxr("<rss><channel><title>Feed</title></channel></rss>")).toThrow("File is not a WordPress export (WXR)");
+            expect(() => parseWxr("<rss>")).toThrow("Invalid XML: Element <rss> is never closed");
+        });
+
+        it("skips everything but live posts", () => {
+            const [post, page] = parseWxr(wxr).items;
+
+            expect(wxrSkipReason(post)).toBeNull();
+            expect(wxrSkipReason(page)).toBe("Post type \"page\" is not imported");
+            expect(wxrSkipReason({ ...post, status: "trash" })).toBe("Posts with status \"trash\" are not imported");
+        });
+    });
+
+    describe("categories", () => {
+        it("maps, matches, ignores and reports unmapped categories", () => {
+            const map = parseCategoryMap("{\"News-And-Events\": \"News\", \"uncategorized\": null}");
+            const categories = [
+                { slug: "news-and-events", name: "News & Events" },
+                { slug: "uncategorized", name: "Uncategorized" },
+                { slug: "engineering", name: "Engineering" },
+                { slug: "misc", name: "Misc" },
+            ];
+
+            expect(matchCategories(categories, map, new Set(["news", "engineering"])).map(match => [match.wordpress_slug, match.category, match.status])).toEqual([
+                ["news-and-events", "news", "mapped"],
+                ["uncategorized", null, "ignored"],
+                ["engineering", "engineering", "matched"],
+                ["misc", null, "unmapped"],
+            ]);
+        });
+
+        it("rejects maps that are not objects of slugs", () => {
+            expect(parseCategoryMap(undefined)).toEqual({});
+            expect(() => parseCategoryMap("[]")).toThrow("Category map must be a JSON object");
+            expect(() => parseCategoryMap("{\"a\": 1}")).toThrow("Category map value for \"a\" must be a category slug or null");
+        });
+    });
+
+    describe("convertWordPressContent", () => {
+        it("turns classic editor line breaks into paragraphs and keeps pre blocks", () => {
+            const { html } = convertWordPressContent("One\ntwo\n\n<h2>Title</h2>\n\n<pre>a\n\nb</pre>");
+
+            expect(html).toBe("<p>One<br />\ntwo</p>\n\n<h2>Title</h2>\n\n<pre>a\n\nb</pre>");
+        });
+
+        it("drops block comments, converts captions and removes shortcodes", () => {
+            const { html, warnings } = convertWordPressContent([
+                "<!-- wp:paragraph --><p>Hi [sic]</p><!-- /wp:paragraph -->",
+                "[caption id=\"attachment_7\" width=\"300\"]<img src=\"cat.jpg\" /> A cat[/caption]",
+                "[gallery ids=\"1,2\"]",
+                "[note]Inner[/note]",
+            ].join("\n\n"));
+
+            expect(html).toBe("<p>Hi [sic]</p>\n\n<figure><img src=\"cat.jpg\" /><figcaption>A cat</figcaption></figure>\n\n<p>Inner</p>");
+            expect(warnings).toEqual(["Shortcode [gallery] was removed", "Shortcode [note] was removed"]);
+        });
+    });
+
+    describe("media URLs", () => {
+        it("maps resized copies to their original and rewrites src and href", () => {
+            const html = "<a href=\"https://old.example.com/up/cat.jpg\"><img src=\"https://old.example.com/up/cat-300x200.jpg?v=2\" /></a><img src='https://elsewhere.com/dog.png'>";
+
+            expect(attachmentBaseUrl("https://old.example.com/up/cat-1024x768.jpeg")).toBe("https://old.example.com/up/cat.jpeg");
+            expect(collectImageUrls(html)).toEqual(["https://old.example.com/up/cat-300x200.jpg?v=2", "https://elsewhere.com/dog.png"]);
+            expect(rewriteMediaUrls(html, new Map([["https://old.example.com/up/cat.jpg", "https://api.example.com/api/media/1"]]))).toBe(
+                "<a href=\"https://api.example.com/api/media/1\"><img src=\"https://api.example.com/api/media/1\" /></a><img src='https://elsewhere.com/dog.png'>"
+            );
+        });
+    });
+
+    describe("isPublicAddress", () => {
+        it("refuses loopback, private, link-local and unspecified addresses", () => {
+            for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.5", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "::", "fd12::1", "fe80::1", "::ffff:127.0.0.1", "not-an-ip"]) {
+                expect(isPublicAddress(address)).toBe(false);
+            }
+        });
+
+        it("accepts public IPv4 and IPv6 addresses", () => {
+            for (const address of ["93.184.216.34", "8.8.8.8", "172.32.0.1", "2606:2800:220:1:248:1893:25c8:1946"]) {
+                expect(isPublicAddress(address)).toBe(true);
+            }
+        });
+    });
+
+    describe("toImportEntry", () => {
+        it("keeps slug and publish date and reports unmapped categories", () => {
+            const document = parseWxr(wxr);
+            const entry = toImportEntry(document.items[0], document.authors, new Map([["news-and-events", "news"]]));
+
+            expect(entry.source).toBe("https://old.example.com/2019/05/hello-world/");
+            expect(entry.data).toMatchObject({
+                title: "Hello & welcome",
+                slug: "hello-world",
+                content_format: "html",
+                excerpt: "Short & sweet",
+                categories: ["news"],
+                tags: ["Cats"],
+                is_published: true,
+                published_at: "2019-05-03T10:15:00.000Z",
+                author_email: "jane@example.com",
+                scheduled_publish_at: null,
+                thumbnail_id: "7",
+            });
+            expect(entry.warnings).toEqual(["WordPress categories without a matching category were left out: Misc"]);
+        });
+
+        it("imports protected and scheduled posts as drafts and fixes invalid slugs", () => {
+            const [post] = parseWxr(wxr).items;
+
+            const scheduled = toImportEntry({ ...post, status: "future", slug: "Hello_World" }, {}, new Map([["news-and-events", null], ["misc", null]]));
+            expect(scheduled.data).toMatchObject({ is_published: false, slug: "hello-world", scheduled_publish_at: "2019-05-03T10:15:00.000Z", author_email: null });
+            expect(scheduled.warnings).toEqual(["Slug \"Hello_World\" is not a valid slug here and was changed to \"hello-world\""]);
+
+            const locked = toImportEntry({ ...post, has_password: true }, {}, new Map([["news-and-events", null], ["misc", null]]));
+            expect(locked.data.is_published).toBe(false);
+            expect(locked.warnings).toEqual(["Password protection is not supported; the post was imported as a draft"]);
+        });
+    });
+});
@@ -0,0 +1,551 @@
+import { BlockList, isIP } from "net";
+
+import { BlogPost } from "./blog.entity";
+import { RawTransferEntry } from "./blog-transfer.util";
+
+// Minimal XML reader and WordPress eXtended RSS (WXR) mapping for the legacy article import
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    // Text and CDATA directly inside the element, concatenated
+    text: string;
+}
+
+export interface WxrTerm {
+    slug: string;
+    name: string;
+}
+
+export interface WxrItem {
+    id: string;
+    title: string;
+    // Permalink on the old site
+    link: string | null;
+    // Login of the WordPress author
+    creator: string;
+    content: string;
+    excerpt: string;
+    published_at: Date | null;
+    slug: string;
+    status: string;
+    type: string;
+    has_password: boolean;
+    attachment_url: string | null;
+    thumbnail_id: string | null;
+    categories: WxrTerm[];
+    tags: string[];
+}
+
+export interface WxrDocument {
+    site_url: string | null;
+    // Author login to email address
+    authors: Record<string, string>;
+    categories: WxrTerm[];
+    // Posts, pages and every other item type except attachments, in file order
+    items: WxrItem[];
+    attachments: WxrItem[];
+}
+
+// WordPress category slug to BlogCategory slug; null leaves the WordPress category out on purpose
+export type WxrCategoryMap = Record<string, string | null>;
+
+export const WXR_CATEGORY_MATCH_STATUSES = ["mapped", "matched", "ignored", "unmapped"] as const;
+export type WxrCategoryMatchStatus = typeof WXR_CATEGORY_MATCH_STATUSES[number];
+
+export interface WxrCategoryMatch {
+    wordpress_slug: string;
+    wordpress_name: string;
+    category: string | null;
+    status: WxrCategoryMatchStatus;
+}
+
+// Limits of CreateBlogPostDTO that an import trims to instead of rejecting the post
+const MAX_POST_CATEGORIES = 4;
+const MAX_POST_TAGS = 20;
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+        if (entity.startsWith("#")) {
+            const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return XML_ENTITIES[entity] ?? match;
+    });
+}
+
+function lineAt(text: string, position: number): number {
+    return text.slice(0, position).split("\n").length;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+    }
+    return attributes;
+}
+
+/**
+ * Parses well-formed XML into an element tree. Namespaced names are kept as written, e.g.
+ * "wp:post_id". DTDs are skipped, not interpreted. Throws an Error with a readable message
+ * and line number for malformed input.
+ */
+export function parseXml(source: string): XmlElement {
+    const text = source.replace(/^\uFEFF/, "");
+    const document: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+    const stack: XmlElement[] = [document];
+    let position = 0;
+
+    const skipPast = (terminator: string, from: number, what: string): number => {
+        const end = text.indexOf(terminator, from);
+        if (end < 0) {
+            throw new Error(`Unterminated ${what} on line ${lineAt(text, from)}`);
+        }
+        return end + terminator.length;
+    };
+
+    while (position < text.length) {
+        const current = stack[stack.length - 1];
+        const start = text.indexOf("<", position);
+
+        if (start < 0) {
+            current.text += decodeEntities(text.slice(position));
+            break;
+        }
+
+        if (start > position) {
+            current.text += decodeEntities(text.slice(position, start));
+        }
+
+        if (text.startsWith("<![CDATA[", start)) {
+            position = skipPast("]]>", start + 9, "CDATA section");
+            current.text += text.slice(start + 9, position - 3);
+            continue;
+        }
+
+        if (text.startsWith("<!--", start)) {
+            position = skipPast("-->", start + 4, "comment");
+            continue;
+        }
+
+        if (text.startsWith("<?", start)) {
+            position = skipPast("?>", start + 2, "processing instruction");
+            continue;
+        }
+
+        if (text.startsWith("<!", start)) {
+            position = skipPast(">", start + 2, "declaration");
+            continue;
+        }
+
+        // The tag ends at the first ">" outside an attribute value
+        let end = start + 1;
+        let quote: string | null = null;
+        while (end < text.length && (quote || text[end] !== ">")) {
+            if (quote && text[end] === quote) {
+                quote = null;
+            } else if (!quote && (text[end] === "\"" || text[end] === "'")) {
+                quote = text[end];
+            }
+            end++;
+        }
+
+        if (end >= text.length) {
+            throw new Error(`Unterminated tag on line ${lineAt(text, start)}`);
+        }
+
+        const tag = text.slice(start + 1, end);
+        position = end + 1;
+
+        if (tag.startsWith("/")) {
+            const name = tag.slice(1).trim();
+            if (stack.length === 1 || current.name !== name) {
+                throw new Error(`Unexpected closing tag </${name}> on line ${lineAt(text, start)}`);
+            }
+            stack.pop();
+            continue;
+        }
+
+        const selfClosing = tag.endsWith("/");
+        const match = /^([^\s/]+)([\s\S]*?)$/.exec(selfClosing ? tag.slice(0, -1) : tag);
+        if (!match) {
+            throw new Error(`Invalid tag on line ${lineAt(text, start)}`);
+        }
+
+        const element: XmlElement = { name: match[1], attributes: parseAttributes(match[2]), children: [], text: "" };
+        current.children.push(element);
+        if (!selfClosing) {
+            stack.push(element);
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Element <${stack[stack.length - 1].name}> is never closed`);
+    }
+
+    return document;
+}
+
+function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+    return element?.children.find(child => child.name === name);
+}
+
+function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+    return (element?.children || []).filter(child => child.name === name);
+}
+
+function childText(element: XmlElement | undefined, name: string): string {
+    return (childElement(element, name)?.text || "").trim();
+}
+
+// Titles and term names are plain text that WordPress stores HTML-escaped, even inside CDATA
+function plainName(value: string): string {
+    return decodeEntities(value.trim());
+}
+
+function decodeSlug(slug: string): string {
+    try {
+        return decodeURIComponent(slug);
+    } catch {
+        return slug;
+    }
+}
+
+// WordPress writes "YYYY-MM-DD HH:MM:SS", and all zeros for posts that were never published
+function parseWxrDate(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})$/.exec(value);
+    if (!match || match[1] === "0000") {
+        return null;
+    }
+
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function parseItem(element: XmlElement): WxrItem {
+    const meta: Record<string, string> = {};
+    for (const entry of childElements(element, "wp:postmeta")) {
+        meta[childText(entry, "wp:meta_key")] = childText(entry, "wp:meta_value");
+    }
+
+    const terms = childElements(element, "category");
+
+    return {
+        id: childText(element, "wp:post_id"),
+        title: plainName(childText(element, "title")),
+        link: childText(element, "link") || null,
+        creator: childText(element, "dc:creator"),
+        content: childElement(element, "content:encoded")?.text || "",
+        excerpt: childText(element, "excerpt:encoded"),
+        // The local post_date is the fallback for exports made without GMT dates
+        published_at: parseWxrDate(childText(element, "wp:post_date_gmt")) || parseWxrDate(childText(element, "wp:post_date")),
+        slug: decodeSlug(childText(element, "wp:post_name")),
+        status: childText(element, "wp:status"),
+        type: childText(element, "wp:post_type") || "post",
+        has_password: childText(element, "wp:post_password") !== "",
+        attachment_url: childText(element, "wp:attachment_url") || null,
+        thumbnail_id: meta._thumbnail_id || null,
+        categories: terms
+            .filter(term => term.attributes.domain === "category" && term.attributes.nicename)
+            .map(term => ({ slug: decodeSlug(term.attributes.nicename), name: plainName(term.text) })),
+        tags: terms
+            .filter(term => term.attributes.domain === "post_tag")
+            .map(term => plainName(term.text))
+            .filter(Boolean),
+    };
+}
+
+/**
+ * Reads a WordPress export file. Throws an Error with a readable message when the file is
+ * not well-formed XML or not a WXR export.
+ */
+export function parseWxr(xml: string): WxrDocument {
+    let document: XmlElement;
+    try {
+        document = parseXml(xml);
+    } catch (error) {
+        throw new Error(`Invalid XML: ${error.message}`);
+    }
+
+    const channel = childElement(childElement(document, "rss"), "channel");
+    if (!channel || !childText(channel, "wp:wxr_version")) {
+        throw new Error("File is not a WordPress export (WXR)");
+    }
+
+    const authors: Record<string, string> = {};
+    for (const author of childElements(channel, "wp:author")) {
+        const login = childText(author, "wp:author_login");
+        const email = childText(author, "wp:author_email");
+        if (login && email) {
+            authors[login] = email;
+        }
+    }
+
+    const categories = new Map<string, WxrTerm>();
+    for (const category of childElements(channel, "wp:category")) {
+        const slug = decodeSlug(childText(category, "wp:category_nicename"));
+        if (slug) {
+            categories.set(slug, { slug, name: plainName(childText(category, "wp:cat_name")) || slug });
+        }
+    }
+
+    const items = childElements(channel, "item").map(parseItem);
+
+    // Categories used by posts but missing from the channel list, as partial exports do
+    for (const item of items) {
+        for (const term of item.categories) {
+            if (!categories.has(term.slug)) {
+                categories.set(term.slug, term);
+            }
+        }
+    }
+
+    return {
+        site_url: childText(channel, "wp:base_blog_url") || childText(channel, "link") || null,
+        authors,
+        categories: [...categories.values()],
+        items: items.filter(item => item.type !== "attachment"),
+        attachments: items.filter(item => item.type === "attachment" && item.attachment_url),
+    };
+}
+
+// Reads the category_map field of an import; throws an Error with a readable message
+export function parseCategoryMap(text: string | undefined): WxrCategoryMap {
+    if (!text || !text.trim()) {
+        return {};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("Category map must be a JSON object");
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("Category map must be a JSON object");
+    }
+
+    const map: WxrCategoryMap = {};
+    for (const [key, value] of Object.entries(parsed)) {
+        if (value !== null && typeof value !== "string") {
+            throw new Error(`Category map value for "${key}" must be a category slug or null`);
+        }
+        map[key.trim().toLowerCase()] = value === null ? null : value.trim().toLowerCase();
+    }
+
+    return map;
+}
+
+/**
+ * Decides which BlogCategory each WordPress category lands in: the mapping first, then a
+ * category with the same slug. Mapping targets must be in knownSlugs; the caller checks that.
+ */
+export function matchCategories(categories: WxrTerm[], map: WxrCategoryMap, knownSlugs: Set<string>): WxrCategoryMatch[] {
+    return categories.map((term): WxrCategoryMatch => {
+        const key = term.slug.toLowerCase();
+        const match = { wordpress_slug: term.slug, wordpress_name: term.name };
+
+        if (key in map) {
+            return map[key] === null
+                ? { ...match, category: null, status: "ignored" }
+                : { ...match, category: map[key], status: "mapped" };
+        }
+
+        if (knownSlugs.has(key)) {
+            return { ...match, category: key, status: "matched" };
+        }
+
+        return { ...match, category: null, status: "unmapped" };
+    });
+}
+
+// Why an item is not imported as a post, or null when it is
+export function wxrSkipReason(item: WxrItem): string | null {
+    if (item.type !== "post") {
+        return `Post type "${item.type}" is not imported`;
+    }
+
+    if (["trash", "auto-draft", "inherit"].includes(item.status)) {
+        return `Posts with status "${item.status}" are not imported`;
+    }
+
+    return null;
+}
+
+const BLOCK_TAG = /^<\/?(?:p|div|h[1-6]|ul|ol|li|dl|dt|dd|blockquote|pre|figure|figcaption|table|thead|tbody|tfoot|tr|th|td|caption|hr|address|section|article|aside|header|footer|nav|details|summary)\b/i;
+
+// Stands in for wpautop: blank lines separate paragraphs, single line breaks become <br>
+function autoParagraph(html: string): string {
+    const preserved: string[] = [];
+    // Pre blocks are swapped for numbered placeholders without whitespace, so blank lines inside them survive
+    const protectedHtml = html.replace(/<pre\b[\s\S]*?<\/pre>/gi, block => `<!--wxr-pre-${preserved.push(block) - 1}-->`);
+
+    return protectedHtml
+        .split(/\n\s*\n/)
+        .map(chunk => chunk.trim())
+        .filter(Boolean)
+        .map(chunk => BLOCK_TAG.test(chunk) || /^<!--wxr-pre-\d+-->$/.test(chunk)
+            ? chunk
+            : `<p>${chunk.replace(/\s*\n\s*/g, "<br />\n")}</p>`)
+        .join("\n\n")
+        .replace(/<!--wxr-pre-(\d+)-->/g, (placeholder, index: string) => preserved[Number(index)] ?? placeholder);
+}
+
+/**
+ * Turns a WordPress post body into the HTML this blog stores: block editor comments are
+ * dropped, [caption] becomes a figure, other shortcodes are removed with a warning, and
+ * classic-editor line breaks become paragraphs. Sanitizing is left to post creation.
+ */
+export function convertWordPressContent(content: string): { html: string; warnings: string[] } {
+    const removed = new Set<string>();
+
+    let html = content
+        .replace(/\r\n?/g, "\n")
+        .replace(/<!--\s*\/?wp:[\s\S]*?-->/g, "")
+        .replace(/<!--\s*(?:more|nextpage)\b[\s\S]*?-->/g, "");
+
+    html = html.replace(/\[caption\b([^\]]*)\]([\s\S]*?)\[\/caption\]/gi, (_, attributes: string, inner: string) => {
+        const media = /^\s*((?:<a\b[^>]*>\s*)?<img\b[^>]*>(?:\s*<\/a>)?)([\s\S]*)$/i.exec(inner);
+        const caption = (media ? media[2] : "").trim() || parseAttributes(attributes).caption || "";
+        return `<figure>${media ? media[1] : inner.trim()}${caption ? `<figcaption>${caption}</figcaption>` : ""}</figure>`;
+    });
+
+    // Shortcodes that enclose content keep it; a [name ...] is only treated as a shortcode when it
+    // is closed somewhere or carries attributes, so bracketed prose stays untouched
+    const enclosing = new Set([...html.matchAll(/\[\/([a-z][\w-]*)\]/gi)].map(match => match[1].toLowerCase()));
+    html = html.replace(/\[(\/?)([a-z][\w-]*)((?:\s+[^\]]*)?)\/?\]/gi, (match, closing: string, name: string, attributes: string) => {
+        if (!enclosing.has(name.toLowerCase()) && !/=/.test(attributes) && !["gallery", "embed", "video", "audio", "playlist"].includes(name.toLowerCase())) {
+            return match;
+        }
+        if (!closing) {
+            removed.add(name.toLowerCase());
+        }
+        return "";
+    });
+
+    return {
+        html: autoParagraph(html),
+        warnings: [...removed].map(name => `Shortcode [${name}] was removed`),
+    };
+}
+
+// An attachment URL without WordPress's size suffix, so resized copies map to their original
+export function attachmentBaseUrl(url: string): string {
+    return url.trim().split(/[?#]/)[0].replace(/-\d+x\d+(\.[a-z0-9]+)$/i, "$1");
+}
+
+// Image sources in a post body, in order of appearance
+export function collectImageUrls(html: string): string[] {
+    return [...new Set([...html.matchAll(/<img\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi)].map(match => decodeEntities(match[1])))];
+}
+
+/**
+ * Points src and href attributes at imported media. `replacements` is keyed by
+ * attachmentBaseUrl, so links to resized copies are replaced too.
+ */
+export function rewriteMediaUrls(html: string, replacements: Map<string, string>): string {
+    return html.replace(/\b(src|href)(\s*=\s*)(["'])([^"']*)\3/gi, (match, attribute: string, equals: string, quote: string, url: string) => {
+        const replacement = replacements.get(attachmentBaseUrl(decodeEntities(url)));
+        return replacement ? `${attribute}${equals}${quote}${replacement}${quote}` : match;
+    });
+}
+
+// Networks an attachment download must not reach: loopback, private, link-local, shared and reserved ranges
+const NON_PUBLIC_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+    ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+    NON_PUBLIC_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+    NON_PUBLIC_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+// Whether an IP address is on the public internet; IPv4-mapped IPv6 addresses are judged by their IPv4 part
+export function isPublicAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) {
+        return false;
+    }
+
+    return !NON_PUBLIC_NETWORKS.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Strips tags from a WordPress excerpt, which the classic editor stores as HTML
+function plainText(html: string): string {
+    return decodeEntities(html.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Maps a WordPress post onto an import entry. `categories` holds the mapped or ignored (null)
+ * WordPress category slugs; anything else is reported as unmapped. Extra keys carry what the
+ * import step needs besides the CreateBlogPostDTO fields: the thumbnail attachment and the
+ * schedule of future posts.
+ */
+export function toImportEntry(item: WxrItem, authors: Record<string, string>, categories: Map<string, string | null>): RawTransferEntry {
+    const warnings: string[] = [];
+    const { html, warnings: contentWarnings } = convertWordPressContent(item.content);
+    warnings.push(...contentWarnings);
+
+    let slug: string | null = item.slug || null;
+    if (slug && !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) {
+        const normalized = BlogPost.generateSlug(slug) || null;
+        warnings.push(normalized
+            ? `Slug "${slug}" is not a valid slug here and was changed to "${normalized}"`
+            : `Slug "${slug}" is not a valid slug here; one is generated from the title`);
+        slug = normalized;
+    }
+
+    const unmapped = item.categories.filter(term => !categories.has(term.slug)).map(term => term.name || term.slug);
+    if (unmapped.length > 0) {
+        warnings.push(`WordPress categories without a matching category were left out: ${unmapped.join(", ")}`);
+    }
+
+    const postCategories = [...new Set(item.categories
+        .map(term => categories.get(term.slug))
+        .filter((slug): slug is string => !!slug))];
+    if (postCategories.length > MAX_POST_CATEGORIES) {
+        warnings.push(`Only the first ${MAX_POST_CATEGORIES} of ${postCategories.length} categories were kept`);
+    }
+
+    const tags = [...new Set(item.tags)];
+    if (tags.length > MAX_POST_TAGS) {
+        warnings.push(`Only the first ${MAX_POST_TAGS} of ${tags.length} tags were kept`);
+    }
+
+    const isPublished = item.status === "publish" && !item.has_password;
+    if (item.status === "publish" && item.has_password) {
+        warnings.push("Password protection is not supported; the post was imported as a draft");
+    } else if (item.status === "private") {
+        warnings.push("Private post was imported as a draft");
+    }
+
+    return {
+        source: item.link || `WordPress post ${item.id}`,
+        data: {
+            title: item.title,
+            slug,
+            content: html,
+            content_format: "html",
+            excerpt: plainText(item.excerpt) || null,
+            categories: postCategories.slice(0, MAX_POST_CATEGORIES),
+            tags: tags.slice(0, MAX_POST_TAGS),
+            is_published: isPublished,
+            is_featured: false,
+            published_at: item.published_at ? item.published_at.toISOString() : null,
+            author_email: authors[item.creator] || null,
+            scheduled_publish_at: item.status === "future" && item.published_at ? item.published_at.toISOString() : null,
+            thumbnail_id: item.thumbnail_id,
+        },
+        warnings,
+    };
+}
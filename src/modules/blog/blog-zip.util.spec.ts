@@ -0,0 +1,58 @@
+import { crc32, createZip, readZip, isZip, ZipReadLimits } from "./blog-zip.util";
+
+describe("blog-zip.util", () => {
+    const limits: ZipReadLimits = { max_total_size: 1024 * 1024, max_files: 10 };
+
+    it("computes the standard CRC-32", () => {
+        expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+        expect(crc32(Buffer.alloc(0))).toBe(0);
+    });
+
+    it("round-trips files with UTF-8 names", () => {
+        const files = [
+            { name: "hello-world.md", data: Buffer.from("---\ntitle: \"Hello\"\n---\n\n" + "Body ".repeat(200)) },
+            { name: "café.md", data: Buffer.from("Crème brûlée") },
+            { name: "empty.md", data: Buffer.alloc(0) },
+        ];
+
+        const archive = createZip(files);
+
+        expect(isZip(archive)).toBe(true);
+        expect(readZip(archive, limits).map(file => [file.name, file.data.toString()])).toEqual(files.map(file => [file.name, file.data.toString()]));
+    });
+
+    it("deflates compressible data and stores the rest", () => {
+        const repetitive = Buffer.from("a".repeat(10000));
+        const random = Buffer.from(Array.from({ length: 64 }, (_, i) => (i * 97 + 13) % 256));
+
+        const archive = createZip([{ name: "a.md", data: repetitive }, { name: "b.bin", data: random }]);
+
+        expect(archive.length).toBeLessThan(repetitive.length);
+        // Compression method of each local header
+        expect(archive.readUInt16LE(8)).toBe(8);
+        expect(readZip(archive, limits)[1].data.equals(random)).toBe(true);
+    });
+
+    it("rejects data that is not an archive", () => {
+        expect(isZip(Buffer.from("{\"posts\":[]}"))).toBe(false);
+        expect(() => readZip(Buffer.from("not a zip file at all, just some text"), limits)).toThrow("Not a ZIP archive");
+    });
+
+    it("rejects entries whose content does not match the checksum", () => {
+        const archive = createZip([{ name: "post.md", data: Buffer.from("short") }]);
+        // Stored data starts after the 30 byte local header and the name
+        archive[30 + "post.md".length] ^= 0xff;
+
+        expect(() => readZip(archive, limits)).toThrow("Corrupt ZIP entry post.md");
+    });
+
+    it("enforces the file count and total size limits", () => {
+        const archive = createZip([
+            { name: "one.md", data: Buffer.from("x".repeat(600)) },
+            { name: "two.md", data: Buffer.from("y".repeat(600)) },
+        ]);
+
+        expect(() => readZip(archive, { max_total_size: 1000, max_files: 10 })).toThrow("Archive expands to more than 1000 bytes");
+        expect(() => readZip(archive, { max_total_size: 10000, max_files: 1 })).toThrow("Archive has more than 1 files");
+    });
+});
@@ -0,0 +1,196 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+// Minimal ZIP reader and writer for blog archives: deflate or stored entries, no encryption, no ZIP64
+
+export interface ZipFile {
+    name: string;
+    data: Buffer;
+    modified?: Date;
+}
+
+export interface ZipReadLimits {
+    // Largest total of uncompressed bytes accepted, so a small archive cannot expand without bound
+    max_total_size: number;
+    max_files: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, in local time as ZIP tools expect
+function dosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(date.getFullYear(), 1980);
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+export function isZip(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+}
+
+export function createZip(files: ZipFile[]): Buffer {
+    const parts: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = Buffer.from(file.name, "utf8");
+        const compressed = deflateRawSync(file.data);
+        // Incompressible data is stored as is
+        const method = compressed.length < file.data.length ? METHOD_DEFLATE : METHOD_STORE;
+        const body = method === METHOD_DEFLATE ? compressed : file.data;
+        const checksum = crc32(file.data);
+        const { time, date } = dosDateTime(file.modified || new Date());
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(UTF8_FLAG, 6);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(body.length, 18);
+        local.writeUInt32LE(file.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(20, 6);
+        header.writeUInt16LE(UTF8_FLAG, 8);
+        header.writeUInt16LE(method, 10);
+        header.writeUInt16LE(time, 12);
+        header.writeUInt16LE(date, 14);
+        header.writeUInt32LE(checksum, 16);
+        header.writeUInt32LE(body.length, 20);
+        header.writeUInt32LE(file.data.length, 24);
+        header.writeUInt16LE(name.length, 28);
+        header.writeUInt32LE(offset, 42);
+
+        parts.push(local, name, body);
+        central.push(header, name);
+        offset += local.length + name.length + body.length;
+    }
+
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...parts, directory, end]);
+}
+
+/**
+ * Reads every file entry of an archive through its central directory. Directories are skipped.
+ * Throws an Error with a readable message for anything this reader does not support.
+ */
+export function readZip(buffer: Buffer, limits: ZipReadLimits): ZipFile[] {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+    let endOffset = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i;
+            break;
+        }
+    }
+
+    if (endOffset < 0) {
+        throw new Error("Not a ZIP archive");
+    }
+
+    const count = buffer.readUInt16LE(endOffset + 10);
+    let cursor = buffer.readUInt32LE(endOffset + 16);
+    if (count > limits.max_files) {
+        throw new Error(`Archive has more than ${limits.max_files} files`);
+    }
+
+    const files: ZipFile[] = [];
+    let total = 0;
+
+    for (let i = 0; i < count; i++) {
+        if (cursor + 46 > buffer.length || buffer.readUInt32LE(cursor) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error("Corrupt ZIP central directory");
+        }
+
+        const flags = buffer.readUInt16LE(cursor + 8);
+        const method = buffer.readUInt16LE(cursor + 10);
+        const checksum = buffer.readUInt32LE(cursor + 16);
+        const compressedSize = buffer.readUInt32LE(cursor + 20);
+        const size = buffer.readUInt32LE(cursor + 24);
+        const nameLength = buffer.readUInt16LE(cursor + 28);
+        const extraLength = buffer.readUInt16LE(cursor + 30);
+        const commentLength = buffer.readUInt16LE(cursor + 32);
+        const localOffset = buffer.readUInt32LE(cursor + 42);
+        const name = buffer.subarray(cursor + 46, cursor + 46 + nameLength).toString(flags & UTF8_FLAG ? "utf8" : "latin1");
+        cursor += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith("/")) {
+            continue;
+        }
+
+        if (flags & 0x0001) {
+            throw new Error(`${name} is encrypted`);
+        }
+
+        total += size;
+        if (total > limits.max_total_size) {
+            throw new Error(`Archive expands to more than ${limits.max_total_size} bytes`);
+        }
+
+        if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`Corrupt ZIP entry ${name}`);
+        }
+
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        let data: Buffer;
+        if (method === METHOD_STORE) {
+            data = Buffer.from(raw);
+        } else if (method === METHOD_DEFLATE) {
+            data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+        } else {
+            throw new Error(`${name} uses unsupported compression method ${method}`);
+        }
+
+        if (data.length !== size || crc32(data) !== checksum) {
+            throw new Error(`Corrupt ZIP entry ${name}`);
+        }
+
+        files.push({ name, data });
+    }
+
+    return files;
+}
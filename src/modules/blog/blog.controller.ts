@@ -1,11 +1,17 @@
+import { Request as ExpressRequest } from "express";
 import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
-import { Controller, Get, Post, Body, Patch, Param, Delete, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseInterceptors, ClassSerializerInterceptor, UseGuards, Request, Query, Logger, BadRequestException } from "@nestjs/common";
-
-import { BlogPostService, BlogPostQuery } from "./blog.service";
-import { CreateBlogPostDTO, UpdateBlogPostDTO, BlogPostListResponseDTO, BlogPostSingleResponseDTO, BlogCategory } from "./blog.dto";
-
-interface AuthenticatedRequest extends Request {
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiHeader, ApiBearerAuth, ApiBody } from "@nestjs/swagger";
+import { Controller, Get, Post, Body, Patch, Param, Delete, HttpStatus, HttpCode, ValidationPipe, ParseUUIDPipe, UsePipes, UseInterceptors, ClassSerializerInterceptor, UseGuards, Request, Query, Headers, Header, Logger, BadRequestException, applyDecorators } from "@nestjs/common";
+
+import { BlogPostService, BlogPostQuery, BlogListOptions } from "./blog.service";
+import { BlogSeoService } from "./blog-seo.service";
+import { BLOG_SORT_FIELDS, SORT_DIRECTIONS, MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE, BlogSortField, SortDirection, clampPageSize } from "./blog-pagination.util";
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, LocalePreference, normalizeLocale, negotiateLocale, chooseLocale } from "./blog-translation.util";
+import { BulkBlogPostActionDTO, BlogPostBulkResponseDTO } from "./blog-bulk.dto";
+import { BlogAuthorPageResponseDTO } from "./blog-author.dto";
+import { CreateBlogPostDTO, UpdateBlogPostDTO, BlogPostListResponseDTO, BlogPostPageResponseDTO, BlogPostSingleResponseDTO, BlogSearchListResponseDTO } from "./blog.dto";
+
+export interface AuthenticatedRequest extends Request {
     user: {
         id: string;
         sub: string;
@@ -17,6 +23,45 @@ interface AuthenticatedRequest extends Request {
     };
 }
 
+// Query parameters shared by every cursor-paginated listing
+function ApiCursorPagination(defaultSort: string) {
+    return applyDecorators(
+        ApiQuery({ name: "cursor", required: false, type: String, description: "next_cursor from the previous page" }),
+        ApiQuery({ name: "limit", required: false, type: Number, description: `Items per page (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})` }),
+        ApiQuery({ name: "sort", required: false, enum: BLOG_SORT_FIELDS, description: `Sort field (default ${defaultSort}); relevance requires a search query` }),
+        ApiQuery({ name: "direction", required: false, enum: SORT_DIRECTIONS, description: "Sort direction (default asc for title, desc otherwise)" }),
+    );
+}
+
+// Public endpoints that serve translated posts; responses differ by Accept-Language, so caches must key on it
+export function ApiLocalized() {
+    return applyDecorators(
+        ApiQuery({ name: "locale", required: false, enum: SUPPORTED_LOCALES, description: `Locale to serve; overrides Accept-Language (default ${DEFAULT_LOCALE})` }),
+        ApiHeader({ name: "Accept-Language", required: false, description: "Used when no locale is given" }),
+        Header("Vary", "Accept-Language"),
+    );
+}
+
+// Locale asked for by the ?locale query and the Accept-Language header, as served by chooseLocale
+export function localePreference(locale?: string, acceptLanguage?: string): LocalePreference {
+    const requested = locale ? normalizeLocale(locale) : null;
+    if (locale && !requested) {
+        throw new BadRequestException(`Locale must be one of: ${SUPPORTED_LOCALES.join(", ")}`);
+    }
+
+    return { requested, accepted: negotiateLocale(acceptLanguage) };
+}
+
+// ID of the signed-in administrator; every change to a post is attributed to one
+export function administratorId(req: AuthenticatedRequest): string {
+    const id = req.user?.id || req.user?.sub;
+    if (!id) {
+        throw new BadRequestException("Administrator ID is required - authentication issue");
+    }
+
+    return id;
+}
+
 @ApiTags("Blog Posts")
 @Controller("blog")
 @UseInterceptors(ClassSerializerInterceptor)
@@ -24,11 +69,29 @@ export class BlogPostController {
     private readonly logger = new Logger(BlogPostController.name);
 
     constructor(
-        private readonly blogPostService: BlogPostService
+        private readonly blogPostService: BlogPostService,
+        private readonly seoService: BlogSeoService
     ) {
         this.logger.log("BlogPostController initialized");
     }
 
+    private listOptions(cursor?: string, limit?: number, sort?: string, direction?: string): BlogListOptions {
+        if (sort !== undefined && !BLOG_SORT_FIELDS.includes(sort as BlogSortField)) {
+            throw new BadRequestException(`Sort must be one of: ${BLOG_SORT_FIELDS.join(", ")}`);
+        }
+
+        if (direction !== undefined && !SORT_DIRECTIONS.includes(direction as SortDirection)) {
+            throw new BadRequestException(`Direction must be one of: ${SORT_DIRECTIONS.join(", ")}`);
+        }
+
+        return {
+            cursor: cursor || undefined,
+            limit: limit ? Number(limit) : undefined,
+            sort: sort as BlogSortField | undefined,
+            direction: direction as SortDirection | undefined,
+        };
+    }
+
     @Post()
     @UseGuards(JWTAuthGuard)
     @ApiBearerAuth()
@@ -47,6 +110,7 @@ export class BlogPostController {
     })
     @ApiResponse({ status: 400, description: "Bad request" })
     @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 409, description: "Slug already in use" })
     async create(
         @Body() createBlogPostDTO: CreateBlogPostDTO,
         @Request() req: AuthenticatedRequest
@@ -96,38 +160,78 @@ export class BlogPostController {
         }
     }
 
+    @Post("bulk")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.OK)
+    @UsePipes(new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true
+    }))
+    @ApiOperation({ summary: "Publish, unpublish, feature, unfeature, recategorize or trash many posts in one transaction (Admin only)" })
+    @ApiBody({ type: BulkBlogPostActionDTO })
+    @ApiResponse({
+        status: 200,
+        description: "Bulk action completed",
+        type: BlogPostBulkResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid action, selection or categories" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async bulk(
+        @Body() bulkBlogPostActionDTO: BulkBlogPostActionDTO,
+        @Request() req: AuthenticatedRequest
+    ): Promise<BlogPostBulkResponseDTO> {
+        try {
+            const report = await this.blogPostService.bulkUpdate(bulkBlogPostActionDTO, administratorId(req));
+
+            return {
+                status_code: HttpStatus.OK,
+                message: `Bulk ${report.action} completed: ${report.updated} updated, ${report.skipped} skipped, ${report.not_found} not found`,
+                data: report,
+            };
+        } catch (error) {
+            this.logger.error(`Error running bulk action: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
     @Get()
     @UseGuards(JWTAuthGuard)
     @ApiBearerAuth()
     @ApiOperation({ summary: "Get all blog posts (Admin only)" })
-    @ApiQuery({ name: "page", required: false, type: Number, description: "Page number" })
-    @ApiQuery({ name: "limit", required: false, type: Number, description: "Items per page" })
+    @ApiCursorPagination("created_at, or relevance when searching")
     @ApiQuery({ name: "search", required: false, type: String, description: "Search term" })
     @ApiQuery({ name: "isPublished", required: false, type: Boolean, description: "Filter by published status" })
     @ApiQuery({ name: "isFeatured", required: false, type: Boolean, description: "Filter by featured status" })
-    @ApiQuery({ name: "categories", required: false, isArray: true, enum: BlogCategory, description: "Filter by categories" })
+    @ApiQuery({ name: "categories", required: false, isArray: true, type: String, description: "Filter by category slugs" })
+    @ApiQuery({ name: "tags", required: false, isArray: true, type: String, description: "Filter by tag slugs" })
     @ApiResponse({
         status: 200,
         description: "Blog posts retrieved successfully",
-        type: BlogPostListResponseDTO
+        type: BlogPostPageResponseDTO
     })
+    @ApiResponse({ status: 400, description: "Invalid cursor or sort" })
     @ApiResponse({ status: 401, description: "Unauthorized" })
     async findAll(
-        @Query("page") page?: number,
+        @Query("cursor") cursor?: string,
         @Query("limit") limit?: number,
+        @Query("sort") sort?: string,
+        @Query("direction") direction?: string,
         @Query("search") search?: string,
         @Query("is_published") is_published?: boolean,
         @Query("is_featured") is_featured?: boolean,
-        @Query("categories") categories?: BlogCategory[],
-    ): Promise<BlogPostListResponseDTO> {
+        @Query("categories") categories?: string | string[],
+        @Query("tags") tags?: string | string[],
+    ): Promise<BlogPostPageResponseDTO> {
         try {
             const query: BlogPostQuery = {
-                page: page ? Number(page) : 1,
-                limit: limit ? Number(limit) : 10,
+                ...this.listOptions(cursor, limit, sort, direction),
                 search,
                 is_published,
                 is_featured,
-                categories,
+                categories: categories ? [categories].flat() : undefined,
+                tags: tags ? [tags].flat() : undefined,
             };
 
             this.logger.log("Fetching all blog posts", { query });
@@ -138,6 +242,9 @@ export class BlogPostController {
                 status_code: HttpStatus.OK,
                 message: "Blog posts retrieved successfully",
                 data: result.data,
+                next_cursor: result.next_cursor,
+                has_more: result.has_more,
+                limit: result.limit,
                 count: result.total,
             };
         } catch (error) {
@@ -148,24 +255,35 @@ export class BlogPostController {
 
     // PUBLIC ENDPOINTS (No auth required)
     @Get("published")
-    @ApiOperation({ summary: "Get all published blog posts (Public)" })
+    @ApiOperation({ summary: "Get published blog posts, one page at a time (Public)" })
+    @ApiCursorPagination("published_at")
+    @ApiLocalized()
     @ApiResponse({
         status: 200,
         description: "Published blog posts retrieved successfully",
-        type: BlogPostListResponseDTO
+        type: BlogPostPageResponseDTO
     })
-    async findPublished(): Promise<BlogPostListResponseDTO> {
+    @ApiResponse({ status: 400, description: "Invalid cursor, sort or locale" })
+    async findPublished(
+        @Query("cursor") cursor?: string,
+        @Query("limit") limit?: number,
+        @Query("sort") sort?: string,
+        @Query("direction") direction?: string,
+        @Query("locale") locale?: string,
+        @Headers("accept-language") acceptLanguage?: string
+    ): Promise<BlogPostPageResponseDTO> {
         try {
             this.logger.log("Fetching published blog posts");
 
-            const posts = await this.blogPostService.findPublished();
-            const count = await this.blogPostService.countPublished();
+            const page = await this.blogPostService.findPublished(
+                this.listOptions(cursor, limit, sort, direction),
+                chooseLocale(localePreference(locale, acceptLanguage))
+            );
 
             return {
                 status_code: HttpStatus.OK,
                 message: "Published blog posts retrieved successfully",
-                data: posts,
-                count,
+                ...page,
             };
         } catch (error) {
             this.logger.error(`Error retrieving published posts: ${error.message}`, error.stack);
@@ -226,26 +344,38 @@ export class BlogPostController {
 
     @Get("category/:category")
     @ApiOperation({ summary: "Get blog posts by category (Public)" })
-    @ApiParam({ name: "category", enum: BlogCategory, description: "Blog post category" })
+    @ApiParam({ name: "category", description: "Blog category slug" })
+    @ApiCursorPagination("published_at")
+    @ApiLocalized()
     @ApiResponse({
         status: 200,
         description: "Blog posts retrieved successfully",
-        type: BlogPostListResponseDTO
+        type: BlogPostPageResponseDTO
     })
-    @ApiResponse({ status: 400, description: "Invalid category" })
+    @ApiResponse({ status: 400, description: "Invalid category, cursor, sort or locale" })
     async findByCategory(
-        @Param("category") category: BlogCategory
-    ): Promise<BlogPostListResponseDTO> {
+        @Param("category") category: string,
+        @Query("cursor") cursor?: string,
+        @Query("limit") limit?: number,
+        @Query("sort") sort?: string,
+        @Query("direction") direction?: string,
+        @Query("locale") locale?: string,
+        @Headers("accept-language") acceptLanguage?: string
+    ): Promise<BlogPostPageResponseDTO> {
         try {
             this.logger.log(`Fetching blog posts for category: ${category}`);
 
-            const posts = await this.blogPostService.findByCategory(category, true);
+            const page = await this.blogPostService.findByCategory(
+                category,
+                this.listOptions(cursor, limit, sort, direction),
+                true,
+                chooseLocale(localePreference(locale, acceptLanguage))
+            );
 
             return {
                 status_code: HttpStatus.OK,
                 message: `Blog posts for ${category} retrieved successfully`,
-                data: posts,
-                count: posts.length,
+                ...page,
             };
         } catch (error) {
             this.logger.error(`Error retrieving posts by category: ${error.message}`, error.stack);
@@ -253,39 +383,129 @@ export class BlogPostController {
         }
     }
 
+    @Get("tag/:slug")
+    @ApiOperation({ summary: "Get published blog posts by tag (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Tag slug" })
+    @ApiCursorPagination("published_at")
+    @ApiLocalized()
+    @ApiResponse({
+        status: 200,
+        description: "Blog posts retrieved successfully",
+        type: BlogPostPageResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid cursor, sort or locale" })
+    @ApiResponse({ status: 404, description: "Tag not found" })
+    async findByTag(
+        @Param("slug") slug: string,
+        @Query("cursor") cursor?: string,
+        @Query("limit") limit?: number,
+        @Query("sort") sort?: string,
+        @Query("direction") direction?: string,
+        @Query("locale") locale?: string,
+        @Headers("accept-language") acceptLanguage?: string
+    ): Promise<BlogPostPageResponseDTO> {
+        try {
+            this.logger.log(`Fetching blog posts for tag: ${slug}`);
+
+            const { tag, page } = await this.blogPostService.findByTag(
+                slug,
+                this.listOptions(cursor, limit, sort, direction),
+                chooseLocale(localePreference(locale, acceptLanguage))
+            );
+
+            return {
+                status_code: HttpStatus.OK,
+                message: `Blog posts for ${tag.name} retrieved successfully`,
+                ...page,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving posts by tag: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get("authors/:slug")
+    @ApiOperation({ summary: "Get an author profile with the published posts crediting them (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Author profile slug" })
+    @ApiCursorPagination("published_at")
+    @ApiLocalized()
+    @ApiResponse({
+        status: 200,
+        description: "Author retrieved successfully",
+        type: BlogAuthorPageResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Invalid cursor, sort or locale" })
+    @ApiResponse({ status: 404, description: "Author not found" })
+    async findByAuthor(
+        @Param("slug") slug: string,
+        @Query("cursor") cursor?: string,
+        @Query("limit") limit?: number,
+        @Query("sort") sort?: string,
+        @Query("direction") direction?: string,
+        @Query("locale") locale?: string,
+        @Headers("accept-language") acceptLanguage?: string
+    ): Promise<BlogAuthorPageResponseDTO> {
+        try {
+            const { author, page } = await this.blogPostService.findByAuthorProfile(
+                slug,
+                this.listOptions(cursor, limit, sort, direction),
+                chooseLocale(localePreference(locale, acceptLanguage))
+            );
+
+            return {
+                status_code: HttpStatus.OK,
+                message: `Posts by ${author.display_name} retrieved successfully`,
+                author,
+                ...page,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving posts by author: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
     @Get("search")
-    @ApiOperation({ summary: "Search blog posts (Public)" })
-    @ApiQuery({ name: "q", required: true, type: String, description: "Search query" })
-    @ApiQuery({ name: "published", required: false, type: Boolean, description: "Only search published posts" })
+    @ApiOperation({ summary: "Full-text search of published blog posts ranked by relevance (Public)" })
+    @ApiQuery({ name: "q", required: true, type: String, description: "Search query. Supports \"exact phrases\", prefix*, -exclusions and OR" })
+    @ApiCursorPagination("relevance")
     @ApiResponse({
         status: 200,
         description: "Search results retrieved successfully",
-        type: BlogPostListResponseDTO
+        type: BlogSearchListResponseDTO
     })
+    @ApiResponse({ status: 400, description: "Invalid cursor or sort" })
     async searchPosts(
         @Query("q") searchTerm: string,
-        @Query("published") onlyPublished?: boolean
-    ): Promise<BlogPostListResponseDTO> {
+        @Query("cursor") cursor?: string,
+        @Query("limit") limit?: number,
+        @Query("sort") sort?: string,
+        @Query("direction") direction?: string
+    ): Promise<BlogSearchListResponseDTO> {
         try {
+            const options = this.listOptions(cursor, limit, sort, direction);
+
             if (!searchTerm || searchTerm.trim().length < 2) {
                 return {
                     status_code: HttpStatus.OK,
                     message: "Search term too short",
                     data: [],
                     count: 0,
+                    next_cursor: null,
+                    has_more: false,
+                    limit: clampPageSize(options.limit),
                 };
             }
 
-            const posts = await this.blogPostService.searchPosts(
-                searchTerm.trim(),
-                onlyPublished !== false
-            );
+            const result = await this.blogPostService.searchPosts(searchTerm.trim(), options);
 
             return {
                 status_code: HttpStatus.OK,
                 message: "Search results retrieved successfully",
-                data: posts,
-                count: posts.length,
+                data: result.data,
+                count: result.total,
+                next_cursor: result.next_cursor,
+                has_more: result.has_more,
+                limit: result.limit,
             };
         } catch (error) {
             this.logger.error(`Error searching posts: ${error.message}`, error.stack);
@@ -316,66 +536,75 @@ export class BlogPostController {
         }
     }
 
-    @Get("slug/:slug")
-    @ApiOperation({ summary: "Get blog post by slug (Public)" })
-    @ApiParam({ name: "slug", type: String, description: "Blog post slug" })
+    @Get("trash")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get trashed blog posts, most recently trashed first (Admin only)" })
     @ApiResponse({
         status: 200,
-        description: "Blog post retrieved successfully",
-        type: BlogPostSingleResponseDTO
+        description: "Trashed posts retrieved successfully",
+        type: BlogPostListResponseDTO
     })
-    @ApiResponse({ status: 404, description: "Blog post not found" })
-    async findBySlug(
-        @Param("slug") slug: string
-    ): Promise<BlogPostSingleResponseDTO> {
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    async findTrash(): Promise<BlogPostListResponseDTO> {
         try {
-            const post = await this.blogPostService.findBySlug(slug);
+            const posts = await this.blogPostService.findTrash();
 
             return {
                 status_code: HttpStatus.OK,
-                message: "Blog post retrieved successfully",
-                data: post,
+                message: "Trashed posts retrieved successfully",
+                data: posts,
+                count: posts.length,
             };
         } catch (error) {
-            this.logger.error(`Error retrieving post by slug: ${error.message}`, error.stack);
+            this.logger.error(`Error retrieving trash: ${error.message}`, error.stack);
             throw error;
         }
     }
 
-    @Post("slug/:slug/view")
-    @HttpCode(HttpStatus.OK)
-    @ApiOperation({ summary: "Increment view count for blog post by slug (Public)" })
-    @ApiParam({ name: "slug", type: String, description: "Blog post slug" })
+    @Get("slug/:slug")
+    @ApiOperation({ summary: "Get blog post by its slug, a previous slug or the slug of a translation, with ready-made SEO metadata (Public)" })
+    @ApiParam({ name: "slug", type: String, description: "Blog post, previous or translation slug; previous slugs set redirected_from" })
+    @ApiLocalized()
     @ApiResponse({
         status: 200,
-        description: "View count incremented successfully"
+        description: "Blog post retrieved successfully",
+        type: BlogPostSingleResponseDTO
     })
+    @ApiResponse({ status: 400, description: "Invalid locale" })
     @ApiResponse({ status: 404, description: "Blog post not found" })
-    async incrementViewBySlug(
-        @Param("slug") slug: string
-    ): Promise<{ status_code: number; message: string; view_count: number }> {
+    async findBySlug(
+        @Param("slug") slug: string,
+        @Request() req: ExpressRequest,
+        @Query("locale") locale?: string,
+        @Headers("accept-language") acceptLanguage?: string
+    ): Promise<BlogPostSingleResponseDTO> {
         try {
-            const viewCount = await this.blogPostService.incrementViewBySlug(slug);
+            const post = await this.blogPostService.findBySlug(slug, localePreference(locale, acceptLanguage));
+            const apiOrigin = `${req.protocol}://${req.get("host")}`;
 
             return {
                 status_code: HttpStatus.OK,
-                message: "View count incremented successfully",
-                view_count: viewCount,
+                message: "Blog post retrieved successfully",
+                data: { ...post, seo: this.seoService.build(post, apiOrigin) },
             };
         } catch (error) {
-            this.logger.error(`Error incrementing view count: ${error.message}`, error.stack);
+            this.logger.error(`Error retrieving post by slug: ${error.message}`, error.stack);
             throw error;
         }
     }
 
     @Get(":id")
-    @ApiOperation({ summary: "Get blog post by ID" })
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Get blog post by ID, including drafts and scheduled posts (Admin only)" })
     @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
     @ApiResponse({
         status: 200,
         description: "Blog post retrieved successfully",
         type: BlogPostSingleResponseDTO
     })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
     @ApiResponse({ status: 404, description: "Blog post not found" })
     async findOne(
         @Param("id", ParseUUIDPipe) id: string
@@ -413,6 +642,7 @@ export class BlogPostController {
     @ApiResponse({ status: 400, description: "Bad request" })
     @ApiResponse({ status: 401, description: "Unauthorized" })
     @ApiResponse({ status: 404, description: "Blog post not found" })
+    @ApiResponse({ status: 409, description: "Slug already in use" })
     async update(
         @Param("id", ParseUUIDPipe) id: string,
         @Body() updateBlogPostDTO: UpdateBlogPostDTO,
@@ -424,7 +654,7 @@ export class BlogPostController {
                 userId: req.user?.id || req.user?.sub
             });
 
-            const post = await this.blogPostService.update(id, updateBlogPostDTO);
+            const post = await this.blogPostService.update(id, updateBlogPostDTO, administratorId(req));
 
             this.logger.log(`Blog post updated successfully with ID: ${id}`);
 
@@ -442,9 +672,9 @@ export class BlogPostController {
     @Delete(":id")
     @UseGuards(JWTAuthGuard)
     @ApiBearerAuth()
-    @ApiOperation({ summary: "Delete blog post" })
+    @ApiOperation({ summary: "Move blog post to the trash; it is purged after the retention period" })
     @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
-    @ApiResponse({ status: 200, description: "Blog post deleted successfully" })
+    @ApiResponse({ status: 200, description: "Blog post moved to trash" })
     @ApiResponse({ status: 401, description: "Unauthorized" })
     @ApiResponse({ status: 404, description: "Blog post not found" })
     async remove(
@@ -469,4 +699,63 @@ export class BlogPostController {
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    @Post(":id/restore")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: "Restore blog post from the trash (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Blog post restored successfully",
+        type: BlogPostSingleResponseDTO
+    })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found in trash" })
+    async restore(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<BlogPostSingleResponseDTO> {
+        try {
+            const post = await this.blogPostService.restore(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Blog post restored successfully",
+                data: post,
+            };
+        } catch (error) {
+            this.logger.error(`Error restoring post: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id/permanent")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Permanently delete a trashed blog post (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Blog post UUID" })
+    @ApiResponse({ status: 200, description: "Blog post permanently deleted" })
+    @ApiResponse({ status: 401, description: "Unauthorized" })
+    @ApiResponse({ status: 404, description: "Blog post not found in trash" })
+    async purge(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Request() req: AuthenticatedRequest
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            this.logger.log(`Permanently deleting blog post ${id}`, {
+                userId: req.user?.id || req.user?.sub
+            });
+
+            const result = await this.blogPostService.purge(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error purging post: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
@@ -1,13 +1,15 @@
 import { Transform, Type } from "class-transformer";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsString, IsNotEmpty, IsOptional, IsBoolean, MaxLength, IsUrl, MinLength, Matches, IsArray, IsEnum, ArrayMinSize, ArrayMaxSize } from "class-validator";
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, MaxLength, IsUrl, MinLength, Matches, IsArray, ArrayMinSize, ArrayMaxSize, IsDate, IsUUID, IsIn } from "class-validator";
 
-export enum BlogCategory {
-    NEWSROOM = "newsroom",
-    THOUGHT_PIECES = "thought-pieces", 
-    ACHIEVEMENTS = "achievements",
-    AWARDS_RECOGNITION = "awards-recognition"
-}
+import { BlogTagSummaryDTO } from "./blog-tag.dto";
+import { CONTENT_FORMATS, ContentFormat } from "./blog-content.util";
+import { SUPPORTED_LOCALES, BlogLocale } from "./blog-translation.util";
+import { SEO_TITLE_MAX_LENGTH, SEO_DESCRIPTION_MAX_LENGTH } from "./blog-seo.util";
+import { MediaResponseDTO } from "../media/media.dto";
+import { BlogRevisionEditorResponseDTO } from "./blog-revision.dto";
+import { REVIEW_STATUSES, ReviewStatus } from "./blog-review.util";
+import { POST_MAX_AUTHORS } from "./blog-author.util";
 
 export class CreateBlogPostDTO {
     @ApiProperty({ description: "Title of blog post", maxLength: 200 })
@@ -17,6 +19,19 @@ export class CreateBlogPostDTO {
     @Transform(({ value }) => value?.trim())
     title: string;
 
+    @ApiPropertyOptional({ description: "Custom URL slug; generated from the title when omitted", maxLength: 255 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(255, { message: "Slug must be less than 255 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Keep the slug when the title changes", default: false })
+    @IsBoolean({ message: "Slug locked must be boolean" })
+    @Type(() => Boolean)
+    @IsOptional()
+    slug_locked?: boolean;
+
     @ApiProperty({ description: "Content of blog post" })
     @IsString({ message: "Content must be a string" })
     @IsNotEmpty({ message: "Content is required" })
@@ -24,6 +39,11 @@ export class CreateBlogPostDTO {
     @Transform(({ value }) => value?.trim())
     content: string;
 
+    @ApiPropertyOptional({ description: "Format of content; HTML is sanitized, Markdown is rendered to sanitized HTML", enum: CONTENT_FORMATS, default: "html" })
+    @IsOptional()
+    @IsIn(CONTENT_FORMATS, { message: `Content format must be one of: ${CONTENT_FORMATS.join(", ")}` })
+    content_format?: ContentFormat;
+
     @ApiPropertyOptional({ description: "Brief excerpt of blog post", maxLength: 500 })
     @IsOptional()
     @IsString({ message: "Excerpt must be a string" })
@@ -38,23 +58,10 @@ export class CreateBlogPostDTO {
     @IsOptional()
     featured_image?: string;
 
-    // New fields for uploaded image
-    @ApiPropertyOptional({ description: "Base64 encoded uploaded image data" })
-    @IsOptional()
-    @IsString({ message: "Uploaded image must be a string" })
-    uploaded_image?: string;
-
-    @ApiPropertyOptional({ description: "Original filename of uploaded image" })
-    @IsOptional()
-    @IsString({ message: "Uploaded image filename must be a string" })
-    @MaxLength(255, { message: "Filename must be less than 255 characters" })
-    uploaded_image_filename?: string;
-
-    @ApiPropertyOptional({ description: "Content type of uploaded image" })
+    @ApiPropertyOptional({ description: "ID of an uploaded image in the media library", nullable: true })
     @IsOptional()
-    @IsString({ message: "Content type must be a string" })
-    @Matches(/^image\/(jpeg|jpg|png|gif|webp)$/i, { message: 'Content type must be a valid image MIME type' })
-    uploaded_image_content_type?: string;
+    @IsUUID("4", { message: "Featured media ID must be a valid UUID" })
+    featured_media_id?: string | null;
 
     @ApiPropertyOptional({ description: "Whether the post should be published immediately", default: false })
     @IsBoolean({ message: "Is published must be boolean" })
@@ -68,18 +75,85 @@ export class CreateBlogPostDTO {
     @IsOptional()
     is_featured?: boolean;
 
+    @ApiPropertyOptional({ description: "Whether readers may comment on the post", default: true })
+    @IsBoolean({ message: "Comments enabled must be boolean" })
+    @Type(() => Boolean)
+    @IsOptional()
+    comments_enabled?: boolean;
+
     @ApiPropertyOptional({ 
-        description: "Categories where the blog post should appear",
-        enum: BlogCategory,
-        isArray: true,
-        default: [BlogCategory.NEWSROOM]
+        description: "Slugs of the categories where the blog post should appear; defaults to the first active category",
+        type: [String]
     })
     @IsOptional()
     @IsArray({ message: "Categories must be an array" })
     @ArrayMinSize(1, { message: "At least one category must be selected" })
     @ArrayMaxSize(4, { message: "Maximum 4 categories allowed" })
-    @IsEnum(BlogCategory, { each: true, message: "Each category must be a valid blog category" })
-    categories?: BlogCategory[];
+    @IsString({ each: true, message: "Each category must be a category slug" })
+    categories?: string[];
+
+    @ApiPropertyOptional({
+        description: `Slugs of the author profiles credited on the post, in byline order (at most ${POST_MAX_AUTHORS}); defaults to the profile of the creating administrator`,
+        type: [String]
+    })
+    @IsOptional()
+    @IsArray({ message: "Authors must be an array" })
+    @ArrayMinSize(1, { message: "At least one author must be credited" })
+    @ArrayMaxSize(POST_MAX_AUTHORS, { message: `Maximum ${POST_MAX_AUTHORS} authors allowed` })
+    @IsString({ each: true, message: "Each author must be an author profile slug" })
+    authors?: string[];
+
+    @ApiPropertyOptional({ description: "Free-form tag names; unknown tags are created", type: [String] })
+    @IsOptional()
+    @IsArray({ message: "Tags must be an array" })
+    @ArrayMaxSize(20, { message: "Maximum 20 tags allowed" })
+    @IsString({ each: true, message: "Each tag must be a string" })
+    @MaxLength(50, { each: true, message: "Each tag must be less than 50 characters" })
+    tags?: string[];
+
+    @ApiPropertyOptional({ description: "When the post should be published automatically (ISO 8601). A future time keeps the post unpublished until then", type: String, format: "date-time", nullable: true })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate({ message: "Scheduled publish date must be a valid date" })
+    scheduled_publish_at?: Date | null;
+
+    @ApiPropertyOptional({ description: "When the post should be unpublished automatically (ISO 8601)", type: String, format: "date-time", nullable: true })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate({ message: "Expiry date must be a valid date" })
+    expires_at?: Date | null;
+
+    @ApiPropertyOptional({ description: "Title for search results and social cards; defaults to the post title", maxLength: SEO_TITLE_MAX_LENGTH, nullable: true })
+    @IsOptional()
+    @IsString({ message: "Meta title must be a string" })
+    @MaxLength(SEO_TITLE_MAX_LENGTH, { message: `Meta title must be at most ${SEO_TITLE_MAX_LENGTH} characters` })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    meta_title?: string | null;
+
+    @ApiPropertyOptional({ description: "Description for search results and social cards; defaults to the excerpt or the start of the content", maxLength: SEO_DESCRIPTION_MAX_LENGTH, nullable: true })
+    @IsOptional()
+    @IsString({ message: "Meta description must be a string" })
+    @MaxLength(SEO_DESCRIPTION_MAX_LENGTH, { message: `Meta description must be at most ${SEO_DESCRIPTION_MAX_LENGTH} characters` })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    meta_description?: string | null;
+
+    @ApiPropertyOptional({ description: "Canonical URL when the post was first published elsewhere; defaults to the post URL", maxLength: 2048, nullable: true })
+    @IsOptional()
+    @IsUrl({ protocols: ["http", "https"], require_protocol: true }, { message: "Canonical URL must be an absolute http(s) URL" })
+    @MaxLength(2048, { message: "Canonical URL must be less than 2048 characters" })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    canonical_url?: string | null;
+
+    @ApiPropertyOptional({ description: "Ask search engines not to index the post; it is also left out of the sitemap", default: false })
+    @IsBoolean({ message: "Noindex must be boolean" })
+    @Type(() => Boolean)
+    @IsOptional()
+    noindex?: boolean;
+
+    @ApiPropertyOptional({ description: "ID of a media library image for social cards; defaults to the featured image", nullable: true })
+    @IsOptional()
+    @IsUUID("4", { message: "Social image media ID must be a valid UUID" })
+    social_image_media_id?: string | null;
 }
 
 export class UpdateBlogPostDTO {
@@ -91,6 +165,19 @@ export class UpdateBlogPostDTO {
     @IsOptional()
     title?: string;
 
+    @ApiPropertyOptional({ description: "Custom URL slug; the previous slug keeps redirecting to the post", maxLength: 255 })
+    @IsOptional()
+    @IsString({ message: "Slug must be a string" })
+    @MaxLength(255, { message: "Slug must be less than 255 characters" })
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain lowercase letters, digits and single hyphens" })
+    slug?: string;
+
+    @ApiPropertyOptional({ description: "Keep the slug when the title changes" })
+    @IsBoolean({ message: "Slug locked must be boolean" })
+    @Type(() => Boolean)
+    @IsOptional()
+    slug_locked?: boolean;
+
     @ApiPropertyOptional({ description: "Content of blog post" })
     @IsString({ message: "Content must be a string" })
     @MinLength(10, { message: "Content must be at least 10 character long" })
@@ -98,6 +185,11 @@ export class UpdateBlogPostDTO {
     @IsOptional()
     content?: string;
 
+    @ApiPropertyOptional({ description: "Format of content; changing it re-renders the current content", enum: CONTENT_FORMATS })
+    @IsOptional()
+    @IsIn(CONTENT_FORMATS, { message: `Content format must be one of: ${CONTENT_FORMATS.join(", ")}` })
+    content_format?: ContentFormat;
+
     @ApiPropertyOptional({ description: "Brief excerpt of blog post", maxLength: 500 })
     @IsOptional()
     @IsString({ message: "Excerpt must be a string" })
@@ -112,23 +204,10 @@ export class UpdateBlogPostDTO {
     @IsOptional()
     featured_image?: string;
 
-    // New fields for uploaded image
-    @ApiPropertyOptional({ description: "Base64 encoded uploaded image data" })
+    @ApiPropertyOptional({ description: "ID of an uploaded image in the media library", nullable: true })
     @IsOptional()
-    @IsString({ message: "Uploaded image must be a string" })
-    uploaded_image?: string;
-
-    @ApiPropertyOptional({ description: "Original filename of uploaded image" })
-    @IsOptional()
-    @IsString({ message: "Uploaded image filename must be a string" })
-    @MaxLength(255, { message: "Filename must be less than 255 characters" })
-    uploaded_image_filename?: string;
-
-    @ApiPropertyOptional({ description: "Content type of uploaded image" })
-    @IsOptional()
-    @IsString({ message: "Content type must be a string" })
-    @Matches(/^image\/(jpeg|jpg|png|gif|webp)$/i, { message: 'Content type must be a valid image MIME type' })
-    uploaded_image_content_type?: string;
+    @IsUUID("4", { message: "Featured media ID must be a valid UUID" })
+    featured_media_id?: string | null;
 
     @ApiPropertyOptional({ description: "Whether the post should be published immediately", default: false })
     @IsBoolean({ message: "Is published must be boolean" })
@@ -142,17 +221,85 @@ export class UpdateBlogPostDTO {
     @IsOptional()
     is_featured?: boolean;
 
+    @ApiPropertyOptional({ description: "Whether readers may comment on the post", default: true })
+    @IsBoolean({ message: "Comments enabled must be boolean" })
+    @Type(() => Boolean)
+    @IsOptional()
+    comments_enabled?: boolean;
+
     @ApiPropertyOptional({ 
-        description: "Categories where the blog post should appear",
-        enum: BlogCategory,
-        isArray: true
+        description: "Slugs of the categories where the blog post should appear",
+        type: [String]
     })
     @IsOptional()
     @IsArray({ message: "Categories must be an array" })
     @ArrayMinSize(1, { message: "At least one category must be selected" })
     @ArrayMaxSize(4, { message: "Maximum 4 categories allowed" })
-    @IsEnum(BlogCategory, { each: true, message: "Each category must be a valid blog category" })
-    categories?: BlogCategory[];
+    @IsString({ each: true, message: "Each category must be a category slug" })
+    categories?: string[];
+
+    @ApiPropertyOptional({
+        description: `Slugs of the author profiles credited on the post, in byline order (at most ${POST_MAX_AUTHORS}); replaces the current byline`,
+        type: [String]
+    })
+    @IsOptional()
+    @IsArray({ message: "Authors must be an array" })
+    @ArrayMinSize(1, { message: "At least one author must be credited" })
+    @ArrayMaxSize(POST_MAX_AUTHORS, { message: `Maximum ${POST_MAX_AUTHORS} authors allowed` })
+    @IsString({ each: true, message: "Each author must be an author profile slug" })
+    authors?: string[];
+
+    @ApiPropertyOptional({ description: "Free-form tag names; unknown tags are created", type: [String] })
+    @IsOptional()
+    @IsArray({ message: "Tags must be an array" })
+    @ArrayMaxSize(20, { message: "Maximum 20 tags allowed" })
+    @IsString({ each: true, message: "Each tag must be a string" })
+    @MaxLength(50, { each: true, message: "Each tag must be less than 50 characters" })
+    tags?: string[];
+
+    @ApiPropertyOptional({ description: "When the post should be published automatically (ISO 8601). A future time keeps the post unpublished until then", type: String, format: "date-time", nullable: true })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate({ message: "Scheduled publish date must be a valid date" })
+    scheduled_publish_at?: Date | null;
+
+    @ApiPropertyOptional({ description: "When the post should be unpublished automatically (ISO 8601)", type: String, format: "date-time", nullable: true })
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate({ message: "Expiry date must be a valid date" })
+    expires_at?: Date | null;
+
+    @ApiPropertyOptional({ description: "Title for search results and social cards; defaults to the post title; null clears it", maxLength: SEO_TITLE_MAX_LENGTH, nullable: true })
+    @IsOptional()
+    @IsString({ message: "Meta title must be a string" })
+    @MaxLength(SEO_TITLE_MAX_LENGTH, { message: `Meta title must be at most ${SEO_TITLE_MAX_LENGTH} characters` })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    meta_title?: string | null;
+
+    @ApiPropertyOptional({ description: "Description for search results and social cards; defaults to the excerpt or the start of the content; null clears it", maxLength: SEO_DESCRIPTION_MAX_LENGTH, nullable: true })
+    @IsOptional()
+    @IsString({ message: "Meta description must be a string" })
+    @MaxLength(SEO_DESCRIPTION_MAX_LENGTH, { message: `Meta description must be at most ${SEO_DESCRIPTION_MAX_LENGTH} characters` })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    meta_description?: string | null;
+
+    @ApiPropertyOptional({ description: "Canonical URL when the post was first published elsewhere; defaults to the post URL; null clears it", maxLength: 2048, nullable: true })
+    @IsOptional()
+    @IsUrl({ protocols: ["http", "https"], require_protocol: true }, { message: "Canonical URL must be an absolute http(s) URL" })
+    @MaxLength(2048, { message: "Canonical URL must be less than 2048 characters" })
+    @Transform(({ value }) => typeof value === "string" ? value.trim() || null : value)
+    canonical_url?: string | null;
+
+    @ApiPropertyOptional({ description: "Ask search engines not to index the post; it is also left out of the sitemap", default: false })
+    @IsBoolean({ message: "Noindex must be boolean" })
+    @Type(() => Boolean)
+    @IsOptional()
+    noindex?: boolean;
+
+    @ApiPropertyOptional({ description: "ID of a media library image for social cards; defaults to the featured image; null clears it", nullable: true })
+    @IsOptional()
+    @IsUUID("4", { message: "Social image media ID must be a valid UUID" })
+    social_image_media_id?: string | null;
 }
 
 export class BlogAuthorResponseDTO {
@@ -164,9 +311,158 @@ export class BlogAuthorResponseDTO {
 
     @ApiProperty({ description: "Author last name" })
     last_name: string;
+}
+
+export class BlogPostBylineDTO {
+    @ApiProperty({ description: "Author profile ID" })
+    id: string;
+
+    @ApiProperty({ description: "Author profile slug, for /blog/authors/:slug" })
+    slug: string;
+
+    @ApiProperty({ description: "Name shown on the byline" })
+    display_name: string;
+
+    @ApiProperty({ description: "Role shown with the name, e.g. Staff writer", nullable: true })
+    role_title: string | null;
+
+    @ApiProperty({ description: "Author avatar from the media library", type: MediaResponseDTO, nullable: true })
+    avatar_media: MediaResponseDTO | null;
+}
+
+export class BlogSeriesPartLinkDTO {
+    @ApiProperty({ description: "Post ID" })
+    id: string;
+
+    @ApiProperty({ description: "Post title" })
+    title: string;
+
+    @ApiProperty({ description: "Post slug" })
+    slug: string;
+
+    @ApiProperty({ description: "Part number among the published parts, starting at 1" })
+    position: number;
+}
+
+export class BlogPostSeriesNavigationDTO {
+    @ApiProperty({ description: "Series ID" })
+    id: string;
+
+    @ApiProperty({ description: "Series title" })
+    title: string;
+
+    @ApiProperty({ description: "Series slug" })
+    slug: string;
+
+    @ApiProperty({ description: "Series description", nullable: true })
+    description: string | null;
+
+    @ApiProperty({ description: "Series cover image from the media library", type: MediaResponseDTO, nullable: true })
+    cover_media: MediaResponseDTO | null;
+
+    @ApiProperty({ description: "Part number of this post among the published parts, starting at 1" })
+    position: number;
 
-    @ApiProperty({ description: "Author email" })
-    email: string;
+    @ApiProperty({ description: "Number of published parts" })
+    total_parts: number;
+
+    @ApiProperty({ description: "Previous published part", type: BlogSeriesPartLinkDTO, nullable: true })
+    previous: BlogSeriesPartLinkDTO | null;
+
+    @ApiProperty({ description: "Next published part", type: BlogSeriesPartLinkDTO, nullable: true })
+    next: BlogSeriesPartLinkDTO | null;
+}
+
+export class BlogPostOpenGraphDTO {
+    @ApiProperty({ description: "og:type", example: "article" })
+    type: string;
+
+    @ApiProperty({ description: "og:title" })
+    title: string;
+
+    @ApiProperty({ description: "og:description" })
+    description: string;
+
+    @ApiProperty({ description: "og:url" })
+    url: string;
+
+    @ApiProperty({ description: "og:site_name" })
+    site_name: string;
+
+    @ApiProperty({ description: "og:locale", nullable: true })
+    locale: string | null;
+
+    @ApiProperty({ description: "og:image, absolute URL", nullable: true })
+    image: string | null;
+
+    @ApiProperty({ description: "og:image:width", nullable: true })
+    image_width: number | null;
+
+    @ApiProperty({ description: "og:image:height", nullable: true })
+    image_height: number | null;
+
+    @ApiProperty({ description: "og:image:alt", nullable: true })
+    image_alt: string | null;
+
+    @ApiProperty({ description: "article:published_time", nullable: true })
+    published_time: string | null;
+
+    @ApiProperty({ description: "article:modified_time" })
+    modified_time: string;
+
+    @ApiProperty({ description: "article:section, the first category slug", nullable: true })
+    section: string | null;
+
+    @ApiProperty({ description: "article:tag values", type: [String] })
+    tags: string[];
+}
+
+export class BlogPostTwitterCardDTO {
+    @ApiProperty({ description: "twitter:card", enum: ["summary", "summary_large_image"] })
+    card: string;
+
+    @ApiProperty({ description: "twitter:title" })
+    title: string;
+
+    @ApiProperty({ description: "twitter:description" })
+    description: string;
+
+    @ApiProperty({ description: "twitter:image, absolute URL", nullable: true })
+    image: string | null;
+
+    @ApiProperty({ description: "twitter:site handle", nullable: true })
+    site: string | null;
+}
+
+export class BlogPostSeoDTO {
+    @ApiProperty({ description: "<title> of the page" })
+    title: string;
+
+    @ApiProperty({ description: "Meta description" })
+    description: string;
+
+    @ApiProperty({ description: "Canonical URL" })
+    canonical_url: string;
+
+    @ApiProperty({ description: "Robots meta tag", example: "index, follow" })
+    robots: string;
+
+    @ApiProperty({ description: "Open Graph tags", type: BlogPostOpenGraphDTO })
+    open_graph: BlogPostOpenGraphDTO;
+
+    @ApiProperty({ description: "Twitter card tags", type: BlogPostTwitterCardDTO })
+    twitter: BlogPostTwitterCardDTO;
+
+    @ApiProperty({ description: "schema.org Article as JSON-LD, ready for a <script type=\"application/ld+json\"> tag", type: "object", additionalProperties: true })
+    json_ld: Record<string, unknown>;
+}
+
+export class BlogPostAlternateDTO {
+    @ApiProperty({ description: "hreflang value: a locale, or x-default for the default-locale version" })
+    hreflang: string;
+
+    @ApiProperty({ description: "Slug of the post in that locale" })
+    slug: string;
 }
 
 export class BlogPostResponseDTO {
@@ -179,23 +475,32 @@ export class BlogPostResponseDTO {
     @ApiProperty({ description: "Blog post slug" })
     slug: string;
 
-    @ApiProperty({ description: "Blog post content" })
+    @ApiProperty({ description: "Whether the slug is kept when the title changes" })
+    slug_locked: boolean;
+
+    @ApiPropertyOptional({ description: "Requested slug when it is a previous slug of the post; clients should redirect to the current slug" })
+    redirected_from?: string;
+
+    @ApiProperty({ description: "Blog post content as written, in content_format" })
     content: string;
 
+    @ApiProperty({ description: "Format of content", enum: CONTENT_FORMATS })
+    content_format: ContentFormat;
+
+    @ApiProperty({ description: "Sanitized HTML rendered from content" })
+    content_html: string;
+
     @ApiProperty({ description: "Blog post excerpt", nullable: true })
     excerpt?: string;
 
     @ApiProperty({ description: "Featured image URL", nullable: true })
     featured_image?: string;
 
-    @ApiProperty({ description: "Uploaded image as base64", nullable: true })
-    uploaded_image?: string;
+    @ApiProperty({ description: "Featured media ID", nullable: true })
+    featured_media_id?: string;
 
-    @ApiProperty({ description: "Uploaded image filename", nullable: true })
-    uploaded_image_filename?: string;
-
-    @ApiProperty({ description: "Uploaded image content type", nullable: true })
-    uploaded_image_content_type?: string;
+    @ApiProperty({ description: "Featured image from the media library", type: MediaResponseDTO, nullable: true })
+    featured_media?: MediaResponseDTO;
 
     @ApiProperty({ description: "Published status" })
     is_published: boolean;
@@ -206,16 +511,47 @@ export class BlogPostResponseDTO {
     @ApiProperty({ description: "View count", default: 0 })
     view_count: number;
 
-    @ApiProperty({ 
-        description: "Blog post categories", 
-        enum: BlogCategory,
-        isArray: true,
-        default: [BlogCategory.NEWSROOM]
-    })
-    categories: BlogCategory[];
+    @ApiProperty({ description: "Whether readers may comment on the post", default: true })
+    comments_enabled: boolean;
+
+    @ApiProperty({ description: "Number of approved comments", default: 0 })
+    comment_count: number;
+
+    @ApiProperty({ description: "Blog post category slugs", type: [String] })
+    categories: string[];
+
+    @ApiProperty({ description: "Blog post tags", type: [BlogTagSummaryDTO] })
+    tags: BlogTagSummaryDTO[];
+
+    @ApiProperty({ description: "ID of the series this post belongs to", nullable: true })
+    series_id?: string | null;
 
-    @ApiProperty({ description: "Post author", type: BlogAuthorResponseDTO })
-    author: BlogAuthorResponseDTO;
+    @ApiProperty({ description: "Part number within the series", nullable: true })
+    series_position?: number | null;
+
+    @ApiPropertyOptional({ description: "Series navigation, only included when fetching a post by slug", type: BlogPostSeriesNavigationDTO, nullable: true })
+    series?: BlogPostSeriesNavigationDTO | null;
+
+    @ApiPropertyOptional({ description: "Editorial workflow status; admin endpoints only", enum: REVIEW_STATUSES })
+    review_status?: ReviewStatus;
+
+    @ApiPropertyOptional({ description: "Administrator assigned to review the post; admin endpoints only", type: BlogRevisionEditorResponseDTO, nullable: true })
+    reviewer?: BlogRevisionEditorResponseDTO | null;
+
+    @ApiPropertyOptional({ description: "When the post last entered review; admin endpoints only", nullable: true })
+    review_requested_at?: Date | null;
+
+    @ApiPropertyOptional({ description: "Locale title, slug and content are served in; public endpoints only", enum: SUPPORTED_LOCALES })
+    locale?: BlogLocale;
+
+    @ApiPropertyOptional({ description: "Every locale the post is available in, for hreflang links; public endpoints only", type: [BlogPostAlternateDTO] })
+    alternates?: BlogPostAlternateDTO[];
+
+    @ApiPropertyOptional({ description: "Administrator who owns the post; admin endpoints only, public ones credit the byline", type: BlogAuthorResponseDTO, nullable: true })
+    author?: BlogAuthorResponseDTO | null;
+
+    @ApiProperty({ description: "Author profiles credited on the post, in byline order", type: [BlogPostBylineDTO] })
+    authors: BlogPostBylineDTO[];
 
     @ApiProperty({ description: "Created date" })
     created_at: Date;
@@ -223,8 +559,46 @@ export class BlogPostResponseDTO {
     @ApiProperty({ description: "Updated date" })
     updated_at: Date;
 
+    @ApiProperty({ description: "When the post was moved to the trash; null unless it is trashed", nullable: true })
+    deleted_at: Date | null;
+
     @ApiProperty({ description: "Published date", nullable: true })
     published_at: Date;
+
+    @ApiProperty({ description: "Scheduled publish date", nullable: true })
+    scheduled_publish_at?: Date;
+
+    @ApiProperty({ description: "Expiry date after which the post is unpublished", nullable: true })
+    expires_at?: Date;
+
+    @ApiProperty({ description: "Meta title override", nullable: true })
+    meta_title: string | null;
+
+    @ApiProperty({ description: "Meta description override", nullable: true })
+    meta_description: string | null;
+
+    @ApiProperty({ description: "Canonical URL override", nullable: true })
+    canonical_url: string | null;
+
+    @ApiProperty({ description: "Whether search engines are asked not to index the post" })
+    noindex: boolean;
+
+    @ApiProperty({ description: "Social image media ID", nullable: true })
+    social_image_media_id: string | null;
+
+    @ApiProperty({ description: "Image for social cards from the media library", type: MediaResponseDTO, nullable: true })
+    social_image_media?: MediaResponseDTO | null;
+
+    @ApiPropertyOptional({ description: "Ready-made SEO metadata, only included when fetching a post by slug", type: BlogPostSeoDTO })
+    seo?: BlogPostSeoDTO;
+}
+
+export class BlogSearchResultDTO extends BlogPostResponseDTO {
+    @ApiProperty({ description: "Relevance score, higher is better" })
+    rank: number;
+
+    @ApiProperty({ description: "Matching excerpt with hits wrapped in <mark> tags" })
+    snippet: string;
 }
 
 export class BlogPostListResponseDTO {
@@ -241,6 +615,29 @@ export class BlogPostListResponseDTO {
     count?: number;
 }
 
+export class BlogPostPageResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Blog posts in this page", type: [BlogPostResponseDTO] })
+    data: BlogPostResponseDTO[];
+
+    @ApiProperty({ description: "Cursor for the next page; pass it back as ?cursor= with the same sort and direction", nullable: true })
+    next_cursor: string | null;
+
+    @ApiProperty({ description: "Whether more posts follow this page" })
+    has_more: boolean;
+
+    @ApiProperty({ description: "Page size that was applied" })
+    limit: number;
+
+    @ApiProperty({ description: "Total number of matching posts across all pages", required: false })
+    count?: number;
+}
+
 export class BlogPostSingleResponseDTO {
     @ApiProperty({ description: "HTTP status code" })
     status_code: number;
@@ -250,4 +647,27 @@ export class BlogPostSingleResponseDTO {
 
     @ApiProperty({ description: "Blog post data", type: BlogPostResponseDTO })
     data: BlogPostResponseDTO;
+}
+
+export class BlogSearchListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Search results ordered by relevance", type: [BlogSearchResultDTO] })
+    data: BlogSearchResultDTO[];
+
+    @ApiProperty({ description: "Total number of matches" })
+    count: number;
+
+    @ApiProperty({ description: "Cursor for the next page; pass it back as ?cursor= with the same sort and direction", nullable: true })
+    next_cursor: string | null;
+
+    @ApiProperty({ description: "Whether more results follow this page" })
+    has_more: boolean;
+
+    @ApiProperty({ description: "Page size that was applied" })
+    limit: number;
 }
\ No newline at end of file
@@ -1,14 +1,14 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, BeforeInsert, BeforeUpdate } from "typeorm";
-
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, ManyToOne, ManyToMany, OneToMany, JoinColumn, JoinTable, BeforeInsert, BeforeUpdate } from "typeorm";
+
+import { BlogTag } from "./blog-tag.entity";
+import { ContentFormat } from "./blog-content.util";
+import { ReviewStatus } from "./blog-review.util";
+import { BlogSeries } from "./blog-series.entity";
+import { BlogAuthorProfile, BlogPostAuthor } from "./blog-author.entity";
+import { BlogCategory } from "./blog-category.entity";
+import { Media } from "../media/media.entity";
 import { Administrator } from "../admin/admin.entity";
 
-export enum BlogCategory {
-    NEWSROOM = "newsroom",
-    THOUGHT_PIECES = "thought-pieces", 
-    ACHIEVEMENTS = "achievements",
-    AWARDS_RECOGNITION = "awards-recognition"
-}
-
 @Entity('blog_posts')
 export class BlogPost {
     @PrimaryGeneratedColumn("uuid")
@@ -20,23 +20,53 @@ export class BlogPost {
     @Column({ unique: true, type: "varchar", length: 255 })
     slug: string;
 
+    // Locked slugs are kept when the title changes; renamed slugs live on in BlogPostSlugHistory
+    @Column({ default: false, type: "boolean" })
+    slug_locked: boolean;
+
+    // Source as written by the author: sanitized HTML, or Markdown when content_format is "markdown"
     @Column("text")
     content: string;
 
+    @Column({ type: "varchar", length: 16, default: "html" })
+    content_format: ContentFormat;
+
+    // Sanitized HTML served to readers, rendered from content on every write
+    @Column("text")
+    content_html: string;
+
     @Column({ nullable: true, type: "varchar", length: 500 })
     excerpt: string | null;
 
     @Column({ nullable: true, type: "varchar", length: 2048 })
     featured_image: string | null;
 
-    @Column({ nullable: true, type: "text" })
-    uploaded_image: string | null;
+    @Column({ nullable: true, type: "uuid" })
+    featured_media_id: string | null;
+
+    @ManyToOne(() => Media, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "featured_media_id" })
+    featured_media: Media | null;
+
+    // SEO overrides; BlogSeoService falls back to the title, excerpt, post URL and featured image when unset
+    @Column({ nullable: true, type: "varchar", length: 70 })
+    meta_title: string | null;
 
-    @Column({ nullable: true, type: "varchar", length: 255 })
-    uploaded_image_filename: string | null;
+    @Column({ nullable: true, type: "varchar", length: 160 })
+    meta_description: string | null;
 
-    @Column({ nullable: true, type: "varchar", length: 100 })
-    uploaded_image_content_type: string | null;
+    @Column({ nullable: true, type: "varchar", length: 2048 })
+    canonical_url: string | null;
+
+    @Column({ default: false, type: "boolean" })
+    noindex: boolean;
+
+    @Column({ nullable: true, type: "uuid" })
+    social_image_media_id: string | null;
+
+    @ManyToOne(() => Media, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "social_image_media_id" })
+    social_image_media: Media | null;
 
     @Column({ default: false, type: "boolean" })
     is_published: boolean;
@@ -47,14 +77,44 @@ export class BlogPost {
     @Column({ default: 0, type: "integer" })
     view_count: number;
 
-    // JSON column for categories - works with PostgreSQL JSON arrays
-    @Column({ 
-        type: "json",
-        nullable: false,
-        default: '["newsroom"]'
+    @Column({ default: true, type: "boolean" })
+    comments_enabled: boolean;
+
+    // Approved comments only, kept in sync by BlogCommentService on every moderation change
+    @Column({ default: 0, type: "integer" })
+    comment_count: number;
+
+    @ManyToMany(() => BlogCategory, category => category.posts)
+    @JoinTable({
+        name: "blog_post_categories",
+        joinColumn: { name: "post_id", referencedColumnName: "id" },
+        inverseJoinColumn: { name: "category_id", referencedColumnName: "id" },
     })
     categories: BlogCategory[];
 
+    @ManyToMany(() => BlogTag, tag => tag.posts)
+    @JoinTable({
+        name: "blog_post_tags",
+        joinColumn: { name: "post_id", referencedColumnName: "id" },
+        inverseJoinColumn: { name: "tag_id", referencedColumnName: "id" },
+    })
+    tags: BlogTag[];
+
+    @Column({ nullable: true, type: "uuid" })
+    series_id: string | null;
+
+    @ManyToOne(() => BlogSeries, series => series.posts, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "series_id" })
+    series: BlogSeries | null;
+
+    // Part number within the series, starting at 1
+    @Column({ nullable: true, type: "integer" })
+    series_position: number | null;
+
+    // Generated by PostgreSQL from title, excerpt and rendered content (see the AddBlogPostContentFormat migration)
+    @Column({ type: "tsvector", nullable: true, select: false, insert: false, update: false })
+    search_vector: string | null;
+
     @Column({ type: "uuid" })
     author_id: string;
 
@@ -62,15 +122,46 @@ export class BlogPost {
     @JoinColumn({ name: "author_id" })
     author: Administrator;
 
+    // Public byline; the administrator above owns the post, these are the profiles credited for it
+    @OneToMany(() => BlogPostAuthor, author => author.post)
+    authors: BlogPostAuthor[];
+
+    // Editorial workflow state, changed through BlogReviewService; see blog-review.util for the allowed moves
+    @Column({ default: "draft", type: "varchar", length: 20 })
+    review_status: ReviewStatus;
+
+    @Column({ nullable: true, type: "uuid" })
+    reviewer_id: string | null;
+
+    @ManyToOne(() => Administrator, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "reviewer_id" })
+    reviewer: Administrator | null;
+
+    // When the post last entered review, so the queue can serve the longest-waiting posts first
+    @Column({ name: "review_requested_at", nullable: true, type: "timestamp" })
+    review_requested_at: Date | null;
+
     @CreateDateColumn({ name: "created_at", type: "timestamp" })
     created_at: Date;
 
     @UpdateDateColumn({ name: "updated_at", type: "timestamp" })
     updated_at: Date;
 
+    // Set while the post is in the trash; TypeORM leaves such rows out of finds and query builders
+    @DeleteDateColumn({ name: "deleted_at", nullable: true, type: "timestamp" })
+    deleted_at: Date | null;
+
     @Column({ name: "published_at", nullable: true, type: "timestamp" })
     published_at: Date | null;
 
+    // Picked up by BlogPostScheduler, which publishes the post once this time has passed
+    @Column({ name: "scheduled_publish_at", nullable: true, type: "timestamp" })
+    scheduled_publish_at: Date | null;
+
+    // Picked up by BlogPostScheduler, which unpublishes the post once this time has passed
+    @Column({ name: "expires_at", nullable: true, type: "timestamp" })
+    expires_at: Date | null;
+
     @BeforeInsert()
     @BeforeUpdate()
     updatePublishedAt(): void {
@@ -81,36 +172,6 @@ export class BlogPost {
         }
     }
 
-    @BeforeInsert()
-    @BeforeUpdate()
-    validateCategories(): void {
-        console.log('🔧 Entity validateCategories - Input:', this.categories, typeof this.categories);
-        
-        // Ensure categories is always an array and contains at least one valid category
-        if (!this.categories || !Array.isArray(this.categories) || this.categories.length === 0) {
-            console.log('⚠️ Entity: Categories invalid, setting to default NEWSROOM');
-            this.categories = [BlogCategory.NEWSROOM];
-            return;
-        }
-
-        // Remove duplicates and validate enum values
-        const validCategories = Object.values(BlogCategory);
-        const uniqueCategories = [...new Set(this.categories)].filter(category => 
-            validCategories.includes(category)
-        );
-
-        console.log('🔍 Entity: Valid categories after filtering:', uniqueCategories);
-
-        // Ensure at least one category remains
-        if (uniqueCategories.length === 0) {
-            console.log('⚠️ Entity: No valid categories found, setting to default NEWSROOM');
-            this.categories = [BlogCategory.NEWSROOM];
-        } else {
-            this.categories = uniqueCategories;
-            console.log('✅ Entity: Categories set to:', this.categories);
-        }
-    }
-
     static generateSlug(title: string): string {
         if (!title || typeof title !== "string") {
             throw new Error("Title is required to generate slug");
@@ -124,6 +185,13 @@ export class BlogPost {
             .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
     }
     
+    // Category slugs in display order, as exposed in responses and revision snapshots
+    static categorySlugs(categories: BlogCategory[] | undefined): string[] {
+        return [...(categories || [])]
+            .sort((a, b) => a.sort_order - b.sort_order || a.slug.localeCompare(b.slug))
+            .map(category => category.slug);
+    }
+
     @BeforeInsert()
     @BeforeUpdate()
     generateSlugFromTitle(): void {
@@ -132,73 +200,128 @@ export class BlogPost {
         }
     }
 
-    toResponseObject(): {
+    // Public shape: the byline stands in for administrator accounts and the review workflow stays internal
+    toPublicObject(): {
         id: string;
         title: string;
         slug: string;
+        slug_locked: boolean;
         content: string;
+        content_format: ContentFormat;
+        content_html: string;
         excerpt: string | null;
         featured_image: string | null;
-        uploaded_image: string | null;
-        uploaded_image_filename: string | null;
-        uploaded_image_content_type: string | null;
+        featured_media_id: string | null;
+        featured_media: {
+            id: string;
+            url: string;
+            filename: string;
+            content_type: string;
+            size: number;
+            created_at: Date;
+        } | null;
+        meta_title: string | null;
+        meta_description: string | null;
+        canonical_url: string | null;
+        noindex: boolean;
+        social_image_media_id: string | null;
+        social_image_media: {
+            id: string;
+            url: string;
+            filename: string;
+            content_type: string;
+            size: number;
+            created_at: Date;
+        } | null;
         is_published: boolean;
         is_featured: boolean;
         view_count: number;
-        categories: BlogCategory[];
+        comments_enabled: boolean;
+        comment_count: number;
+        categories: string[];
+        tags: {
+            id: string;
+            name: string;
+            slug: string;
+        }[];
+        series_id: string | null;
+        series_position: number | null;
         created_at: Date;
         updated_at: Date;
+        deleted_at: Date | null;
         published_at: Date | null;
-        author: {
-            id: string;
-            first_name: string;
-            last_name: string;
-            email: string;
-        } | null;
+        scheduled_publish_at: Date | null;
+        expires_at: Date | null;
+        authors: ReturnType<BlogAuthorProfile["toSummaryObject"]>[];
     } {
-        // Simple category processing - PostgreSQL returns JSON as arrays automatically
-        let processedCategories: BlogCategory[] = this.categories;
-
-        // Safety check
-        if (!Array.isArray(processedCategories) || processedCategories.length === 0) {
-            console.warn(`⚠️ ResponseObject: Post ${this.id} has invalid categories, using default`);
-            processedCategories = [BlogCategory.NEWSROOM];
-        }
-
-        // Validate each category
-        const validCategories = processedCategories.filter(cat => 
-            Object.values(BlogCategory).includes(cat)
-        );
-
-        if (validCategories.length === 0) {
-            validCategories.push(BlogCategory.NEWSROOM);
-        }
-
-        console.log(`📄 ResponseObject: Post ${this.id} final categories:`, validCategories);
-
         return {
             id: this.id,
             title: this.title,
             slug: this.slug,
+            slug_locked: this.slug_locked,
             content: this.content,
+            content_format: this.content_format,
+            content_html: this.content_html,
             excerpt: this.excerpt,
             featured_image: this.featured_image,
-            uploaded_image: this.uploaded_image,
-            uploaded_image_filename: this.uploaded_image_filename,
-            uploaded_image_content_type: this.uploaded_image_content_type,
+            featured_media_id: this.featured_media_id,
+            featured_media: this.featured_media ? this.featured_media.toResponseObject() : null,
+            meta_title: this.meta_title,
+            meta_description: this.meta_description,
+            canonical_url: this.canonical_url,
+            noindex: this.noindex,
+            social_image_media_id: this.social_image_media_id,
+            social_image_media: this.social_image_media ? this.social_image_media.toResponseObject() : null,
             is_published: this.is_published,
             is_featured: this.is_featured,
             view_count: this.view_count,
-            categories: validCategories,
+            comments_enabled: this.comments_enabled,
+            comment_count: this.comment_count,
+            categories: BlogPost.categorySlugs(this.categories),
+            tags: (this.tags || []).map(tag => tag.toResponseObject()),
+            series_id: this.series_id,
+            series_position: this.series_position,
             created_at: this.created_at,
             updated_at: this.updated_at,
+            deleted_at: this.deleted_at,
             published_at: this.published_at,
+            scheduled_publish_at: this.scheduled_publish_at,
+            expires_at: this.expires_at,
+            authors: [...(this.authors || [])]
+                .filter(author => !!author.profile)
+                .sort((a, b) => a.position - b.position)
+                .map(author => author.profile.toSummaryObject()),
+        };
+    }
+
+    toResponseObject(): ReturnType<BlogPost["toPublicObject"]> & {
+        review_status: ReviewStatus;
+        reviewer: {
+            id: string;
+            first_name: string;
+            last_name: string;
+        } | null;
+        review_requested_at: Date | null;
+        author: {
+            id: string;
+            first_name: string;
+            last_name: string;
+        } | null;
+    } {
+        return {
+            ...this.toPublicObject(),
+            review_status: this.review_status,
+            reviewer: this.reviewer ? {
+                id: this.reviewer.id,
+                first_name: this.reviewer.first_name,
+                last_name: this.reviewer.last_name,
+            } : null,
+            review_requested_at: this.review_requested_at,
             author: this.author ? {
                 id: this.author.id,
                 first_name: this.author.first_name,
                 last_name: this.author.last_name,
-                email: this.author.email,
-            } : null
+            } : null,
         };
     }
 }
\ No newline at end of file
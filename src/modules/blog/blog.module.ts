@@ -2,16 +2,63 @@ import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
 
 import { BlogPost } from "./blog.entity";
+import { BlogTag } from "./blog-tag.entity";
 import { BlogPostService } from "./blog.service";
+import { BlogPostScheduler } from "./blog.scheduler";
 import { BlogPostController } from "./blog.controller";
+import { BlogFeedService } from "./blog-feed.service";
+import { BlogSeoService } from "./blog-seo.service";
+import { BlogFeedController } from "./blog-feed.controller";
+import { BlogTagService } from "./blog-tag.service";
+import { BlogTagController } from "./blog-tag.controller";
+import { BlogCategory } from "./blog-category.entity";
+import { BlogCategoryService } from "./blog-category.service";
+import { BlogCategoryController } from "./blog-category.controller";
+import { MediaModule } from "../media/media.module";
+import { AdministratorModule } from "../admin/admin.module";
+import { BlogSeries } from "./blog-series.entity";
+import { BlogSeriesService } from "./blog-series.service";
+import { BlogSeriesController } from "./blog-series.controller";
+import { BlogPostRelatedPin } from "./blog-related.entity";
+import { BlogRelatedService } from "./blog-related.service";
+import { BlogRelatedController } from "./blog-related.controller";
+import { BlogPostViewEvent, BlogPostViewStat } from "./blog-view.entity";
+import { BlogViewService } from "./blog-view.service";
+import { BlogViewController } from "./blog-view.controller";
+import { BlogComment } from "./blog-comment.entity";
+import { BlogCommentService } from "./blog-comment.service";
+import { BlogCommentController } from "./blog-comment.controller";
+import { BlogPostTranslation } from "./blog-translation.entity";
+import { BlogPostTranslationService } from "./blog-translation.service";
+import { BlogPostTranslationController } from "./blog-translation.controller";
+import { BlogPostSlugHistory } from "./blog-slug-history.entity";
+import { BlogPostSlugHistoryService } from "./blog-slug-history.service";
+import { BlogPostRevision } from "./blog-revision.entity";
+import { BlogPostRevisionService } from "./blog-revision.service";
+import { BlogPostRevisionController } from "./blog-revision.controller";
+import { BlogTransferService } from "./blog-transfer.service";
+import { BlogTransferController } from "./blog-transfer.controller";
+import { BlogWxrImportService } from "./blog-wxr.service";
+import { BlogPostPreviewToken, BlogPostPreviewAccess } from "./blog-preview.entity";
+import { BlogPreviewService } from "./blog-preview.service";
+import { BlogPreviewController } from "./blog-preview.controller";
+import { BlogPostReviewEvent } from "./blog-review.entity";
+import { BlogReviewService } from "./blog-review.service";
+import { BlogReviewController } from "./blog-review.controller";
+import { BlogAuthorProfile, BlogPostAuthor } from "./blog-author.entity";
+import { BlogAuthorService } from "./blog-author.service";
+import { BlogAuthorController } from "./blog-author.controller";
 
 @Module({
     imports: [
-        TypeOrmModule.forFeature([BlogPost])
+        TypeOrmModule.forFeature([BlogPost, BlogPostRevision, BlogTag, BlogCategory, BlogSeries, BlogPostRelatedPin, BlogPostViewEvent, BlogPostViewStat, BlogComment, BlogPostTranslation, BlogPostSlugHistory, BlogPostPreviewToken, BlogPostPreviewAccess, BlogPostReviewEvent, BlogAuthorProfile, BlogPostAuthor]),
+        MediaModule,
+        AdministratorModule
     ],
-    controllers: [BlogPostController],
-    providers: [BlogPostService],
-    exports: [BlogPostService, TypeOrmModule]
+    // Static routes such as /blog/tags, /blog/categories, /blog/series, /blog/authors, /blog/analytics, /blog/comments, /blog/export, /blog/preview, /blog/review-queue and /blog/feed.rss must be registered before BlogPostController's /blog/:id
+    controllers: [BlogTagController, BlogCategoryController, BlogSeriesController, BlogAuthorController, BlogFeedController, BlogRelatedController, BlogViewController, BlogCommentController, BlogTransferController, BlogPreviewController, BlogReviewController, BlogPostController, BlogPostRevisionController, BlogPostTranslationController],
+    providers: [BlogPostService, BlogPostRevisionService, BlogPostTranslationService, BlogPostSlugHistoryService, BlogTagService, BlogCategoryService, BlogSeriesService, BlogAuthorService, BlogRelatedService, BlogViewService, BlogCommentService, BlogFeedService, BlogSeoService, BlogTransferService, BlogWxrImportService, BlogPreviewService, BlogReviewService, BlogPostScheduler],
+    exports: [BlogPostService, BlogCategoryService, TypeOrmModule]
 })
 
 export class BlogPostModule {}
\ No newline at end of file
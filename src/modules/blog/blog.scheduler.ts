@@ -0,0 +1,87 @@
+import { ConfigService } from "@nestjs/config";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { Injectable, Logger } from "@nestjs/common";
+
+import { BlogPostService } from "./blog.service";
+import { BlogViewService } from "./blog-view.service";
+
+// Days a post stays in the trash before it is purged, unless BLOG_TRASH_RETENTION_DAYS says otherwise
+export const TRASH_RETENTION_DEFAULT_DAYS = 30;
+
+@Injectable()
+export class BlogPostScheduler {
+    private readonly logger = new Logger(BlogPostScheduler.name);
+    private running = false;
+    private rollingUp = false;
+    private purging = false;
+
+    constructor(
+        private readonly blogPostService: BlogPostService,
+        private readonly viewService: BlogViewService,
+        private readonly configService: ConfigService
+    ) {}
+
+    private get trashRetentionDays(): number {
+        const days = parseInt(this.configService.get<string>("BLOG_TRASH_RETENTION_DAYS") || "", 10);
+        return Number.isInteger(days) && days > 0 ? days : TRASH_RETENTION_DEFAULT_DAYS;
+    }
+
+    @Cron(CronExpression.EVERY_MINUTE, { name: "blog-post-publishing" })
+    async handlePublishingSchedule(): Promise<void> {
+        // Skip the tick if the previous run is still going, so a post is never processed twice
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            const published = await this.blogPostService.publishScheduledPosts();
+            const unpublished = await this.blogPostService.unpublishExpiredPosts();
+
+            if (published > 0 || unpublished > 0) {
+                this.logger.log(`⏰ Scheduled publishing run: ${published} published, ${unpublished} unpublished`);
+            }
+        } catch (error) {
+            this.logger.error(`Error running publishing schedule: ${error.message}`, error.stack);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    @Cron(CronExpression.EVERY_10_MINUTES, { name: "blog-view-stats-rollup" })
+    async handleViewStatsRollup(): Promise<void> {
+        if (this.rollingUp) {
+            return;
+        }
+
+        this.rollingUp = true;
+        try {
+            await this.viewService.rollupDailyStats();
+        } catch (error) {
+            this.logger.error(`Error rolling up view statistics: ${error.message}`, error.stack);
+        } finally {
+            this.rollingUp = false;
+        }
+    }
+
+    @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: "blog-trash-purge" })
+    async handleTrashPurge(): Promise<void> {
+        if (this.purging) {
+            return;
+        }
+
+        this.purging = true;
+        try {
+            const retentionDays = this.trashRetentionDays;
+            const purged = await this.blogPostService.purgeTrash(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+
+            if (purged > 0) {
+                this.logger.log(`🗑️ Purged ${purged} post(s) trashed more than ${retentionDays} days ago`);
+            }
+        } catch (error) {
+            this.logger.error(`Error purging trashed posts: ${error.message}`, error.stack);
+        } finally {
+            this.purging = false;
+        }
+    }
+}
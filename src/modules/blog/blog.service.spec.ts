@@ -0,0 +1,243 @@
+import { BadRequestException, Logger } from "@nestjs/common";
+import { IsNull, LessThanOrEqual, MoreThan, Repository } from "typeorm";
+
+import { BlogPost } from "./blog.entity";
+import { BlogCategory } from "./blog-category.entity";
+import { BlogPostService, SCHEDULER } from "./blog.service";
+import { BlogPostRevisionService } from "./blog-revision.service";
+
+// Builds the service around a stubbed repository and revision service; the other dependencies stay empty
+const createBlogPostService = (repository: object, revisionService: object = {}) => new BlogPostService(
+    repository as Repository<BlogPost>,
+    revisionService as BlogPostRevisionService,
+    {} as never, {} as never, {} as never, {} as never,
+    {} as never, {} as never, {} as never, {} as never,
+);
+
+describe("BlogPostService", () => {
+    const now = new Date("2026-06-01T12:00:00Z");
+    const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+    const postId = "6b0e9f0c-6d7a-4b9e-9c1e-2f3a4b5c6d7e";
+    const otherPostId = "0f1e2d3c-4b5a-4978-8a6b-5c4d3e2f1a0b";
+    const editorId = "3c2b1a0f-9e8d-4c7b-a6f5-e4d3c2b1a0f9";
+
+    const createPost = (fields: Partial<BlogPost> = {}): BlogPost => Object.assign(new BlogPost(), {
+        id: postId,
+        title: "Hello",
+        content: "<p>Hello</p>",
+        content_format: "html",
+        is_published: false,
+        is_featured: false,
+        published_at: null,
+        scheduled_publish_at: null,
+        expires_at: null,
+        review_status: "draft",
+        review_requested_at: null,
+        categories: [],
+        ...fields,
+    });
+
+    const category = (slug: string, sort_order: number) => Object.assign(new BlogCategory(), { slug, sort_order });
+
+    describe("publicWhere", () => {
+        it("should only match published posts that are live and not expired", () => {
+            expect(BlogPostService.publicWhere({ slug: "hello" }, now)).toEqual([
+                { slug: "hello", is_published: true, published_at: LessThanOrEqual(now), expires_at: IsNull() },
+                { slug: "hello", is_published: true, published_at: LessThanOrEqual(now), expires_at: MoreThan(now) },
+            ]);
+        });
+
+        it("should not let the caller override the visibility conditions", () => {
+            for (const where of BlogPostService.publicWhere({ is_published: false }, now)) {
+                expect(where.is_published).toBe(true);
+            }
+        });
+    });
+
+    describe("validateSchedule", () => {
+        it("should accept a missing or consistent schedule", () => {
+            expect(() => BlogPostService.validateSchedule(undefined, undefined, now)).not.toThrow();
+            expect(() => BlogPostService.validateSchedule(null, hoursFromNow(1), now)).not.toThrow();
+            expect(() => BlogPostService.validateSchedule(hoursFromNow(1), hoursFromNow(2), now)).not.toThrow();
+        });
+
+        it("should reject an expiry date that has passed", () => {
+            expect(() => BlogPostService.validateSchedule(null, now, now)).toThrow(BadRequestException);
+            expect(() => BlogPostService.validateSchedule(null, hoursFromNow(-1), now)).toThrow(BadRequestException);
+        });
+
+        it("should reject an expiry date before the scheduled publish date", () => {
+            expect(() => BlogPostService.validateSchedule(hoursFromNow(2), hoursFromNow(2), now)).toThrow(BadRequestException);
+            expect(() => BlogPostService.validateSchedule(hoursFromNow(3), hoursFromNow(2), now)).toThrow(BadRequestException);
+        });
+    });
+
+    describe("scheduler", () => {
+        // Only the repository is used before the calls reach update, which the tests replace
+        const createService = (posts: Partial<BlogPost>[]) => {
+            const service = createBlogPostService({ find: jest.fn().mockResolvedValue(posts) });
+            const update = jest.spyOn(service, "update").mockResolvedValue({} as never);
+
+            return { service, update };
+        };
+
+        afterEach(() => jest.restoreAllMocks());
+
+        it("should publish a due post as of its scheduled time", async () => {
+            const scheduledAt = hoursFromNow(-1);
+            const { service, update } = createService([{ id: postId, scheduled_publish_at: scheduledAt, review_status: "approved" }]);
+
+            await expect(service.publishScheduledPosts()).resolves.toBe(1);
+            expect(update).toHaveBeenCalledWith(postId, { is_published: true, scheduled_publish_at: null, published_at: scheduledAt }, SCHEDULER);
+        });
+
+        it("should keep going when a post fails and only count the ones published", async () => {
+            const { service, update } = createService([
+                { id: postId, scheduled_publish_at: hoursFromNow(-2), review_status: "approved" },
+                { id: otherPostId, scheduled_publish_at: hoursFromNow(-1), review_status: "approved" },
+            ]);
+            update.mockRejectedValueOnce(new Error("Publishing requires an approved review"));
+            jest.spyOn(Logger.prototype, "error").mockImplementation(() => undefined);
+
+            await expect(service.publishScheduledPosts()).resolves.toBe(1);
+            expect(update).toHaveBeenCalledTimes(2);
+        });
+
+        it("should skip due posts whose review has not been approved", async () => {
+            const { service, update } = createService([
+                { id: postId, scheduled_publish_at: hoursFromNow(-1), review_status: "draft" },
+                { id: otherPostId, scheduled_publish_at: hoursFromNow(-1), review_status: "changes_requested" },
+            ]);
+            jest.spyOn(Logger.prototype, "warn").mockImplementation(() => undefined);
+
+            await expect(service.publishScheduledPosts()).resolves.toBe(0);
+            expect(update).not.toHaveBeenCalled();
+        });
+
+        it("should unpublish expired posts and clear their expiry", async () => {
+            const { service, update } = createService([{ id: postId }]);
+
+            await expect(service.unpublishExpiredPosts()).resolves.toBe(1);
+            expect(update).toHaveBeenCalledWith(postId, { is_published: false, expires_at: null }, SCHEDULER);
+        });
+    });
+
+    describe("update", () => {
+        beforeEach(() => jest.spyOn(Logger.prototype, "error").mockImplementation(() => undefined));
+        afterEach(() => jest.restoreAllMocks());
+
+        it("should refuse a scheduled publish date that has already passed", async () => {
+            const service = createBlogPostService({ findOne: jest.fn().mockResolvedValue(createPost()) });
+
+            await expect(service.update(postId, { scheduled_publish_at: new Date(Date.now() - 60000) }, editorId))
+                .rejects.toThrow("Scheduled publish date must be in the future");
+        });
+    });
+
+    describe("applyBulkAction", () => {
+        it("should report why an action does not apply", () => {
+            const published = () => createPost({ is_published: true, published_at: now, review_status: "published" });
+
+            expect(BlogPostService.applyBulkAction(published(), "publish", undefined, now, false)).toBe("Already published");
+            expect(BlogPostService.applyBulkAction(createPost({ review_status: "approved", expires_at: now }), "publish", undefined, now, false)).toBe("Expiry date has passed");
+            expect(BlogPostService.applyBulkAction(createPost(), "unpublish", undefined, now, false)).toBe("Not published");
+            expect(BlogPostService.applyBulkAction(createPost(), "feature", undefined, now, false)).toBe("Cannot feature an unpublished post");
+            expect(BlogPostService.applyBulkAction(createPost({ is_published: true, is_featured: true }), "feature", undefined, now, false)).toBe("Already featured");
+            expect(BlogPostService.applyBulkAction(published(), "unfeature", undefined, now, false)).toBe("Not featured");
+            expect(BlogPostService.applyBulkAction(createPost({ categories: [category("news", 1)] }), "set_categories", [category("news", 1)], now, false)).toBe("Categories unchanged");
+        });
+
+        it("should leave a skipped post untouched", () => {
+            const post = createPost({ review_status: "in_review" });
+
+            BlogPostService.applyBulkAction(post, "publish", undefined, now, false);
+            expect(post).toEqual(createPost({ review_status: "in_review" }));
+        });
+
+        it("should only publish approved posts unless review may be overridden", () => {
+            expect(BlogPostService.applyBulkAction(createPost({ review_status: "in_review" }), "publish", undefined, now, false)).toBe("Publishing requires an approved review");
+
+            const post = createPost({ review_status: "in_review", scheduled_publish_at: hoursFromNow(1) });
+            expect(BlogPostService.applyBulkAction(post, "publish", undefined, now, true)).toBeNull();
+            expect(post).toMatchObject({ is_published: true, published_at: now, scheduled_publish_at: null, review_status: "published" });
+        });
+
+        it("should only change the categories of a published post when review may be overridden", () => {
+            const published = () => createPost({ is_published: true, review_status: "published", categories: [category("news", 1)] });
+
+            expect(BlogPostService.applyBulkAction(published(), "set_categories", [category("events", 1)], now, false)).toBe("Changing a published post requires review");
+            expect(BlogPostService.applyBulkAction(published(), "set_categories", [category("events", 1)], now, true)).toBeNull();
+        });
+
+        it("should send approved drafts back to review when their categories change", () => {
+            const post = createPost({ review_status: "approved", scheduled_publish_at: hoursFromNow(1) });
+
+            expect(BlogPostService.applyBulkAction(post, "set_categories", [category("events", 1)], now, false)).toBeNull();
+            expect(post).toMatchObject({ review_status: "in_review", review_requested_at: now, scheduled_publish_at: null });
+        });
+
+        it("should clear the featured flag when unpublishing", () => {
+            const post = createPost({ is_published: true, is_featured: true, published_at: now, review_status: "published" });
+
+            expect(BlogPostService.applyBulkAction(post, "unpublish", undefined, now, false)).toBeNull();
+            expect(post).toMatchObject({ is_published: false, is_featured: false, published_at: null, review_status: "approved" });
+        });
+    });
+
+    describe("bulkUpdate", () => {
+        const createBulkService = (posts: BlogPost[]) => {
+            const manager = {
+                find: jest.fn().mockResolvedValue(posts),
+                save: jest.fn().mockImplementation((post: BlogPost) => Promise.resolve(post)),
+                softRemove: jest.fn().mockResolvedValue(undefined),
+            };
+            const revisionService = {
+                hasRevisions: jest.fn().mockResolvedValue(true),
+                snapshot: jest.fn().mockResolvedValue(undefined),
+            };
+            const repository = {
+                manager: { transaction: (work: (transactional: typeof manager) => Promise<void>) => work(manager) },
+            };
+
+            return { service: createBlogPostService(repository, revisionService), manager, revisionService };
+        };
+
+        beforeEach(() => jest.spyOn(Logger.prototype, "log").mockImplementation(() => undefined));
+        afterEach(() => jest.restoreAllMocks());
+
+        it("should record a revision for every post it saves", async () => {
+            const featured = createPost({ is_published: true, published_at: now, review_status: "published" });
+            const { service, revisionService } = createBulkService([featured, createPost({ id: otherPostId })]);
+
+            const report = await service.bulkUpdate({ action: "feature", ids: [postId, otherPostId] }, editorId);
+
+            expect(report).toMatchObject({ updated: 1, skipped: 1 });
+            expect(revisionService.snapshot).toHaveBeenCalledTimes(1);
+            expect(revisionService.snapshot).toHaveBeenCalledWith(featured, editorId, null, expect.anything());
+        });
+
+        it("should record the state of a post without history before changing it", async () => {
+            const post = createPost({ is_published: true, published_at: now, review_status: "published" });
+            const { service, revisionService } = createBulkService([post]);
+            revisionService.hasRevisions.mockResolvedValue(false);
+            const recorded: boolean[] = [];
+            revisionService.snapshot.mockImplementation((snapshotted: BlogPost) => {
+                recorded.push(snapshotted.is_published);
+                return Promise.resolve(undefined);
+            });
+
+            await service.bulkUpdate({ action: "unpublish", ids: [postId] }, editorId);
+
+            expect(recorded).toEqual([true, false]);
+        });
+
+        it("should not record a revision when trashing posts", async () => {
+            const { service, manager, revisionService } = createBulkService([createPost()]);
+
+            await service.bulkUpdate({ action: "delete", ids: [postId] }, editorId);
+
+            expect(manager.softRemove).toHaveBeenCalledTimes(1);
+            expect(revisionService.snapshot).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -1,26 +1,76 @@
-import { Repository, MoreThan, In } from 'typeorm';
+import { Repository, MoreThan, In, LessThanOrEqual, IsNull, FindOptionsWhere, SelectQueryBuilder, Brackets, Not } from 'typeorm';
+import { Subject } from 'rxjs';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from '@nestjs/common';
-
-import { BlogPost, BlogCategory } from './blog.entity';
-import { CreateBlogPostDTO, UpdateBlogPostDTO, BlogPostResponseDTO } from './blog.dto';
-
-export interface BlogPostQuery {
-    page?: number;
+import { Injectable, NotFoundException, BadRequestException, ConflictException, ForbiddenException, Logger, InternalServerErrorException } from '@nestjs/common';
+
+import { BlogPost } from './blog.entity';
+import { BlogTagService } from './blog-tag.service';
+import { BlogCategory } from './blog-category.entity';
+import { BlogCategoryService } from './blog-category.service';
+import { Media } from '../media/media.entity';
+import { MediaService } from '../media/media.service';
+import { AdministratorService } from '../admin/admin.service';
+import { BlogPostRevisionService } from './blog-revision.service';
+import { BlogAuthorService } from './blog-author.service';
+import { BlogPostAuthor, BlogAuthorProfile } from './blog-author.entity';
+import { POST_AUTHOR_RELATIONS } from './blog-author.util';
+import { buildTsQuery, SEARCH_CONFIG, SEARCH_HEADLINE_OPTIONS } from './blog-search.util';
+import { BLOG_SORTS, BlogSortField, SortDirection, clampPageSize, encodeCursor, decodeCursor } from './blog-pagination.util';
+import { renderContent } from './blog-content.util';
+import { ReviewStatus, isPublishable, touchesReviewedFields } from './blog-review.util';
+import { BlogRelatedService } from './blog-related.service';
+import { BlogPostTranslationService } from './blog-translation.service';
+import { BlogPostSlugHistoryService } from './blog-slug-history.service';
+import { DEFAULT_LOCALE, BlogLocale, LocalePreference, chooseLocale } from './blog-translation.util';
+import { extractKeywords, rankRelatedPosts, RelatedCandidate, RELATED_CANDIDATE_LIMIT, RELATED_DEFAULT_LIMIT, RELATED_MAX_LIMIT } from './blog-related.util';
+import { BulkBlogPostActionDTO, BulkAction, BlogPostBulkReportDTO, BlogPostBulkResultDTO, BULK_MAX_POSTS } from './blog-bulk.dto';
+import { CreateBlogPostDTO, UpdateBlogPostDTO, BlogPostResponseDTO, BlogSearchResultDTO, BlogPostSeriesNavigationDTO, BlogSeriesPartLinkDTO } from './blog.dto';
+
+// Relations served with a single post on its page, and with previews of drafts
+const POST_PAGE_RELATIONS = ['author', ...POST_AUTHOR_RELATIONS, 'featured_media', 'featured_media.variants', 'social_image_media', 'social_image_media.variants', 'categories', 'tags', 'series', 'series.cover_media', 'series.cover_media.variants'];
+
+// Passed instead of an administrator ID when BlogPostScheduler acts on dates an administrator already set
+export const SCHEDULER = Symbol('scheduler');
+export type PostEditor = string | typeof SCHEDULER;
+
+// What update accepts: the DTO, plus the nulls a revision restore uses to clear optional text and the
+// publish date the scheduler carries over from scheduled_publish_at
+export type BlogPostChanges = Omit<UpdateBlogPostDTO, 'excerpt' | 'featured_image'> & Partial<Pick<BlogPost, 'excerpt' | 'featured_image' | 'published_at'>>;
+
+export interface BlogListOptions {
+    cursor?: string;
     limit?: number;
+    sort?: BlogSortField;
+    direction?: SortDirection;
+}
+
+export interface BlogPostQuery extends BlogListOptions {
     search?: string;
     is_published?: boolean;
     is_featured?: boolean;
     author_id?: string;
-    categories?: BlogCategory[];
+    categories?: string[];
+    tags?: string[];
 }
 
-export interface PaginatedResult<T> {
+export interface CursorPage<T> {
     data: T[];
-    total: number;
-    page: number;
+    next_cursor: string | null;
+    has_more: boolean;
     limit: number;
-    totalPages: number;
+}
+
+// Columns paginate reads next to the entities; searches add their rank and snippet
+interface BlogPageRawRow {
+    sort_value: string;
+    rank?: string;
+    snippet?: string;
+}
+
+export interface BlogSitemapEntry {
+    slug: string;
+    updated_at: Date;
+    categories: string[];
 }
 
 export interface BlogStatistics {
@@ -30,16 +80,29 @@ export interface BlogStatistics {
     featured: number;
     recently_published: number;
     total_views: number;
-    by_category: Record<BlogCategory, number>;
+    by_category: Record<string, number>;
+    by_tag: Record<string, number>;
 }
 
 @Injectable()
 export class BlogPostService {
     private readonly logger = new Logger(BlogPostService.name);
 
+    // Emits whenever a change may have altered the set of public posts, so caches built from them can reset
+    readonly publicPostsChanged = new Subject<void>();
+
     constructor(
         @InjectRepository(BlogPost)
         private readonly blogPostRepository: Repository<BlogPost>,
+        private readonly revisionService: BlogPostRevisionService,
+        private readonly tagService: BlogTagService,
+        private readonly categoryService: BlogCategoryService,
+        private readonly mediaService: MediaService,
+        private readonly relatedService: BlogRelatedService,
+        private readonly translationService: BlogPostTranslationService,
+        private readonly slugHistoryService: BlogPostSlugHistoryService,
+        private readonly administratorService: AdministratorService,
+        private readonly authorService: BlogAuthorService,
     ) {}
 
     private async generateUniqueSlug(title: string, excludeId?: string): Promise<string> {
@@ -60,10 +123,12 @@ export class BlogPostService {
         }
     }
 
-    private async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+    async isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
         try {
             const queryBuilder = this.blogPostRepository
                 .createQueryBuilder('post')
+                // Trashed posts keep their slug, so they can be restored without a conflict
+                .withDeleted()
                 .where('post.slug = :slug', { slug });
 
             if (excludeId) {
@@ -71,7 +136,10 @@ export class BlogPostService {
             }
 
             const existingPost = await queryBuilder.getOne();
-            return !!existingPost;
+            // Slugs of other posts' history stay reserved so their old links keep redirecting
+            return !!existingPost
+                || await this.translationService.isSlugTaken(slug)
+                || await this.slugHistoryService.isSlugTaken(slug, excludeId);
         } catch (error) {
             this.logger.error(`Error checking slug availability: ${error.message}`, error.stack);
             return false;
@@ -89,66 +157,353 @@ export class BlogPostService {
         }
     }
 
-    private validateCategories(categories: BlogCategory[]): BlogCategory[] {
-        if (!categories || !Array.isArray(categories) || categories.length === 0) {
-            return [BlogCategory.NEWSROOM];
+    // A post is public only once published_at has passed and until expires_at, so nothing leaks
+    // ahead of its schedule even if BlogPostScheduler has not run yet
+    static publicWhere(where: FindOptionsWhere<BlogPost> = {}, now: Date = new Date()): FindOptionsWhere<BlogPost>[] {
+        return [
+            { ...where, is_published: true, published_at: LessThanOrEqual(now), expires_at: IsNull() },
+            { ...where, is_published: true, published_at: LessThanOrEqual(now), expires_at: MoreThan(now) },
+        ];
+    }
+
+    private applyPublicVisibility(queryBuilder: SelectQueryBuilder<BlogPost>): SelectQueryBuilder<BlogPost> {
+        const now = new Date();
+
+        return queryBuilder
+            .andWhere('post.is_published = :is_published', { is_published: true })
+            .andWhere('post.published_at <= :now', { now })
+            .andWhere('(post.expires_at IS NULL OR post.expires_at > :now)', { now });
+    }
+
+    // Admin listing filters; returns the search query when a search term was given, for relevance sorting
+    private applyQueryFilters(queryBuilder: SelectQueryBuilder<BlogPost>, query: BlogPostQuery): string | null {
+        const { search, is_published, is_featured, categories, tags, author_id } = query;
+
+        // Apply full-text search filter; results default to most relevant first
+        const tsQuery = search ? buildTsQuery(search) : null;
+        if (tsQuery) {
+            this.applySearch(queryBuilder, tsQuery);
+        }
+
+        // Apply status filters
+        if (is_published !== undefined) {
+            queryBuilder.andWhere('post.is_published = :is_published', { is_published });
+        }
+
+        if (is_featured !== undefined) {
+            queryBuilder.andWhere('post.is_featured = :is_featured', { is_featured });
+        }
+
+        if (author_id) {
+            this.validateAuthor(author_id);
+            queryBuilder.andWhere('post.author_id = :author_id', { author_id });
+        }
+
+        // Apply category filter - posts in any of the given categories
+        if (categories && categories.length > 0) {
+            this.logger.log(`🔍 Filtering by categories: ${categories.join(', ')}`);
+
+            queryBuilder.andWhere(
+                `EXISTS (SELECT 1 FROM blog_post_categories bpc INNER JOIN blog_categories c ON c.id = bpc.category_id WHERE bpc.post_id = post.id AND c.slug IN (:...categorySlugs))`,
+                { categorySlugs: categories.map(category => category.trim().toLowerCase()) }
+            );
+        }
+
+        // Apply tag filter - posts carrying any of the given tags
+        if (tags && tags.length > 0) {
+            queryBuilder.andWhere(
+                `EXISTS (SELECT 1 FROM blog_post_tags bpt INNER JOIN blog_tags t ON t.id = bpt.tag_id WHERE bpt.post_id = post.id AND t.slug IN (:...tagSlugs))`,
+                { tagSlugs: tags.map(tag => tag.trim().toLowerCase()) }
+            );
+        }
+
+        return tsQuery;
+    }
+
+    private applySearch(queryBuilder: SelectQueryBuilder<BlogPost>, tsQuery: string): SelectQueryBuilder<BlogPost> {
+        return queryBuilder
+            .addSelect(`ts_rank_cd(post.search_vector, to_tsquery('${SEARCH_CONFIG}', :tsQuery))`, 'rank')
+            .andWhere(`post.search_vector @@ to_tsquery('${SEARCH_CONFIG}', :tsQuery)`, { tsQuery });
+    }
+
+    // Categories, tags, bylines and image variants are loaded separately so paginated queries keep one row per post
+    private async attachRelations(posts: BlogPost[]): Promise<BlogPost[]> {
+        if (posts.length === 0) {
+            return posts;
+        }
+
+        const withRelations = await this.blogPostRepository
+            .createQueryBuilder('post')
+            .leftJoinAndSelect('post.categories', 'category')
+            .leftJoinAndSelect('post.tags', 'tag')
+            .select(['post.id', 'category.id', 'category.name', 'category.slug', 'category.sort_order', 'tag.id', 'tag.name', 'tag.slug'])
+            .where('post.id IN (:...ids)', { ids: posts.map(post => post.id) })
+            .getMany();
+
+        const bylines = await this.blogPostRepository.manager.find(BlogPostAuthor, {
+            where: { post_id: In(posts.map(post => post.id)) },
+            relations: ['profile', 'profile.avatar_media'],
+        });
+
+        const relationsByPost = new Map(withRelations.map(post => [post.id, post]));
+        posts.forEach(post => {
+            post.categories = relationsByPost.get(post.id)?.categories || [];
+            post.tags = relationsByPost.get(post.id)?.tags || [];
+            post.authors = bylines.filter(byline => byline.post_id === post.id);
+        });
+
+        await this.mediaService.attachVariants([
+            ...posts.map(post => post.featured_media),
+            ...bylines.map(byline => byline.profile?.avatar_media),
+        ].filter((media): media is Media => !!media));
+
+        return posts;
+    }
+
+    // Previous/next links only count published parts, so drafts never leave gaps in the numbering
+    private async buildSeriesNavigation(post: BlogPost): Promise<BlogPostSeriesNavigationDTO | null> {
+        if (!post.series) {
+            return null;
+        }
+
+        const parts = await this.applyPublicVisibility(this.blogPostRepository.createQueryBuilder('post'))
+            .select(['post.id', 'post.title', 'post.slug'])
+            .andWhere('post.series_id = :series_id', { series_id: post.series.id })
+            .orderBy('post.series_position', 'ASC', 'NULLS LAST')
+            .addOrderBy('post.published_at', 'ASC')
+            .getMany();
+
+        const links: BlogSeriesPartLinkDTO[] = parts.map((part, index) => ({
+            id: part.id,
+            title: part.title,
+            slug: part.slug,
+            position: index + 1,
+        }));
+        const index = links.findIndex(link => link.id === post.id);
+
+        return {
+            id: post.series.id,
+            title: post.series.title,
+            slug: post.series.slug,
+            description: post.series.description,
+            cover_media: post.series.cover_media ? post.series.cover_media.toResponseObject() : null,
+            position: index + 1,
+            total_parts: links.length,
+            previous: index > 0 ? links[index - 1] : null,
+            next: index >= 0 && index < links.length - 1 ? links[index + 1] : null,
+        };
+    }
+
+    /**
+     * Keyset pagination shared by every listing: orders by the requested sort plus post.id as a
+     * tie-breaker and continues strictly after the cursor, so pages stay stable while posts are added.
+     * Only many-to-one joins may be selected on the query builder, so raw rows line up with entities.
+     */
+    private async paginate(
+        queryBuilder: SelectQueryBuilder<BlogPost>,
+        options: BlogListOptions,
+        defaultSort: BlogSortField,
+        hasSearch: boolean = false,
+    ): Promise<{ posts: BlogPost[]; raw: BlogPageRawRow[]; next_cursor: string | null; has_more: boolean; limit: number }> {
+        const sort = options.sort || defaultSort;
+        if (sort === 'relevance' && !hasSearch) {
+            throw new BadRequestException('Sorting by relevance requires a search query');
+        }
+
+        const definition = BLOG_SORTS[sort];
+        const direction = options.direction || definition.default_direction;
+        const order = direction === 'asc' ? 'ASC' : 'DESC';
+        const limit = clampPageSize(options.limit);
+
+        if (options.cursor) {
+            const cursor = decodeCursor(options.cursor);
+            if (!cursor) {
+                throw new BadRequestException('Invalid cursor');
+            }
+            if (cursor.sort !== sort || cursor.direction !== direction) {
+                throw new BadRequestException('Cursor was issued for a different sort order');
+            }
+
+            const operator = direction === 'asc' ? '>' : '<';
+            const value = `CAST(:cursorValue AS ${definition.type})`;
+            queryBuilder.andWhere(
+                `(${definition.expression} ${operator} ${value} OR (${definition.expression} = ${value} AND post.id ${operator} :cursorId))`,
+                { cursorValue: cursor.value, cursorId: cursor.id }
+            );
+        }
+
+        queryBuilder
+            .addSelect(`(${definition.expression})::text`, 'sort_value')
+            .orderBy(definition.expression, order)
+            .addOrderBy('post.id', order)
+            .limit(limit + 1);
+
+        const { entities, raw } = await queryBuilder.getRawAndEntities<BlogPageRawRow>();
+        const has_more = entities.length > limit;
+        const posts = await this.attachRelations(entities.slice(0, limit));
+        const last = posts[posts.length - 1];
+
+        return {
+            posts,
+            raw: raw.slice(0, limit),
+            has_more,
+            limit,
+            next_cursor: has_more && last
+                ? encodeCursor({ sort, direction, value: raw[posts.length - 1].sort_value, id: last.id })
+                : null,
+        };
+    }
+
+    private async validateMedia(media_id: string | null | undefined, label: string): Promise<void> {
+        if (!media_id) {
+            return;
+        }
+
+        try {
+            await this.mediaService.findEntity(media_id);
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw new BadRequestException(`${label} ${media_id} does not exist`);
+            }
+            throw error;
+        }
+    }
+
+    // The administrator behind a change, or null for the scheduler; changes made by nobody are refused
+    private editorId(editor: PostEditor): string | null {
+        if (editor === SCHEDULER) {
+            return null;
         }
 
-        const validCategories = Object.values(BlogCategory);
-        const uniqueCategories = [...new Set(categories)].filter(category => 
-            validCategories.includes(category)
-        );
+        if (!editor) {
+            throw new BadRequestException('Administrator ID is required');
+        }
 
-        return uniqueCategories.length > 0 ? uniqueCategories : [BlogCategory.NEWSROOM];
+        return editor;
     }
 
-    async create(createBlogPostDTO: CreateBlogPostDTO, author_id: string): Promise<BlogPostResponseDTO> {
+    // The scheduler only carries out decisions that already passed the review checks
+    private async mayOverrideReview(editor: PostEditor): Promise<boolean> {
+        return editor === SCHEDULER || (!!editor && await this.administratorService.canOverrideReview(editor));
+    }
+
+    // Publishing, now or on a schedule, needs an approved review unless the administrator may override it
+    private async validatePublishable(status: ReviewStatus, editor: PostEditor): Promise<void> {
+        if (!isPublishable(status) && !(await this.mayOverrideReview(editor))) {
+            throw new ForbiddenException('Publishing requires an approved review');
+        }
+    }
+
+    static validateSchedule(scheduled_publish_at: Date | null | undefined, expires_at: Date | null | undefined, now: Date = new Date()): void {
+        if (expires_at && expires_at <= now) {
+            throw new BadRequestException('Expiry date must be in the future');
+        }
+
+        if (scheduled_publish_at && expires_at && expires_at <= scheduled_publish_at) {
+            throw new BadRequestException('Expiry date must be after the scheduled publish date');
+        }
+    }
+
+    // `actor_id` is who publishes the post when it differs from its author, as in imports
+    async create(createBlogPostDTO: CreateBlogPostDTO, author_id: string, actor_id: string = author_id): Promise<BlogPostResponseDTO> {
         try {
             this.validateAuthor(author_id);
+            this.editorId(actor_id);
 
             const { 
                 title, 
+                slug: customSlug,
+                slug_locked,
                 content, 
+                content_format,
                 excerpt, 
                 featured_image, 
-                uploaded_image,
-                uploaded_image_filename,
-                uploaded_image_content_type,
+                featured_media_id,
+                meta_title,
+                meta_description,
+                canonical_url,
+                noindex,
+                social_image_media_id,
                 is_published, 
                 is_featured,
-                categories 
+                comments_enabled,
+                categories,
+                tags,
+                authors,
+                scheduled_publish_at,
+                expires_at
             } = createBlogPostDTO;
 
-            const slug = await this.generateUniqueSlug(title);
-            const validatedCategories = this.validateCategories(categories || [BlogCategory.NEWSROOM]);
+            BlogPostService.validateSchedule(scheduled_publish_at, expires_at);
+            await this.validateMedia(featured_media_id, 'Featured media');
+            await this.validateMedia(social_image_media_id, 'Social image media');
+
+            // A future publish time keeps the post as a draft until the scheduler publishes it
+            const isScheduled = !!scheduled_publish_at && scheduled_publish_at > new Date();
+            const publishNow = !isScheduled && (is_published || false);
+            if (publishNow || isScheduled) {
+                await this.validatePublishable('draft', actor_id);
+            }
+
+            if (customSlug && await this.isSlugTaken(customSlug)) {
+                throw new ConflictException(`Slug "${customSlug}" is already in use`);
+            }
+            const slug = customSlug || await this.generateUniqueSlug(title);
+            const format = content_format || 'html';
+            const rendered = renderContent(content.trim(), format);
+            const validatedCategories = await this.categoryService.resolveCategories(categories);
+            // Without an explicit byline the post is credited to its author's own profile
+            const byline = authors
+                ? await this.authorService.resolveAuthors(authors)
+                : [await this.authorService.profileFor(author_id)];
 
-            this.logger.log(`🚀 Creating blog post with categories: ${validatedCategories.join(', ')}`);
+            this.logger.log(`🚀 Creating blog post with categories: ${BlogPost.categorySlugs(validatedCategories).join(', ')}`);
 
             const blogPost = this.blogPostRepository.create({
                 title: title.trim(),
                 slug,
-                content: content.trim(),
+                slug_locked: slug_locked || false,
+                content: rendered.content,
+                content_format: format,
+                content_html: rendered.content_html,
                 excerpt: excerpt?.trim() || null,
                 featured_image: featured_image || null,
-                uploaded_image: uploaded_image || null,
-                uploaded_image_filename: uploaded_image_filename || null,
-                uploaded_image_content_type: uploaded_image_content_type || null,
-                is_published: is_published || false,
+                featured_media_id: featured_media_id || null,
+                meta_title: meta_title || null,
+                meta_description: meta_description || null,
+                canonical_url: canonical_url || null,
+                noindex: noindex || false,
+                social_image_media_id: social_image_media_id || null,
+                is_published: publishNow,
                 is_featured: is_featured || false,
+                comments_enabled: comments_enabled ?? true,
                 view_count: 0,
                 categories: validatedCategories,
                 author_id: author_id,
-                published_at: is_published ? new Date() : null,
+                published_at: publishNow ? new Date() : null,
+                scheduled_publish_at: isScheduled ? scheduled_publish_at : null,
+                expires_at: expires_at || null,
+                review_status: publishNow ? 'published' : isScheduled ? 'approved' : 'draft',
+                tags: tags ? await this.tagService.resolveTags(tags) : [],
             });
 
-            const savedPost = await this.blogPostRepository.save(blogPost);
-            this.logger.log(`✅ Blog post created with ID: ${savedPost.id}, categories: ${savedPost.categories.join(', ')}`);
+            const savedPost = await this.blogPostRepository.manager.transaction(async manager => {
+                const saved = await manager.save(blogPost);
+                await this.authorService.setByline(saved.id, byline, manager);
+                await this.revisionService.snapshot(saved, author_id, null, manager);
+                return saved;
+            });
+            this.logger.log(`✅ Blog post created with ID: ${savedPost.id}, categories: ${BlogPost.categorySlugs(savedPost.categories).join(', ')}`);
+
+            if (savedPost.is_published) {
+                this.publicPostsChanged.next();
+            }
 
             return await this.findOne(savedPost.id);
         } catch (error) {
             this.logger.error(`❌ Error creating blog post: ${error.message}`, error.stack);
 
-            if (error instanceof BadRequestException || error instanceof ConflictException) {
+            if (error instanceof BadRequestException || error instanceof ConflictException || error instanceof ForbiddenException) {
                 throw error;
             }
 
@@ -156,170 +511,179 @@ export class BlogPostService {
         }
     }
 
-    async findAll(query: BlogPostQuery = {}): Promise<PaginatedResult<BlogPostResponseDTO>> {
+    async findAll(query: BlogPostQuery = {}): Promise<CursorPage<BlogPostResponseDTO> & { total: number }> {
         try {
-            const { page = 1, limit = 10, search, is_published, is_featured, categories, author_id } = query;
-            const skip = (page - 1) * limit;
-
             const queryBuilder = this.blogPostRepository
                 .createQueryBuilder('post')
                 .leftJoinAndSelect('post.author', 'author')
-                .orderBy('post.created_at', 'DESC');
+                .leftJoinAndSelect('post.featured_media', 'featured_media');
+            const tsQuery = this.applyQueryFilters(queryBuilder, query);
 
-            // Apply search filter
-            if (search && search.trim()) {
-                queryBuilder.andWhere(
-                    '(post.title ILIKE :search OR post.content ILIKE :search OR post.excerpt ILIKE :search)',
-                    { search: `%${search.trim()}%` }
-                );
-            }
+            // Counted before the cursor condition so the total covers every page
+            const total = await queryBuilder.getCount();
+            const page = await this.paginate(queryBuilder, query, tsQuery ? 'relevance' : 'created_at', !!tsQuery);
 
-            // Apply status filters
-            if (is_published !== undefined) {
-                queryBuilder.andWhere('post.is_published = :is_published', { is_published });
-            }
+            return {
+                data: page.posts.map(post => post.toResponseObject() as BlogPostResponseDTO),
+                next_cursor: page.next_cursor,
+                has_more: page.has_more,
+                limit: page.limit,
+                total,
+            };
+        } catch (error) {
+            this.logger.error(`Error finding blog posts: ${error.message}`, error.stack);
 
-            if (is_featured !== undefined) {
-                queryBuilder.andWhere('post.is_featured = :is_featured', { is_featured });
+            if (error instanceof BadRequestException) {
+                throw error;
             }
 
-            if (author_id) {
-                this.validateAuthor(author_id);
-                queryBuilder.andWhere('post.author_id = :author_id', { author_id });
+            throw new InternalServerErrorException('Failed to retrieve blog posts');
+        }
+    }
+
+    async findByCategory(category: string, options: BlogListOptions = {}, published: boolean = true, locale: BlogLocale = DEFAULT_LOCALE): Promise<CursorPage<BlogPostResponseDTO>> {
+        try {
+            const blogCategory = await this.categoryService.findActiveBySlug(category);
+            if (!blogCategory) {
+                throw new BadRequestException('Invalid category');
             }
 
-            // Apply category filter using LIKE with JSON text
-            if (categories && categories.length > 0) {
-                const validCategories = this.validateCategories(categories);
-                this.logger.log(`🔍 Filtering by categories: ${validCategories.join(', ')}`);
-                
-                // Build OR conditions for each category using LIKE
-                const categoryConditions = validCategories.map((cat, index) => 
-                    `post.categories::text LIKE :categoryPattern${index}`
-                ).join(' OR ');
-                
-                const categoryParams = validCategories.reduce((params, category, index) => {
-                    params[`categoryPattern${index}`] = `%"${category}"%`;
-                    return params;
-                }, {} as Record<string, string>);
+            this.logger.log(`🔍 Finding posts by category: ${blogCategory.slug}, published: ${published}`);
 
-                queryBuilder.andWhere(`(${categoryConditions})`, categoryParams);
+            const queryBuilder = this.blogPostRepository
+                .createQueryBuilder('post')
+                .leftJoinAndSelect('post.author', 'author')
+                .leftJoinAndSelect('post.featured_media', 'featured_media')
+                .where('EXISTS (SELECT 1 FROM blog_post_categories bpc WHERE bpc.post_id = post.id AND bpc.category_id = :category_id)', { category_id: blogCategory.id });
+
+            if (published) {
+                this.applyPublicVisibility(queryBuilder);
             }
 
-            const total = await queryBuilder.getCount();
-            const posts = await queryBuilder.skip(skip).take(limit).getMany();
+            const page = await this.paginate(queryBuilder, options, 'published_at');
 
-            const data = posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+            this.logger.log(`✅ Final result: ${page.posts.length} posts for category ${blogCategory.slug}`);
 
             return {
-                data,
-                total,
-                page,
-                limit,
-                totalPages: Math.ceil(total / limit),
+                data: await this.translationService.localize(page.posts.map(post => post.toPublicObject() as BlogPostResponseDTO), locale),
+                next_cursor: page.next_cursor,
+                has_more: page.has_more,
+                limit: page.limit,
             };
         } catch (error) {
-            this.logger.error(`Error finding blog posts: ${error.message}`, error.stack);
+            this.logger.error(`❌ Error finding posts by category: ${error.message}`, error.stack);
 
             if (error instanceof BadRequestException) {
                 throw error;
             }
 
-            throw new InternalServerErrorException('Failed to retrieve blog posts');
+            // Return an empty page instead of throwing to prevent breaking the UI
+            this.logger.warn(`Returning empty page for category ${category} due to error`);
+            return { data: [], next_cursor: null, has_more: false, limit: clampPageSize(options.limit) };
         }
     }
 
-    async findByCategory(category: BlogCategory, published: boolean = true): Promise<BlogPostResponseDTO[]> {
+    async findByTag(slug: string, options: BlogListOptions = {}, locale: BlogLocale = DEFAULT_LOCALE): Promise<{ tag: { id: string; name: string; slug: string }; page: CursorPage<BlogPostResponseDTO> }> {
         try {
-            if (!Object.values(BlogCategory).includes(category)) {
-                throw new BadRequestException('Invalid category');
-            }
-
-            this.logger.log(`🔍 Finding posts by category: ${category}, published: ${published}`);
+            const tag = await this.tagService.findBySlug(slug);
 
             const queryBuilder = this.blogPostRepository
                 .createQueryBuilder('post')
                 .leftJoinAndSelect('post.author', 'author')
-                .orderBy('post.published_at', 'DESC');
+                .leftJoinAndSelect('post.featured_media', 'featured_media')
+                .where('EXISTS (SELECT 1 FROM blog_post_tags bpt WHERE bpt.post_id = post.id AND bpt.tag_id = :tag_id)', { tag_id: tag.id });
 
-            if (published) {
-                queryBuilder.andWhere('post.is_published = :is_published', { is_published: true });
-            }
+            const page = await this.paginate(this.applyPublicVisibility(queryBuilder), options, 'published_at');
 
-            // WORKING SOLUTION: Use LIKE with JSON text representation
-            // This works reliably across all PostgreSQL versions
-            queryBuilder.andWhere(
-                'post.categories::text LIKE :categoryPattern',
-                { categoryPattern: `%"${category}"%` }
-            );
+            return {
+                tag: tag.toResponseObject(),
+                page: {
+                    data: await this.translationService.localize(page.posts.map(post => post.toPublicObject() as BlogPostResponseDTO), locale),
+                    next_cursor: page.next_cursor,
+                    has_more: page.has_more,
+                    limit: page.limit,
+                },
+            };
+        } catch (error) {
+            this.logger.error(`Error finding posts by tag: ${error.message}`, error.stack);
 
-            const posts = await queryBuilder.getMany();
-            
-            this.logger.log(`📊 Database query returned ${posts.length} posts for category ${category}`);
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
 
-            // Additional application-level filtering for extra safety
-            const filteredPosts = posts.filter(post => {
-                if (!post.categories) {
-                    this.logger.warn(`⚠️ Post ${post.id} has no categories`);
-                    return false;
-                }
+            throw new InternalServerErrorException('Failed to retrieve blog posts');
+        }
+    }
 
-                // Categories should be an array from PostgreSQL JSON column
-                const postCategories = Array.isArray(post.categories) 
-                    ? post.categories 
-                    : [post.categories].filter(Boolean);
+    // Public author page: published posts crediting the profile anywhere in their byline
+    async findByAuthorProfile(slug: string, options: BlogListOptions = {}, locale: BlogLocale = DEFAULT_LOCALE): Promise<{ author: ReturnType<BlogAuthorProfile['toPublicObject']>; page: CursorPage<BlogPostResponseDTO> }> {
+        try {
+            const profile = await this.authorService.findBySlug(slug);
 
-                const hasCategory = postCategories.includes(category);
-                
-                this.logger.debug(`📝 Post ${post.id} "${post.title}": categories=[${postCategories.join(', ')}], has ${category}: ${hasCategory}`);
-                
-                return hasCategory;
-            });
+            const queryBuilder = this.blogPostRepository
+                .createQueryBuilder('post')
+                .leftJoinAndSelect('post.author', 'author')
+                .leftJoinAndSelect('post.featured_media', 'featured_media')
+                .where('EXISTS (SELECT 1 FROM blog_post_authors bpa WHERE bpa.post_id = post.id AND bpa.profile_id = :profile_id)', { profile_id: profile.id });
+
+            const page = await this.paginate(this.applyPublicVisibility(queryBuilder), options, 'published_at');
 
-            this.logger.log(`✅ Final result: ${filteredPosts.length} posts for category ${category}`);
-            
-            return filteredPosts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+            return {
+                author: profile.toPublicObject(),
+                page: {
+                    data: await this.translationService.localize(page.posts.map(post => post.toPublicObject() as BlogPostResponseDTO), locale),
+                    next_cursor: page.next_cursor,
+                    has_more: page.has_more,
+                    limit: page.limit,
+                },
+            };
         } catch (error) {
-            this.logger.error(`❌ Error finding posts by category: ${error.message}`, error.stack);
+            this.logger.error(`Error finding posts by author: ${error.message}`, error.stack);
 
-            if (error instanceof BadRequestException) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
                 throw error;
             }
 
-            // Return empty array instead of throwing to prevent breaking the UI
-            this.logger.warn(`Returning empty array for category ${category} due to error`);
-            return [];
+            throw new InternalServerErrorException('Failed to retrieve blog posts');
         }
     }
 
-    async findPublished(): Promise<BlogPostResponseDTO[]> {
+    async findPublished(options: BlogListOptions = {}, locale: BlogLocale = DEFAULT_LOCALE): Promise<CursorPage<BlogPostResponseDTO>> {
         try {
-            const posts = await this.blogPostRepository.find({
-                where: { is_published: true },
-                relations: ['author'],
-                order: { published_at: 'DESC' },
-            });
+            const queryBuilder = this.blogPostRepository
+                .createQueryBuilder('post')
+                .leftJoinAndSelect('post.author', 'author')
+                .leftJoinAndSelect('post.featured_media', 'featured_media');
 
-            return posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+            const page = await this.paginate(this.applyPublicVisibility(queryBuilder), options, 'published_at');
+
+            return {
+                data: await this.translationService.localize(page.posts.map(post => post.toPublicObject() as BlogPostResponseDTO), locale),
+                next_cursor: page.next_cursor,
+                has_more: page.has_more,
+                limit: page.limit,
+            };
         } catch (error) {
             this.logger.error(`Error finding published posts: ${error.message}`, error.stack);
-            return [];
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            return { data: [], next_cursor: null, has_more: false, limit: clampPageSize(options.limit) };
         }
     }
 
     async findFeatured(limit: number = 3): Promise<BlogPostResponseDTO[]> {
         try {
             const posts = await this.blogPostRepository.find({
-                where: {
-                    is_published: true,
-                    is_featured: true
-                },
-                relations: ['author'],
+                where: BlogPostService.publicWhere({ is_featured: true }),
+                relations: ['author', ...POST_AUTHOR_RELATIONS, 'featured_media', 'featured_media.variants', 'categories', 'tags'],
                 order: { published_at: 'DESC' },
                 take: Math.max(1, Math.min(limit, 50)), // Constrain between 1 and 50
             });
 
-            return posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+            return posts.map(post => post.toPublicObject() as BlogPostResponseDTO);
         } catch (error) {
             this.logger.error(`Error finding featured posts: ${error.message}`, error.stack);
             return [];
@@ -329,26 +693,172 @@ export class BlogPostService {
     async findRecent(limit: number = 5): Promise<BlogPostResponseDTO[]> {
         try {
             const posts = await this.blogPostRepository.find({
-                where: { is_published: true },
-                relations: ['author'],
+                where: BlogPostService.publicWhere(),
+                relations: ['author', ...POST_AUTHOR_RELATIONS, 'featured_media', 'featured_media.variants', 'categories', 'tags'],
                 order: { published_at: 'DESC' },
                 take: Math.max(1, Math.min(limit, 50)), // Constrain between 1 and 50
             });
 
-            return posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+            return posts.map(post => post.toPublicObject() as BlogPostResponseDTO);
         } catch (error) {
             this.logger.error(`Error finding recent posts: ${error.message}`, error.stack);
             return [];
         }
     }
 
+    /**
+     * Posts to recommend below an article: editor pins first, then other public posts scored
+     * by shared categories, keyword overlap with the article and recency (see blog-related.util).
+     * Tops up with the most recent posts so the list is only short when the blog is.
+     */
+    async findRelated(slug: string, limit: number = RELATED_DEFAULT_LIMIT): Promise<BlogPostResponseDTO[]> {
+        try {
+            if (!slug || typeof slug !== 'string' || slug.trim().length === 0) {
+                throw new BadRequestException('Valid slug is required');
+            }
+
+            const safeLimit = Math.max(1, Math.min(limit || RELATED_DEFAULT_LIMIT, RELATED_MAX_LIMIT));
+
+            const post = await this.blogPostRepository.findOne({
+                where: BlogPostService.publicWhere({ slug: slug.trim() }),
+                relations: ['categories'],
+            });
+
+            if (!post) {
+                throw new NotFoundException(`Published blog post with slug "${slug}" not found`);
+            }
+
+            const relations = ['author', ...POST_AUTHOR_RELATIONS, 'featured_media', 'featured_media.variants', 'categories', 'tags'];
+
+            // Pins to drafts or expired posts are skipped until they are public again
+            const pinnedIds = await this.relatedService.getPinnedIds(post.id);
+            const pinned = pinnedIds.length > 0
+                ? await this.blogPostRepository.find({ where: BlogPostService.publicWhere({ id: In(pinnedIds) }), relations })
+                : [];
+            const pinnedById = new Map(pinned.map(item => [item.id, item]));
+            const related = pinnedIds
+                .map(id => pinnedById.get(id))
+                .filter((item): item is BlogPost => !!item)
+                .slice(0, safeLimit);
+
+            const excluded = [post.id, ...related.map(item => item.id)];
+
+            if (related.length < safeLimit) {
+                const categoryIds = (post.categories || []).map(category => category.id);
+                const keywords = extractKeywords(post.title, post.content_html);
+                const tsQuery = keywords.length > 0 ? keywords.join(' | ') : null;
+
+                if (categoryIds.length > 0 || tsQuery) {
+                    const queryBuilder = this.applyPublicVisibility(this.blogPostRepository.createQueryBuilder('post'))
+                        .select('post.id', 'id')
+                        .addSelect('post.published_at', 'published_at')
+                        .addSelect(
+                            categoryIds.length > 0
+                                ? '(SELECT COUNT(*) FROM blog_post_categories pc WHERE pc.post_id = post.id AND pc.category_id IN (:...categoryIds))'
+                                : '0',
+                            'shared_categories'
+                        )
+                        // Normalisation 32 scales the rank into 0..1
+                        .addSelect(tsQuery ? `ts_rank(post.search_vector, to_tsquery('${SEARCH_CONFIG}', :tsQuery), 32)` : '0', 'keyword_rank')
+                        .andWhere('post.id NOT IN (:...excluded)', { excluded })
+                        .andWhere(new Brackets(where => {
+                            if (categoryIds.length > 0) {
+                                where.orWhere('EXISTS (SELECT 1 FROM blog_post_categories pc WHERE pc.post_id = post.id AND pc.category_id IN (:...categoryIds))');
+                            }
+                            if (tsQuery) {
+                                where.orWhere(`post.search_vector @@ to_tsquery('${SEARCH_CONFIG}', :tsQuery)`);
+                            }
+                        }))
+                        .setParameters({ categoryIds, tsQuery })
+                        .orderBy('post.published_at', 'DESC')
+                        .limit(RELATED_CANDIDATE_LIMIT);
+
+                    const rows: { id: string; published_at: Date | null; shared_categories: string; keyword_rank: string }[] = await queryBuilder.getRawMany();
+                    const candidates: RelatedCandidate[] = rows.map(row => ({
+                        id: row.id,
+                        published_at: row.published_at ? new Date(row.published_at) : null,
+                        shared_categories: parseInt(row.shared_categories, 10) || 0,
+                        keyword_rank: parseFloat(row.keyword_rank) || 0,
+                    }));
+
+                    const rankedIds = rankRelatedPosts(candidates).slice(0, safeLimit - related.length);
+                    if (rankedIds.length > 0) {
+                        const scored = await this.blogPostRepository.find({ where: { id: In(rankedIds) }, relations });
+                        const scoredById = new Map(scored.map(item => [item.id, item]));
+                        rankedIds.forEach(id => {
+                            const item = scoredById.get(id);
+                            if (item) {
+                                related.push(item);
+                                excluded.push(id);
+                            }
+                        });
+                    }
+                }
+            }
+
+            if (related.length < safeLimit) {
+                const recent = await this.blogPostRepository.find({
+                    where: BlogPostService.publicWhere({ id: Not(In(excluded)) }),
+                    relations,
+                    order: { published_at: 'DESC' },
+                    take: safeLimit - related.length,
+                });
+                related.push(...recent);
+            }
+
+            return related.map(item => item.toPublicObject() as BlogPostResponseDTO);
+        } catch (error) {
+            this.logger.error(`Error finding related posts: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('Failed to retrieve related posts');
+        }
+    }
+
+    // Published parts of a series in reading order
+    async findSeriesParts(series_id: string): Promise<BlogPostResponseDTO[]> {
+        try {
+            const posts = await this.blogPostRepository.find({
+                where: BlogPostService.publicWhere({ series_id }),
+                relations: ['author', ...POST_AUTHOR_RELATIONS, 'featured_media', 'featured_media.variants', 'categories', 'tags'],
+                order: { series_position: { direction: 'ASC', nulls: 'LAST' }, published_at: 'ASC' },
+            });
+
+            return posts.map(post => post.toPublicObject() as BlogPostResponseDTO);
+        } catch (error) {
+            this.logger.error(`Error finding series parts: ${error.message}`, error.stack);
+            return [];
+        }
+    }
+
+    async countSeriesParts(series_ids: string[]): Promise<Record<string, number>> {
+        if (series_ids.length === 0) {
+            return {};
+        }
+
+        const rows: { series_id: string; count: string }[] = await this.applyPublicVisibility(this.blogPostRepository.createQueryBuilder('post'))
+            .select('post.series_id', 'series_id')
+            .addSelect('COUNT(post.id)', 'count')
+            .andWhere('post.series_id IN (:...series_ids)', { series_ids })
+            .groupBy('post.series_id')
+            .getRawMany();
+
+        return rows.reduce((counts, row) => {
+            counts[row.series_id] = parseInt(row.count, 10);
+            return counts;
+        }, {} as Record<string, number>);
+    }
+
     async findOne(id: string): Promise<BlogPostResponseDTO> {
         try {
             this.validateAuthor(id);
 
             const post = await this.blogPostRepository.findOne({
                 where: { id },
-                relations: ['author'],
+                relations: ['author', ...POST_AUTHOR_RELATIONS, 'reviewer', 'featured_media', 'featured_media.variants', 'categories', 'tags'],
             });
 
             if (!post) {
@@ -367,22 +877,61 @@ export class BlogPostService {
         }
     }
 
-    async findBySlug(slug: string): Promise<BlogPostResponseDTO> {
+    /**
+     * Finds a published post by its own slug, the slug of one of its translations or a slug
+     * it had before a rename, served in the locale picked by chooseLocale.
+     */
+    async findBySlug(slug: string, preference: LocalePreference = { requested: null, accepted: null }): Promise<BlogPostResponseDTO> {
         try {
             if (!slug || typeof slug !== 'string' || slug.trim().length === 0) {
                 throw new BadRequestException('Valid slug is required');
             }
 
-            const post = await this.blogPostRepository.findOne({
-                where: { slug: slug.trim(), is_published: true },
-                relations: ['author'],
+            const relations = POST_PAGE_RELATIONS;
+            let slugLocale: BlogLocale | null = null;
+            let post = await this.blogPostRepository.findOne({
+                where: BlogPostService.publicWhere({ slug: slug.trim() }),
+                relations,
             });
 
+            if (!post) {
+                const translation = await this.translationService.findBySlug(slug.trim());
+                if (translation) {
+                    slugLocale = translation.locale;
+                    post = await this.blogPostRepository.findOne({
+                        where: BlogPostService.publicWhere({ id: translation.post_id }),
+                        relations,
+                    });
+                }
+            }
+
+            // Links shared before a rename still resolve, with a hint to redirect to the current slug
+            let redirectedFrom: string | null = null;
+            if (!post) {
+                const postId = await this.slugHistoryService.findPostId(slug.trim());
+                if (postId) {
+                    redirectedFrom = slug.trim();
+                    post = await this.blogPostRepository.findOne({
+                        where: BlogPostService.publicWhere({ id: postId }),
+                        relations,
+                    });
+                }
+            }
+
             if (!post) {
                 throw new NotFoundException(`Published blog post with slug "${slug}" not found`);
             }
 
-            return post.toResponseObject() as BlogPostResponseDTO;
+            const [localized] = await this.translationService.localize(
+                [post.toPublicObject() as BlogPostResponseDTO],
+                chooseLocale(preference, slugLocale)
+            );
+
+            return {
+                ...localized,
+                series: await this.buildSeriesNavigation(post),
+                ...(redirectedFrom ? { redirected_from: redirectedFrom } : {}),
+            };
         } catch (error) {
             this.logger.error(`Error finding blog post by slug: ${error.message}`, error.stack);
 
@@ -394,77 +943,178 @@ export class BlogPostService {
         }
     }
 
-    async incrementViewBySlug(slug: string): Promise<number> {
+    /**
+     * Any post outside the trash, published or not, in the shape findBySlug returns. Only for
+     * callers that already checked access, such as preview links.
+     */
+    async findPreview(id: string, preference: LocalePreference = { requested: null, accepted: null }): Promise<BlogPostResponseDTO> {
         try {
-            if (!slug || typeof slug !== 'string' || slug.trim().length === 0) {
-                throw new BadRequestException('Valid slug is required');
-            }
+            this.validateAuthor(id);
 
             const post = await this.blogPostRepository.findOne({
-                where: { slug: slug.trim(), is_published: true },
+                where: { id },
+                relations: POST_PAGE_RELATIONS,
             });
 
             if (!post) {
-                throw new NotFoundException(`Published blog post with slug "${slug}" not found`);
+                throw new NotFoundException(`Blog post with ID ${id} not found`);
             }
 
-            // Increment view count
-            await this.blogPostRepository.increment({ id: post.id }, 'view_count', 1);
-
-            // Return the new view count
-            const updatedPost = await this.blogPostRepository.findOne({
-                where: { id: post.id },
-                select: ['view_count']
-            });
-
-            this.logger.log(`View count incremented for post ${post.id}, new count: ${updatedPost?.view_count || post.view_count + 1}`);
+            const [localized] = await this.translationService.localize(
+                [post.toPublicObject() as BlogPostResponseDTO],
+                chooseLocale(preference, null)
+            );
 
-            return updatedPost?.view_count || post.view_count + 1;
+            return {
+                ...localized,
+                series: await this.buildSeriesNavigation(post),
+            };
         } catch (error) {
-            this.logger.error(`Error incrementing view count: ${error.message}`, error.stack);
+            this.logger.error(`Error finding blog post preview: ${error.message}`, error.stack);
 
             if (error instanceof NotFoundException || error instanceof BadRequestException) {
                 throw error;
             }
 
-            throw new InternalServerErrorException('Failed to increment view count');
+            throw new InternalServerErrorException('Failed to retrieve blog post');
+        }
+    }
+
+    // Bare published post for callers that only need its ID and counters, such as view tracking
+    async findPublicEntityBySlug(slug: string): Promise<BlogPost> {
+        if (!slug || typeof slug !== 'string' || slug.trim().length === 0) {
+            throw new BadRequestException('Valid slug is required');
+        }
+
+        const post = await this.blogPostRepository.findOne({
+            where: BlogPostService.publicWhere({ slug: slug.trim() }),
+        });
+
+        if (!post) {
+            throw new NotFoundException(`Published blog post with slug "${slug}" not found`);
         }
+
+        return post;
     }
 
-    async update(id: string, updateBlogPostDTO: UpdateBlogPostDTO): Promise<BlogPostResponseDTO> {
+    async update(
+        id: string,
+        updateBlogPostDTO: BlogPostChanges,
+        editor: PostEditor,
+        restored_from_id: string | null = null,
+    ): Promise<BlogPostResponseDTO> {
         try {
             this.validateAuthor(id);
+            const editor_id = this.editorId(editor);
 
             const post = await this.blogPostRepository.findOne({
                 where: { id },
+                relations: ['categories'],
             });
 
             if (!post) {
                 throw new NotFoundException(`Blog post with ID ${id} not found`);
             }
 
-            // Update slug if title changed
-            if (updateBlogPostDTO.title && updateBlogPostDTO.title !== post.title) {
-                const newSlug = await this.generateUniqueSlug(updateBlogPostDTO.title, id);
-                (updateBlogPostDTO as any).slug = newSlug;
+            // A custom slug wins; otherwise the slug follows the title unless it is locked
+            const previousSlug = post.slug;
+            if (updateBlogPostDTO.slug !== undefined && updateBlogPostDTO.slug !== post.slug) {
+                if (await this.isSlugTaken(updateBlogPostDTO.slug, id)) {
+                    throw new ConflictException(`Slug "${updateBlogPostDTO.slug}" is already in use`);
+                }
+            } else if (
+                updateBlogPostDTO.title && updateBlogPostDTO.title !== post.title
+                && !(updateBlogPostDTO.slug_locked ?? post.slug_locked)
+            ) {
+                updateBlogPostDTO.slug = await this.generateUniqueSlug(updateBlogPostDTO.title, id);
+            }
+
+            // Validate categories - like tags they are a relation and are applied after the column updates
+            const categorySlugs = updateBlogPostDTO.categories;
+            delete updateBlogPostDTO.categories;
+            const validatedCategories = categorySlugs
+                ? await this.categoryService.resolveCategories(categorySlugs)
+                : undefined;
+            if (validatedCategories) {
+                this.logger.log(`📝 Updating categories for post ${id}: ${BlogPost.categorySlugs(validatedCategories).join(', ')}`);
+            }
+
+            // Tags are a relation, so they are resolved separately from the column updates
+            const tagNames = updateBlogPostDTO.tags;
+            delete updateBlogPostDTO.tags;
+
+            // So is the byline, which is replaced as a whole
+            const authorSlugs = updateBlogPostDTO.authors;
+            delete updateBlogPostDTO.authors;
+            const byline: BlogAuthorProfile[] | undefined = authorSlugs
+                ? await this.authorService.resolveAuthors(authorSlugs)
+                : undefined;
+
+            // Handle scheduling - a future publish time takes the post offline until the scheduler publishes it
+            const scheduledPublishAt = updateBlogPostDTO.scheduled_publish_at !== undefined
+                ? updateBlogPostDTO.scheduled_publish_at
+                : post.scheduled_publish_at;
+            BlogPostService.validateSchedule(scheduledPublishAt, updateBlogPostDTO.expires_at);
+            // A past date would be picked up by the scheduler on its next run, publishing the post without the checks below
+            if (updateBlogPostDTO.scheduled_publish_at && updateBlogPostDTO.scheduled_publish_at <= new Date()) {
+                throw new BadRequestException('Scheduled publish date must be in the future');
+            }
+            await this.validateMedia(updateBlogPostDTO.featured_media_id, 'Featured media');
+            await this.validateMedia(updateBlogPostDTO.social_image_media_id, 'Social image media');
+
+            if (updateBlogPostDTO.scheduled_publish_at && updateBlogPostDTO.scheduled_publish_at > new Date()) {
+                if (updateBlogPostDTO.is_published) {
+                    throw new BadRequestException('Cannot publish immediately and schedule publishing at the same time');
+                }
+                updateBlogPostDTO.is_published = false;
+            } else if (updateBlogPostDTO.is_published) {
+                // Publishing manually supersedes any pending schedule
+                updateBlogPostDTO.scheduled_publish_at = null;
             }
 
-            // Validate and update categories
-            if (updateBlogPostDTO.categories) {
-                const validatedCategories = this.validateCategories(updateBlogPostDTO.categories);
-                updateBlogPostDTO.categories = validatedCategories;
-                this.logger.log(`📝 Updating categories for post ${id}: ${validatedCategories.join(', ')}`);
+            // Editing what the reviewer signed off on sends the post back to review and drops its schedule;
+            // a post that stays live can only be changed by administrators who may override review
+            let reviewStatus = post.review_status;
+            const unpublishing = updateBlogPostDTO.is_published === false && post.is_published;
+            if (
+                editor !== SCHEDULER
+                && touchesReviewedFields({ ...updateBlogPostDTO, categories: categorySlugs }, { ...post, categories: BlogPost.categorySlugs(post.categories) })
+            ) {
+                if (post.is_published && !unpublishing) {
+                    if (!(await this.mayOverrideReview(editor))) {
+                        throw new ForbiddenException('Changing a published post requires review; unpublish it to send the changes for review');
+                    }
+                    this.logger.log(`⚠️ Published post ${id} was changed without review by ${editor_id}`);
+                } else if (reviewStatus === 'approved' || unpublishing) {
+                    reviewStatus = 'in_review';
+                    post.review_requested_at = new Date();
+                    if (!updateBlogPostDTO.scheduled_publish_at) {
+                        updateBlogPostDTO.scheduled_publish_at = null;
+                    }
+                    this.logger.log(`🔁 Approved post ${id} was edited and is back in review`);
+                }
+            }
+
+            const publishing = !!updateBlogPostDTO.is_published && !post.is_published;
+            const scheduling = !!updateBlogPostDTO.scheduled_publish_at;
+            if (publishing || scheduling) {
+                await this.validatePublishable(reviewStatus, editor);
             }
 
             // Handle publishing status changes
             if (updateBlogPostDTO.is_published !== undefined) {
                 if (updateBlogPostDTO.is_published && !post.is_published) {
-                    // Publishing for the first time
-                    (updateBlogPostDTO as any).published_at = new Date();
+                    // Publishing for the first time; the scheduler passes the time the post was scheduled for
+                    updateBlogPostDTO.published_at = updateBlogPostDTO.published_at ?? new Date();
+                    reviewStatus = 'published';
                 } else if (!updateBlogPostDTO.is_published && post.is_published) {
-                    // Unpublishing - remove publish date and featured status
-                    (updateBlogPostDTO as any).published_at = null;
+                    // Unpublishing - remove publish date and featured status; the content stays approved
+                    // unless the same update sent it back to review
+                    updateBlogPostDTO.published_at = null;
                     (updateBlogPostDTO as any).is_featured = false;
+                    if (reviewStatus === 'published') {
+                        reviewStatus = 'approved';
+                    }
                 }
             }
 
@@ -475,16 +1125,58 @@ export class BlogPostService {
                 throw new BadRequestException('Cannot feature an unpublished post');
             }
 
-            Object.assign(post, updateBlogPostDTO);
+            // Content is re-rendered when either the source or its format changes
+            if (updateBlogPostDTO.content !== undefined || updateBlogPostDTO.content_format !== undefined) {
+                const rendered = renderContent(
+                    updateBlogPostDTO.content ?? post.content,
+                    updateBlogPostDTO.content_format ?? post.content_format
+                );
+                updateBlogPostDTO.content = rendered.content;
+                (updateBlogPostDTO as any).content_html = rendered.content_html;
+            }
 
-            const updatedPost = await this.blogPostRepository.save(post);
-            this.logger.log(`✅ Blog post updated with ID: ${updatedPost.id}, categories: ${updatedPost.categories?.join(', ') || 'none'}`);
+            const tags = tagNames !== undefined ? await this.tagService.resolveTags(tagNames) : undefined;
+            const wasPublished = post.is_published;
+
+            // The post, its revision and any slug redirect are saved together, with the post row locked so concurrent edits are numbered in turn
+            const updatedPost = await this.blogPostRepository.manager.transaction(async manager => {
+                await this.revisionService.lockPost(id, manager);
+
+                // Posts created before revision history existed get their current state recorded first
+                if (!(await this.revisionService.hasRevisions(id, manager))) {
+                    await this.revisionService.snapshot(post, null, null, manager);
+                }
+
+                Object.assign(post, updateBlogPostDTO);
+                post.review_status = reviewStatus;
+
+                if (validatedCategories) {
+                    post.categories = validatedCategories;
+                }
+
+                if (tags) {
+                    post.tags = tags;
+                }
+
+                const saved = await manager.save(post);
+                if (byline) {
+                    await this.authorService.setByline(saved.id, byline, manager);
+                }
+                await this.revisionService.snapshot(saved, editor_id, restored_from_id, manager);
+                await this.slugHistoryService.recordChange(id, previousSlug, saved.slug, manager);
+                return saved;
+            });
+            this.logger.log(`✅ Blog post updated with ID: ${updatedPost.id}, categories: ${BlogPost.categorySlugs(updatedPost.categories).join(', ') || 'none'}`);
+
+            if (wasPublished || updatedPost.is_published) {
+                this.publicPostsChanged.next();
+            }
 
             return await this.findOne(updatedPost.id);
         } catch (error) {
             this.logger.error(`Error updating blog post: ${error.message}`, error.stack);
 
-            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException || error instanceof ForbiddenException) {
                 throw error;
             }
 
@@ -492,6 +1184,262 @@ export class BlogPostService {
         }
     }
 
+    // Every post matching the admin listing filters, oldest first, with the relations an export needs
+    async findForExport(query: BlogPostQuery = {}): Promise<BlogPost[]> {
+        const queryBuilder = this.blogPostRepository
+            .createQueryBuilder('post')
+            .leftJoinAndSelect('post.author', 'author')
+            .leftJoinAndSelect('post.featured_media', 'featured_media')
+            .leftJoinAndSelect('post.categories', 'categories')
+            .leftJoinAndSelect('post.tags', 'tags');
+        this.applyQueryFilters(queryBuilder, query);
+
+        return queryBuilder.orderBy('post.created_at', 'ASC').addOrderBy('post.id', 'ASC').getMany();
+    }
+
+    // IDs of the posts matching the admin listing filters, refusing filters that match too many
+    private async findBulkTargetIds(query: BlogPostQuery): Promise<string[]> {
+        const queryBuilder = this.blogPostRepository.createQueryBuilder('post').select('post.id');
+        this.applyQueryFilters(queryBuilder, query);
+
+        const total = await queryBuilder.getCount();
+        if (total > BULK_MAX_POSTS) {
+            throw new BadRequestException(`Filter matches ${total} posts; narrow it to at most ${BULK_MAX_POSTS}`);
+        }
+
+        const posts = await queryBuilder.orderBy('post.created_at', 'DESC').addOrderBy('post.id', 'DESC').getMany();
+        return posts.map(post => post.id);
+    }
+
+    /**
+     * Applies a bulk action to one post in memory, following the same rules as update.
+     * Returns why the action does not apply, or null once the post has been changed.
+     */
+    static applyBulkAction(post: BlogPost, action: BulkAction, categories: BlogCategory[] | undefined, now: Date, overrideReview: boolean): string | null {
+        switch (action) {
+            case 'publish':
+                if (post.is_published) {
+                    return 'Already published';
+                }
+                if (post.expires_at && post.expires_at <= now) {
+                    return 'Expiry date has passed';
+                }
+                if (!overrideReview && !isPublishable(post.review_status)) {
+                    return 'Publishing requires an approved review';
+                }
+                // Publishing manually supersedes any pending schedule
+                post.is_published = true;
+                post.published_at = now;
+                post.scheduled_publish_at = null;
+                post.review_status = 'published';
+                return null;
+            case 'unpublish':
+                if (!post.is_published) {
+                    return 'Not published';
+                }
+                post.is_published = false;
+                post.published_at = null;
+                post.is_featured = false;
+                post.review_status = 'approved';
+                return null;
+            case 'feature':
+                if (!post.is_published) {
+                    return 'Cannot feature an unpublished post';
+                }
+                if (post.is_featured) {
+                    return 'Already featured';
+                }
+                post.is_featured = true;
+                return null;
+            case 'unfeature':
+                if (!post.is_featured) {
+                    return 'Not featured';
+                }
+                post.is_featured = false;
+                return null;
+            case 'set_categories': {
+                const slugs = BlogPost.categorySlugs(categories);
+                if (BlogPost.categorySlugs(post.categories).join(',') === slugs.join(',')) {
+                    return 'Categories unchanged';
+                }
+                if (post.is_published && !overrideReview) {
+                    return 'Changing a published post requires review';
+                }
+                post.categories = categories || [];
+                // Like an edit through update, this sends approved content back to review
+                if (!post.is_published && post.review_status === 'approved') {
+                    post.review_status = 'in_review';
+                    post.review_requested_at = now;
+                    post.scheduled_publish_at = null;
+                }
+                return null;
+            }
+            case 'delete':
+                return null;
+        }
+    }
+
+    /**
+     * Applies one action to posts listed by ID or matched by a filter, all in a single transaction.
+     * Posts the action does not apply to are reported as skipped instead of failing the batch.
+     */
+    async bulkUpdate(bulkDTO: BulkBlogPostActionDTO, editor_id: string): Promise<BlogPostBulkReportDTO> {
+        try {
+            const { action } = bulkDTO;
+            this.editorId(editor_id);
+
+            if (!!bulkDTO.ids === !!bulkDTO.filter) {
+                throw new BadRequestException('Provide either ids or filter');
+            }
+
+            if (action === 'set_categories' && !bulkDTO.categories) {
+                throw new BadRequestException('Categories are required to set categories');
+            }
+
+            const ids = bulkDTO.ids ? [...new Set(bulkDTO.ids)] : await this.findBulkTargetIds(bulkDTO.filter || {});
+            const categories = action === 'set_categories'
+                ? await this.categoryService.resolveCategories(bulkDTO.categories)
+                : undefined;
+            const now = new Date();
+            const results: BlogPostBulkResultDTO[] = [];
+            let publicPostsChanged = false;
+            const overrideReview = (action === 'publish' || action === 'set_categories')
+                && await this.administratorService.canOverrideReview(editor_id);
+
+            await this.blogPostRepository.manager.transaction(async manager => {
+                const posts = ids.length > 0
+                    ? await manager.find(BlogPost, { where: { id: In(ids) }, relations: ['categories'] })
+                    : [];
+                const postsById = new Map(posts.map(post => [post.id, post]));
+
+                for (const id of ids) {
+                    const post = postsById.get(id);
+                    if (!post) {
+                        results.push({ id, status: 'not_found', message: `Blog post with ID ${id} not found` });
+                        continue;
+                    }
+
+                    // Like update, every saved change is recorded as a revision; posts created before revision
+                    // history existed get their current state recorded first
+                    const needsBaseline = action !== 'delete' && !(await this.revisionService.hasRevisions(id, manager));
+                    if (needsBaseline) {
+                        await this.revisionService.snapshot(post, null, null, manager);
+                    }
+
+                    const wasPublished = post.is_published;
+                    const skipped = BlogPostService.applyBulkAction(post, action, categories, now, overrideReview);
+                    if (skipped) {
+                        results.push({ id, status: 'skipped', message: skipped });
+                        continue;
+                    }
+
+                    if (action === 'delete') {
+                        await manager.softRemove(post);
+                    } else {
+                        await manager.save(post);
+                        await this.revisionService.snapshot(post, editor_id, null, manager);
+                    }
+
+                    publicPostsChanged = publicPostsChanged || wasPublished || post.is_published;
+                    results.push({ id, status: 'updated' });
+                }
+            });
+
+            if (publicPostsChanged) {
+                this.publicPostsChanged.next();
+            }
+
+            const count = (status: BlogPostBulkResultDTO['status']) => results.filter(result => result.status === status).length;
+            const report = {
+                action,
+                total: results.length,
+                updated: count('updated'),
+                skipped: count('skipped'),
+                not_found: count('not_found'),
+                results,
+            };
+            this.logger.log(`📦 Bulk ${action}: ${report.updated} updated, ${report.skipped} skipped, ${report.not_found} not found`);
+
+            return report;
+        } catch (error) {
+            this.logger.error(`Error running bulk ${bulkDTO.action}: ${error.message}`, error.stack);
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('Failed to run bulk action');
+        }
+    }
+
+    async publishScheduledPosts(): Promise<number> {
+        const now = new Date();
+        const duePosts = await this.blogPostRepository.find({
+            where: { is_published: false, scheduled_publish_at: LessThanOrEqual(now) },
+            select: ['id', 'scheduled_publish_at', 'review_status'],
+        });
+
+        let published = 0;
+        for (const post of duePosts) {
+            // The scheduler may publish without an administrator, but only what review already approved
+            if (!isPublishable(post.review_status)) {
+                this.logger.warn(`⚠️ Skipping scheduled post ${post.id}: its review status is ${post.review_status}`);
+                continue;
+            }
+
+            try {
+                // The post goes live as of its schedule, not whenever this run happened to pick it up
+                await this.update(post.id, { is_published: true, scheduled_publish_at: null, published_at: post.scheduled_publish_at }, SCHEDULER);
+                published++;
+            } catch (error) {
+                this.logger.error(`Error publishing scheduled post ${post.id}: ${error.message}`, error.stack);
+            }
+        }
+
+        return published;
+    }
+
+    async unpublishExpiredPosts(): Promise<number> {
+        const now = new Date();
+        const expiredPosts = await this.blogPostRepository.find({
+            where: { is_published: true, expires_at: LessThanOrEqual(now) },
+            select: ['id'],
+        });
+
+        let unpublished = 0;
+        for (const post of expiredPosts) {
+            try {
+                // Going through update keeps the "unpublishing clears is_featured" rule in one place
+                await this.update(post.id, { is_published: false, expires_at: null }, SCHEDULER);
+                unpublished++;
+            } catch (error) {
+                this.logger.error(`Error unpublishing expired post ${post.id}: ${error.message}`, error.stack);
+            }
+        }
+
+        return unpublished;
+    }
+
+    async restoreRevision(id: string, revision_id: string, editor_id: string): Promise<BlogPostResponseDTO> {
+        const revision = await this.revisionService.findEntity(id, revision_id);
+
+        // Nullable fields are passed through as null so the restore clears values added since
+        const restoreDTO: BlogPostChanges = {
+            title: revision.title,
+            content: revision.content,
+            content_format: revision.content_format,
+            excerpt: revision.excerpt,
+            featured_image: revision.featured_image,
+            featured_media_id: revision.featured_media_id,
+            categories: revision.categories,
+        };
+
+        this.logger.log(`⏪ Restoring post ${id} to revision ${revision.revision_number}`);
+
+        return this.update(id, restoreDTO, editor_id, revision.id);
+    }
+
+    // Moves the post to the trash; it stays restorable until purged
     async remove(id: string): Promise<{ message: string }> {
         try {
             this.validateAuthor(id);
@@ -504,10 +1452,14 @@ export class BlogPostService {
                 throw new NotFoundException(`Blog post with ID ${id} not found`);
             }
 
-            await this.blogPostRepository.remove(post);
-            this.logger.log(`Blog post deleted with ID: ${id}`);
+            await this.blogPostRepository.softRemove(post);
+            this.logger.log(`🗑️ Blog post moved to trash with ID: ${id}`);
+
+            if (post.is_published) {
+                this.publicPostsChanged.next();
+            }
 
-            return { message: 'Blog post deleted successfully' };
+            return { message: 'Blog post moved to trash' };
         } catch (error) {
             this.logger.error(`Error deleting blog post: ${error.message}`, error.stack);
 
@@ -519,6 +1471,113 @@ export class BlogPostService {
         }
     }
 
+    private async findTrashedEntity(id: string): Promise<BlogPost> {
+        this.validateAuthor(id);
+
+        const post = await this.blogPostRepository.findOne({
+            where: { id, deleted_at: Not(IsNull()) },
+            withDeleted: true,
+        });
+
+        if (!post) {
+            throw new NotFoundException(`Blog post with ID ${id} not found in trash`);
+        }
+
+        return post;
+    }
+
+    // Trashed posts, most recently trashed first; the retention period keeps the list short
+    async findTrash(): Promise<BlogPostResponseDTO[]> {
+        try {
+            const posts = await this.blogPostRepository.find({
+                where: { deleted_at: Not(IsNull()) },
+                withDeleted: true,
+                relations: ['author', ...POST_AUTHOR_RELATIONS, 'featured_media', 'featured_media.variants', 'categories', 'tags'],
+                order: { deleted_at: 'DESC' },
+            });
+
+            return posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+        } catch (error) {
+            this.logger.error(`Error finding trashed blog posts: ${error.message}`, error.stack);
+            throw new InternalServerErrorException('Failed to retrieve trash');
+        }
+    }
+
+    // Brings the post back exactly as it was trashed, published or not
+    async restore(id: string): Promise<BlogPostResponseDTO> {
+        try {
+            const post = await this.findTrashedEntity(id);
+
+            await this.blogPostRepository.restore(id);
+            this.logger.log(`♻️ Blog post restored from trash with ID: ${id}`);
+
+            if (post.is_published) {
+                this.publicPostsChanged.next();
+            }
+
+            return await this.findOne(id);
+        } catch (error) {
+            this.logger.error(`Error restoring blog post: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('Failed to restore blog post');
+        }
+    }
+
+    // Only trashed posts can be purged, so a single request can never destroy a live post
+    async purge(id: string): Promise<{ message: string }> {
+        try {
+            const post = await this.findTrashedEntity(id);
+
+            await this.blogPostRepository.remove(post);
+            this.logger.log(`Blog post permanently deleted with ID: ${id}`);
+
+            return { message: 'Blog post permanently deleted' };
+        } catch (error) {
+            this.logger.error(`Error purging blog post: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('Failed to permanently delete blog post');
+        }
+    }
+
+    // Permanently deletes posts that have been in the trash since before the cutoff
+    async purgeTrash(trashedBefore: Date): Promise<number> {
+        const posts = await this.blogPostRepository.find({
+            where: { deleted_at: LessThanOrEqual(trashedBefore) },
+            withDeleted: true,
+        });
+
+        if (posts.length > 0) {
+            await this.blogPostRepository.remove(posts);
+        }
+
+        return posts.length;
+    }
+
+    // Slugs and modification dates of every public, indexable post, oldest first, for sitemap generation
+    async findSitemapEntries(): Promise<BlogSitemapEntry[]> {
+        const posts = await this.applyPublicVisibility(this.blogPostRepository.createQueryBuilder('post'))
+            .andWhere('post.noindex = false')
+            .leftJoin('post.categories', 'category')
+            .select(['post.id', 'post.slug', 'post.updated_at', 'category.id', 'category.slug'])
+            .orderBy('post.published_at', 'ASC')
+            .addOrderBy('post.id', 'ASC')
+            .getMany();
+
+        return posts.map(post => ({
+            slug: post.slug,
+            updated_at: post.updated_at,
+            categories: (post.categories || []).map(category => category.slug),
+        }));
+    }
+
     async count(): Promise<number> {
         try {
             return await this.blogPostRepository.count();
@@ -531,7 +1590,7 @@ export class BlogPostService {
     async countPublished(): Promise<number> {
         try {
             return await this.blogPostRepository.count({
-                where: { is_published: true },
+                where: BlogPostService.publicWhere(),
             });
         } catch (error) {
             this.logger.error(`Error counting published posts: ${error.message}`, error.stack);
@@ -542,10 +1601,7 @@ export class BlogPostService {
     async countFeatured(): Promise<number> {
         try {
             return await this.blogPostRepository.count({
-                where: {
-                    is_published: true,
-                    is_featured: true
-                },
+                where: BlogPostService.publicWhere({ is_featured: true }),
             });
         } catch (error) {
             this.logger.error(`Error counting featured posts: ${error.message}`, error.stack);
@@ -564,14 +1620,13 @@ export class BlogPostService {
         }
     }
 
-    async countby_category(category: BlogCategory): Promise<number> {
+    async countby_category(category: string): Promise<number> {
         try {
-            const count = await this.blogPostRepository
-                .createQueryBuilder('post')
-                .where('post.is_published = :is_published', { is_published: true })
-                .andWhere('post.categories::text LIKE :categoryPattern', { 
-                    categoryPattern: `%"${category}"%` 
-                })
+            const count = await this.applyPublicVisibility(this.blogPostRepository.createQueryBuilder('post'))
+                .andWhere(
+                    'EXISTS (SELECT 1 FROM blog_post_categories bpc INNER JOIN blog_categories c ON c.id = bpc.category_id WHERE bpc.post_id = post.id AND c.slug = :category)',
+                    { category }
+                )
                 .getCount();
 
             this.logger.log(`📊 Count for category ${category}: ${count}`);
@@ -582,6 +1637,35 @@ export class BlogPostService {
         }
     }
 
+    // Published post counts keyed by tag slug, tags without published posts included as 0
+    async countby_tag(): Promise<Record<string, number>> {
+        try {
+            const rows: { slug: string; count: string }[] = await this.blogPostRepository.manager
+                .createQueryBuilder()
+                .select('tag.slug', 'slug')
+                .addSelect('COUNT(post.id)', 'count')
+                .from('blog_tags', 'tag')
+                .leftJoin('blog_post_tags', 'bpt', 'bpt.tag_id = tag.id')
+                .leftJoin(
+                    'blog_posts',
+                    'post',
+                    'post.id = bpt.post_id AND post.deleted_at IS NULL AND post.is_published = true AND post.published_at <= :now AND (post.expires_at IS NULL OR post.expires_at > :now)',
+                    { now: new Date() }
+                )
+                .groupBy('tag.slug')
+                .orderBy('tag.slug', 'ASC')
+                .getRawMany();
+
+            return rows.reduce((counts, row) => {
+                counts[row.slug] = parseInt(row.count, 10);
+                return counts;
+            }, {} as Record<string, number>);
+        } catch (error) {
+            this.logger.error(`Error counting posts by tag: ${error.message}`, error.stack);
+            return {};
+        }
+    }
+
     async gettotal_views(): Promise<number> {
         try {
             const result = await this.blogPostRepository
@@ -601,19 +1685,17 @@ export class BlogPostService {
         try {
             this.validateAuthor(author_id);
 
-            const whereCondition: any = { author_id: author_id };
-
-            if (!includeUnpublished) {
-                whereCondition.is_published = true;
-            }
+            const whereCondition = includeUnpublished
+                ? { author_id: author_id }
+                : BlogPostService.publicWhere({ author_id: author_id });
 
             const posts = await this.blogPostRepository.find({
                 where: whereCondition,
-                relations: ['author'],
+                relations: ['author', ...POST_AUTHOR_RELATIONS, 'featured_media', 'featured_media.variants', 'categories', 'tags'],
                 order: { created_at: 'DESC' },
             });
 
-            return posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+            return posts.map(post => (includeUnpublished ? post.toResponseObject() : post.toPublicObject()) as BlogPostResponseDTO);
         } catch (error) {
             this.logger.error(`Error finding posts by author: ${error.message}`, error.stack);
 
@@ -625,30 +1707,62 @@ export class BlogPostService {
         }
     }
 
-    async searchPosts(searchTerm: string, onlyPublished: boolean = true): Promise<BlogPostResponseDTO[]> {
+    // Public search; administrators search drafts through the `search` filter of the admin listing
+    async searchPosts(
+        searchTerm: string,
+        options: BlogListOptions = {},
+    ): Promise<CursorPage<BlogSearchResultDTO> & { total: number }> {
+        const empty = { data: [], next_cursor: null, has_more: false, limit: clampPageSize(options.limit), total: 0 };
+
         try {
             if (!searchTerm || typeof searchTerm !== 'string' || searchTerm.trim().length < 2) {
-                return [];
+                return empty;
             }
 
-            const cleanSearchTerm = searchTerm.trim();
+            const tsQuery = buildTsQuery(searchTerm.trim());
+            if (!tsQuery) {
+                return empty;
+            }
 
-            const queryBuilder = this.blogPostRepository
-                .createQueryBuilder('post')
-                .leftJoinAndSelect('post.author', 'author')
-                .where('(post.title ILIKE :search OR post.content ILIKE :search OR post.excerpt ILIKE :search)',
-                    { search: `%${cleanSearchTerm}%` })
-                .orderBy('post.published_at', 'DESC');
+            const queryBuilder = this.applySearch(
+                this.blogPostRepository
+                    .createQueryBuilder('post')
+                    .leftJoinAndSelect('post.author', 'author')
+                    .leftJoinAndSelect('post.featured_media', 'featured_media'),
+                tsQuery
+            )
+                // Tags are stripped first so snippets never contain half-open markup from the content
+                .addSelect(
+                    `ts_headline('${SEARCH_CONFIG}', coalesce(post.excerpt, '') || ' ' || regexp_replace(post.content_html, '<[^>]+>', ' ', 'g'), to_tsquery('${SEARCH_CONFIG}', :tsQuery), :headlineOptions)`,
+                    'snippet'
+                )
+                .setParameter('headlineOptions', SEARCH_HEADLINE_OPTIONS);
+            this.applyPublicVisibility(queryBuilder);
 
-            if (onlyPublished) {
-                queryBuilder.andWhere('post.is_published = :is_published', { is_published: true });
-            }
+            const total = await queryBuilder.getCount();
+            const page = await this.paginate(queryBuilder, options, 'relevance', true);
 
-            const posts = await queryBuilder.take(50).getMany(); // Limit search results
-            return posts.map(post => post.toResponseObject() as BlogPostResponseDTO);
+            const data = page.posts.map((post, index) => ({
+                ...(post.toPublicObject() as BlogPostResponseDTO),
+                rank: parseFloat(page.raw[index]?.rank ?? '0'),
+                snippet: page.raw[index]?.snippet ?? '',
+            }));
+
+            return {
+                data,
+                next_cursor: page.next_cursor,
+                has_more: page.has_more,
+                limit: page.limit,
+                total,
+            };
         } catch (error) {
             this.logger.error(`Error searching posts: ${error.message}`, error.stack);
-            return [];
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            return empty;
         }
     }
 
@@ -673,12 +1787,14 @@ export class BlogPostService {
                 },
             });
 
-            // Count by category
-            const by_category: Record<BlogCategory, number> = {} as Record<BlogCategory, number>;
-            for (const category of Object.values(BlogCategory)) {
-                by_category[category] = await this.countby_category(category);
+            // Count by category, covering every configured category
+            const by_category: Record<string, number> = {};
+            for (const category of await this.categoryService.findAll(true)) {
+                by_category[category.slug] = await this.countby_category(category.slug);
             }
 
+            const by_tag = await this.countby_tag();
+
             return {
                 total,
                 published,
@@ -687,6 +1803,7 @@ export class BlogPostService {
                 recently_published,
                 total_views,
                 by_category,
+                by_tag,
             };
         } catch (error) {
             this.logger.error(`Error getting statistics: ${error.message}`, error.stack);
@@ -697,53 +1814,9 @@ export class BlogPostService {
                 featured: 0,
                 recently_published: 0,
                 total_views: 0,
-                by_category: {
-                    [BlogCategory.NEWSROOM]: 0,
-                    [BlogCategory.THOUGHT_PIECES]: 0,
-                    [BlogCategory.ACHIEVEMENTS]: 0,
-                    [BlogCategory.AWARDS_RECOGNITION]: 0,
-                },
+                by_category: {},
+                by_tag: {},
             };
         }
     }
-
-    // Enhanced method to get category counts for debugging
-    async getCategoryDebugInfo(): Promise<Record<string, any>> {
-        try {
-            const debugInfo: Record<string, any> = {};
-            
-            // Get all posts with their categories
-            const allPosts = await this.blogPostRepository.find({
-                select: ['id', 'title', 'categories', 'is_published']
-            });
-
-            debugInfo.totalPosts = allPosts.length;
-            debugInfo.publishedPosts = allPosts.filter(p => p.is_published).length;
-            
-            const categoryDistribution: Record<string, number> = {};
-
-            allPosts.forEach(post => {
-                if (Array.isArray(post.categories)) {
-                    post.categories.forEach(cat => {
-                        categoryDistribution[cat] = (categoryDistribution[cat] || 0) + 1;
-                    });
-                } else {
-                    debugInfo.invalidCategoryFormat = (debugInfo.invalidCategoryFormat || 0) + 1;
-                }
-            });
-
-            debugInfo.categoryDistribution = categoryDistribution;
-
-            // Test each category
-            for (const category of Object.values(BlogCategory)) {
-                const posts = await this.findByCategory(category, true);
-                debugInfo[`category_${category}`] = posts.length;
-            }
-
-            return debugInfo;
-        } catch (error) {
-            this.logger.error('Error getting category debug info:', error);
-            return { error: error.message };
-        }
-    }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import * as os from "os";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { NotFoundException } from "@nestjs/common";
+
+import { LocalMediaStorage } from "./local-media-storage";
+
+describe("LocalMediaStorage", () => {
+    let root: string;
+    let storage: LocalMediaStorage;
+
+    const read = async (key: string) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of await storage.get(key)) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks).toString();
+    };
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), "media-storage-"));
+        storage = new LocalMediaStorage(path.join(root, "media"));
+    });
+
+    afterEach(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it("should store, read and delete a file under the media directory", async () => {
+        await storage.put("2026/05/photo.jpg", Buffer.from("photo"));
+
+        await expect(fs.readFile(path.join(root, "media", "2026", "05", "photo.jpg"), "utf8")).resolves.toBe("photo");
+        await expect(read("2026/05/photo.jpg")).resolves.toBe("photo");
+
+        await storage.delete("2026/05/photo.jpg");
+        await expect(storage.get("2026/05/photo.jpg")).rejects.toThrow(NotFoundException);
+    });
+
+    it("should ignore deleting a file that is already gone", async () => {
+        await expect(storage.delete("missing.jpg")).resolves.toBeUndefined();
+    });
+
+    it("should refuse keys that escape the media directory", async () => {
+        await fs.writeFile(path.join(root, "secret.txt"), "secret");
+
+        for (const key of ["../secret.txt", "2026/../../secret.txt", path.join(root, "secret.txt"), "", "."]) {
+            await expect(storage.put(key, Buffer.from("x"))).rejects.toThrow("escapes the media directory");
+            await expect(storage.get(key)).rejects.toThrow("escapes the media directory");
+            await expect(storage.delete(key)).rejects.toThrow("escapes the media directory");
+        }
+
+        await expect(fs.readFile(path.join(root, "secret.txt"), "utf8")).resolves.toBe("secret");
+    });
+
+    it("should refuse a sibling directory that shares the media directory's prefix", async () => {
+        await expect(storage.put("../media-other/photo.jpg", Buffer.from("x"))).rejects.toThrow("escapes the media directory");
+    });
+});
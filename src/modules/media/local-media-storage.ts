@@ -0,0 +1,45 @@
+import * as path from "path";
+import { Readable } from "stream";
+import { promises as fs, createReadStream } from "fs";
+import { NotFoundException } from "@nestjs/common";
+
+import { MediaStorage } from "./media-storage";
+
+export class LocalMediaStorage implements MediaStorage {
+    readonly driver = "local";
+    private readonly root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Storage key "${key}" escapes the media directory`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, body: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+    }
+
+    async get(key: string): Promise<Readable> {
+        const filePath = this.resolve(key);
+
+        try {
+            await fs.access(filePath);
+        } catch {
+            throw new NotFoundException("Media file is missing from storage");
+        }
+
+        return createReadStream(filePath);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+}
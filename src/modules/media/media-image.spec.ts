@@ -0,0 +1,40 @@
+import * as sharp from "sharp";
+
+import { processImage } from "./media-image";
+
+describe("processImage", () => {
+    const photo = () => sharp({ create: { width: 2000, height: 1000, channels: 3, background: "#336699" } })
+        .jpeg()
+        .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: "Someone" } } })
+        .toBuffer();
+
+    it("should strip metadata and apply the EXIF orientation", async () => {
+        const { original } = await processImage(await photo(), "image/jpeg");
+        const metadata = await sharp(original.buffer).metadata();
+
+        expect(metadata.exif).toBeUndefined();
+        expect(metadata.orientation).toBeUndefined();
+        expect([original.width, original.height]).toEqual([1000, 2000]);
+    });
+
+    it("should render every variant in the original format and WebP", async () => {
+        const { variants } = await processImage(await photo(), "image/jpeg");
+
+        expect(variants.map(variant => `${variant.name}:${variant.content_type}:${variant.width}`)).toEqual([
+            "thumbnail:image/jpeg:320",
+            "thumbnail:image/webp:320",
+            "card:image/jpeg:640",
+            "card:image/webp:640",
+            "hero:image/jpeg:1000",
+            "hero:image/webp:1000",
+        ]);
+    });
+
+    it("should keep GIFs untouched", async () => {
+        const gif = await sharp({ create: { width: 10, height: 10, channels: 3, background: "#000" } }).gif().toBuffer();
+        const { original, variants } = await processImage(gif, "image/gif");
+
+        expect(original.buffer.equals(gif)).toBe(true);
+        expect(variants).toEqual([]);
+    });
+});
@@ -0,0 +1,61 @@
+import * as sharp from "sharp";
+
+// Maximum widths of the responsive variants; smaller originals are never upscaled
+export const MEDIA_VARIANT_WIDTHS: Record<string, number> = {
+    thumbnail: 320,
+    card: 640,
+    hero: 1600,
+};
+
+export interface ProcessedImage {
+    buffer: Buffer;
+    content_type: string;
+    width: number;
+    height: number;
+}
+
+export interface ProcessedVariant extends ProcessedImage {
+    name: string;
+}
+
+function encode(pipeline: sharp.Sharp, contentType: string): sharp.Sharp {
+    switch (contentType) {
+        case "image/png":
+            return pipeline.png({ compressionLevel: 9 });
+        case "image/webp":
+            return pipeline.webp({ quality: 80 });
+        default:
+            return pipeline.jpeg({ quality: 82, mozjpeg: true });
+    }
+}
+
+async function render(pipeline: sharp.Sharp, contentType: string): Promise<ProcessedImage> {
+    const { data, info } = await encode(pipeline, contentType).toBuffer({ resolveWithObject: true });
+    return { buffer: data, content_type: contentType, width: info.width, height: info.height };
+}
+
+/**
+ * Re-encodes an upload after applying its EXIF orientation. sharp drops all metadata
+ * (EXIF, GPS, XMP) on output unless asked to keep it, so the stored original is clean.
+ * Every variant is rendered in the original format plus WebP. GIFs are stored untouched
+ * because re-encoding would flatten animations, and get no variants.
+ */
+export async function processImage(buffer: Buffer, contentType: string): Promise<{ original: ProcessedImage; variants: ProcessedVariant[] }> {
+    if (contentType === "image/gif") {
+        const { width, height } = await sharp(buffer).metadata();
+        return { original: { buffer, content_type: contentType, width, height }, variants: [] };
+    }
+
+    const original = await render(sharp(buffer).rotate(), contentType);
+    const formats = contentType === "image/webp" ? ["image/webp"] : [contentType, "image/webp"];
+
+    const variants: ProcessedVariant[] = [];
+    for (const [name, width] of Object.entries(MEDIA_VARIANT_WIDTHS)) {
+        for (const format of formats) {
+            const variant = await render(sharp(original.buffer).resize({ width, withoutEnlargement: true }), format);
+            variants.push({ name, ...variant });
+        }
+    }
+
+    return { original, variants };
+}
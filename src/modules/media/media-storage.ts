@@ -0,0 +1,48 @@
+import { Readable } from "stream";
+import { S3Client } from "@aws-sdk/client-s3";
+
+import { LocalMediaStorage } from "./local-media-storage";
+import { S3MediaStorage } from "./s3-media-storage";
+
+export const MEDIA_STORAGE = "MEDIA_STORAGE";
+
+export interface MediaStorage {
+    readonly driver: string;
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<Readable>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Builds the storage driver selected by MEDIA_STORAGE_DRIVER ("local" by default).
+ * Takes a plain lookup so migrations can share it with the Nest ConfigService.
+ */
+export function createMediaStorage(getConfig: (key: string) => string | undefined): MediaStorage {
+    const driver = (getConfig("MEDIA_STORAGE_DRIVER") || "local").toLowerCase();
+
+    if (driver === "local") {
+        return new LocalMediaStorage(getConfig("MEDIA_LOCAL_PATH") || "uploads/media");
+    }
+
+    if (driver === "s3") {
+        const bucket = getConfig("S3_BUCKET");
+        if (!bucket) {
+            throw new Error("S3_BUCKET must be set when MEDIA_STORAGE_DRIVER is s3");
+        }
+
+        const accessKeyId = getConfig("S3_ACCESS_KEY_ID");
+        const secretAccessKey = getConfig("S3_SECRET_ACCESS_KEY");
+
+        // S3_ENDPOINT and S3_FORCE_PATH_STYLE point the driver at MinIO or another S3-compatible server
+        const client = new S3Client({
+            region: getConfig("S3_REGION") || "us-east-1",
+            endpoint: getConfig("S3_ENDPOINT") || undefined,
+            forcePathStyle: getConfig("S3_FORCE_PATH_STYLE") === "true",
+            credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+        });
+
+        return new S3MediaStorage(client, bucket);
+    }
+
+    throw new Error(`Unknown MEDIA_STORAGE_DRIVER "${driver}", expected "local" or "s3"`);
+}
@@ -0,0 +1,68 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+
+import { Media } from "./media.entity";
+import { MEDIA_CONTENT_TYPES } from "./media.util";
+
+@Entity("media_variants")
+@Index(["media_id", "name", "content_type"], { unique: true })
+export class MediaVariant {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "uuid" })
+    media_id: string;
+
+    @ManyToOne(() => Media, media => media.variants, { onDelete: "CASCADE" })
+    @JoinColumn({ name: "media_id" })
+    media: Media;
+
+    // Key from MEDIA_VARIANT_WIDTHS, e.g. "card"
+    @Column({ type: "varchar", length: 20 })
+    name: string;
+
+    @Column({ type: "varchar", length: 100 })
+    content_type: string;
+
+    @Column({ type: "integer" })
+    width: number;
+
+    @Column({ type: "integer" })
+    height: number;
+
+    // Size in bytes
+    @Column({ type: "integer" })
+    size: number;
+
+    @Column({ unique: true, type: "varchar", length: 500 })
+    storage_key: string;
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    // File name used in the variant URL, e.g. "card.webp"
+    get file_name(): string {
+        return `${this.name}${MEDIA_CONTENT_TYPES[this.content_type] || ""}`;
+    }
+
+    get url(): string {
+        return `/api/media/${this.media_id}/variants/${this.file_name}`;
+    }
+
+    toResponseObject(): {
+        name: string;
+        content_type: string;
+        width: number;
+        height: number;
+        size: number;
+        url: string;
+    } {
+        return {
+            name: this.name,
+            content_type: this.content_type,
+            width: this.width,
+            height: this.height,
+            size: this.size,
+            url: this.url,
+        };
+    }
+}
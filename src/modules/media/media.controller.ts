@@ -0,0 +1,210 @@
+import { Readable } from "stream";
+import { Response } from "express";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { JWTAuthGuard } from "src/auth/guards/jwt-auth.guard";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody, ApiConsumes } from "@nestjs/swagger";
+import { Controller, Get, Post, Param, Delete, HttpStatus, HttpCode, ParseUUIDPipe, UseInterceptors, UseGuards, Request, Query, Logger, Res, Headers, UploadedFile, StreamableFile } from "@nestjs/common";
+
+import { MediaService } from "./media.service";
+import { MEDIA_MAX_FILE_SIZE } from "./media.util";
+import { AuthenticatedRequest } from "../blog/blog.controller";
+import { UploadMediaDTO, MediaListResponseDTO, MediaSingleResponseDTO } from "./media.dto";
+
+@ApiTags("Media")
+@Controller("media")
+export class MediaController {
+    private readonly logger = new Logger(MediaController.name);
+
+    constructor(
+        private readonly mediaService: MediaService
+    ) {}
+
+    @Post()
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.CREATED)
+    @UseInterceptors(FileInterceptor("file", { limits: { fileSize: MEDIA_MAX_FILE_SIZE, files: 1 } }))
+    @ApiConsumes("multipart/form-data")
+    @ApiOperation({ summary: "Upload an image to the media library and generate its variants (Admin only)" })
+    @ApiBody({ type: UploadMediaDTO })
+    @ApiResponse({
+        status: 201,
+        description: "Media uploaded successfully",
+        type: MediaSingleResponseDTO
+    })
+    @ApiResponse({ status: 400, description: "Missing, unsupported, mislabelled or corrupt image" })
+    @ApiResponse({ status: 413, description: "File too large" })
+    async upload(
+        @UploadedFile() file: Express.Multer.File,
+        @Request() req: AuthenticatedRequest
+    ): Promise<MediaSingleResponseDTO> {
+        try {
+            const media = await this.mediaService.upload(file, req.user?.id || req.user?.sub || null);
+
+            return {
+                status_code: HttpStatus.CREATED,
+                message: "Media uploaded successfully",
+                data: media,
+            };
+        } catch (error) {
+            this.logger.error(`Error uploading media: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Get()
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "List the media library (Admin only)" })
+    @ApiQuery({ name: "page", required: false, type: Number, description: "Page number" })
+    @ApiQuery({ name: "limit", required: false, type: Number, description: "Items per page (max 100)" })
+    @ApiResponse({
+        status: 200,
+        description: "Media retrieved successfully",
+        type: MediaListResponseDTO
+    })
+    async findAll(
+        @Query("page") page?: number,
+        @Query("limit") limit?: number,
+    ): Promise<MediaListResponseDTO> {
+        try {
+            const result = await this.mediaService.findAll(page ? Number(page) : 1, limit ? Number(limit) : 20);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Media retrieved successfully",
+                data: result.data,
+                count: result.total,
+                page: result.page,
+                limit: result.limit,
+                total_pages: result.totalPages,
+            };
+        } catch (error) {
+            this.logger.error(`Error retrieving media: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    // Files never change once written, so they can be cached indefinitely
+    private send(
+        res: Response,
+        ifNoneMatch: string | undefined,
+        file: { etag: string; content_type: string; size: number; filename: string; created_at: Date },
+        stream: Readable
+    ): StreamableFile | undefined {
+        const etag = `"${file.etag}"`;
+
+        res.set({
+            "Cache-Control": "public, max-age=31536000, immutable",
+            "ETag": etag,
+            "Last-Modified": file.created_at.toUTCString(),
+            "X-Content-Type-Options": "nosniff",
+        });
+
+        if (ifNoneMatch && ifNoneMatch.split(",").map(tag => tag.trim()).includes(etag)) {
+            stream.destroy();
+            res.status(HttpStatus.NOT_MODIFIED);
+            return undefined;
+        }
+
+        return new StreamableFile(stream, {
+            type: file.content_type,
+            length: file.size,
+            disposition: `inline; filename="${encodeURIComponent(file.filename)}"`,
+        });
+    }
+
+    @Get(":id")
+    @ApiOperation({ summary: "Stream a media file (Public)" })
+    @ApiParam({ name: "id", type: String, description: "Media UUID" })
+    @ApiResponse({ status: 200, description: "File contents with its content type" })
+    @ApiResponse({ status: 304, description: "Not modified" })
+    @ApiResponse({ status: 404, description: "Media not found" })
+    async stream(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Headers("if-none-match") ifNoneMatch: string | undefined,
+        @Res({ passthrough: true }) res: Response
+    ): Promise<StreamableFile | undefined> {
+        const { media, stream } = await this.mediaService.open(id);
+
+        return this.send(res, ifNoneMatch, { ...media, etag: media.checksum }, stream);
+    }
+
+    @Get(":id/variants/:file")
+    @ApiOperation({ summary: "Stream a resized variant of a media file (Public)" })
+    @ApiParam({ name: "id", type: String, description: "Media UUID" })
+    @ApiParam({ name: "file", type: String, description: "Variant name and format, e.g. card.webp or thumbnail.jpg" })
+    @ApiResponse({ status: 200, description: "Variant contents with its content type" })
+    @ApiResponse({ status: 304, description: "Not modified" })
+    @ApiResponse({ status: 404, description: "Media or variant not found" })
+    async streamVariant(
+        @Param("id", ParseUUIDPipe) id: string,
+        @Param("file") file: string,
+        @Headers("if-none-match") ifNoneMatch: string | undefined,
+        @Res({ passthrough: true }) res: Response
+    ): Promise<StreamableFile | undefined> {
+        const { media, variant, stream } = await this.mediaService.openVariant(id, file);
+
+        // Variants are rendered deterministically from the original, so its checksum identifies them too
+        return this.send(res, ifNoneMatch, {
+            etag: `${media.checksum}-${variant.file_name}`,
+            content_type: variant.content_type,
+            size: variant.size,
+            filename: variant.file_name,
+            created_at: variant.created_at,
+        }, stream);
+    }
+
+    @Post(":id/variants")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: "Regenerate the resized variants of a media file (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Media UUID" })
+    @ApiResponse({
+        status: 200,
+        description: "Variants regenerated successfully",
+        type: MediaSingleResponseDTO
+    })
+    @ApiResponse({ status: 404, description: "Media not found" })
+    async regenerateVariants(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<MediaSingleResponseDTO> {
+        try {
+            const media = await this.mediaService.regenerateVariants(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: "Variants regenerated successfully",
+                data: media,
+            };
+        } catch (error) {
+            this.logger.error(`Error regenerating variants: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    @Delete(":id")
+    @UseGuards(JWTAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: "Delete an unused media file (Admin only)" })
+    @ApiParam({ name: "id", type: String, description: "Media UUID" })
+    @ApiResponse({ status: 200, description: "Media deleted successfully" })
+    @ApiResponse({ status: 404, description: "Media not found" })
+    @ApiResponse({ status: 409, description: "Media is still used by a post, as a series cover or as an author avatar" })
+    async remove(
+        @Param("id", ParseUUIDPipe) id: string
+    ): Promise<{ status_code: number; message: string }> {
+        try {
+            const result = await this.mediaService.remove(id);
+
+            return {
+                status_code: HttpStatus.OK,
+                message: result.message,
+            };
+        } catch (error) {
+            this.logger.error(`Error deleting media: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
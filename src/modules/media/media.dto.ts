@@ -0,0 +1,97 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class MediaVariantResponseDTO {
+    @ApiProperty({ description: "Variant name", example: "card" })
+    name: string;
+
+    @ApiProperty({ description: "MIME type" })
+    content_type: string;
+
+    @ApiProperty({ description: "Width in pixels" })
+    width: number;
+
+    @ApiProperty({ description: "Height in pixels" })
+    height: number;
+
+    @ApiProperty({ description: "Size in bytes" })
+    size: number;
+
+    @ApiProperty({ description: "URL of the variant, relative to the API host", example: "/api/media/1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed/variants/card.webp" })
+    url: string;
+}
+
+export class MediaResponseDTO {
+    @ApiProperty({ description: "Media ID" })
+    id: string;
+
+    @ApiProperty({ description: "URL of the file, relative to the API host", example: "/api/media/1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed" })
+    url: string;
+
+    @ApiProperty({ description: "Original filename" })
+    filename: string;
+
+    @ApiProperty({ description: "MIME type" })
+    content_type: string;
+
+    @ApiProperty({ description: "Size in bytes" })
+    size: number;
+
+    @ApiProperty({ description: "Width in pixels", nullable: true })
+    width: number | null;
+
+    @ApiProperty({ description: "Height in pixels", nullable: true })
+    height: number | null;
+
+    @ApiProperty({ description: "Resized variants (thumbnail, card, hero) in the original format and WebP", type: [MediaVariantResponseDTO] })
+    variants: MediaVariantResponseDTO[];
+
+    @ApiProperty({
+        description: "srcset strings keyed by MIME type",
+        type: "object",
+        additionalProperties: { type: "string" },
+        example: { "image/webp": "/api/media/1b9d.../variants/thumbnail.webp 320w, /api/media/1b9d.../variants/card.webp 640w" },
+    })
+    srcset: Record<string, string>;
+
+    @ApiProperty({ description: "Upload date" })
+    created_at: Date;
+}
+
+export class UploadMediaDTO {
+    @ApiProperty({ description: "Image file (JPEG, PNG, GIF or WebP, max 10MB)", type: "string", format: "binary" })
+    file: any;
+}
+
+export class MediaListResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Media array, newest first", type: [MediaResponseDTO] })
+    data: MediaResponseDTO[];
+
+    @ApiProperty({ description: "Total count", required: false })
+    count?: number;
+
+    @ApiProperty({ description: "Current page", required: false })
+    page?: number;
+
+    @ApiProperty({ description: "Items per page", required: false })
+    limit?: number;
+
+    @ApiProperty({ description: "Total pages", required: false })
+    total_pages?: number;
+}
+
+export class MediaSingleResponseDTO {
+    @ApiProperty({ description: "HTTP status code" })
+    status_code: number;
+
+    @ApiProperty({ description: "Response message" })
+    message: string;
+
+    @ApiProperty({ description: "Media data", type: MediaResponseDTO })
+    data: MediaResponseDTO;
+}
@@ -0,0 +1,100 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, OneToMany, JoinColumn } from "typeorm";
+
+import { MediaVariant } from "./media-variant.entity";
+import { Administrator } from "../admin/admin.entity";
+
+@Entity("media")
+export class Media {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    @Column({ type: "varchar", length: 255 })
+    filename: string;
+
+    @Column({ type: "varchar", length: 100 })
+    content_type: string;
+
+    // Size in bytes
+    @Column({ type: "integer" })
+    size: number;
+
+    // Pixel dimensions of the stored original, null for files uploaded before variants existed
+    @Column({ nullable: true, type: "integer" })
+    width: number | null;
+
+    @Column({ nullable: true, type: "integer" })
+    height: number | null;
+
+    // SHA-256 of the file contents, also served as the ETag
+    @Column({ type: "varchar", length: 64 })
+    checksum: string;
+
+    @Column({ type: "varchar", length: 20 })
+    storage_driver: string;
+
+    @Column({ unique: true, type: "varchar", length: 500 })
+    storage_key: string;
+
+    @Column({ nullable: true, type: "uuid" })
+    uploaded_by_id: string | null;
+
+    @ManyToOne(() => Administrator, { eager: false, nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: "uploaded_by_id" })
+    uploaded_by: Administrator | null;
+
+    @OneToMany(() => MediaVariant, variant => variant.media)
+    variants: MediaVariant[];
+
+    @CreateDateColumn({ name: "created_at", type: "timestamp" })
+    created_at: Date;
+
+    // Path of the public streaming route, relative to the API host
+    get url(): string {
+        return `/api/media/${this.id}`;
+    }
+
+    // srcset strings keyed by MIME type, ready for <source type="..." srcset="...">
+    get srcset(): Record<string, string> {
+        const byType: Record<string, Map<number, string>> = {};
+
+        for (const variant of [...(this.variants || [])].sort((a, b) => a.width - b.width)) {
+            if (!byType[variant.content_type]) {
+                byType[variant.content_type] = new Map();
+            }
+            // Small originals produce several variants of the same width, one entry is enough
+            if (!byType[variant.content_type].has(variant.width)) {
+                byType[variant.content_type].set(variant.width, `${variant.url} ${variant.width}w`);
+            }
+        }
+
+        return Object.fromEntries(
+            Object.entries(byType).map(([type, entries]) => [type, [...entries.values()].join(", ")])
+        );
+    }
+
+    toResponseObject(): {
+        id: string;
+        url: string;
+        filename: string;
+        content_type: string;
+        size: number;
+        width: number | null;
+        height: number | null;
+        variants: ReturnType<MediaVariant["toResponseObject"]>[];
+        srcset: Record<string, string>;
+        created_at: Date;
+    } {
+        return {
+            id: this.id,
+            url: this.url,
+            filename: this.filename,
+            content_type: this.content_type,
+            size: this.size,
+            width: this.width,
+            height: this.height,
+            variants: (this.variants || []).map(variant => variant.toResponseObject()),
+            srcset: this.srcset,
+            created_at: this.created_at,
+        };
+    }
+}
@@ -0,0 +1,28 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+
+import { Media } from "./media.entity";
+import { MediaService } from "./media.service";
+import { MediaVariant } from "./media-variant.entity";
+import { MediaController } from "./media.controller";
+import { MEDIA_STORAGE, createMediaStorage } from "./media-storage";
+
+@Module({
+    imports: [
+        ConfigModule,
+        TypeOrmModule.forFeature([Media, MediaVariant])
+    ],
+    controllers: [MediaController],
+    providers: [
+        MediaService,
+        {
+            provide: MEDIA_STORAGE,
+            useFactory: (configService: ConfigService) => createMediaStorage(key => configService.get<string>(key)),
+            inject: [ConfigService]
+        }
+    ],
+    exports: [MediaService]
+})
+
+export class MediaModule {}
@@ -0,0 +1,325 @@
+import { Readable } from "stream";
+import { randomUUID } from "crypto";
+import { Repository, In } from "typeorm";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Injectable, Inject, NotFoundException, BadRequestException, ConflictException, Logger, InternalServerErrorException } from "@nestjs/common";
+
+import { Media } from "./media.entity";
+import { MediaResponseDTO } from "./media.dto";
+import { MediaVariant } from "./media-variant.entity";
+import { MediaStorage, MEDIA_STORAGE } from "./media-storage";
+import { processImage, ProcessedVariant, MEDIA_VARIANT_WIDTHS } from "./media-image";
+import { MEDIA_CONTENT_TYPES, normalizeContentType, detectImageType, sha256, buildStorageKey, buildVariantStorageKey } from "./media.util";
+
+export interface MediaListResult {
+    data: MediaResponseDTO[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+}
+
+@Injectable()
+export class MediaService {
+    private readonly logger = new Logger(MediaService.name);
+
+    constructor(
+        @InjectRepository(Media)
+        private readonly mediaRepository: Repository<Media>,
+        @InjectRepository(MediaVariant)
+        private readonly variantRepository: Repository<MediaVariant>,
+        @Inject(MEDIA_STORAGE)
+        private readonly storage: MediaStorage,
+    ) {}
+
+    private validateId(id: string): void {
+        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+        if (!id || !uuidRegex.test(id)) {
+            throw new BadRequestException("Invalid media ID format");
+        }
+    }
+
+    // Trusts the file's leading bytes, not the client, and requires both to agree
+    private validateFileType(buffer: Buffer, declaredType: string | undefined): string {
+        const contentType = normalizeContentType(declaredType);
+        if (!contentType) {
+            throw new BadRequestException(`Unsupported file type, expected one of: ${Object.keys(MEDIA_CONTENT_TYPES).join(", ")}`);
+        }
+
+        const detectedType = detectImageType(buffer);
+        if (!detectedType) {
+            throw new BadRequestException("File content is not a supported image");
+        }
+
+        if (detectedType !== contentType) {
+            throw new BadRequestException(`File content is ${detectedType} but was declared as ${contentType}`);
+        }
+
+        return contentType;
+    }
+
+    private async process(buffer: Buffer, contentType: string): Promise<Awaited<ReturnType<typeof processImage>>> {
+        try {
+            return await processImage(buffer, contentType);
+        } catch (error) {
+            this.logger.warn(`Image could not be processed: ${error.message}`);
+            throw new BadRequestException("Image is corrupt or could not be decoded");
+        }
+    }
+
+    // Writes variant files and returns unsaved rows; keys written so far are pushed to writtenKeys for cleanup
+    private async storeVariants(media: Media, variants: ProcessedVariant[], writtenKeys: string[]): Promise<MediaVariant[]> {
+        const rows: MediaVariant[] = [];
+
+        for (const variant of variants) {
+            const storageKey = buildVariantStorageKey(media.storage_key, variant.name, variant.content_type);
+            await this.storage.put(storageKey, variant.buffer, variant.content_type);
+            writtenKeys.push(storageKey);
+
+            rows.push(this.variantRepository.create({
+                media_id: media.id,
+                name: variant.name,
+                content_type: variant.content_type,
+                width: variant.width,
+                height: variant.height,
+                size: variant.buffer.length,
+                storage_key: storageKey,
+            }));
+        }
+
+        return rows;
+    }
+
+    async findEntity(id: string): Promise<Media> {
+        this.validateId(id);
+
+        const media = await this.mediaRepository.findOne({ where: { id }, relations: ["variants"] });
+
+        if (!media) {
+            throw new NotFoundException(`Media with ID ${id} not found`);
+        }
+
+        return media;
+    }
+
+    // Loads variants for media joined onto other entities, where joining them would multiply rows
+    async attachVariants(media: Media[]): Promise<void> {
+        if (media.length === 0) {
+            return;
+        }
+
+        const variants = await this.variantRepository.find({
+            where: { media_id: In([...new Set(media.map(item => item.id))]) },
+        });
+
+        media.forEach(item => {
+            item.variants = variants.filter(variant => variant.media_id === item.id);
+        });
+    }
+
+    async upload(file: Express.Multer.File | undefined, uploaded_by_id: string | null = null): Promise<MediaResponseDTO> {
+        const writtenKeys: string[] = [];
+
+        try {
+            if (!file || !file.buffer || file.size === 0) {
+                throw new BadRequestException("A non-empty file is required");
+            }
+
+            const contentType = this.validateFileType(file.buffer, file.mimetype);
+            const { original, variants } = await this.process(file.buffer, contentType);
+
+            const storageKey = buildStorageKey(randomUUID(), contentType);
+            await this.storage.put(storageKey, original.buffer, contentType);
+            writtenKeys.push(storageKey);
+
+            const media = await this.mediaRepository.manager.transaction(async manager => {
+                const saved = await manager.save(this.mediaRepository.create({
+                    filename: (file.originalname || "upload").slice(0, 255),
+                    content_type: contentType,
+                    size: original.buffer.length,
+                    width: original.width,
+                    height: original.height,
+                    checksum: sha256(original.buffer),
+                    storage_driver: this.storage.driver,
+                    storage_key: storageKey,
+                    uploaded_by_id,
+                }));
+
+                saved.variants = await manager.save(await this.storeVariants(saved, variants, writtenKeys));
+                return saved;
+            });
+
+            this.logger.log(`📸 Media uploaded with ID: ${media.id} (${media.size} bytes, ${media.variants.length} variants, ${this.storage.driver})`);
+
+            return media.toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error uploading media: ${error.message}`, error.stack);
+
+            // Don't leave orphaned files behind when the upload fails part way
+            await Promise.all(writtenKeys.map(key => this.storage.delete(key).catch(() => undefined)));
+
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to upload media");
+        }
+    }
+
+    // Rebuilds the variants of an existing file, e.g. one moved over from base64 before variants existed
+    async regenerateVariants(id: string): Promise<MediaResponseDTO> {
+        const writtenKeys: string[] = [];
+
+        try {
+            const media = await this.findEntity(id);
+
+            const chunks: Buffer[] = [];
+            for await (const chunk of await this.storage.get(media.storage_key)) {
+                chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+            }
+
+            const { original, variants } = await this.process(Buffer.concat(chunks), media.content_type);
+            const previous = media.variants || [];
+
+            // Old files are only removed once the new rows are committed; unchanged keys are simply overwritten
+            media.variants = await this.mediaRepository.manager.transaction(async manager => {
+                await manager.delete(MediaVariant, { media_id: media.id });
+                await manager.update(Media, { id: media.id }, { width: original.width, height: original.height });
+                return await manager.save(await this.storeVariants(media, variants, writtenKeys));
+            });
+            media.width = original.width;
+            media.height = original.height;
+
+            const stale = previous.filter(variant => !writtenKeys.includes(variant.storage_key));
+            await Promise.all(stale.map(variant => this.storage.delete(variant.storage_key).catch(() => undefined)));
+
+            this.logger.log(`🖼️ Regenerated ${media.variants.length} variants for media ${id}`);
+
+            return media.toResponseObject();
+        } catch (error) {
+            this.logger.error(`Error regenerating variants: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to regenerate variants");
+        }
+    }
+
+    async findAll(page: number = 1, limit: number = 20): Promise<MediaListResult> {
+        try {
+            const take = Math.min(Math.max(limit, 1), 100);
+            const skip = (Math.max(page, 1) - 1) * take;
+
+            const [media, total] = await this.mediaRepository.findAndCount({
+                order: { created_at: "DESC" },
+                skip,
+                take,
+            });
+            await this.attachVariants(media);
+
+            return {
+                data: media.map(item => item.toResponseObject()),
+                total,
+                page: Math.max(page, 1),
+                limit: take,
+                totalPages: Math.ceil(total / take),
+            };
+        } catch (error) {
+            this.logger.error(`Error finding media: ${error.message}`, error.stack);
+            throw new InternalServerErrorException("Failed to retrieve media");
+        }
+    }
+
+    async findOne(id: string): Promise<MediaResponseDTO> {
+        return (await this.findEntity(id)).toResponseObject();
+    }
+
+    async open(id: string): Promise<{ media: Media; stream: Readable }> {
+        try {
+            const media = await this.findEntity(id);
+            const stream = await this.storage.get(media.storage_key);
+
+            return { media, stream };
+        } catch (error) {
+            this.logger.error(`Error opening media ${id}: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to read media");
+        }
+    }
+
+    // fileName is the variant name plus extension, e.g. "card.webp"
+    async openVariant(id: string, fileName: string): Promise<{ media: Media; variant: MediaVariant; stream: Readable }> {
+        try {
+            const media = await this.findEntity(id);
+            const variant = (media.variants || []).find(item => item.file_name === fileName);
+
+            if (!variant) {
+                const [name] = (fileName || "").split(".");
+                throw new NotFoundException(MEDIA_VARIANT_WIDTHS[name]
+                    ? `Variant ${fileName} has not been generated for media ${id}`
+                    : `Unknown variant ${fileName}`);
+            }
+
+            const stream = await this.storage.get(variant.storage_key);
+
+            return { media, variant, stream };
+        } catch (error) {
+            this.logger.error(`Error opening media variant ${id}/${fileName}: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to read media");
+        }
+    }
+
+    async remove(id: string): Promise<{ message: string }> {
+        try {
+            const media = await this.findEntity(id);
+
+            const [{ count, series_count, avatar_count }] = await this.mediaRepository.query(
+                `SELECT
+                    (SELECT COUNT(*)::int FROM blog_posts WHERE featured_media_id = $1 OR social_image_media_id = $1) AS count,
+                    (SELECT COUNT(*)::int FROM blog_series WHERE cover_media_id = $1) AS series_count,
+                    (SELECT COUNT(*)::int FROM blog_author_profiles WHERE avatar_media_id = $1) AS avatar_count`,
+                [id]
+            );
+
+            if (count > 0) {
+                throw new ConflictException(`Media is used by ${count} post(s)`);
+            }
+
+            if (series_count > 0) {
+                throw new ConflictException(`Media is the cover of ${series_count} series`);
+            }
+
+            if (avatar_count > 0) {
+                throw new ConflictException(`Media is the avatar of ${avatar_count} author profile(s)`);
+            }
+
+            const keys = [media.storage_key, ...(media.variants || []).map(variant => variant.storage_key)];
+
+            // Variant rows go with the ON DELETE CASCADE on media_variants
+            await this.mediaRepository.remove(media);
+            await Promise.all(keys.map(key => this.storage.delete(key)));
+            this.logger.log(`Media deleted with ID: ${id}`);
+
+            return { message: "Media deleted successfully" };
+        } catch (error) {
+            this.logger.error(`Error deleting media: ${error.message}`, error.stack);
+
+            if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ConflictException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException("Failed to delete media");
+        }
+    }
+}
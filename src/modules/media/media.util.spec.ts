@@ -0,0 +1,61 @@
+import { decodeBase64Image, normalizeContentType, detectImageType, buildStorageKey, buildVariantStorageKey } from "./media.util";
+
+describe("media.util", () => {
+    describe("normalizeContentType", () => {
+        it("should accept supported image types", () => {
+            expect(normalizeContentType("image/PNG")).toBe("image/png");
+            expect(normalizeContentType("image/jpg")).toBe("image/jpeg");
+        });
+
+        it("should reject anything else", () => {
+            expect(normalizeContentType("image/svg+xml")).toBeNull();
+            expect(normalizeContentType(null)).toBeNull();
+        });
+    });
+
+    describe("detectImageType", () => {
+        const pad = (bytes: number[] | string) => Buffer.concat([typeof bytes === "string" ? Buffer.from(bytes, "latin1") : Buffer.from(bytes), Buffer.alloc(16)]);
+
+        it("should recognise each supported format by its magic bytes", () => {
+            expect(detectImageType(pad([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+            expect(detectImageType(pad([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe("image/png");
+            expect(detectImageType(pad("GIF89a"))).toBe("image/gif");
+            expect(detectImageType(pad("RIFF\x00\x00\x00\x00WEBPVP8 "))).toBe("image/webp");
+        });
+
+        it("should not trust anything else", () => {
+            expect(detectImageType(pad("<svg xmlns"))).toBeNull();
+            expect(detectImageType(pad("RIFF\x00\x00\x00\x00WAVEfmt "))).toBeNull();
+            expect(detectImageType(Buffer.from([0xff, 0xd8]))).toBeNull();
+        });
+    });
+
+    describe("decodeBase64Image", () => {
+        it("should decode data URIs and take the type from them", () => {
+            const decoded = decodeBase64Image("data:image/png;base64,aGVsbG8=", "image/gif");
+            expect(decoded?.buffer.toString()).toBe("hello");
+            expect(decoded?.contentType).toBe("image/png");
+        });
+
+        it("should decode bare base64 using the fallback type", () => {
+            const decoded = decodeBase64Image("aGVs\nbG8=", "image/webp");
+            expect(decoded?.buffer.toString()).toBe("hello");
+            expect(decoded?.contentType).toBe("image/webp");
+        });
+
+        it("should return null when nothing decodes", () => {
+            expect(decodeBase64Image("", "image/png")).toBeNull();
+            expect(decodeBase64Image("data:image/png;base64,", "image/png")).toBeNull();
+        });
+    });
+
+    describe("buildStorageKey", () => {
+        it("should place keys in year/month folders with an extension", () => {
+            expect(buildStorageKey("abc", "image/webp", new Date(Date.UTC(2026, 0, 5)))).toBe("2026/01/abc.webp");
+        });
+
+        it("should nest variants under their original", () => {
+            expect(buildVariantStorageKey("2026/01/abc.jpg", "card", "image/webp")).toBe("2026/01/abc/card.webp");
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+
+// Upper bound for a single upload, enforced by multer before the file reaches the service
+export const MEDIA_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export const MEDIA_CONTENT_TYPES: Record<string, string> = {
+    "image/jpeg": ".jpg",
+    "image/png": ".png",
+    "image/gif": ".gif",
+    "image/webp": ".webp",
+};
+
+export function normalizeContentType(contentType: string | null | undefined): string | null {
+    const normalized = (contentType || "").split(";")[0].trim().toLowerCase();
+    if (normalized === "image/jpg") {
+        return "image/jpeg";
+    }
+    return MEDIA_CONTENT_TYPES[normalized] ? normalized : null;
+}
+
+// Identifies an image from its leading bytes rather than trusting the declared type
+export function detectImageType(buffer: Buffer): string | null {
+    if (!buffer || buffer.length < 12) {
+        return null;
+    }
+
+    if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return "image/jpeg";
+    }
+
+    if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return "image/png";
+    }
+
+    const gifHeader = buffer.toString("ascii", 0, 6);
+    if (gifHeader === "GIF87a" || gifHeader === "GIF89a") {
+        return "image/gif";
+    }
+
+    // WebP is a RIFF container with the format tag at offset 8
+    if (buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+        return "image/webp";
+    }
+
+    return null;
+}
+
+export function sha256(buffer: Buffer): string {
+    return createHash("sha256").update(buffer).digest("hex");
+}
+
+// Keys are spread over year/month folders so no single directory or prefix grows unbounded
+export function buildStorageKey(id: string, contentType: string, date: Date = new Date()): string {
+    const year = date.getUTCFullYear();
+    const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+    return `${year}/${month}/${id}${MEDIA_CONTENT_TYPES[contentType] || ""}`;
+}
+
+// Variants live next to their original: 2026/10/<id>.jpg -> 2026/10/<id>/card.webp
+export function buildVariantStorageKey(originalKey: string, name: string, contentType: string): string {
+    return `${originalKey.replace(/\.[^./]+$/, "")}/${name}${MEDIA_CONTENT_TYPES[contentType] || ""}`;
+}
+
+/**
+ * Decodes the base64 image strings the blog used to store inline, either bare
+ * or as a `data:<type>;base64,` URI. Returns null when nothing decodable is left.
+ */
+export function decodeBase64Image(value: string, fallbackContentType: string | null): { buffer: Buffer; contentType: string | null } | null {
+    if (!value || typeof value !== "string") {
+        return null;
+    }
+
+    const dataUri = /^data:([^;,]+)(?:;[^,]*)?;base64,/i.exec(value);
+    const payload = dataUri ? value.slice(dataUri[0].length) : value;
+    const buffer = Buffer.from(payload.replace(/\s+/g, ""), "base64");
+
+    if (buffer.length === 0) {
+        return null;
+    }
+
+    return {
+        buffer,
+        contentType: normalizeContentType(dataUri ? dataUri[1] : fallbackContentType),
+    };
+}
@@ -0,0 +1,63 @@
+import { Readable } from "stream";
+import { NotFoundException } from "@nestjs/common";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, NoSuchKey } from "@aws-sdk/client-s3";
+
+import { S3MediaStorage } from "./s3-media-storage";
+
+describe("S3MediaStorage", () => {
+    const createStorage = () => {
+        const send = jest.fn<Promise<unknown>, [object]>();
+        const storage = new S3MediaStorage({ send } as unknown as S3Client, "media-bucket");
+
+        return { storage, send };
+    };
+
+    it("should upload an object with its content type", async () => {
+        const { storage, send } = createStorage();
+        send.mockResolvedValue({});
+        const body = Buffer.from("photo");
+
+        await storage.put("2026/05/photo.jpg", body, "image/jpeg");
+
+        const command = send.mock.calls[0][0] as PutObjectCommand;
+        expect(command).toBeInstanceOf(PutObjectCommand);
+        expect(command.input).toEqual({ Bucket: "media-bucket", Key: "2026/05/photo.jpg", Body: body, ContentType: "image/jpeg" });
+    });
+
+    it("should return the object body as a stream", async () => {
+        const { storage, send } = createStorage();
+        const body = Readable.from(["photo"]);
+        send.mockResolvedValue({ Body: body });
+
+        await expect(storage.get("2026/05/photo.jpg")).resolves.toBe(body);
+
+        const command = send.mock.calls[0][0] as GetObjectCommand;
+        expect(command).toBeInstanceOf(GetObjectCommand);
+        expect(command.input).toEqual({ Bucket: "media-bucket", Key: "2026/05/photo.jpg" });
+    });
+
+    it("should report a missing object as not found", async () => {
+        const { storage, send } = createStorage();
+        send.mockRejectedValue(new NoSuchKey({ message: "The specified key does not exist.", $metadata: {} }));
+
+        await expect(storage.get("missing.jpg")).rejects.toThrow(NotFoundException);
+    });
+
+    it("should pass other errors through", async () => {
+        const { storage, send } = createStorage();
+        send.mockRejectedValue(new Error("Access Denied"));
+
+        await expect(storage.get("2026/05/photo.jpg")).rejects.toThrow("Access Denied");
+    });
+
+    it("should delete an object", async () => {
+        const { storage, send } = createStorage();
+        send.mockResolvedValue({});
+
+        await storage.delete("2026/05/photo.jpg");
+
+        const command = send.mock.calls[0][0] as DeleteObjectCommand;
+        expect(command).toBeInstanceOf(DeleteObjectCommand);
+        expect(command.input).toEqual({ Bucket: "media-bucket", Key: "2026/05/photo.jpg" });
+    });
+});
@@ -0,0 +1,39 @@
+import { Readable } from "stream";
+import { NotFoundException } from "@nestjs/common";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, NoSuchKey } from "@aws-sdk/client-s3";
+
+import { MediaStorage } from "./media-storage";
+
+export class S3MediaStorage implements MediaStorage {
+    readonly driver = "s3";
+
+    constructor(
+        private readonly client: S3Client,
+        private readonly bucket: string,
+    ) {}
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+        }));
+    }
+
+    async get(key: string): Promise<Readable> {
+        try {
+            const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+            return object.Body as Readable;
+        } catch (error) {
+            if (error instanceof NoSuchKey) {
+                throw new NotFoundException("Media file is missing from storage");
+            }
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+}
@@ -0,0 +1,86 @@
+import { Request as ExpressRequest, Response } from "express";
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiProduces } from "@nestjs/swagger";
+import { Controller, Get, Param, HttpStatus, NotFoundException, Logger, Req, Res } from "@nestjs/common";
+
+import { SitemapService, RenderedSitemapDocument } from "./sitemap.service";
+
+// Served from the site root (excluded from the "api" prefix in main.ts), where crawlers look for them
+@ApiTags("Sitemap")
+@Controller()
+export class SitemapController {
+    private readonly logger = new Logger(SitemapController.name);
+
+    constructor(
+        private readonly sitemapService: SitemapService
+    ) {}
+
+    private send(req: ExpressRequest, res: Response, document: RenderedSitemapDocument): string | undefined {
+        res.set({
+            "Content-Type": "application/xml; charset=utf-8",
+            "Cache-Control": "public, max-age=3600",
+            "ETag": document.etag,
+        });
+        if (document.last_modified) {
+            res.set("Last-Modified", document.last_modified.toUTCString());
+        }
+
+        if (req.fresh) {
+            res.status(HttpStatus.NOT_MODIFIED);
+            return undefined;
+        }
+
+        return document.body;
+    }
+
+    @Get("sitemap.xml")
+    @ApiOperation({ summary: "Sitemap of static routes, category pages and published posts (Public)" })
+    @ApiProduces("application/xml")
+    @ApiResponse({ status: 200, description: "Sitemap, or a sitemap index once there are more than 50,000 URLs" })
+    @ApiResponse({ status: 304, description: "Sitemap unchanged since the given ETag or date" })
+    async sitemap(
+        @Req() req: ExpressRequest,
+        @Res({ passthrough: true }) res: Response
+    ): Promise<string | undefined> {
+        const document = await this.sitemapService.renderRoot();
+        return this.send(req, res, document);
+    }
+
+    @Get("sitemap-:page.xml")
+    @ApiOperation({ summary: "One page of a split sitemap (Public)" })
+    @ApiParam({ name: "page", description: "Page number, starting at 1" })
+    @ApiProduces("application/xml")
+    @ApiResponse({ status: 200, description: "Sitemap page" })
+    @ApiResponse({ status: 304, description: "Sitemap page unchanged since the given ETag or date" })
+    @ApiResponse({ status: 404, description: "Sitemap page not found" })
+    async sitemapPage(
+        @Param("page") page: string,
+        @Req() req: ExpressRequest,
+        @Res({ passthrough: true }) res: Response
+    ): Promise<string | undefined> {
+        if (!/^[1-9]\d*$/.test(page)) {
+            throw new NotFoundException(`Sitemap page ${page} not found`);
+        }
+
+        const document = await this.sitemapService.renderPage(parseInt(page, 10));
+        return this.send(req, res, document);
+    }
+
+    @Get("robots.txt")
+    @ApiOperation({ summary: "Crawler rules, configured with ROBOTS_DISALLOW and ROBOTS_DISALLOW_ALL (Public)" })
+    @ApiProduces("text/plain")
+    @ApiResponse({ status: 200, description: "robots.txt" })
+    robots(
+        @Res({ passthrough: true }) res: Response
+    ): string {
+        try {
+            res.set({
+                "Content-Type": "text/plain; charset=utf-8",
+                "Cache-Control": "public, max-age=3600",
+            });
+            return this.sitemapService.renderRobots();
+        } catch (error) {
+            this.logger.error(`Error rendering robots.txt: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+}
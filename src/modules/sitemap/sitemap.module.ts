@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+
+import { SitemapService } from "./sitemap.service";
+import { SitemapController } from "./sitemap.controller";
+import { BlogPostModule } from "../blog/blog.module";
+
+@Module({
+    imports: [BlogPostModule],
+    controllers: [SitemapController],
+    providers: [SitemapService],
+})
+
+export class SitemapModule {}
@@ -0,0 +1,194 @@
+import { createHash } from "crypto";
+import { Subscription } from "rxjs";
+import { ConfigService } from "@nestjs/config";
+import { Injectable, Logger, NotFoundException, OnModuleInit, OnModuleDestroy } from "@nestjs/common";
+
+import { BlogPostService } from "../blog/blog.service";
+import { BlogCategoryService } from "../blog/blog-category.service";
+import { SITEMAP_MAX_URLS, SitemapUrl, renderUrlset, renderSitemapIndex, renderRobots, latestModification } from "./sitemap.util";
+
+// Upper bound for serving a cached sitemap; post changes reset it immediately
+export const SITEMAP_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Rendered documents kept at once; the oldest is dropped first
+export const SITEMAP_MAX_CACHED_DOCUMENTS = 50;
+
+export interface RenderedSitemapDocument {
+    body: string;
+    etag: string;
+    last_modified: Date | null;
+}
+
+@Injectable()
+export class SitemapService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(SitemapService.name);
+
+    private urls: { value: SitemapUrl[]; built_at: number } | null = null;
+    private readonly documents = new Map<string, RenderedSitemapDocument>();
+    private subscription: Subscription | null = null;
+
+    constructor(
+        private readonly blogPostService: BlogPostService,
+        private readonly categoryService: BlogCategoryService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    // Without a configured base URL the sitemap would link to whatever Host a request claims
+    onModuleInit(): void {
+        void this.baseUrl;
+        this.subscription = this.blogPostService.publicPostsChanged.subscribe(() => this.invalidate());
+    }
+
+    onModuleDestroy(): void {
+        this.subscription?.unsubscribe();
+    }
+
+    invalidate(): void {
+        if (this.urls) {
+            this.logger.log("🗺️ Public posts changed, clearing cached sitemap");
+        }
+        this.urls = null;
+        this.documents.clear();
+    }
+
+    private get siteUrl(): string {
+        return (this.configService.get<string>("FRONTEND_URL") || "http://localhost:3000").replace(/\/+$/, "");
+    }
+
+    private get staticRoutes(): string[] {
+        return (this.configService.get<string>("SITEMAP_STATIC_ROUTES") || "/,/blog")
+            .split(",")
+            .map(route => route.trim())
+            .filter(route => route.length > 0)
+            .map(route => route.startsWith("/") ? route : `/${route}`);
+    }
+
+    // Where sitemap files are linked from, i.e. the public origin of this API
+    private get baseUrl(): string {
+        const baseUrl = this.configService.get<string>("SITEMAP_BASE_URL");
+        if (!baseUrl) {
+            throw new Error("SITEMAP_BASE_URL must be set to link sitemap files");
+        }
+        return baseUrl.replace(/\/+$/, "");
+    }
+
+    private async getUrls(): Promise<SitemapUrl[]> {
+        if (this.urls && Date.now() - this.urls.built_at < SITEMAP_CACHE_TTL_MS) {
+            return this.urls.value;
+        }
+
+        const [posts, categories] = await Promise.all([
+            this.blogPostService.findSitemapEntries(),
+            this.categoryService.findAll(),
+        ]);
+
+        // A category page changes when the category itself or any of its posts does
+        const categoryModified = new Map<string, Date>(
+            categories.map(category => [category.slug, new Date(category.updated_at)])
+        );
+        for (const post of posts) {
+            for (const slug of post.categories) {
+                const current = categoryModified.get(slug);
+                if (current && post.updated_at > current) {
+                    categoryModified.set(slug, post.updated_at);
+                }
+            }
+        }
+
+        const value: SitemapUrl[] = [
+            ...this.staticRoutes.map(route => ({ loc: `${this.siteUrl}${route}`, lastmod: null })),
+            ...categories.map(category => ({
+                loc: `${this.siteUrl}/blog/category/${encodeURIComponent(category.slug)}`,
+                lastmod: categoryModified.get(category.slug) || null,
+            })),
+            ...posts.map(post => ({
+                loc: `${this.siteUrl}/blog/${encodeURIComponent(post.slug)}`,
+                lastmod: new Date(post.updated_at),
+            })),
+        ];
+
+        this.urls = { value, built_at: Date.now() };
+        this.documents.clear();
+        this.logger.log(`🗺️ Built sitemap with ${value.length} URLs`);
+
+        return value;
+    }
+
+    private toDocument(key: string, body: string, lastModified: Date | null): RenderedSitemapDocument {
+        const document: RenderedSitemapDocument = {
+            body,
+            etag: `"${createHash("sha1").update(body).digest("hex")}"`,
+            last_modified: lastModified,
+        };
+        if (this.documents.size >= SITEMAP_MAX_CACHED_DOCUMENTS) {
+            this.documents.delete(this.documents.keys().next().value as string);
+        }
+        this.documents.set(key, document);
+        return document;
+    }
+
+    /**
+     * The sitemap at /sitemap.xml: a plain urlset while the site fits in one file,
+     * otherwise an index pointing at /sitemap-<n>.xml pages.
+     */
+    async renderRoot(): Promise<RenderedSitemapDocument> {
+        try {
+            const urls = await this.getUrls();
+            const key = "root";
+            const cached = this.documents.get(key);
+            if (cached) {
+                return cached;
+            }
+
+            if (urls.length <= SITEMAP_MAX_URLS) {
+                return this.toDocument(key, renderUrlset(urls), latestModification(urls));
+            }
+
+            const sitemaps: SitemapUrl[] = [];
+            for (let page = 1; (page - 1) * SITEMAP_MAX_URLS < urls.length; page++) {
+                sitemaps.push({
+                    loc: `${this.baseUrl}/sitemap-${page}.xml`,
+                    lastmod: latestModification(urls.slice((page - 1) * SITEMAP_MAX_URLS, page * SITEMAP_MAX_URLS)),
+                });
+            }
+
+            return this.toDocument(key, renderSitemapIndex(sitemaps), latestModification(urls));
+        } catch (error) {
+            this.logger.error(`Error rendering sitemap: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    async renderPage(page: number): Promise<RenderedSitemapDocument> {
+        try {
+            const urls = await this.getUrls();
+            const key = `page|${page}`;
+            const cached = this.documents.get(key);
+            if (cached) {
+                return cached;
+            }
+
+            const slice = urls.slice((page - 1) * SITEMAP_MAX_URLS, page * SITEMAP_MAX_URLS);
+            // Pages only exist once the root sitemap has become an index
+            if (urls.length <= SITEMAP_MAX_URLS || page < 1 || slice.length === 0) {
+                throw new NotFoundException(`Sitemap page ${page} not found`);
+            }
+
+            return this.toDocument(key, renderUrlset(slice), latestModification(slice));
+        } catch (error) {
+            this.logger.error(`Error rendering sitemap page ${page}: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    renderRobots(): string {
+        return renderRobots({
+            disallow_all: this.configService.get<string>("ROBOTS_DISALLOW_ALL") === "true",
+            disallow: (this.configService.get<string>("ROBOTS_DISALLOW") || "")
+                .split(",")
+                .map(path => path.trim())
+                .filter(path => path.length > 0),
+            sitemap_url: `${this.baseUrl}/sitemap.xml`,
+        });
+    }
+}
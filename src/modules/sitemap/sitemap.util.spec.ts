@@ -0,0 +1,52 @@
+import { renderUrlset, renderSitemapIndex, renderRobots, latestModification } from "./sitemap.util";
+
+describe("sitemap.util", () => {
+    describe("renderUrlset", () => {
+        it("should escape locations and only emit lastmod when known", () => {
+            const xml = renderUrlset([
+                { loc: "https://example.com/", lastmod: null },
+                { loc: "https://example.com/blog/a&b", lastmod: new Date("2026-03-02T10:00:00Z") },
+            ]);
+
+            expect(xml).toContain(`<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`);
+            expect(xml).toContain("<loc>https://example.com/</loc>\n  </url>");
+            expect(xml).toContain("<loc>https://example.com/blog/a&amp;b</loc>\n    <lastmod>2026-03-02T10:00:00.000Z</lastmod>");
+        });
+    });
+
+    describe("renderSitemapIndex", () => {
+        it("should list sitemap files", () => {
+            const xml = renderSitemapIndex([{ loc: "https://example.com/sitemap-1.xml", lastmod: null }]);
+            expect(xml).toContain("<sitemapindex");
+            expect(xml).toContain("<sitemap>\n    <loc>https://example.com/sitemap-1.xml</loc>\n  </sitemap>");
+        });
+    });
+
+    describe("renderRobots", () => {
+        it("should allow everything by default and point at the sitemap", () => {
+            expect(renderRobots({ disallow_all: false, disallow: [], sitemap_url: "https://example.com/sitemap.xml" }))
+                .toBe("User-agent: *\nAllow: /\n\nSitemap: https://example.com/sitemap.xml\n");
+        });
+
+        it("should block everything when disallow_all is set", () => {
+            expect(renderRobots({ disallow_all: true, disallow: ["/admin"], sitemap_url: "https://example.com/sitemap.xml" }))
+                .toContain("User-agent: *\nDisallow: /\n");
+        });
+
+        it("should list configured paths", () => {
+            expect(renderRobots({ disallow_all: false, disallow: ["/admin", "/api/"], sitemap_url: "https://example.com/sitemap.xml" }))
+                .toContain("Disallow: /admin\nDisallow: /api/\n");
+        });
+    });
+
+    describe("latestModification", () => {
+        it("should ignore missing dates", () => {
+            expect(latestModification([
+                { loc: "a", lastmod: new Date("2026-01-01T00:00:00Z") },
+                { loc: "b", lastmod: null },
+                { loc: "c", lastmod: new Date("2026-02-01T00:00:00Z") },
+            ])).toEqual(new Date("2026-02-01T00:00:00Z"));
+            expect(latestModification([{ loc: "a", lastmod: null }])).toBeNull();
+        });
+    });
+});
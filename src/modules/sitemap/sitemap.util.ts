@@ -0,0 +1,62 @@
+import { escapeXml } from "../blog/blog-feed.util";
+
+// Protocol limit per sitemap file; larger sites are split and listed from a sitemap index
+export const SITEMAP_MAX_URLS = 50000;
+
+export interface SitemapUrl {
+    loc: string;
+    lastmod: Date | null;
+}
+
+export interface RobotsOptions {
+    disallow_all: boolean;
+    disallow: string[];
+    sitemap_url: string;
+}
+
+function renderLocations(tag: "url" | "sitemap", urls: SitemapUrl[]): string[] {
+    return urls.map(url => [
+        `  <${tag}>`,
+        `    <loc>${escapeXml(url.loc)}</loc>`,
+        ...(url.lastmod ? [`    <lastmod>${url.lastmod.toISOString()}</lastmod>`] : []),
+        `  </${tag}>`,
+    ].join("\n"));
+}
+
+export function renderUrlset(urls: SitemapUrl[]): string {
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+        ...renderLocations("url", urls),
+        "</urlset>",
+        "",
+    ].join("\n");
+}
+
+export function renderSitemapIndex(sitemaps: SitemapUrl[]): string {
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+        ...renderLocations("sitemap", sitemaps),
+        "</sitemapindex>",
+        "",
+    ].join("\n");
+}
+
+export function renderRobots(options: RobotsOptions): string {
+    const rules = options.disallow_all
+        ? ["Disallow: /"]
+        : options.disallow.length > 0
+            ? options.disallow.map(path => `Disallow: ${path}`)
+            : ["Allow: /"];
+
+    return ["User-agent: *", ...rules, "", `Sitemap: ${options.sitemap_url}`, ""].join("\n");
+}
+
+// Newest lastmod in a list, used as the lastmod of a sitemap file in the index
+export function latestModification(urls: SitemapUrl[]): Date | null {
+    return urls.reduce<Date | null>(
+        (latest, url) => url.lastmod && (!latest || url.lastmod > latest) ? url.lastmod : latest,
+        null
+    );
+}